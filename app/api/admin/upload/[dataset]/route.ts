@@ -0,0 +1,118 @@
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import { applyValidatedUpload } from '@/lib/upload/apply-upload';
+import { getUploadDataset } from '@/lib/upload/datasets';
+import { buildUploadPlan } from '@/lib/upload/dry-run';
+import { authorizeUploadRequest, parseUploadSource, readUploadRequestBody } from '@/lib/upload/route-helpers';
+import { MAX_UPLOAD_RECORDS, validateUploadRecords } from '@/lib/upload/validation';
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ dataset: string }> }
+) {
+  const { dataset: datasetId } = await params;
+  const dataset = getUploadDataset(datasetId);
+
+  if (!dataset) {
+    return NextResponse.json({ error: `Unknown upload dataset: ${datasetId}` }, { status: 404 });
+  }
+
+  try {
+    // Check authentication and admin role
+    const auth = await authorizeUploadRequest();
+    if (auth.response) return auth.response;
+    const { supabase, userId } = auth;
+
+    const parsed = await readUploadRequestBody(request);
+    if (parsed.response) return parsed.response;
+
+    const records = parsed.body.data;
+    const source = parseUploadSource(parsed.body.source);
+    const dryRun = parsed.body.dryRun === true;
+    const allowUnknownCodes = parsed.body.allowUnknownCodes === true;
+
+    if (!records || !Array.isArray(records) || records.length === 0) {
+      return NextResponse.json({ error: 'Invalid data format' }, { status: 400 });
+    }
+
+    if (records.length > MAX_UPLOAD_RECORDS) {
+      return NextResponse.json({
+        error: 'Payload too large',
+        details: `Upload requests are limited to ${MAX_UPLOAD_RECORDS} records (got ${records.length})`
+      }, { status: 413 });
+    }
+
+    // Re-check every record server-side; rejected rows are reported back, not uploaded
+    const validation = await validateUploadRecords(supabase, dataset, records, { allowUnknownCodes });
+    const { rejected } = validation;
+
+    if (validation.records.length === 0) {
+      return NextResponse.json({
+        error: 'No valid records',
+        details: `All ${records.length} record${records.length !== 1 ? 's were' : ' was'} rejected by validation`,
+        rejected
+      }, { status: 422 });
+    }
+
+    // Dry run - report what the upload would do without writing anything
+    if (dryRun) {
+      const plan = await buildUploadPlan(supabase, dataset, validation.records);
+
+      // Plan entries point at validated records; report them by payload position
+      const toPayloadIndex = <T extends { index: number }>(entry: T): T => ({
+        ...entry,
+        index: validation.indexes[entry.index]
+      });
+
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        message: `Dry run: ${plan.newCount} new, ${plan.replacedCount} duplicate${plan.replacedCount !== 1 ? 's' : ''} refreshed, ${rejected.length} rejected`,
+        plan: {
+          ...plan,
+          replaced: plan.replaced.map(toPayloadIndex),
+          revised: plan.revised.map(toPayloadIndex)
+        },
+        rejected
+      });
+    }
+
+    // Fall back to hashing the records when the client did not hash the source
+    const fileHash = source.fileHash ?? createHash('sha256').update(JSON.stringify(records)).digest('hex');
+
+    const applied = await applyValidatedUpload(supabase, dataset, validation, {
+      userId,
+      fileName: source.fileName,
+      fileHash,
+      rowCount: records.length
+    });
+
+    if (!applied.success) {
+      return NextResponse.json(
+        { error: applied.error, details: applied.details, debugInfo: applied.debugInfo, rejected },
+        { status: applied.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Upload completed successfully`,
+      batchId: applied.batchId,
+      stats: {
+        recordsProcessed: records.length,
+        recordsInserted: applied.recordsInserted,
+        recordsUpdated: applied.recordsUpdated,
+        errors: applied.errors.length + rejected.length
+      },
+      errors: applied.errors.length > 0 ? applied.errors : undefined,
+      rejected: rejected.length > 0 ? rejected : undefined
+    });
+
+  } catch (error) {
+    console.error(`${dataset.label} upload error:`, error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextResponse } from 'next/server';
+import { getUploadDataset } from '@/lib/upload/datasets';
+import { authorizeUploadRequest, readUploadRequestBody } from '@/lib/upload/route-helpers';
+import { formatRejectedRows, MAX_UPLOAD_RECORDS, validateUploadRecords } from '@/lib/upload/validation';
+
+/**
+ * Upload one chunk of an upload session. Chunks are applied exactly once, so a
+ * retried chunk returns its original result instead of inserting again.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ dataset: string; sessionId: string; chunkIndex: string }> }
+) {
+  const { dataset: datasetId, sessionId, chunkIndex: chunkParam } = await params;
+  const dataset = getUploadDataset(datasetId);
+  const chunkIndex = Number(chunkParam);
+
+  if (!dataset) {
+    return NextResponse.json({ error: `Unknown upload dataset: ${datasetId}` }, { status: 404 });
+  }
+
+  if (!Number.isInteger(chunkIndex) || chunkIndex < 0) {
+    return NextResponse.json({ error: `Invalid chunk index: ${chunkParam}` }, { status: 400 });
+  }
+
+  try {
+    const auth = await authorizeUploadRequest();
+    if (auth.response) return auth.response;
+    const { supabase } = auth;
+
+    const parsed = await readUploadRequestBody(request);
+    if (parsed.response) return parsed.response;
+
+    const records = parsed.body.data;
+    const allowUnknownCodes = parsed.body.allowUnknownCodes === true;
+
+    if (!Array.isArray(records)) {
+      return NextResponse.json({ error: 'Invalid data format' }, { status: 400 });
+    }
+
+    if (records.length > MAX_UPLOAD_RECORDS) {
+      return NextResponse.json({
+        error: 'Payload too large',
+        details: `Chunks are limited to ${MAX_UPLOAD_RECORDS} records (got ${records.length})`
+      }, { status: 413 });
+    }
+
+    const { data: session, error: sessionError } = await supabase
+      .from('upload_batches')
+      .select('id, dataset, chunk_size, total_chunks')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (sessionError) {
+      console.error('Upload session lookup error:', sessionError);
+      return NextResponse.json({ error: 'Failed to load upload session', details: sessionError.message }, { status: 500 });
+    }
+
+    if (!session || !session.total_chunks || session.dataset !== dataset.id) {
+      return NextResponse.json({ error: `Upload session not found: ${sessionId}` }, { status: 404 });
+    }
+
+    // Re-check every record server-side; rejected rows are reported back, not uploaded
+    const validation = await validateUploadRecords(supabase, dataset, records, { allowUnknownCodes });
+    const { rejected } = validation;
+
+    const { data: result, error: rpcError } = await supabase.rpc('upload_batch_chunk', {
+      p_batch_id: session.id,
+      p_chunk_index: chunkIndex,
+      p_records: validation.records,
+      p_rejected: formatRejectedRows(rejected, chunkIndex * session.chunk_size)
+    });
+
+    if (rpcError) {
+      console.error('Chunk RPC error:', rpcError);
+      return NextResponse.json(
+        { error: 'RPC function error', details: rpcError.message, rejected },
+        { status: 500 }
+      );
+    }
+
+    if (!result || !result.success) {
+      console.error('Chunk upload failed - result:', JSON.stringify(result, null, 2));
+      const errorDetails = Array.isArray(result?.errors) ? result.errors.join(', ') : result?.errors || 'Unknown error';
+      return NextResponse.json(
+        { error: 'Chunk upload failed', details: errorDetails, rejected },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      alreadyUploaded: result.already_uploaded,
+      chunksCompleted: result.chunks_completed,
+      totalChunks: result.total_chunks,
+      stats: {
+        recordsProcessed: records.length,
+        recordsInserted: result.records_inserted,
+        recordsUpdated: result.records_updated,
+        errors: result.errors?.length || 0
+      },
+      errors: (result.errors?.length || 0) > 0 ? result.errors : undefined,
+      rejected: rejected.length > 0 ? rejected : undefined,
+      batch: {
+        recordsInserted: result.batch.records_inserted,
+        recordsUpdated: result.batch.records_updated,
+        errorCount: result.batch.error_count,
+        status: result.batch.status
+      }
+    });
+
+  } catch (error) {
+    console.error(`${dataset.label} chunk upload error:`, error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { NextResponse } from 'next/server';
+import { getUploadDataset } from '@/lib/upload/datasets';
+import {
+  authorizeUploadRequest,
+  parseUploadSource,
+  readUploadRequestBody,
+  SHA256_PATTERN
+} from '@/lib/upload/route-helpers';
+import { MAX_UPLOAD_RECORDS, MAX_UPLOAD_SESSION_RECORDS } from '@/lib/upload/validation';
+
+/**
+ * Start a chunked upload session, or resume the caller's unfinished session
+ * for the same payload. Returns the chunks that have already been applied.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ dataset: string }> }
+) {
+  const { dataset: datasetId } = await params;
+  const dataset = getUploadDataset(datasetId);
+
+  if (!dataset) {
+    return NextResponse.json({ error: `Unknown upload dataset: ${datasetId}` }, { status: 404 });
+  }
+
+  try {
+    const auth = await authorizeUploadRequest();
+    if (auth.response) return auth.response;
+    const { supabase, userId } = auth;
+
+    const parsed = await readUploadRequestBody(request);
+    if (parsed.response) return parsed.response;
+
+    const sessionKey = parsed.body.sessionKey;
+    const totalRecords = Number(parsed.body.totalRecords);
+    const chunkSize = Number(parsed.body.chunkSize);
+    const source = parseUploadSource(parsed.body.source);
+
+    if (typeof sessionKey !== 'string' || !SHA256_PATTERN.test(sessionKey)) {
+      return NextResponse.json({ error: 'Invalid session key' }, { status: 400 });
+    }
+
+    if (!Number.isInteger(totalRecords) || totalRecords < 1 || totalRecords > MAX_UPLOAD_SESSION_RECORDS) {
+      return NextResponse.json({
+        error: 'Invalid record count',
+        details: `Upload sessions accept 1 to ${MAX_UPLOAD_SESSION_RECORDS} records`
+      }, { status: 400 });
+    }
+
+    if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_UPLOAD_RECORDS) {
+      return NextResponse.json({
+        error: 'Invalid chunk size',
+        details: `Chunks hold 1 to ${MAX_UPLOAD_RECORDS} records`
+      }, { status: 400 });
+    }
+
+    // Resume the latest unfinished session for the same payload and chunking
+    const { data: existing, error: lookupError } = await supabase
+      .from('upload_batches')
+      .select('id, total_chunks')
+      .eq('dataset', dataset.id)
+      .eq('uploaded_by', userId)
+      .eq('session_key', sessionKey)
+      .eq('chunk_size', chunkSize)
+      .eq('row_count', totalRecords)
+      .eq('status', 'processing')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error('Upload session lookup error:', lookupError);
+      return NextResponse.json({ error: 'Failed to look up upload session', details: lookupError.message }, { status: 500 });
+    }
+
+    if (existing) {
+      const { data: chunks, error: chunksError } = await supabase
+        .from('upload_batch_chunks')
+        .select('chunk_index')
+        .eq('batch_id', existing.id);
+
+      if (chunksError) {
+        console.error('Upload session chunks error:', chunksError);
+        return NextResponse.json({ error: 'Failed to load upload session', details: chunksError.message }, { status: 500 });
+      }
+
+      return NextResponse.json({
+        success: true,
+        resumed: true,
+        sessionId: existing.id,
+        totalChunks: existing.total_chunks,
+        completedChunks: (chunks || []).map(chunk => chunk.chunk_index).sort((a, b) => a - b)
+      });
+    }
+
+    const totalChunks = Math.ceil(totalRecords / chunkSize);
+
+    const { data: batch, error: batchError } = await supabase
+      .from('upload_batches')
+      .insert({
+        dataset: dataset.id,
+        uploaded_by: userId,
+        file_name: source.fileName,
+        file_hash: source.fileHash ?? sessionKey,
+        row_count: totalRecords,
+        session_key: sessionKey,
+        chunk_size: chunkSize,
+        total_chunks: totalChunks
+      })
+      .select('id')
+      .single();
+
+    if (batchError || !batch) {
+      console.error('Upload session error:', batchError);
+      return NextResponse.json(
+        { error: 'Failed to create upload session', details: batchError?.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      resumed: false,
+      sessionId: batch.id,
+      totalChunks,
+      completedChunks: []
+    });
+
+  } catch (error) {
+    console.error(`${dataset.label} upload session error:`, error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
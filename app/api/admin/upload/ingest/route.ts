@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { runUploadIngestion } from '@/lib/upload/ingestion';
+
+// Large workbooks can take a while to validate and upload
+export const maxDuration = 300;
+
+/**
+ * Scheduled entry point of the drop-folder ingestion job. A cron scheduler
+ * (e.g. Vercel Cron, which sends GET requests) calls it with
+ * `Authorization: Bearer <UPLOAD_INGESTION_CRON_SECRET>`. Admins can also
+ * start a run from the Upload page.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.UPLOAD_INGESTION_CRON_SECRET;
+
+  if (!secret) {
+    return NextResponse.json({ error: 'Ingestion schedule is not configured' }, { status: 503 });
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const summary = await runUploadIngestion();
+    return NextResponse.json(summary, { status: summary.status === 'failed' ? 500 : 200 });
+  } catch (error) {
+    console.error('Scheduled ingestion error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
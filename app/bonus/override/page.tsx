@@ -1,8 +1,35 @@
-export default function Override() {
+import { redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { getCurrentUserProfile } from '@/lib/auth';
+import { OverrideCalculator } from '@/components/bonus/override-calculator';
+import { Network } from 'lucide-react';
+
+// This page requires authentication and database queries, so it cannot be statically generated
+export const dynamic = 'force-dynamic';
+
+export default async function Override() {
+  const supabase = await createClient();
+  const { data: user, error: authError } = await supabase.auth.getClaims();
+
+  if (authError || !user?.claims) {
+    redirect('/auth/login');
+  }
+
+  const { profile } = await getCurrentUserProfile();
+
   return (
-    <div className="container mx-auto p-6">
-      <h1 className="text-2xl font-bold mb-6">Override</h1>
-      {/* Override bonus content will be implemented here */}
+    <div className="space-y-6 p-6">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+          <Network className="h-6 w-6" />
+          Manager Override
+        </h1>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Override earned on the production of direct and indirect subordinates
+        </p>
+      </div>
+
+      <OverrideCalculator isAdmin={profile?.app_role === 'admin'} />
     </div>
   );
-}
\ No newline at end of file
+}
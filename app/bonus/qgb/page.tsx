@@ -1,8 +1,40 @@
-export default function QGB() {
+import { redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { getCurrentUserProfile } from '@/lib/auth';
+import { getContestClassOptions } from '@/lib/actions/contests';
+import { QgbTracker } from '@/components/bonus/qgb-tracker';
+import { Target } from 'lucide-react';
+
+// This page requires authentication and database queries, so it cannot be statically generated
+export const dynamic = 'force-dynamic';
+
+export default async function QGB() {
+  const supabase = await createClient();
+  const { data: user, error: authError } = await supabase.auth.getClaims();
+
+  if (authError || !user?.claims) {
+    redirect('/auth/login');
+  }
+
+  const { profile } = await getCurrentUserProfile();
+  const isAdmin = profile?.app_role === 'admin';
+
+  // Eligible classes are picked from the classes on manpower records
+  const classOptions = isAdmin ? await getContestClassOptions() : [];
+
   return (
-    <div className="container mx-auto p-6">
-      <h1 className="text-2xl font-bold mb-6">QGB</h1>
-      {/* QGB bonus content will be implemented here */}
+    <div className="space-y-6 p-6">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+          <Target className="h-6 w-6" />
+          Quarterly Growth Bonus
+        </h1>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Earned and projected QGB from quarterly production
+        </p>
+      </div>
+
+      <QgbTracker isAdmin={isAdmin} classOptions={classOptions} />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,53 @@
+import { createClient } from '@/lib/supabase/server';
+import { getCurrentUserProfile } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { ClosingPeriodsManager } from '@/components/admin/closing-periods-manager';
+
+// Admin-only page - force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export default async function ClosingPeriodsPage() {
+  try {
+    // Check authentication
+    const supabase = await createClient();
+    const { data: user, error: authError } = await supabase.auth.getClaims();
+
+    if (authError || !user?.claims) {
+      redirect('/auth/login');
+    }
+
+    // Get user profile to check admin role
+    const { profile } = await getCurrentUserProfile();
+
+    if (!profile) {
+      redirect('/auth/error');
+    }
+
+    // Admin-only access
+    if (profile.app_role !== 'admin') {
+      redirect('/unauthorized');
+    }
+
+    return (
+      <div className="container mx-auto py-8 px-4">
+        <div className="max-w-7xl mx-auto">
+          {/* Header */}
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+              Closing Periods
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400 mt-2">
+              Maintain the systems closing calendar used to group production by systems month.
+            </p>
+          </div>
+
+          {/* Closing Periods Manager */}
+          <ClosingPeriodsManager />
+        </div>
+      </div>
+    );
+  } catch (error) {
+    console.error('Closing periods page error:', error);
+    redirect('/auth/error');
+  }
+}
\ No newline at end of file
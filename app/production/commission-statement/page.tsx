@@ -0,0 +1,45 @@
+import { redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { fetchStatementAdvisors } from '@/lib/data/commission';
+import { CommissionStatementView } from '@/components/production/commission-statement';
+import { Receipt } from 'lucide-react';
+
+// This page requires authentication and database queries, so it cannot be statically generated
+export const dynamic = 'force-dynamic';
+
+export default async function CommissionStatementPage() {
+  const supabase = await createClient();
+  const { data: user, error: authError } = await supabase.auth.getClaims();
+
+  if (authError || !user?.claims) {
+    redirect('/auth/login');
+  }
+
+  const [{ data: ownRecord }, { data: advisors }] = await Promise.all([
+    supabase
+      .from('manpower')
+      .select('code_number')
+      .eq('profile_user_id', user.claims.sub)
+      .maybeSingle(),
+    fetchStatementAdvisors()
+  ]);
+
+  return (
+    <div className="space-y-6 p-6 print:p-0">
+      <div className="space-y-2 print:hidden">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+          <Receipt className="h-6 w-6" />
+          Commission Statement
+        </h1>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          First year and renewal commission by transaction, for a month or a whole year
+        </p>
+      </div>
+
+      <CommissionStatementView
+        advisors={advisors || []}
+        defaultAdvisorCode={ownRecord?.code_number ?? undefined}
+      />
+    </div>
+  );
+}
@@ -1,8 +1,50 @@
-export default function ContestMonth() {
+import { redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { getCurrentUserProfile } from '@/lib/auth';
+import { getContestClassOptions } from '@/lib/actions/contests';
+import { ContestTracker } from '@/components/production/contest-tracker';
+import { Trophy } from 'lucide-react';
+
+// This page requires authentication and database queries, so it cannot be statically generated
+export const dynamic = 'force-dynamic';
+
+export default async function ContestMonth() {
+  const supabase = await createClient();
+  const { data: user, error: authError } = await supabase.auth.getClaims();
+
+  if (authError || !user?.claims) {
+    redirect('/auth/login');
+  }
+
+  const { profile } = await getCurrentUserProfile();
+  const isAdmin = profile?.app_role === 'admin';
+
+  // Highlight the user's own row on the leaderboard
+  const { data: manpowerRecord } = await supabase
+    .from('manpower')
+    .select('code_number')
+    .eq('profile_user_id', user.claims.sub)
+    .maybeSingle();
+
+  const classOptions = isAdmin ? await getContestClassOptions() : [];
+
   return (
-    <div className="container mx-auto p-6">
-      <h1 className="text-2xl font-bold mb-6">Contest Month</h1>
-      {/* Contest Month content will be implemented here */}
+    <div className="space-y-6 p-6">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+          <Trophy className="h-6 w-6" />
+          Contest Month
+        </h1>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Live standings for agency contests
+        </p>
+      </div>
+
+      <ContestTracker
+        isAdmin={isAdmin}
+        currentAdvisorCode={manpowerRecord?.code_number ?? null}
+        classOptions={classOptions}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,372 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ProductionTrendChart, TrendSeries } from '@/components/production/production-trend-chart';
+import {
+  PersonalAnnualProduction,
+  PersonalMonthlyProduction,
+  usePersonalProductionQuery
+} from '@/hooks/usePersonalProductionQuery';
+import { cn, formatCurrency, formatNumber } from '@/lib/utils';
+import { Banknote, Coins, DollarSign, FileText, TrendingUp, User, UserCheck, Wallet } from 'lucide-react';
+
+type PeriodType = 'calendar' | 'systems';
+
+type MetricKey =
+  | 'total_submitted_apps'
+  | 'total_settled_apps'
+  | 'total_agency_credits'
+  | 'total_net_sales_credits'
+  | 'total_rn_commission_php'
+  | 'total_fy_premium_php'
+  | 'total_fy_commission_php';
+
+interface MetricDefinition {
+  key: MetricKey;
+  label: string;
+  shortLabel: string;
+  icon: React.ReactNode;
+  formatter: (value: number) => string;
+  avgKey: keyof PersonalAnnualProduction;
+  peakKey: keyof PersonalAnnualProduction;
+}
+
+const METRICS: MetricDefinition[] = [
+  {
+    key: 'total_submitted_apps',
+    label: 'Submitted Apps',
+    shortLabel: 'Submitted',
+    icon: <FileText className="h-4 w-4 text-blue-500" />,
+    formatter: formatNumber,
+    avgKey: 'avg_monthly_submitted_apps',
+    peakKey: 'peak_month_submitted_apps'
+  },
+  {
+    key: 'total_settled_apps',
+    label: 'Settled Apps (Lives)',
+    shortLabel: 'Lives',
+    icon: <UserCheck className="h-4 w-4 text-green-500" />,
+    formatter: formatNumber,
+    avgKey: 'avg_monthly_settled_apps',
+    peakKey: 'peak_month_settled_apps'
+  },
+  {
+    key: 'total_agency_credits',
+    label: 'Agency Credits',
+    shortLabel: 'AC',
+    icon: <DollarSign className="h-4 w-4 text-purple-500" />,
+    formatter: formatCurrency,
+    avgKey: 'avg_monthly_agency_credits',
+    peakKey: 'peak_month_agency_credits'
+  },
+  {
+    key: 'total_net_sales_credits',
+    label: 'Net Sales Credits',
+    shortLabel: 'NSC',
+    icon: <TrendingUp className="h-4 w-4 text-orange-500" />,
+    formatter: formatCurrency,
+    avgKey: 'avg_monthly_net_sales_credits',
+    peakKey: 'peak_month_net_sales_credits'
+  },
+  {
+    key: 'total_rn_commission_php',
+    label: 'RN Commission',
+    shortLabel: 'RN Comm.',
+    icon: <Coins className="h-4 w-4 text-amber-500" />,
+    formatter: formatCurrency,
+    avgKey: 'avg_monthly_rn_commission_php',
+    peakKey: 'peak_month_rn_commission_php'
+  },
+  {
+    key: 'total_fy_premium_php',
+    label: 'FY Premium',
+    shortLabel: 'FY Prem.',
+    icon: <Wallet className="h-4 w-4 text-sky-500" />,
+    formatter: formatCurrency,
+    avgKey: 'avg_monthly_fy_premium_php',
+    peakKey: 'peak_month_fy_premium_php'
+  },
+  {
+    key: 'total_fy_commission_php',
+    label: 'FY Commission',
+    shortLabel: 'FYC',
+    icon: <Banknote className="h-4 w-4 text-emerald-500" />,
+    formatter: formatCurrency,
+    avgKey: 'avg_monthly_fy_commission_php',
+    peakKey: 'peak_month_fy_commission_php'
+  }
+];
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Oldest year first, so the current year gets the strongest color
+const YEAR_COLORS = [
+  { fillClassName: 'fill-blue-200 dark:fill-blue-900', swatchClassName: 'bg-blue-200 dark:bg-blue-900' },
+  { fillClassName: 'fill-blue-400 dark:fill-blue-700', swatchClassName: 'bg-blue-400 dark:bg-blue-700' },
+  { fillClassName: 'fill-blue-600 dark:fill-blue-400', swatchClassName: 'bg-blue-600 dark:bg-blue-400' }
+];
+
+const compactFormatter = new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 });
+
+export default function PersonalProductionPage() {
+  const currentYear = new Date().getFullYear();
+  const startYear = currentYear - 2;
+  const years = useMemo(() => [startYear, startYear + 1, currentYear], [startYear, currentYear]);
+
+  const [periodType, setPeriodType] = useState<PeriodType>('calendar');
+  const [selectedYear, setSelectedYear] = useState<number>(currentYear);
+  const [chartMetric, setChartMetric] = useState<MetricKey>('total_net_sales_credits');
+
+  const {
+    advisor,
+    monthlyData,
+    annualData,
+    isLoading,
+    error
+  } = usePersonalProductionQuery({
+    periodType,
+    startYear,
+    endYear: currentYear
+  });
+
+  // Summary rows only exist for months with activity, so fill in the gaps
+  const monthsByYear = useMemo(() => {
+    const grid = new Map<number, (PersonalMonthlyProduction | null)[]>();
+    years.forEach(year => grid.set(year, Array(12).fill(null)));
+    monthlyData.forEach(row => {
+      const months = grid.get(row.period_year);
+      if (months && row.period_month >= 1 && row.period_month <= 12) {
+        months[row.period_month - 1] = row;
+      }
+    });
+    return grid;
+  }, [monthlyData, years]);
+
+  const selectedAnnual = annualData.find(row => row.period_year === selectedYear) || null;
+  const selectedMonths = monthsByYear.get(selectedYear) || [];
+  const activeMetric = METRICS.find(metric => metric.key === chartMetric) || METRICS[0];
+
+  const chartSeries: TrendSeries[] = years.map((year, index) => ({
+    label: year.toString(),
+    values: (monthsByYear.get(year) || []).map(row => (row ? row[chartMetric] : 0)),
+    ...YEAR_COLORS[index]
+  }));
+
+  const selectedTotals = METRICS.reduce((totals, metric) => {
+    totals[metric.key] = selectedMonths.reduce((sum, row) => sum + (row ? row[metric.key] : 0), 0);
+    return totals;
+  }, {} as Record<MetricKey, number>);
+
+  const header = (
+    <div className="flex items-center justify-between">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+          <User className="h-6 w-6" />
+          Personal Production
+        </h1>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Your month-by-month production over the last three years
+        </p>
+      </div>
+      {advisor && (
+        <div className="text-right">
+          <div className="font-medium text-gray-900 dark:text-white">{advisor.advisor_name}</div>
+          <Badge variant="outline">{advisor.code_number}</Badge>
+        </div>
+      )}
+    </div>
+  );
+
+  if (error) {
+    return (
+      <div className="space-y-6 p-6">
+        {header}
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center text-red-600 dark:text-red-400">
+              Error loading data: {error.message}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 p-6">
+      {/* Header Section */}
+      {header}
+
+      {/* Period Controls */}
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex flex-wrap items-center gap-4">
+            {/* Year Selector */}
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Year:</span>
+              <Select
+                value={selectedYear.toString()}
+                onValueChange={(value) => setSelectedYear(parseInt(value))}
+              >
+                <SelectTrigger className="w-20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {years.map((year) => (
+                    <SelectItem key={year} value={year.toString()}>
+                      {year}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Period Type Toggle */}
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Type:</span>
+              <div className="flex rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+                {(['calendar', 'systems'] as PeriodType[]).map((type, index) => (
+                  <button
+                    key={type}
+                    onClick={() => setPeriodType(type)}
+                    className={cn(
+                      'px-3 py-2 text-sm font-medium transition-colors capitalize',
+                      index > 0 && 'border-l border-gray-200 dark:border-gray-700',
+                      periodType === type
+                        ? 'bg-emerald-600 text-white'
+                        : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                    )}
+                  >
+                    {type}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Annual Metric Cards */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {METRICS.map((metric) => (
+          <Card key={metric.key}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">{metric.label}</CardTitle>
+              {metric.icon}
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-2">
+                  <div className="h-8 bg-gray-200 dark:bg-gray-800 rounded animate-pulse"></div>
+                  <div className="h-4 bg-gray-200 dark:bg-gray-800 rounded animate-pulse w-3/4"></div>
+                </div>
+              ) : (
+                <>
+                  <div className="text-2xl font-bold">
+                    {metric.formatter(selectedAnnual ? Number(selectedAnnual[metric.key]) : selectedTotals[metric.key])}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {selectedAnnual
+                      ? `Avg ${metric.formatter(Number(selectedAnnual[metric.avgKey]))} / month · Peak ${metric.formatter(Number(selectedAnnual[metric.peakKey]))}`
+                      : `${selectedYear} (${periodType})`}
+                  </p>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Monthly Trend Chart */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <CardTitle>Monthly Trend</CardTitle>
+              <CardDescription>
+                {activeMetric.label} per {periodType} month, {startYear}–{currentYear}
+              </CardDescription>
+            </div>
+            <Tabs value={chartMetric} onValueChange={(value) => setChartMetric(value as MetricKey)}>
+              <TabsList>
+                {METRICS.map((metric) => (
+                  <TabsTrigger key={metric.key} value={metric.key}>
+                    {metric.shortLabel}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 dark:border-white"></div>
+            </div>
+          ) : (
+            <ProductionTrendChart
+              categories={MONTH_LABELS}
+              series={chartSeries}
+              formatter={(value) => compactFormatter.format(value)}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Month-by-Month Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{selectedYear} Month by Month</CardTitle>
+          <CardDescription>
+            {periodType === 'systems'
+              ? 'Systems months follow the company closing calendar'
+              : 'Calendar months'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 dark:border-white"></div>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Month</TableHead>
+                  {METRICS.map((metric) => (
+                    <TableHead key={metric.key} className="text-right">{metric.label}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {selectedMonths.map((row, index) => (
+                  <TableRow key={index} className={cn(!row && 'text-muted-foreground')}>
+                    <TableCell className="font-medium">{MONTH_LABELS[index]}</TableCell>
+                    {METRICS.map((metric) => (
+                      <TableCell key={metric.key} className="text-right">
+                        {metric.formatter(row ? row[metric.key] : 0)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+                <TableRow className="font-semibold border-t-2">
+                  <TableCell>Total</TableCell>
+                  {METRICS.map((metric) => (
+                    <TableCell key={metric.key} className="text-right">
+                      {metric.formatter(selectedTotals[metric.key])}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
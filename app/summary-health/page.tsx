@@ -0,0 +1,62 @@
+import { createClient } from '@/lib/supabase/server';
+import { getCurrentUserProfile } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { SummaryHealthConsole } from '@/components/admin/summary-health-console';
+import { RetentionSettingsCard } from '@/components/admin/retention-settings-card';
+import { getRetentionSettings } from '@/lib/actions/production-retention';
+
+// Admin-only page - force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export default async function SummaryHealthPage() {
+  try {
+    // Check authentication
+    const supabase = await createClient();
+    const { data: user, error: authError } = await supabase.auth.getClaims();
+
+    if (authError || !user?.claims) {
+      redirect('/auth/login');
+    }
+
+    // Get user profile to check admin role
+    const { profile } = await getCurrentUserProfile();
+
+    if (!profile) {
+      redirect('/auth/error');
+    }
+
+    // Admin-only access
+    if (profile.app_role !== 'admin') {
+      redirect('/unauthorized');
+    }
+
+    const { data: retentionSettings } = await getRetentionSettings();
+
+    return (
+      <div className="container mx-auto py-8 px-4">
+        <div className="max-w-7xl mx-auto">
+          {/* Header */}
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+              Production Summary Health
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400 mt-2">
+              Find production summaries that no longer match the uploaded data and recalculate them.
+            </p>
+          </div>
+
+          <div className="space-y-6">
+            {/* Summary Health Console */}
+            <SummaryHealthConsole liveYears={retentionSettings?.live_years} />
+
+            {/* Retention Settings */}
+            <RetentionSettingsCard settings={retentionSettings} />
+          </div>
+        </div>
+      </div>
+    );
+  } catch (error) {
+    console.error('Summary health page error:', error);
+    redirect('/auth/error');
+  }
+}
\ No newline at end of file
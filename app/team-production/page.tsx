@@ -5,6 +5,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useTeamProductionQuery } from '@/hooks/useTeamProductionQuery';
+import { useProductionYears } from '@/hooks/useProductionYears';
 import { TeamProductionCards } from '@/components/production/team-production-cards';
 import { PeriodSwitcher } from '@/components/production/period-switcher';
 import { IndividualProductionTable } from '@/components/production/individual-production-table';
@@ -24,12 +25,16 @@ export default function TeamProductionPage() {
   const [selectedMonth, setSelectedMonth] = useState<number>(currentMonth);
   const [selectedYear, setSelectedYear] = useState<number>(currentYear);
 
+  // Includes archived years older than the live summary window
+  const productionYears = useProductionYears();
+
   // Fetch production data based on selected period
   const {
     data: productionData,
     isLoading: productionLoading,
     error: productionError,
-    aggregatedTotals
+    aggregatedTotals,
+    comparison
   } = useTeamProductionQuery({
     timeFrame,
     periodType,
@@ -90,11 +95,13 @@ export default function TeamProductionPage() {
         onPeriodTypeChange={setPeriodType}
         onMonthChange={setSelectedMonth}
         onYearChange={setSelectedYear}
+        years={productionYears}
       />
 
       {/* Production Metrics Cards */}
       <TeamProductionCards
         data={aggregatedTotals}
+        comparison={comparison}
         timeFrame={timeFrame}
         periodType={periodType}
         isLoading={productionLoading}
@@ -37,7 +37,7 @@ export default async function UploadPage() {
               Data Upload Center
             </h1>
             <p className="text-gray-600 dark:text-gray-400 mt-2">
-              Import sales data from Excel spreadsheets. Copy and paste data directly from Excel into the forms below.
+              Import sales data from Excel spreadsheets. Drop an .xlsx or .csv report file, or copy and paste data directly from Excel into the forms below.
             </p>
           </div>
 
@@ -0,0 +1,179 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertCircle, CheckCircle, Link2, Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  addAdvisorCodeAlias,
+  deleteAdvisorCodeAlias,
+  getAdvisorCodeAliases
+} from '@/lib/actions/advisor-code-aliases';
+import { AdvisorCodeAlias, ManpowerRecord } from '@/lib/types/database';
+import { formatDate } from '../manpower/manpower-table-components';
+
+interface AdvisorCodeAliasesDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  record: ManpowerRecord | null;
+}
+
+/**
+ * Manage the other codes carrier files use for an advisor
+ */
+export function AdvisorCodeAliasesDialog({
+  isOpen,
+  onOpenChange,
+  record
+}: AdvisorCodeAliasesDialogProps) {
+  const [aliases, setAliases] = useState<AdvisorCodeAlias[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newAlias, setNewAlias] = useState({ alias_code: '', note: '' });
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+
+  const codeNumber = record?.code_number;
+
+  const loadAliases = useCallback(async () => {
+    if (!codeNumber) return;
+
+    setIsLoading(true);
+    const response = await getAdvisorCodeAliases(codeNumber);
+    if (response.success && response.data) {
+      setAliases(response.data);
+    } else {
+      setResult({ success: false, message: response.message });
+    }
+    setIsLoading(false);
+  }, [codeNumber]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setResult(null);
+      setNewAlias({ alias_code: '', note: '' });
+      loadAliases();
+    }
+  }, [isOpen, loadAliases]);
+
+  const handleAdd = async () => {
+    if (!codeNumber || !newAlias.alias_code.trim()) return;
+
+    setIsSaving(true);
+    const response = await addAdvisorCodeAlias(codeNumber, newAlias.alias_code, newAlias.note);
+    setIsSaving(false);
+
+    setResult({
+      success: response.success,
+      message: response.error ? `${response.message}: ${response.error}` : response.message
+    });
+
+    if (response.success) {
+      setNewAlias({ alias_code: '', note: '' });
+      loadAliases();
+    }
+  };
+
+  const handleDelete = async (aliasCode: string) => {
+    setIsSaving(true);
+    const response = await deleteAdvisorCodeAlias(aliasCode);
+    setIsSaving(false);
+
+    setResult({
+      success: response.success,
+      message: response.error ? `${response.message}: ${response.error}` : response.message
+    });
+
+    if (response.success) {
+      loadAliases();
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !isSaving && onOpenChange(open)}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Link2 className="h-5 w-5" />
+            <span>Code Aliases</span>
+          </DialogTitle>
+          <DialogDescription>
+            Other codes carrier files use for {record?.advisor_name || codeNumber} ({codeNumber}). Uploaded rows with
+            an alias are saved under {codeNumber}, and production already saved under it counts toward this advisor.
+            Leading zeros are stripped, the same as in uploads.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {result && (
+            <Alert variant={result.success ? 'default' : 'destructive'}>
+              {result.success ? <CheckCircle className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
+              <AlertDescription>{result.message}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="rounded-md border divide-y">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-6">
+                <Loader2 className="h-4 w-4 animate-spin" />
+              </div>
+            ) : aliases.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No aliases yet.</p>
+            ) : (
+              aliases.map((alias) => (
+                <div key={alias.alias_code} className="flex items-center justify-between px-3 py-2">
+                  <div>
+                    <div className="font-mono text-sm">{alias.alias_code}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {[alias.note, `Added ${formatDate(alias.created_at)}`].filter(Boolean).join(' · ')}
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDelete(alias.alias_code)}
+                    disabled={isSaving}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-2 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="alias-code">Alias Code</Label>
+              <Input
+                id="alias-code"
+                value={newAlias.alias_code}
+                onChange={(e) => setNewAlias(prev => ({ ...prev, alias_code: e.target.value }))}
+                placeholder="e.g. 12345"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alias-note">Note</Label>
+              <Input
+                id="alias-note"
+                value={newAlias.note}
+                onChange={(e) => setNewAlias(prev => ({ ...prev, note: e.target.value }))}
+                placeholder="Optional"
+              />
+            </div>
+            <Button onClick={handleAdd} disabled={!newAlias.alias_code.trim() || isSaving}>
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { APP_ROLES, AppRole, BonusEligibility } from '@/lib/types/database';
+
+// Tenure months are kept as typed until the form is submitted
+export interface EligibilityFormValue {
+  classes: string[];
+  app_roles: AppRole[];
+  min_tenure_months: string;
+  max_tenure_months: string;
+}
+
+export const emptyEligibility: EligibilityFormValue = {
+  classes: [],
+  app_roles: [],
+  min_tenure_months: '',
+  max_tenure_months: ''
+};
+
+export function eligibilityToForm(eligibility: BonusEligibility | undefined): EligibilityFormValue {
+  return {
+    classes: eligibility?.classes ?? [],
+    app_roles: eligibility?.app_roles ?? [],
+    min_tenure_months: eligibility?.min_tenure_months ? String(eligibility.min_tenure_months) : '',
+    max_tenure_months: eligibility?.max_tenure_months ? String(eligibility.max_tenure_months) : ''
+  };
+}
+
+export function eligibilityFromForm(value: EligibilityFormValue): BonusEligibility {
+  const wholeNumber = (months: string) => (months.trim() === '' ? null : Number(months));
+  return {
+    classes: value.classes,
+    app_roles: value.app_roles,
+    min_tenure_months: wholeNumber(value.min_tenure_months),
+    max_tenure_months: wholeNumber(value.max_tenure_months)
+  };
+}
+
+const APP_ROLE_LABELS: Record<AppRole, string> = {
+  admin: 'Admin',
+  manager: 'Manager',
+  staff: 'Staff',
+  advisor: 'Advisor',
+  candidate: 'Candidate'
+};
+
+interface BonusEligibilityFieldsProps {
+  idPrefix: string;
+  value: EligibilityFormValue;
+  onChange: (value: EligibilityFormValue) => void;
+  classOptions?: string[];
+  showClasses?: boolean; // Off where the rules are already set per class
+  disabled?: boolean;
+}
+
+/**
+ * Who a bonus program applies to: classes, app roles of the advisor's linked
+ * account and a tenure range. Empty fields apply to everyone.
+ */
+export function BonusEligibilityFields({
+  idPrefix,
+  value,
+  onChange,
+  classOptions = [],
+  showClasses = true,
+  disabled
+}: BonusEligibilityFieldsProps) {
+  const toggle = <T extends string>(list: T[], item: T, checked: boolean) =>
+    checked ? [...list, item] : list.filter(entry => entry !== item);
+
+  // Keep classes that are no longer in manpower visible so they can be unchecked
+  const allClasses = Array.from(new Set([...classOptions, ...value.classes])).sort();
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}_min_tenure`}>From Tenure Month</Label>
+          <Input
+            id={`${idPrefix}_min_tenure`}
+            value={value.min_tenure_months}
+            onChange={(e) => onChange({ ...value, min_tenure_months: e.target.value })}
+            placeholder="Any"
+            inputMode="numeric"
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}_max_tenure`}>To Tenure Month</Label>
+          <Input
+            id={`${idPrefix}_max_tenure`}
+            value={value.max_tenure_months}
+            onChange={(e) => onChange({ ...value, max_tenure_months: e.target.value })}
+            placeholder="Any"
+            inputMode="numeric"
+            disabled={disabled}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground -mt-2">The month of the date hired is tenure month 1</p>
+
+      {showClasses && (
+        <div className="space-y-2">
+          <Label>Eligible Classes</Label>
+          {allClasses.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No classes are set on manpower records.</p>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              {allClasses.map((advisorClass) => (
+                <label key={advisorClass} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={value.classes.includes(advisorClass)}
+                    onCheckedChange={(checked) => onChange({ ...value, classes: toggle(value.classes, advisorClass, checked === true) })}
+                    disabled={disabled}
+                  />
+                  {advisorClass}
+                </label>
+              ))}
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">Leave all unchecked to open the program to every class</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label>Eligible App Roles</Label>
+        <div className="grid grid-cols-2 gap-2">
+          {APP_ROLES.map((role) => (
+            <label key={role} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={value.app_roles.includes(role)}
+                onCheckedChange={(checked) => onChange({ ...value, app_roles: toggle(value.app_roles, role, checked === true) })}
+                disabled={disabled}
+              />
+              {APP_ROLE_LABELS[role]}
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Checking any role leaves out advisors without a portal account
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,526 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertCircle,
+  AlertTriangle,
+  CalendarClock,
+  CheckCircle,
+  Loader2,
+  Pencil,
+  Plus,
+  RefreshCw,
+  Trash2,
+  Wand2
+} from 'lucide-react';
+import {
+  deleteClosingPeriod,
+  generateClosingPeriodsForYear,
+  getClosingPeriods,
+  refreshProductionSummaries,
+  saveClosingPeriod
+} from '@/lib/actions/closing-periods';
+import { SystemsClosingPeriod } from '@/lib/types/database';
+import {
+  addDays,
+  ClosingPeriodIssue,
+  findClosingPeriodIssues,
+  formatPeriodName,
+  WeekendRule
+} from '@/lib/utils/closing-periods';
+
+const WEEKEND_RULE_LABELS: Record<WeekendRule, string> = {
+  none: 'Keep the date',
+  previous_business_day: 'Move to the Friday before',
+  next_business_day: 'Move to the Monday after'
+};
+
+const ISSUE_LABELS: Record<ClosingPeriodIssue['type'], string> = {
+  gap: 'Gap',
+  overlap: 'Overlap',
+  missing: 'Missing',
+  invalid: 'Invalid'
+};
+
+interface PeriodFormState {
+  id?: string;
+  period_year: number;
+  period_month: number;
+  start_date: string;
+  end_date: string;
+}
+
+type ActionFeedback = { success: boolean; message: string } | null;
+
+function toFeedback(result: { success: boolean; message: string; error?: string }): ActionFeedback {
+  return {
+    success: result.success,
+    message: result.error ? `${result.message}: ${result.error}` : result.message
+  };
+}
+
+function formatDisplayDate(value: string) {
+  return new Date(`${value}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+}
+
+function dayCount(startDate: string, endDate: string) {
+  return Math.round((Date.parse(endDate) - Date.parse(startDate)) / 86400000) + 1;
+}
+
+/**
+ * Admin management of systems closing periods: edit a year's periods, check
+ * them for gaps and overlaps, generate a year from a closing-day pattern and
+ * rebuild the production summaries that depend on them
+ */
+export function ClosingPeriodsManager() {
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+  const [periods, setPeriods] = useState<SystemsClosingPeriod[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<ActionFeedback>(null);
+
+  const [editing, setEditing] = useState<PeriodFormState | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [pendingDelete, setPendingDelete] = useState<SystemsClosingPeriod | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const [isGenerateOpen, setIsGenerateOpen] = useState(false);
+  const [closingDay, setClosingDay] = useState('25');
+  const [weekendRule, setWeekendRule] = useState<WeekendRule>('previous_business_day');
+  const [overwrite, setOverwrite] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const yearOptions = useMemo(
+    () => Array.from({ length: 8 }, (_, i) => currentYear + 2 - i),
+    [currentYear]
+  );
+
+  const loadPeriods = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getClosingPeriods(year);
+
+    if (result.success && result.data) {
+      setPeriods(result.data);
+      setLoadError(null);
+    } else {
+      setLoadError(result.message);
+    }
+    setIsLoading(false);
+  }, [year]);
+
+  useEffect(() => {
+    loadPeriods();
+  }, [loadPeriods]);
+
+  const yearPeriods = useMemo(
+    () => new Map(periods.filter(p => p.period_year === year).map(p => [p.period_month, p])),
+    [periods, year]
+  );
+
+  const issues = useMemo(() => findClosingPeriodIssues(periods, year), [periods, year]);
+
+  const issuesByMonth = useMemo(() => {
+    const map = new Map<number, ClosingPeriodIssue[]>();
+    issues
+      .filter(issue => issue.period_year === year && issue.type !== 'missing')
+      .forEach(issue => map.set(issue.period_month, [...(map.get(issue.period_month) || []), issue]));
+    return map;
+  }, [issues, year]);
+
+  // A gap or overlap into next January is reported against that month, but it is December's end date that sets it
+  const nextJanuaryIssue = issues.find(issue => issue.period_year === year + 1 && issue.type !== 'invalid');
+  const missingCount = issues.filter(issue => issue.type === 'missing').length;
+  const problemIssues = issues.filter(issue => issue.type !== 'missing');
+
+  const openEditor = (month: number) => {
+    const existing = yearPeriods.get(month);
+    const previous = month === 1
+      ? periods.find(p => p.period_year === year - 1 && p.period_month === 12)
+      : yearPeriods.get(month - 1);
+
+    setFormError(null);
+    setEditing(existing
+      ? {
+          id: existing.id,
+          period_year: existing.period_year,
+          period_month: existing.period_month,
+          start_date: existing.start_date,
+          end_date: existing.end_date
+        }
+      : {
+          period_year: year,
+          period_month: month,
+          start_date: previous ? addDays(previous.end_date, 1) : '',
+          end_date: ''
+        }
+    );
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    setFormError(null);
+    setIsSaving(true);
+    try {
+      const result = await saveClosingPeriod(editing);
+      if (result.success) {
+        setEditing(null);
+        setFeedback(toFeedback(result));
+        loadPeriods();
+      } else {
+        setFormError(result.error ? `${result.message}: ${result.error}` : result.message);
+      }
+    } catch {
+      setFormError('An unexpected error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!pendingDelete) return;
+
+    setIsDeleting(true);
+    const result = await deleteClosingPeriod(pendingDelete.id);
+    setIsDeleting(false);
+    setPendingDelete(null);
+    setFeedback(toFeedback(result));
+    loadPeriods();
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    const result = await generateClosingPeriodsForYear(
+      year,
+      { closingDay: Number(closingDay), weekendRule },
+      overwrite
+    );
+    setIsGenerating(false);
+    setIsGenerateOpen(false);
+    setFeedback(toFeedback(result));
+    loadPeriods();
+  };
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    setFeedback(null);
+    const result = await refreshProductionSummaries(year, year);
+    setIsRefreshing(false);
+    setFeedback(toFeedback(result));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <CalendarClock className="h-5 w-5" />
+              <span>Systems Closing Periods</span>
+            </CardTitle>
+            <CardDescription>
+              Systems production is grouped by these date ranges. Saving a change rebuilds the affected year&apos;s summaries.
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={String(year)} onValueChange={(value) => setYear(Number(value))}>
+              <SelectTrigger className="w-[110px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {yearOptions.map((option) => (
+                  <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={() => setIsGenerateOpen(true)} className="flex items-center space-x-1">
+              <Wand2 className="h-4 w-4" />
+              <span>Generate Year</span>
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleRefresh}
+              disabled={isRefreshing}
+              className="flex items-center space-x-1"
+            >
+              <RefreshCw className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+              <span>Recalculate {year}</span>
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {feedback && (
+          <Alert variant={feedback.success ? 'default' : 'destructive'}>
+            {feedback.success ? <CheckCircle className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
+            <AlertDescription>{feedback.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {loadError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{loadError}</AlertDescription>
+          </Alert>
+        )}
+
+        {!isLoading && !loadError && (problemIssues.length > 0 || missingCount > 0) && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              <ul className="list-disc pl-4 space-y-1">
+                {missingCount > 0 && (
+                  <li>{missingCount} month{missingCount !== 1 ? 's have' : ' has'} no closing period in {year}</li>
+                )}
+                {problemIssues.map((issue) => (
+                  <li key={`${issue.type}-${issue.period_year}-${issue.period_month}`}>{issue.message}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Period</TableHead>
+                <TableHead>Start</TableHead>
+                <TableHead>End</TableHead>
+                <TableHead className="text-right">Days</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-6">
+                    <Loader2 className="h-5 w-5 animate-spin inline-block text-muted-foreground" />
+                  </TableCell>
+                </TableRow>
+              ) : (
+                Array.from({ length: 12 }, (_, i) => i + 1).map((month) => {
+                  const period = yearPeriods.get(month);
+                  const statusIssue = issuesByMonth.get(month)?.[0] ?? (month === 12 ? nextJanuaryIssue : undefined);
+
+                  return (
+                    <TableRow key={month}>
+                      <TableCell className="font-medium">{formatPeriodName(year, month)}</TableCell>
+                      <TableCell className="text-sm">{period ? formatDisplayDate(period.start_date) : '-'}</TableCell>
+                      <TableCell className="text-sm">{period ? formatDisplayDate(period.end_date) : '-'}</TableCell>
+                      <TableCell className="text-right text-sm">
+                        {period ? dayCount(period.start_date, period.end_date) : '-'}
+                      </TableCell>
+                      <TableCell>
+                        {!period ? (
+                          <Badge variant="outline">Missing</Badge>
+                        ) : statusIssue ? (
+                          <Badge variant="destructive" title={statusIssue.message}>
+                            {ISSUE_LABELS[statusIssue.type]}
+                          </Badge>
+                        ) : (
+                          <Badge variant="secondary">OK</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => openEditor(month)}>
+                            {period ? <Pencil className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+                          </Button>
+                          {period && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                setFeedback(null);
+                                setPendingDelete(period);
+                              }}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      {/* Edit / Create Period */}
+      <Dialog open={!!editing} onOpenChange={(open) => !open && !isSaving && setEditing(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {editing?.id ? 'Edit' : 'Add'} {editing && formatPeriodName(editing.period_year, editing.period_month)}
+            </DialogTitle>
+            <DialogDescription>
+              Periods should start the day after the previous period ends.
+            </DialogDescription>
+          </DialogHeader>
+          {editing && (
+            <form onSubmit={handleSave} className="space-y-4">
+              {formError && (
+                <div className="bg-red-50 border border-red-200 text-red-600 px-3 py-2 rounded-md text-sm">
+                  {formError}
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="period_start_date">Start Date *</Label>
+                  <Input
+                    id="period_start_date"
+                    type="date"
+                    value={editing.start_date}
+                    onChange={(e) => setEditing(prev => prev && { ...prev, start_date: e.target.value })}
+                    disabled={isSaving}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="period_end_date">End Date *</Label>
+                  <Input
+                    id="period_end_date"
+                    type="date"
+                    value={editing.end_date}
+                    onChange={(e) => setEditing(prev => prev && { ...prev, end_date: e.target.value })}
+                    disabled={isSaving}
+                    required
+                  />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setEditing(null)} disabled={isSaving}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSaving} className="flex items-center space-x-2">
+                  {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+                  <span>{isSaving ? 'Saving...' : 'Save Period'}</span>
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <Dialog open={!!pendingDelete} onOpenChange={(open) => !open && !isDeleting && setPendingDelete(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center space-x-2">
+              <Trash2 className="h-5 w-5 text-destructive" />
+              <span>Delete Closing Period?</span>
+            </DialogTitle>
+            <DialogDescription>
+              {pendingDelete && (
+                <>
+                  Systems production for {formatPeriodName(pendingDelete.period_year, pendingDelete.period_month)} will
+                  no longer be summarized until a new period is added. The {pendingDelete.period_year} summaries are
+                  rebuilt straight away.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingDelete(null)} disabled={isDeleting}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={confirmDelete} disabled={isDeleting} className="flex items-center space-x-2">
+              {isDeleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+              <span>Delete</span>
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Generate Year */}
+      <Dialog open={isGenerateOpen} onOpenChange={(open) => !isGenerating && setIsGenerateOpen(open)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center space-x-2">
+              <Wand2 className="h-5 w-5" />
+              <span>Generate {year} Closing Periods</span>
+            </DialogTitle>
+            <DialogDescription>
+              Each period closes on the same day of the month and starts the day after the previous one closes.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="closing_day">Closing Day</Label>
+              <Input
+                id="closing_day"
+                type="number"
+                min={1}
+                max={31}
+                value={closingDay}
+                onChange={(e) => setClosingDay(e.target.value)}
+                disabled={isGenerating}
+              />
+              <p className="text-xs text-muted-foreground">Days past the end of a short month close on its last day</p>
+            </div>
+            <div className="space-y-2">
+              <Label>If the closing day is a weekend</Label>
+              <Select
+                value={weekendRule}
+                onValueChange={(value) => setWeekendRule(value as WeekendRule)}
+                disabled={isGenerating}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(WEEKEND_RULE_LABELS) as WeekendRule[]).map((rule) => (
+                    <SelectItem key={rule} value={rule}>{WEEKEND_RULE_LABELS[rule]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={overwrite}
+                onCheckedChange={(checked) => setOverwrite(checked === true)}
+                disabled={isGenerating}
+              />
+              Replace existing {year} periods ({yearPeriods.size} of 12 set)
+            </label>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsGenerateOpen(false)} disabled={isGenerating}>
+              Cancel
+            </Button>
+            <Button onClick={handleGenerate} disabled={isGenerating} className="flex items-center space-x-2">
+              {isGenerating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Wand2 className="h-4 w-4" />}
+              <span>Generate</span>
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
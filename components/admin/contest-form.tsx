@@ -0,0 +1,267 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { createContest, updateContest, ContestInput } from '@/lib/actions/contests';
+import { ContestMetric, ContestPeriod } from '@/lib/types/database';
+
+export const CONTEST_METRIC_LABELS: Record<ContestMetric, string> = {
+  agency_credits: 'Agency Credits (AC)',
+  net_sales_credits: 'Net Sales Credits (NSC)',
+  settled_apps: 'Lives (settled apps)'
+};
+
+interface ContestFormProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  contest?: ContestPeriod | null;
+  classOptions: string[];
+  onSaved: () => void;
+}
+
+const emptyForm = {
+  contest_name: '',
+  start_date: '',
+  end_date: '',
+  description: '',
+  qualifying_metric: 'net_sales_credits' as ContestMetric,
+  thresholds: '',
+  eligible_classes: [] as string[]
+};
+
+/**
+ * Create or edit a contest: dates, qualifying metric, tier thresholds and eligible classes
+ */
+export function ContestForm({ isOpen, onOpenChange, contest, classOptions, onSaved }: ContestFormProps) {
+  const [formData, setFormData] = useState(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const mode = contest ? 'edit' : 'create';
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setError(null);
+    setFormData(contest
+      ? {
+          contest_name: contest.contest_name,
+          start_date: contest.start_date,
+          end_date: contest.end_date,
+          description: contest.description || '',
+          qualifying_metric: contest.qualifying_metric,
+          thresholds: contest.thresholds.join(', '),
+          eligible_classes: contest.eligible_classes
+        }
+      : emptyForm
+    );
+  }, [isOpen, contest]);
+
+  const toggleClass = (advisorClass: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      eligible_classes: checked
+        ? [...prev.eligible_classes, advisorClass]
+        : prev.eligible_classes.filter(c => c !== advisorClass)
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const thresholds = formData.thresholds
+      .split(/[,;\s]+/)
+      .map(part => part.replace(/₱/g, ''))
+      .filter(Boolean)
+      .map(Number);
+
+    if (thresholds.some(threshold => !Number.isFinite(threshold) || threshold <= 0)) {
+      setError('Thresholds must be positive numbers separated by commas');
+      return;
+    }
+
+    const input: ContestInput = {
+      contest_name: formData.contest_name,
+      start_date: formData.start_date,
+      end_date: formData.end_date,
+      description: formData.description,
+      qualifying_metric: formData.qualifying_metric,
+      thresholds,
+      eligible_classes: formData.eligible_classes
+    };
+
+    setIsSubmitting(true);
+    try {
+      const result = contest
+        ? await updateContest(contest.id, input)
+        : await createContest(input);
+
+      if (result.success) {
+        onOpenChange(false);
+        onSaved();
+      } else {
+        setError(result.error ? `${result.message}: ${result.error}` : result.message);
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Keep classes that are no longer in manpower visible so they can be unchecked
+  const allClasses = Array.from(new Set([...classOptions, ...formData.eligible_classes])).sort();
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{mode === 'create' ? 'New Contest' : 'Edit Contest'}</DialogTitle>
+          <DialogDescription>
+            Advisors are ranked on the qualifying metric using production processed between the start and end dates.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-600 px-3 py-2 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="contest_name">Contest Name *</Label>
+            <Input
+              id="contest_name"
+              value={formData.contest_name}
+              onChange={(e) => setFormData(prev => ({ ...prev, contest_name: e.target.value }))}
+              disabled={isSubmitting}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="start_date">Start Date *</Label>
+              <Input
+                id="start_date"
+                type="date"
+                value={formData.start_date}
+                onChange={(e) => setFormData(prev => ({ ...prev, start_date: e.target.value }))}
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="end_date">End Date *</Label>
+              <Input
+                id="end_date"
+                type="date"
+                value={formData.end_date}
+                onChange={(e) => setFormData(prev => ({ ...prev, end_date: e.target.value }))}
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Qualifying Metric *</Label>
+              <Select
+                value={formData.qualifying_metric}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, qualifying_metric: value as ContestMetric }))}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CONTEST_METRIC_LABELS) as ContestMetric[]).map((metric) => (
+                    <SelectItem key={metric} value={metric}>
+                      {CONTEST_METRIC_LABELS[metric]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="thresholds">Thresholds</Label>
+              <Input
+                id="thresholds"
+                value={formData.thresholds}
+                onChange={(e) => setFormData(prev => ({ ...prev, thresholds: e.target.value }))}
+                placeholder="e.g. 50000, 100000, 200000"
+                disabled={isSubmitting}
+              />
+              <p className="text-xs text-muted-foreground">One qualification tier per value</p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Eligible Classes</Label>
+            {allClasses.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No classes are set on manpower records.</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                {allClasses.map((advisorClass) => (
+                  <label key={advisorClass} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={formData.eligible_classes.includes(advisorClass)}
+                      onCheckedChange={(checked) => toggleClass(advisorClass, checked === true)}
+                      disabled={isSubmitting}
+                    />
+                    {advisorClass}
+                  </label>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">Leave all unchecked to open the contest to every class</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="description">Description</Label>
+            <Textarea
+              id="description"
+              value={formData.description}
+              onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+              placeholder="Rules, prizes or notes for advisors"
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting
+                ? (mode === 'create' ? 'Creating...' : 'Updating...')
+                : (mode === 'create' ? 'Create Contest' : 'Update Contest')
+              }
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -14,6 +14,7 @@ interface DataPreviewTableProps {
   isUploading: boolean;
   isValidData: boolean;
   maxRows?: number;
+  actionLabel?: string; // Overrides the default "Upload N Records" button text
 }
 
 export function DataPreviewTable({
@@ -22,7 +23,8 @@ export function DataPreviewTable({
   onUpload,
   isUploading,
   isValidData,
-  maxRows = 10
+  maxRows = 10,
+  actionLabel
 }: DataPreviewTableProps) {
   if (!data || data.length === 0) {
     return null;
@@ -179,7 +181,7 @@ export function DataPreviewTable({
           >
             <Upload className="h-4 w-4" />
             <span>
-              {isUploading ? 'Uploading...' : `Upload ${validRows} Record${validRows !== 1 ? 's' : ''}`}
+              {actionLabel ?? (isUploading ? 'Uploading...' : `Upload ${validRows} Record${validRows !== 1 ? 's' : ''}`)}
             </span>
           </Button>
         </div>
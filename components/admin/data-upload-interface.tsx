@@ -4,50 +4,17 @@ import { useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { FileSpreadsheet, Database, TrendingUp } from 'lucide-react';
-
-import { SubmittedAppsUpload } from './upload/submitted-apps-upload';
-import { SettledAppsUpload } from './upload/settled-apps-upload';
-import { FYCommissionUpload } from './upload/fy-commission-upload';
-import { RNCommissionUpload } from './upload/rn-commission-upload';
+import { DatasetUpload } from './upload/dataset-upload';
+import { UploadBatchHistory } from './upload/upload-batch-history';
+import { OrphanCodeQueue } from './upload/orphan-code-queue';
+import { IngestionLog } from './upload/ingestion-log';
+import { UPLOAD_DATASETS } from '@/lib/upload/datasets';
 
 export function DataUploadInterface() {
-  const [activeTab, setActiveTab] = useState('submitted-apps');
+  const [activeTab, setActiveTab] = useState<string>(UPLOAD_DATASETS[0].id);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
 
-  const uploadTypes = [
-    {
-      id: 'submitted-apps',
-      label: 'Submitted Apps',
-      description: 'Import submitted application data',
-      icon: FileSpreadsheet,
-      table: 'submitted_apps_details',
-      color: 'bg-blue-500'
-    },
-    {
-      id: 'settled-apps',
-      label: 'Settled Apps',
-      description: 'Import settled application data with credits',
-      icon: Database,
-      table: 'settled_apps_details',
-      color: 'bg-green-500'
-    },
-    {
-      id: 'fy-commission',
-      label: 'FY Commission',
-      description: 'Import first year commission data',
-      icon: TrendingUp,
-      table: 'fy_commission_details',
-      color: 'bg-purple-500'
-    },
-    {
-      id: 'rn-commission',
-      label: 'RN Commission',
-      description: 'Import renewal commission data',
-      icon: TrendingUp,
-      table: 'rn_commission_details',
-      color: 'bg-orange-500'
-    }
-  ];
+  const uploadTypes = UPLOAD_DATASETS;
 
   return (
     <div className="space-y-6">
@@ -86,7 +53,10 @@ export function DataUploadInterface() {
 
       {/* Upload Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList
+          className="grid w-full"
+          style={{ gridTemplateColumns: `repeat(${uploadTypes.length}, minmax(0, 1fr))` }}
+        >
           {uploadTypes.map((type) => (
             <TabsTrigger key={type.id} value={type.id} className="flex items-center space-x-2">
               <type.icon className="h-4 w-4" />
@@ -97,22 +67,27 @@ export function DataUploadInterface() {
 
 
         {/* Upload Forms */}
-        <TabsContent value="submitted-apps">
-          <SubmittedAppsUpload />
-        </TabsContent>
+        {uploadTypes.map((type) => (
+          <TabsContent key={type.id} value={type.id}>
+            <DatasetUpload
+              dataset={type}
+              onUploadComplete={() => setHistoryRefreshKey(key => key + 1)}
+            />
+          </TabsContent>
+        ))}
+      </Tabs>
 
-        <TabsContent value="settled-apps">
-          <SettledAppsUpload />
-        </TabsContent>
+      {/* Drop-Folder Ingestion */}
+      <IngestionLog
+        refreshKey={historyRefreshKey}
+        onRunComplete={() => setHistoryRefreshKey(key => key + 1)}
+      />
 
-        <TabsContent value="fy-commission">
-          <FYCommissionUpload />
-        </TabsContent>
+      {/* Upload History */}
+      <UploadBatchHistory refreshKey={historyRefreshKey} />
 
-        <TabsContent value="rn-commission">
-          <RNCommissionUpload />
-        </TabsContent>
-      </Tabs>
+      {/* Unknown Advisor Codes */}
+      <OrphanCodeQueue refreshKey={historyRefreshKey} />
 
     </div>
   );
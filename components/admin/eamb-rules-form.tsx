@@ -0,0 +1,289 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Plus, Trash2 } from 'lucide-react';
+import { BonusEligibilityFields, eligibilityFromForm, eligibilityToForm, emptyEligibility } from './bonus-eligibility-fields';
+import { saveBonusRuleSet } from '@/lib/actions/bonus-rules';
+import { BONUS_METRIC_LABELS } from '@/lib/bonus/metrics';
+import { BonusMetric, BonusRuleSet } from '@/lib/types/database';
+
+interface EambRulesFormProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  planYear: number;
+  ruleSet?: BonusRuleSet | null;
+  classOptions: string[];
+  onSaved: () => void;
+}
+
+// Numbers are kept as typed until the form is submitted
+interface TierRow {
+  min_production: string;
+  rate: string;
+}
+
+// 'same' pays on the month's AC
+type PayoutBasis = BonusMetric | 'same';
+
+const emptyForm = {
+  payout_metric: 'same' as PayoutBasis,
+  period_type: 'calendar' as 'calendar' | 'systems',
+  eligibility: { ...emptyEligibility, min_tenure_months: '1', max_tenure_months: '12' },
+  tiers: [{ min_production: '', rate: '' }] as TierRow[],
+  min_cases: '',
+  description: ''
+};
+
+const toPercent = (fraction: number) => String(Number((fraction * 100).toFixed(4)));
+
+const optionalWholeNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+
+/**
+ * Create or replace a plan year's EAMB rules: who is eligible by class, app
+ * role and tenure, monthly AC tiers and the minimum lives
+ */
+export function EambRulesForm({ isOpen, onOpenChange, planYear, ruleSet, classOptions, onSaved }: EambRulesFormProps) {
+  const [formData, setFormData] = useState(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setError(null);
+    setFormData(ruleSet
+      ? {
+          payout_metric: ruleSet.payout_metric ?? 'same',
+          period_type: ruleSet.period_type,
+          eligibility: eligibilityToForm(ruleSet.eligibility),
+          tiers: ruleSet.tiers.map(tier => ({
+            min_production: String(tier.min_production),
+            rate: toPercent(tier.rate)
+          })),
+          min_cases: ruleSet.qualifiers.min_cases ? String(ruleSet.qualifiers.min_cases) : '',
+          description: ruleSet.description || ''
+        }
+      : emptyForm
+    );
+  }, [isOpen, ruleSet]);
+
+  const updateTier = (index: number, field: keyof TierRow, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      tiers: prev.tiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier))
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const tiers = formData.tiers
+      .filter(tier => tier.min_production.trim() || tier.rate.trim())
+      .map(tier => ({
+        min_production: Number(tier.min_production.replace(/[₱,]/g, '')),
+        rate: Number(tier.rate) / 100
+      }));
+
+    if (tiers.some(tier => !Number.isFinite(tier.min_production) || !Number.isFinite(tier.rate))) {
+      setError('AC minimums and rates must be numbers');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await saveBonusRuleSet({
+        program: 'eamb',
+        plan_year: planYear,
+        metric: 'agency_credits',
+        payout_metric: formData.payout_metric === 'same' ? null : formData.payout_metric,
+        period_type: formData.period_type,
+        eligibility: eligibilityFromForm(formData.eligibility),
+        tiers,
+        qualifiers: {
+          min_cases: optionalWholeNumber(formData.min_cases)
+        },
+        description: formData.description
+      });
+
+      if (result.success) {
+        onOpenChange(false);
+        onSaved();
+      } else {
+        setError(result.error ? `${result.message}: ${result.error}` : result.message);
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{ruleSet ? 'Edit' : 'Set'} EAMB Rules for {planYear}</DialogTitle>
+          <DialogDescription>
+            Each month is evaluated on its own: an eligible advisor with the minimum lives earns the rate of the highest
+            AC tier reached that month.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-600 px-3 py-2 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Paid On *</Label>
+              <Select
+                value={formData.payout_metric}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, payout_metric: value as PayoutBasis }))}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="same">Same as AC</SelectItem>
+                  {(Object.keys(BONUS_METRIC_LABELS) as BonusMetric[])
+                    .filter(metric => metric !== 'agency_credits')
+                    .map((metric) => (
+                      <SelectItem key={metric} value={metric}>
+                        {BONUS_METRIC_LABELS[metric]}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Months Follow *</Label>
+              <Select
+                value={formData.period_type}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, period_type: value as 'calendar' | 'systems' }))}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="calendar">Calendar months</SelectItem>
+                  <SelectItem value="systems">Systems closing periods</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <BonusEligibilityFields
+            idPrefix="eamb"
+            value={formData.eligibility}
+            onChange={(eligibility) => setFormData(prev => ({ ...prev, eligibility }))}
+            classOptions={classOptions}
+            disabled={isSubmitting}
+          />
+
+          <div className="space-y-2">
+            <Label>Monthly AC Tiers *</Label>
+            <div className="grid grid-cols-[1fr_8rem_2.5rem] gap-2 text-xs text-muted-foreground">
+              <span>Month AC from (₱)</span>
+              <span>Rate (%)</span>
+              <span />
+            </div>
+            {formData.tiers.map((tier, index) => (
+              <div key={index} className="grid grid-cols-[1fr_8rem_2.5rem] gap-2">
+                <Input
+                  value={tier.min_production}
+                  onChange={(e) => updateTier(index, 'min_production', e.target.value)}
+                  placeholder="e.g. 20000"
+                  inputMode="decimal"
+                  disabled={isSubmitting}
+                />
+                <Input
+                  value={tier.rate}
+                  onChange={(e) => updateTier(index, 'rate', e.target.value)}
+                  placeholder="e.g. 15"
+                  inputMode="decimal"
+                  disabled={isSubmitting}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setFormData(prev => ({ ...prev, tiers: prev.tiers.filter((_, i) => i !== index) }))}
+                  disabled={isSubmitting || formData.tiers.length === 1}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setFormData(prev => ({ ...prev, tiers: [...prev.tiers, { min_production: '', rate: '' }] }))}
+              disabled={isSubmitting}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Tier
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="eamb_min_cases">Minimum Lives per Month</Label>
+            <Input
+              id="eamb_min_cases"
+              value={formData.min_cases}
+              onChange={(e) => setFormData(prev => ({ ...prev, min_cases: e.target.value }))}
+              placeholder="Not required"
+              inputMode="numeric"
+              className="w-40"
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="eamb_description">Notes</Label>
+            <Textarea
+              id="eamb_description"
+              value={formData.description}
+              onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+              placeholder="Program memo reference or payout notes for advisors"
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : 'Save Rules'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { saveBonusRuleSet } from '@/lib/actions/bonus-rules';
+import { BONUS_METRIC_LABELS, PROGRAM_METRICS } from '@/lib/bonus/metrics';
+import { BonusMetric, BonusRuleSet } from '@/lib/types/database';
+import { BonusEligibilityFields, eligibilityFromForm, eligibilityToForm, emptyEligibility } from './bonus-eligibility-fields';
+
+export const OVERRIDE_CLASSES = ['UM', 'SM', 'NBM'];
+
+interface OverrideRulesFormProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  planYear: number;
+  ruleSet?: BonusRuleSet | null;
+  onSaved: () => void;
+}
+
+const emptyForm = {
+  metric: 'agency_credits' as BonusMetric,
+  period_type: 'calendar' as 'calendar' | 'systems',
+  // Percentages per generation as typed, e.g. "5, 2, 1"
+  class_rates: Object.fromEntries(OVERRIDE_CLASSES.map(managerClass => [managerClass, ''])) as Record<string, string>,
+  eligibility: emptyEligibility,
+  description: ''
+};
+
+const toPercents = (rates: number[]) => rates.map(rate => Number((rate * 100).toFixed(4))).join(', ');
+
+/**
+ * Create or replace a plan year's override rates per manager class and generation
+ */
+export function OverrideRulesForm({ isOpen, onOpenChange, planYear, ruleSet, onSaved }: OverrideRulesFormProps) {
+  const [formData, setFormData] = useState(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setError(null);
+    setFormData(ruleSet
+      ? {
+          metric: ruleSet.metric,
+          period_type: ruleSet.period_type,
+          class_rates: Object.fromEntries(
+            OVERRIDE_CLASSES.map(managerClass => [managerClass, toPercents(ruleSet.class_rates[managerClass] ?? [])])
+          ),
+          eligibility: eligibilityToForm(ruleSet.eligibility),
+          description: ruleSet.description || ''
+        }
+      : emptyForm
+    );
+  }, [isOpen, ruleSet]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const classRates: Record<string, number[]> = {};
+    for (const managerClass of OVERRIDE_CLASSES) {
+      const rates = formData.class_rates[managerClass]
+        .split(/[,;\s]+/)
+        .map(part => part.replace(/%/g, ''))
+        .filter(Boolean)
+        .map(Number);
+
+      if (rates.some(rate => !Number.isFinite(rate))) {
+        setError(`${managerClass} rates must be percentages separated by commas`);
+        return;
+      }
+
+      if (rates.length > 0) {
+        classRates[managerClass] = rates.map(rate => rate / 100);
+      }
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await saveBonusRuleSet({
+        program: 'override',
+        plan_year: planYear,
+        metric: formData.metric,
+        period_type: formData.period_type,
+        tiers: [],
+        qualifiers: {},
+        class_rates: classRates,
+        eligibility: eligibilityFromForm(formData.eligibility),
+        description: formData.description
+      });
+
+      if (result.success) {
+        onOpenChange(false);
+        onSaved();
+      } else {
+        setError(result.error ? `${result.message}: ${result.error}` : result.message);
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{ruleSet ? 'Edit' : 'Set'} Override Rules for {planYear}</DialogTitle>
+          <DialogDescription>
+            A manager earns each generation&apos;s rate on the production of subordinates that many levels below them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-600 px-3 py-2 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Override On *</Label>
+              <Select
+                value={formData.metric}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, metric: value as BonusMetric }))}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROGRAM_METRICS.override.map((metric) => (
+                    <SelectItem key={metric} value={metric}>
+                      {BONUS_METRIC_LABELS[metric]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Months Follow *</Label>
+              <Select
+                value={formData.period_type}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, period_type: value as 'calendar' | 'systems' }))}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="calendar">Calendar months</SelectItem>
+                  <SelectItem value="systems">Systems closing periods</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Rates per Generation (%)</Label>
+            {OVERRIDE_CLASSES.map((managerClass) => (
+              <div key={managerClass} className="grid grid-cols-[4rem_1fr] items-center gap-2">
+                <span className="text-sm font-medium">{managerClass}</span>
+                <Input
+                  value={formData.class_rates[managerClass]}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    class_rates: { ...prev.class_rates, [managerClass]: e.target.value }
+                  }))}
+                  placeholder="e.g. 5, 2, 1"
+                  disabled={isSubmitting}
+                />
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              First value for direct reports, second for their reports, and so on. Leave a class blank if it earns no override.
+            </p>
+          </div>
+
+          <BonusEligibilityFields
+            idPrefix="override"
+            value={formData.eligibility}
+            onChange={(eligibility) => setFormData(prev => ({ ...prev, eligibility }))}
+            showClasses={false}
+            disabled={isSubmitting}
+          />
+
+          <div className="space-y-2">
+            <Label htmlFor="override_description">Notes</Label>
+            <Textarea
+              id="override_description"
+              value={formData.description}
+              onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+              placeholder="Program memo reference or payout notes"
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : 'Save Rules'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
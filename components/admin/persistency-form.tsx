@@ -0,0 +1,145 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { recordAdvisorPersistency } from '@/lib/actions/bonus-rules';
+
+interface PersistencyFormProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultAdvisorCode?: string;
+  onSaved: () => void;
+}
+
+/**
+ * Record an advisor's persistency rate from the insurer's report
+ */
+export function PersistencyForm({ isOpen, onOpenChange, defaultAdvisorCode, onSaved }: PersistencyFormProps) {
+  const [advisorCode, setAdvisorCode] = useState('');
+  const [asOfDate, setAsOfDate] = useState('');
+  const [rate, setRate] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setError(null);
+    setAdvisorCode(defaultAdvisorCode ?? '');
+    setAsOfDate(new Date().toLocaleDateString('en-CA'));
+    setRate('');
+  }, [isOpen, defaultAdvisorCode]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const percent = Number(rate);
+    if (rate.trim() === '' || !Number.isFinite(percent)) {
+      setError('Persistency must be a percentage');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await recordAdvisorPersistency({
+        advisor_code: advisorCode,
+        as_of_date: asOfDate,
+        persistency_rate: percent / 100
+      });
+
+      if (result.success) {
+        onOpenChange(false);
+        onSaved();
+      } else {
+        setError(result.error ? `${result.message}: ${result.error}` : result.message);
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Record Persistency</DialogTitle>
+          <DialogDescription>
+            Bonus qualifiers use the latest rate recorded on or before the end of the bonus period.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-600 px-3 py-2 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="persistency_advisor_code">Advisor Code *</Label>
+            <Input
+              id="persistency_advisor_code"
+              value={advisorCode}
+              onChange={(e) => setAdvisorCode(e.target.value)}
+              disabled={isSubmitting}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="persistency_as_of">As Of *</Label>
+              <Input
+                id="persistency_as_of"
+                type="date"
+                value={asOfDate}
+                onChange={(e) => setAsOfDate(e.target.value)}
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="persistency_rate">Persistency (%) *</Label>
+              <Input
+                id="persistency_rate"
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+                placeholder="e.g. 82.5"
+                inputMode="decimal"
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : 'Record'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,399 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Plus, Trash2 } from 'lucide-react';
+import { BonusEligibilityFields, eligibilityFromForm, eligibilityToForm, emptyEligibility } from './bonus-eligibility-fields';
+import { saveBonusRuleSet } from '@/lib/actions/bonus-rules';
+import { BONUS_METRIC_LABELS, PROGRAM_METRICS } from '@/lib/bonus/metrics';
+import { BonusMetric, BonusRuleSet } from '@/lib/types/database';
+import { MONTHS } from '@/lib/utils/manpower-filters';
+
+interface PlanBRulesFormProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  planYear: number;
+  ruleSet?: BonusRuleSet | null;
+  classOptions: string[];
+  onSaved: () => void;
+}
+
+// Numbers are kept as typed until the form is submitted
+interface WindowRow {
+  label: string;
+  start_month: string;
+  end_month: string;
+  payout_after_months: string;
+}
+
+interface TierRow {
+  min_production: string;
+  rate: string;
+}
+
+// 'same' pays on the qualifying metric
+type PayoutBasis = BonusMetric | 'same';
+
+const emptyWindow: WindowRow = { label: '', start_month: '1', end_month: '6', payout_after_months: '1' };
+
+const emptyForm = {
+  metric: 'agency_credits' as BonusMetric,
+  payout_metric: 'fy_commission_php' as PayoutBasis,
+  period_type: 'calendar' as 'calendar' | 'systems',
+  windows: [emptyWindow] as WindowRow[],
+  tiers: [{ min_production: '', rate: '' }] as TierRow[],
+  min_cases: '',
+  eligibility: emptyEligibility,
+  description: ''
+};
+
+const toPercent = (fraction: number) => String(Number((fraction * 100).toFixed(4)));
+
+/**
+ * Create or replace a plan year's Plan B rules: eligibility windows and their
+ * payout schedule, credit thresholds and the minimum cases
+ */
+export function PlanBRulesForm({ isOpen, onOpenChange, planYear, ruleSet, classOptions, onSaved }: PlanBRulesFormProps) {
+  const [formData, setFormData] = useState(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setError(null);
+    setFormData(ruleSet
+      ? {
+          metric: ruleSet.metric,
+          payout_metric: ruleSet.payout_metric ?? 'same',
+          period_type: ruleSet.period_type,
+          windows: ruleSet.windows.map(window => ({
+            label: window.label,
+            start_month: String(window.start_month),
+            end_month: String(window.end_month),
+            payout_after_months: String(window.payout_after_months)
+          })),
+          tiers: ruleSet.tiers.map(tier => ({
+            min_production: String(tier.min_production),
+            rate: toPercent(tier.rate)
+          })),
+          min_cases: ruleSet.qualifiers.min_cases ? String(ruleSet.qualifiers.min_cases) : '',
+          eligibility: eligibilityToForm(ruleSet.eligibility),
+          description: ruleSet.description || ''
+        }
+      : emptyForm
+    );
+  }, [isOpen, ruleSet]);
+
+  const updateWindow = (index: number, field: keyof WindowRow, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      windows: prev.windows.map((window, i) => (i === index ? { ...window, [field]: value } : window))
+    }));
+  };
+
+  const updateTier = (index: number, field: keyof TierRow, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      tiers: prev.tiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier))
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const tiers = formData.tiers
+      .filter(tier => tier.min_production.trim() || tier.rate.trim())
+      .map(tier => ({
+        min_production: Number(tier.min_production.replace(/[₱,]/g, '')),
+        rate: Number(tier.rate) / 100
+      }));
+
+    if (tiers.some(tier => !Number.isFinite(tier.min_production) || !Number.isFinite(tier.rate))) {
+      setError('Thresholds and rates must be numbers');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await saveBonusRuleSet({
+        program: 'plan_b',
+        plan_year: planYear,
+        metric: formData.metric,
+        payout_metric: formData.payout_metric === 'same' ? null : formData.payout_metric,
+        period_type: formData.period_type,
+        windows: formData.windows.map(window => ({
+          label: window.label,
+          start_month: Number(window.start_month),
+          end_month: Number(window.end_month),
+          payout_after_months: Number(window.payout_after_months)
+        })),
+        tiers,
+        qualifiers: {
+          min_cases: formData.min_cases.trim() === '' ? null : Number(formData.min_cases)
+        },
+        eligibility: eligibilityFromForm(formData.eligibility),
+        description: formData.description
+      });
+
+      if (result.success) {
+        onOpenChange(false);
+        onSaved();
+      } else {
+        setError(result.error ? `${result.message}: ${result.error}` : result.message);
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[680px] max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{ruleSet ? 'Edit' : 'Set'} Plan B Rules for {planYear}</DialogTitle>
+          <DialogDescription>
+            Each window is evaluated on its own: the highest threshold an advisor reaches pays its rate on the
+            window&apos;s payout basis.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-600 px-3 py-2 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Credits *</Label>
+              <Select
+                value={formData.metric}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, metric: value as BonusMetric }))}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROGRAM_METRICS.plan_b.map((metric) => (
+                    <SelectItem key={metric} value={metric}>
+                      {BONUS_METRIC_LABELS[metric]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Paid On *</Label>
+              <Select
+                value={formData.payout_metric}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, payout_metric: value as PayoutBasis }))}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="same">Same as credits</SelectItem>
+                  {(Object.keys(BONUS_METRIC_LABELS) as BonusMetric[]).map((metric) => (
+                    <SelectItem key={metric} value={metric}>
+                      {BONUS_METRIC_LABELS[metric]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Months Follow *</Label>
+              <Select
+                value={formData.period_type}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, period_type: value as 'calendar' | 'systems' }))}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="calendar">Calendar months</SelectItem>
+                  <SelectItem value="systems">Systems closing periods</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Eligibility Windows *</Label>
+            <div className="grid grid-cols-[1fr_8rem_8rem_6rem_2.5rem] gap-2 text-xs text-muted-foreground">
+              <span>Label</span>
+              <span>From</span>
+              <span>To</span>
+              <span>Paid after (months)</span>
+              <span />
+            </div>
+            {formData.windows.map((window, index) => (
+              <div key={index} className="grid grid-cols-[1fr_8rem_8rem_6rem_2.5rem] gap-2">
+                <Input
+                  value={window.label}
+                  onChange={(e) => updateWindow(index, 'label', e.target.value)}
+                  placeholder="e.g. H1"
+                  disabled={isSubmitting}
+                />
+                {(['start_month', 'end_month'] as const).map((field) => (
+                  <Select
+                    key={field}
+                    value={window[field]}
+                    onValueChange={(value) => updateWindow(index, field, value)}
+                    disabled={isSubmitting}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MONTHS.map((month) => (
+                        <SelectItem key={month.value} value={String(Number(month.value))}>{month.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ))}
+                <Input
+                  value={window.payout_after_months}
+                  onChange={(e) => updateWindow(index, 'payout_after_months', e.target.value)}
+                  inputMode="numeric"
+                  disabled={isSubmitting}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setFormData(prev => ({ ...prev, windows: prev.windows.filter((_, i) => i !== index) }))}
+                  disabled={isSubmitting || formData.windows.length === 1}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setFormData(prev => ({ ...prev, windows: [...prev.windows, emptyWindow] }))}
+              disabled={isSubmitting}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Window
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Credit Thresholds *</Label>
+            <div className="grid grid-cols-[1fr_8rem_2.5rem] gap-2 text-xs text-muted-foreground">
+              <span>Window credits from (₱)</span>
+              <span>Rate (%)</span>
+              <span />
+            </div>
+            {formData.tiers.map((tier, index) => (
+              <div key={index} className="grid grid-cols-[1fr_8rem_2.5rem] gap-2">
+                <Input
+                  value={tier.min_production}
+                  onChange={(e) => updateTier(index, 'min_production', e.target.value)}
+                  placeholder="e.g. 150000"
+                  inputMode="decimal"
+                  disabled={isSubmitting}
+                />
+                <Input
+                  value={tier.rate}
+                  onChange={(e) => updateTier(index, 'rate', e.target.value)}
+                  placeholder="e.g. 10"
+                  inputMode="decimal"
+                  disabled={isSubmitting}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setFormData(prev => ({ ...prev, tiers: prev.tiers.filter((_, i) => i !== index) }))}
+                  disabled={isSubmitting || formData.tiers.length === 1}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setFormData(prev => ({ ...prev, tiers: [...prev.tiers, { min_production: '', rate: '' }] }))}
+              disabled={isSubmitting}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Threshold
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="plan_b_min_cases">Minimum Cases per Window</Label>
+            <Input
+              id="plan_b_min_cases"
+              value={formData.min_cases}
+              onChange={(e) => setFormData(prev => ({ ...prev, min_cases: e.target.value }))}
+              placeholder="Not required"
+              inputMode="numeric"
+              className="w-40"
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <BonusEligibilityFields
+            idPrefix="plan_b"
+            value={formData.eligibility}
+            onChange={(eligibility) => setFormData(prev => ({ ...prev, eligibility }))}
+            classOptions={classOptions}
+            disabled={isSubmitting}
+          />
+
+          <div className="space-y-2">
+            <Label htmlFor="plan_b_description">Notes</Label>
+            <Textarea
+              id="plan_b_description"
+              value={formData.description}
+              onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+              placeholder="Program memo reference or payout notes for advisors"
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : 'Save Rules'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
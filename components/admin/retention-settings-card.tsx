@@ -0,0 +1,140 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Archive, CheckCircle, Loader2, Save } from 'lucide-react';
+import { archiveProductionSummaries, updateRetentionSettings } from '@/lib/actions/production-retention';
+import { ProductionSummarySettings } from '@/lib/types/database';
+
+interface RetentionSettingsCardProps {
+  settings?: ProductionSummarySettings;
+}
+
+/**
+ * Retention settings for the production summaries: how many years stay live
+ * and how long archived years are kept
+ */
+export function RetentionSettingsCard({ settings }: RetentionSettingsCardProps) {
+  const router = useRouter();
+  const [liveYears, setLiveYears] = useState(String(settings?.live_years ?? 3));
+  const [archiveYears, setArchiveYears] = useState(
+    settings?.archive_retention_years ? String(settings.archive_retention_years) : ''
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [isArchiving, setIsArchiving] = useState(false);
+  const [feedback, setFeedback] = useState<{ success: boolean; message: string } | null>(null);
+
+  const currentYear = new Date().getFullYear();
+  const liveYearCount = Number(liveYears);
+  const oldestLiveYear = Number.isInteger(liveYearCount) && liveYearCount >= 1
+    ? currentYear - liveYearCount + 1
+    : null;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setFeedback(null);
+
+    const result = await updateRetentionSettings({
+      live_years: Number(liveYears),
+      archive_retention_years: archiveYears.trim() ? Number(archiveYears) : null
+    });
+
+    setIsSaving(false);
+    setFeedback({
+      success: result.success,
+      message: result.error ? `${result.message}: ${result.error}` : result.message
+    });
+
+    if (result.success) {
+      router.refresh();
+    }
+  };
+
+  const handleArchive = async () => {
+    setIsArchiving(true);
+    setFeedback(null);
+    const result = await archiveProductionSummaries();
+    setIsArchiving(false);
+    setFeedback({
+      success: result.success,
+      message: result.error ? `${result.message}: ${result.error}` : result.message
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Archive className="h-5 w-5" />
+          <span>Summary Retention</span>
+        </CardTitle>
+        <CardDescription>
+          Years older than the live window move to the archive tables at the scheduled cleanup. Archived years stay
+          available to production reports.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {feedback && (
+          <Alert variant={feedback.success ? 'default' : 'destructive'}>
+            {feedback.success ? <CheckCircle className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
+            <AlertDescription>{feedback.message}</AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleSave} className="grid grid-cols-1 gap-4 md:grid-cols-3 md:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="live_years">Live Years</Label>
+            <Input
+              id="live_years"
+              type="number"
+              min={1}
+              max={20}
+              value={liveYears}
+              onChange={(e) => setLiveYears(e.target.value)}
+              disabled={isSaving}
+              required
+            />
+            <p className="text-xs text-muted-foreground">
+              {oldestLiveYear ? `Keeps ${oldestLiveYear}-${currentYear} live` : 'Including the current year'}
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="archive_retention_years">Archive Retention (years)</Label>
+            <Input
+              id="archive_retention_years"
+              type="number"
+              min={1}
+              value={archiveYears}
+              onChange={(e) => setArchiveYears(e.target.value)}
+              placeholder="Keep forever"
+              disabled={isSaving}
+            />
+            <p className="text-xs text-muted-foreground">Leave blank to never purge archived years</p>
+          </div>
+          <div className="flex gap-2 md:pb-6">
+            <Button type="submit" disabled={isSaving} className="flex items-center space-x-2">
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              <span>Save</span>
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleArchive}
+              disabled={isArchiving || isSaving}
+              className="flex items-center space-x-2"
+            >
+              {isArchiving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Archive className="h-4 w-4" />}
+              <span>Archive Now</span>
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
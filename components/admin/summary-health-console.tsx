@@ -0,0 +1,404 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Activity, AlertCircle, CheckCircle, Clock, Loader2, RefreshCw, RotateCcw } from 'lucide-react';
+import {
+  getSummaryFreshness,
+  getSummaryHealth,
+  recalculateSummaries,
+  SummaryRecalculationScope
+} from '@/lib/actions/summary-health';
+import { ProductionPeriodType, SummaryFreshness, SummaryHealthRow } from '@/lib/types/database';
+import { formatPeriodName } from '@/lib/utils/closing-periods';
+import { formatCurrency, formatNumber } from '@/lib/utils';
+
+const PAGE_SIZE = 100;
+
+const METRICS: {
+  label: string;
+  source: keyof SummaryHealthRow;
+  summary: keyof SummaryHealthRow;
+  format: (value: number) => string;
+}[] = [
+  { label: 'Settled', source: 'source_settled_apps', summary: 'summary_settled_apps', format: formatNumber },
+  { label: 'AC', source: 'source_agency_credits', summary: 'summary_agency_credits', format: formatCurrency },
+  { label: 'NSC', source: 'source_net_sales_credits', summary: 'summary_net_sales_credits', format: formatCurrency },
+  { label: 'RN Comm', source: 'source_rn_commission_php', summary: 'summary_rn_commission_php', format: formatCurrency },
+  { label: 'FY Premium', source: 'source_fy_premium_php', summary: 'summary_fy_premium_php', format: formatCurrency },
+  { label: 'FYC', source: 'source_fy_commission_php', summary: 'summary_fy_commission_php', format: formatCurrency },
+  { label: 'Submitted', source: 'source_submitted_apps', summary: 'summary_submitted_apps', format: formatNumber }
+];
+
+function formatUpdated(value?: string) {
+  if (!value) return '-';
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+}
+
+function describeScope(scope: SummaryRecalculationScope) {
+  const period = scope.month ? formatPeriodName(scope.year, scope.month) : `all of ${scope.year}`;
+  const advisor = scope.advisorCode ? `advisor ${scope.advisorCode}` : 'every advisor';
+  return `${scope.periodType} summaries for ${advisor}, ${period}`;
+}
+
+interface SummaryHealthConsoleProps {
+  liveYears?: number; // Years kept in the live summary tables; older years are archived
+}
+
+/**
+ * Admin console comparing source-table totals with the production summaries,
+ * with summary freshness and targeted recalculation
+ */
+export function SummaryHealthConsole({ liveYears = 3 }: SummaryHealthConsoleProps) {
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+  const [periodType, setPeriodType] = useState<ProductionPeriodType>('calendar');
+  const [month, setMonth] = useState<number | undefined>(undefined);
+  const [driftOnly, setDriftOnly] = useState(true);
+
+  const [rows, setRows] = useState<SummaryHealthRow[]>([]);
+  const [freshness, setFreshness] = useState<SummaryFreshness[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const [advisorCode, setAdvisorCode] = useState('');
+  const [pendingScope, setPendingScope] = useState<SummaryRecalculationScope | null>(null);
+  const [runningKey, setRunningKey] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<{ success: boolean; message: string } | null>(null);
+
+  const loadHealth = useCallback(async () => {
+    setIsLoading(true);
+    const [healthResult, freshnessResult] = await Promise.all([
+      getSummaryHealth({ year, periodType, month, driftOnly }),
+      getSummaryFreshness(year, periodType)
+    ]);
+
+    if (healthResult.success && healthResult.data) {
+      setRows(healthResult.data);
+      setLoadError(null);
+    } else {
+      setLoadError(healthResult.message);
+    }
+    setFreshness(freshnessResult.data || []);
+    setVisibleCount(PAGE_SIZE);
+    setIsLoading(false);
+  }, [year, periodType, month, driftOnly]);
+
+  useEffect(() => {
+    loadHealth();
+  }, [loadHealth]);
+
+  const driftCount = useMemo(() => rows.filter(row => row.has_drift).length, [rows]);
+  const monthlyFreshness = freshness.filter(row => row.summary_table === 'monthly');
+  const annualFreshness = freshness.find(row => row.summary_table === 'annual');
+
+  const runRecalculation = async (scope: SummaryRecalculationScope, key: string) => {
+    setRunningKey(key);
+    setFeedback(null);
+    const result = await recalculateSummaries(scope);
+    setRunningKey(null);
+    setPendingScope(null);
+    setFeedback({
+      success: result.success,
+      message: result.error ? `${result.message}: ${result.error}` : result.message
+    });
+
+    if (result.success) {
+      loadHealth();
+    }
+  };
+
+  const rowKey = (row: SummaryHealthRow) => `${row.advisor_code}-${row.period_month}`;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <Activity className="h-5 w-5" />
+                <span>Summary Health</span>
+              </CardTitle>
+              <CardDescription>
+                Source-table totals compared with monthly_production_summary for each advisor and period.
+              </CardDescription>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={String(year)} onValueChange={(value) => setYear(Number(value))}>
+                <SelectTrigger className="w-[100px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: liveYears }, (_, i) => currentYear - i).map((option) => (
+                    <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={periodType} onValueChange={(value) => setPeriodType(value as ProductionPeriodType)}>
+                <SelectTrigger className="w-[120px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="calendar">Calendar</SelectItem>
+                  <SelectItem value="systems">Systems</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select
+                value={month ? String(month) : 'all'}
+                onValueChange={(value) => setMonth(value === 'all' ? undefined : Number(value))}
+              >
+                <SelectTrigger className="w-[130px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All months</SelectItem>
+                  {Array.from({ length: 12 }, (_, i) => i + 1).map((option) => (
+                    <SelectItem key={option} value={String(option)}>{formatPeriodName(year, option)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={driftOnly} onCheckedChange={(checked) => setDriftOnly(checked === true)} />
+                Drift only
+              </label>
+              <Button variant="outline" size="sm" onClick={loadHealth} disabled={isLoading}>
+                <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {feedback && (
+            <Alert variant={feedback.success ? 'default' : 'destructive'}>
+              {feedback.success ? <CheckCircle className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
+              <AlertDescription>{feedback.message}</AlertDescription>
+            </Alert>
+          )}
+
+          {loadError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{loadError}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+            <div className="text-sm text-muted-foreground">
+              {isLoading
+                ? 'Checking summaries...'
+                : driftCount === 0
+                  ? 'No drift found for this selection.'
+                  : `${formatNumber(driftCount)} advisor period${driftCount !== 1 ? 's' : ''} out of sync with the source tables.`}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                value={advisorCode}
+                onChange={(e) => setAdvisorCode(e.target.value)}
+                placeholder="Advisor code"
+                className="w-[150px]"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!advisorCode.trim() || runningKey !== null}
+                onClick={() => runRecalculation(
+                  { year, periodType, month, advisorCode: advisorCode.trim() },
+                  'advisor'
+                )}
+                className="flex items-center space-x-1"
+              >
+                {runningKey === 'advisor' ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                <span>Recalculate Advisor</span>
+              </Button>
+              <Button
+                size="sm"
+                disabled={runningKey !== null}
+                onClick={() => setPendingScope({ year, periodType, month })}
+                className="flex items-center space-x-1"
+              >
+                <RotateCcw className="h-4 w-4" />
+                <span>Recalculate {month ? formatPeriodName(year, month) : year}</span>
+              </Button>
+            </div>
+          </div>
+
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Advisor</TableHead>
+                  <TableHead>Period</TableHead>
+                  {METRICS.map((metric) => (
+                    <TableHead key={metric.label} className="text-right">{metric.label}</TableHead>
+                  ))}
+                  <TableHead>Last Updated</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {!isLoading && rows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={METRICS.length + 5} className="text-center text-sm text-muted-foreground py-6">
+                      {driftOnly ? 'Every summary matches its source data.' : 'No production for this selection.'}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  rows.slice(0, visibleCount).map((row) => {
+                    const key = rowKey(row);
+                    return (
+                      <TableRow key={key}>
+                        <TableCell>
+                          <div className="font-medium">{row.advisor_name || row.advisor_code}</div>
+                          <div className="text-xs text-muted-foreground">{row.advisor_code}</div>
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap text-sm">{formatPeriodName(year, row.period_month)}</TableCell>
+                        {METRICS.map((metric) => {
+                          const source = row[metric.source] as number;
+                          const summary = row[metric.summary] as number;
+                          const differs = Math.abs(source - summary) >= 0.005;
+                          return (
+                            <TableCell key={metric.label} className="text-right whitespace-nowrap text-sm">
+                              <div className={differs ? 'text-red-600 font-medium' : ''}>{metric.format(summary)}</div>
+                              {differs && (
+                                <div className="text-xs text-muted-foreground">source {metric.format(source)}</div>
+                              )}
+                            </TableCell>
+                          );
+                        })}
+                        <TableCell className="whitespace-nowrap text-sm">{formatUpdated(row.last_updated)}</TableCell>
+                        <TableCell>
+                          {!row.has_summary ? (
+                            <Badge variant="destructive">Missing</Badge>
+                          ) : row.has_drift ? (
+                            <Badge variant="destructive">Drift</Badge>
+                          ) : (
+                            <Badge variant="secondary">OK</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={runningKey !== null}
+                            onClick={() => runRecalculation(
+                              { year, periodType, month: row.period_month, advisorCode: row.advisor_code },
+                              key
+                            )}
+                            title="Recalculate this advisor and period"
+                          >
+                            {runningKey === key ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {rows.length > visibleCount && (
+            <div className="flex justify-center">
+              <Button variant="outline" size="sm" onClick={() => setVisibleCount(count => count + PAGE_SIZE)}>
+                Show more ({formatNumber(rows.length - visibleCount)} remaining)
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Clock className="h-5 w-5" />
+            <span>Summary Freshness</span>
+          </CardTitle>
+          <CardDescription>
+            When the {periodType} summaries for {year} were last written. Triggers update a row whenever its source data changes.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Summary</TableHead>
+                  <TableHead className="text-right">Rows</TableHead>
+                  <TableHead>Oldest Update</TableHead>
+                  <TableHead>Newest Update</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {monthlyFreshness.map((row) => (
+                  <TableRow key={`monthly-${row.period_month}`}>
+                    <TableCell className="text-sm">{formatPeriodName(year, row.period_month ?? 1)}</TableCell>
+                    <TableCell className="text-right text-sm">{formatNumber(row.row_count)}</TableCell>
+                    <TableCell className="text-sm">{formatUpdated(row.oldest_update)}</TableCell>
+                    <TableCell className="text-sm">{formatUpdated(row.newest_update)}</TableCell>
+                  </TableRow>
+                ))}
+                {annualFreshness && (
+                  <TableRow className="font-medium">
+                    <TableCell className="text-sm">{year} annual</TableCell>
+                    <TableCell className="text-right text-sm">{formatNumber(annualFreshness.row_count)}</TableCell>
+                    <TableCell className="text-sm">{formatUpdated(annualFreshness.oldest_update)}</TableCell>
+                    <TableCell className="text-sm">{formatUpdated(annualFreshness.newest_update)}</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Period / Year Recalculation Confirmation */}
+      <Dialog open={!!pendingScope} onOpenChange={(open) => !open && runningKey === null && setPendingScope(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center space-x-2">
+              <RotateCcw className="h-5 w-5" />
+              <span>Recalculate Summaries?</span>
+            </DialogTitle>
+            <DialogDescription>
+              {pendingScope && (
+                <>
+                  This rebuilds the {describeScope(pendingScope)} from the source tables, then each
+                  affected advisor&apos;s annual summary. Large ranges can take a while.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingScope(null)} disabled={runningKey !== null}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => pendingScope && runRecalculation(pendingScope, 'scope')}
+              disabled={runningKey !== null}
+              className="flex items-center space-x-2"
+            >
+              {runningKey === 'scope' ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+              <span>Recalculate</span>
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
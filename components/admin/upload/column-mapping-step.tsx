@@ -0,0 +1,199 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, Columns3, Loader2, Save, Trash2 } from 'lucide-react';
+import { UploadDatasetDescriptor } from '@/lib/upload/datasets';
+import { getUnmappedColumns } from '@/lib/upload/mapping';
+import { UploadMappingProfile } from '@/lib/types/database';
+
+const IGNORE_VALUE = '__ignore__';
+
+interface ColumnMappingStepProps {
+  dataset: UploadDatasetDescriptor;
+  headers: string[];
+  sampleRow?: string[];
+  columnMapping: Record<string, number>;
+  onMappingChange: (columnMapping: Record<string, number>) => void;
+  profiles: UploadMappingProfile[];
+  activeProfileId: string | null;
+  onApplyProfile: (profileId: string) => void;
+  onSaveProfile: (name: string) => void;
+  onDeleteProfile: (profileId: string) => void;
+  isSavingProfile?: boolean;
+}
+
+/**
+ * Mapping step shown after parsing - each source header can be pointed at a
+ * dataset column or ignored, and the result saved as a named profile.
+ */
+export function ColumnMappingStep({
+  dataset,
+  headers,
+  sampleRow = [],
+  columnMapping,
+  onMappingChange,
+  profiles,
+  activeProfileId,
+  onApplyProfile,
+  onSaveProfile,
+  onDeleteProfile,
+  isSavingProfile = false
+}: ColumnMappingStepProps) {
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId);
+  const [profileName, setProfileName] = useState(activeProfile?.name ?? '');
+
+  // Reverse lookup: header index -> mapped column key
+  const headerTargets: Record<number, string> = Object.fromEntries(
+    Object.entries(columnMapping).map(([key, index]) => [index, key])
+  );
+
+  const unmappedColumns = getUnmappedColumns(dataset, columnMapping);
+
+  const handleTargetChange = (headerIndex: number, target: string) => {
+    const next = Object.fromEntries(
+      Object.entries(columnMapping).filter(([key, index]) => index !== headerIndex && key !== target)
+    );
+
+    if (target !== IGNORE_VALUE) {
+      next[target] = headerIndex;
+    }
+
+    onMappingChange(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Columns3 className="h-5 w-5" />
+          <span>Column Mapping</span>
+          {activeProfile && (
+            <Badge variant="secondary" className="ml-2">
+              Profile: {activeProfile.name}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Match each column in your file to a {dataset.title} field. Columns set to &quot;Ignore&quot; are not uploaded.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Saved Profiles */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={activeProfileId ?? ''}
+            onValueChange={(value) => {
+              onApplyProfile(value);
+              setProfileName(profiles.find(profile => profile.id === value)?.name ?? '');
+            }}
+            disabled={profiles.length === 0}
+          >
+            <SelectTrigger className="w-[240px] h-8">
+              <SelectValue placeholder={profiles.length === 0 ? 'No saved profiles' : 'Apply saved profile'} />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map((profile) => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  {profile.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {activeProfile && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onDeleteProfile(activeProfile.id)}
+              className="flex items-center space-x-2"
+            >
+              <Trash2 className="h-4 w-4" />
+              <span>Delete Profile</span>
+            </Button>
+          )}
+
+          <div className="flex items-center gap-2 ml-auto">
+            <Input
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder='Profile name, e.g. "AIA RN report v2"'
+              className="w-[240px] h-8"
+            />
+            <Button
+              size="sm"
+              onClick={() => onSaveProfile(profileName)}
+              disabled={!profileName.trim() || isSavingProfile}
+              className="flex items-center space-x-2"
+            >
+              {isSavingProfile ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4" />
+              )}
+              <span>Save Profile</span>
+            </Button>
+          </div>
+        </div>
+
+        {/* Header -> Field Table */}
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Source Column</TableHead>
+                <TableHead>Sample Value</TableHead>
+                <TableHead className="w-[260px]">Maps To</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {headers.map((header, index) => (
+                <TableRow key={index}>
+                  <TableCell className="font-medium">
+                    {header || <span className="text-muted-foreground italic">(blank header)</span>}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground font-mono text-xs max-w-[200px] truncate">
+                    {sampleRow[index] || '-'}
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={headerTargets[index] ?? IGNORE_VALUE}
+                      onValueChange={(value) => handleTargetChange(index, value)}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={IGNORE_VALUE}>Ignore</SelectItem>
+                        {dataset.columns.map((column) => (
+                          <SelectItem key={column.key} value={column.key}>
+                            {column.label}{column.required && ' *'}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {unmappedColumns.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Not mapped: {unmappedColumns.map(column => column.label).join(', ')}
+            </AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,616 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, CheckCircle, Trash2, AlertTriangle, FileSpreadsheet } from 'lucide-react';
+import { DataPreviewTable } from '../data-preview-table';
+import { UploadResultDialog, UploadResponse } from './upload-result-dialog';
+import { FileDropzone } from './file-dropzone';
+import { UploadPlanReview } from './upload-plan-review';
+import { UploadProgressCard } from './upload-progress';
+import { ColumnMappingStep } from './column-mapping-step';
+import { detectDataSchema, isSchemaCompatible, getCorrectUploadSuggestion } from '@/lib/upload-schema-detector';
+import { UploadDatasetDescriptor } from '@/lib/upload/datasets';
+import { ImportedWorkbook, readUploadFile, hashUploadSource } from '@/lib/upload/file-import';
+import {
+  ParsedUploadRow,
+  splitPastedText,
+  splitSheetRows,
+  parseUploadRows,
+  toUploadRecord
+} from '@/lib/upload/parse';
+import {
+  suggestColumnMapping,
+  findMatchingProfile,
+  applyMappingProfile,
+  toProfileMapping,
+  getUnmappedColumns
+} from '@/lib/upload/mapping';
+import {
+  getUploadMappingProfiles,
+  saveUploadMappingProfile,
+  deleteUploadMappingProfile
+} from '@/lib/actions/upload-mapping';
+import { UploadMappingProfile } from '@/lib/types/database';
+import type { UploadPlan } from '@/lib/upload/dry-run';
+import type { UploadRejectedRow } from '@/lib/upload/validation';
+import { runChunkedDryRun, runChunkedUpload, UploadProgress } from '@/lib/upload/chunked-upload';
+
+interface DatasetUploadProps {
+  dataset: UploadDatasetDescriptor;
+  onUploadComplete?: () => void;
+}
+
+/**
+ * Upload engine for a single dataset - parsing, validation, preview and
+ * submission are all driven by the dataset descriptor.
+ */
+export function DatasetUpload({ dataset, onUploadComplete }: DatasetUploadProps) {
+  const [pasteData, setPasteData] = useState('');
+  const [parsedData, setParsedData] = useState<ParsedUploadRow[]>([]);
+  const [isValidData, setIsValidData] = useState(false);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadResult, setUploadResult] = useState<UploadResponse | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [showSuccessDialog, setShowSuccessDialog] = useState(false);
+  const [schemaWarning, setSchemaWarning] = useState<string | null>(null);
+  const [workbook, setWorkbook] = useState<ImportedWorkbook | null>(null);
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  const [selectedSheet, setSelectedSheet] = useState<string>('');
+  const [isReadingFile, setIsReadingFile] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [sourceHeaders, setSourceHeaders] = useState<string[]>([]);
+  const [sourceRows, setSourceRows] = useState<string[][]>([]);
+  const [columnMapping, setColumnMapping] = useState<Record<string, number>>({});
+  const [mappingProfiles, setMappingProfiles] = useState<UploadMappingProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [isSavingProfile, setIsSavingProfile] = useState(false);
+  const [uploadPlan, setUploadPlan] = useState<UploadPlan | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [planRejected, setPlanRejected] = useState<UploadRejectedRow[]>([]);
+  const [allowUnknownCodes, setAllowUnknownCodes] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  const [profileMessage, setProfileMessage] = useState<{ success: boolean; message: string } | null>(null);
+
+  const Icon = dataset.icon;
+
+  useEffect(() => {
+    getUploadMappingProfiles(dataset.id).then(result => {
+      if (result.success && result.data) {
+        setMappingProfiles(result.data);
+      }
+    });
+  }, [dataset.id]);
+
+  const resetParseState = () => {
+    setParsedData([]);
+    setIsValidData(false);
+    setSchemaWarning(null);
+    setSourceHeaders([]);
+    setSourceRows([]);
+    setColumnMapping({});
+    setActiveProfileId(null);
+    setProfileMessage(null);
+    setUploadPlan(null);
+    setUploadProgress(null);
+  };
+
+  const applyColumnMapping = (
+    rows: string[][],
+    mapping: Record<string, number>,
+    schemaBlocked: boolean
+  ) => {
+    const { rows: parsed, errors } = parseUploadRows(dataset, rows, mapping);
+
+    setUploadPlan(null);
+    setColumnMapping(mapping);
+    setParsedData(parsed);
+    setParseErrors(errors);
+
+    // Block upload if schema is incompatible or required fields are unmapped
+    const hasUnmappedColumns = getUnmappedColumns(dataset, mapping).length > 0;
+    setIsValidData(errors.length === 0 && parsed.length > 0 && !schemaBlocked && !hasUnmappedColumns);
+  };
+
+  const parseSheetData = (headers: string[], rows: string[][]) => {
+    if (rows.length < 1) {
+      resetParseState();
+      setParseErrors(['Data must include at least headers and one data row']);
+      return;
+    }
+
+    // Detect data schema to prevent wrong table uploads
+    const schemaDetection = detectDataSchema(headers);
+    const compatibility = isSchemaCompatible(schemaDetection.detectedSchema, dataset.schema, schemaDetection.confidence);
+
+    if (!compatibility.compatible && compatibility.warning) {
+      setSchemaWarning(compatibility.warning + ' ' + getCorrectUploadSuggestion(schemaDetection.detectedSchema));
+    } else {
+      setSchemaWarning(null);
+    }
+
+    setSourceHeaders(headers);
+    setSourceRows(rows);
+    setProfileMessage(null);
+
+    // A saved profile whose headers all appear wins over the suggested mapping
+    const profile = findMatchingProfile(mappingProfiles, headers);
+    setActiveProfileId(profile?.id ?? null);
+
+    const mapping = profile
+      ? applyMappingProfile(dataset, profile, headers)
+      : suggestColumnMapping(dataset, headers);
+
+    applyColumnMapping(rows, mapping, !compatibility.compatible && !!compatibility.warning);
+  };
+
+  const handleMappingChange = (mapping: Record<string, number>) => {
+    setActiveProfileId(null);
+    applyColumnMapping(sourceRows, mapping, !!schemaWarning);
+  };
+
+  const handleApplyProfile = (profileId: string) => {
+    const profile = mappingProfiles.find(p => p.id === profileId);
+    if (!profile) return;
+
+    setActiveProfileId(profile.id);
+    applyColumnMapping(sourceRows, applyMappingProfile(dataset, profile, sourceHeaders), !!schemaWarning);
+  };
+
+  const handleSaveProfile = async (name: string) => {
+    setIsSavingProfile(true);
+    setProfileMessage(null);
+
+    const result = await saveUploadMappingProfile({
+      dataset: dataset.id,
+      name,
+      headers: sourceHeaders,
+      mapping: toProfileMapping(columnMapping, sourceHeaders)
+    });
+
+    setIsSavingProfile(false);
+    setProfileMessage({ success: result.success, message: result.error ? `${result.message}: ${result.error}` : result.message });
+
+    if (result.success && result.data) {
+      const saved = result.data;
+      setMappingProfiles(prev => [saved, ...prev.filter(p => p.id !== saved.id)]);
+      setActiveProfileId(saved.id);
+    }
+  };
+
+  const handleDeleteProfile = async (profileId: string) => {
+    const result = await deleteUploadMappingProfile(profileId);
+    setProfileMessage({ success: result.success, message: result.message });
+
+    if (result.success) {
+      setMappingProfiles(prev => prev.filter(p => p.id !== profileId));
+      setActiveProfileId(null);
+    }
+  };
+
+  const parseExcelData = (data: string) => {
+    if (!data.trim()) {
+      resetParseState();
+      setParseErrors([]);
+      return;
+    }
+
+    const { headers, rows } = splitPastedText(data);
+    parseSheetData(headers, rows);
+  };
+
+  const selectSheet = (source: ImportedWorkbook, sheetName: string) => {
+    const sheet = source.sheets.find(s => s.name === sheetName);
+    setSelectedSheet(sheetName);
+
+    if (!sheet || sheet.rows.length === 0) {
+      resetParseState();
+      setParseErrors([`Sheet "${sheetName}" is empty`]);
+      return;
+    }
+
+    const { headers, rows } = splitSheetRows(sheet.rows);
+    parseSheetData(headers, rows);
+  };
+
+  const handlePaste = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const data = e.target.value;
+    setWorkbook(null);
+    setSourceFile(null);
+    setSelectedSheet('');
+    setFileError(null);
+    setPasteData(data);
+    parseExcelData(data);
+  };
+
+  const handleFileSelected = async (file: File) => {
+    setIsReadingFile(true);
+    setFileError(null);
+    setPasteData('');
+    setUploadResult(null);
+    setUploadError(null);
+
+    try {
+      const imported = await readUploadFile(file);
+      if (imported.sheets.length === 0) {
+        throw new Error('The file does not contain any sheets');
+      }
+
+      // Default to the first sheet whose headers look like this dataset
+      const matchingSheet = imported.sheets.find(sheet => {
+        const { headers } = splitSheetRows(sheet.rows);
+        return detectDataSchema(headers).detectedSchema === dataset.schema;
+      });
+
+      setWorkbook(imported);
+      setSourceFile(file);
+      selectSheet(imported, (matchingSheet ?? imported.sheets[0]).name);
+    } catch (error) {
+      console.error('File import error:', error);
+      setWorkbook(null);
+      setSourceFile(null);
+      setSelectedSheet('');
+      resetParseState();
+      setParseErrors([]);
+      setFileError(error instanceof Error ? error.message : 'Failed to read file');
+    } finally {
+      setIsReadingFile(false);
+    }
+  };
+
+  const handleFileRejected = useCallback((message: string) => {
+    setFileError(message);
+  }, []);
+
+  const clearData = () => {
+    setPasteData('');
+    setWorkbook(null);
+    setSourceFile(null);
+    setSelectedSheet('');
+    setFileError(null);
+    resetParseState();
+    setParseErrors([]);
+    setUploadResult(null);
+    setUploadError(null);
+    setShowSuccessDialog(false);
+  };
+
+  // Only valid rows (those without errors) are sent
+  const validRows = parsedData.filter(record => !record.errors || record.errors.length === 0);
+
+  // Attach server-side validation errors to the rows they came from so the preview highlights them
+  const markRejectedRows = (payloadRows: ParsedUploadRow[], rejected: UploadRejectedRow[]) => {
+    const rejectedErrors = new Map(
+      rejected.map(row => [payloadRows[row.index]?.rowIndex, row.errors.map(error => error.message)])
+    );
+
+    setParsedData(rows => rows.map(row => {
+      const errors = rejectedErrors.get(row.rowIndex);
+      return errors ? { ...row, errors: [...(row.errors || []), ...errors] } : row;
+    }));
+  };
+
+  // Identify the source on the upload batch
+  const getUploadSource = async () => ({
+    fileName: sourceFile?.name,
+    fileHash: await hashUploadSource(sourceFile ?? pasteData)
+  });
+
+  const handleReview = async () => {
+    if (!isValidData || parsedData.length === 0) return;
+
+    setIsPlanning(true);
+    setUploadError(null);
+    setUploadResult(null);
+    setUploadProgress(null);
+
+    try {
+      const { plan, rejected } = await runChunkedDryRun({
+        datasetId: dataset.id,
+        records: validRows.map(record => toUploadRecord(dataset, record)),
+        source: await getUploadSource()
+      });
+      setUploadPlan(plan);
+      setPlanRejected(rejected);
+      setAllowUnknownCodes(false);
+    } catch (error) {
+      console.error('Dry run error:', error);
+      setUploadError(error instanceof Error ? error.message : 'Dry run failed');
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!isValidData || parsedData.length === 0) return;
+
+    const payloadRows = validRows;
+
+    setIsUploading(true);
+    setUploadError(null);
+    setUploadResult(null);
+
+    try {
+      const result = await runChunkedUpload({
+        datasetId: dataset.id,
+        records: payloadRows.map(record => toUploadRecord(dataset, record)),
+        source: await getUploadSource(),
+        allowUnknownCodes,
+        onProgress: setUploadProgress
+      });
+
+      // Marked only once the upload finishes so a retry sends the same payload and resumes
+      if (result.rejected) {
+        markRejectedRows(payloadRows, result.rejected);
+      }
+
+      setUploadResult(result);
+      setUploadPlan(null);
+
+      // Show success dialog instead of auto-clearing
+      if (result.success) {
+        setShowSuccessDialog(true);
+      }
+    } catch (error) {
+      console.error('Upload error:', error);
+      setUploadError(error instanceof Error ? error.message : 'Upload failed');
+    } finally {
+      setIsUploading(false);
+      onUploadComplete?.();
+    }
+  };
+
+  const previewData = parsedData.map(row => ({
+    rowIndex: row.rowIndex,
+    ...row.values,
+    errors: row.errors
+  }));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Icon className={`h-5 w-5 ${dataset.iconColor}`} />
+            <span>{dataset.title} Import</span>
+          </CardTitle>
+          <CardDescription>
+            {dataset.longDescription}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {/* Expected Columns */}
+          <div className="mb-4">
+            <h4 className="text-sm font-medium mb-2">Expected Columns:</h4>
+            <div className="flex flex-wrap gap-2">
+              {dataset.columns.map((col) => (
+                <Badge
+                  key={col.key}
+                  variant={col.required ? "default" : "secondary"}
+                  className="text-xs"
+                >
+                  {col.label}{col.hint && ` (${col.hint})`} {col.required && '*'}
+                </Badge>
+              ))}
+            </div>
+            {dataset.footnote && (
+              <p className="text-xs text-gray-500 mt-2">
+                {dataset.footnote}
+              </p>
+            )}
+          </div>
+
+          {/* File Import */}
+          <div className="space-y-4">
+            <FileDropzone
+              onFileSelected={handleFileSelected}
+              onRejected={handleFileRejected}
+              isReading={isReadingFile}
+              disabled={isUploading}
+            />
+
+            {fileError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{fileError}</AlertDescription>
+              </Alert>
+            )}
+
+            {workbook && (
+              <div className="flex flex-wrap items-center gap-3 p-3 bg-muted/50 rounded-lg border">
+                <FileSpreadsheet className="h-4 w-4 text-muted-foreground" />
+                <span className="text-sm font-medium truncate">{workbook.fileName}</span>
+                {workbook.sheets.length > 1 && (
+                  <Select
+                    value={selectedSheet}
+                    onValueChange={(value) => selectSheet(workbook, value)}
+                  >
+                    <SelectTrigger className="w-[200px] h-8">
+                      <SelectValue placeholder="Select sheet" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {workbook.sheets.map((sheet) => (
+                        <SelectItem key={sheet.name} value={sheet.name}>
+                          {sheet.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            )}
+
+            {!workbook && (
+              <>
+                <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                  <div className="h-px flex-1 bg-border" />
+                  <span>or paste from Excel</span>
+                  <div className="h-px flex-1 bg-border" />
+                </div>
+
+                <Textarea
+                  placeholder="Paste your Excel data here (Ctrl+V or Cmd+V)..."
+                  value={pasteData}
+                  onChange={handlePaste}
+                  className="min-h-[200px] font-mono text-sm"
+                />
+              </>
+            )}
+
+            {(pasteData || workbook) && (
+              <div className="flex justify-between items-center">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={clearData}
+                  className="flex items-center space-x-2"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span>Clear Data</span>
+                </Button>
+
+                {parsedData.length > 0 && (
+                  <Badge variant="outline">
+                    {parsedData.length} row{parsedData.length !== 1 ? 's' : ''} parsed
+                  </Badge>
+                )}
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Column Mapping */}
+      {sourceHeaders.length > 0 && (
+        <ColumnMappingStep
+          key={`${workbook?.fileName ?? 'paste'}-${selectedSheet}`}
+          dataset={dataset}
+          headers={sourceHeaders}
+          sampleRow={sourceRows.find(row => row.some(cell => cell && cell.trim()))}
+          columnMapping={columnMapping}
+          onMappingChange={handleMappingChange}
+          profiles={mappingProfiles}
+          activeProfileId={activeProfileId}
+          onApplyProfile={handleApplyProfile}
+          onSaveProfile={handleSaveProfile}
+          onDeleteProfile={handleDeleteProfile}
+          isSavingProfile={isSavingProfile}
+        />
+      )}
+
+      {profileMessage && (
+        <Alert variant={profileMessage.success ? 'default' : 'destructive'}>
+          {profileMessage.success ? <CheckCircle className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
+          <AlertDescription>{profileMessage.message}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Parse Errors */}
+      {parseErrors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            <div className="space-y-1">
+              <div>Found {parseErrors.length} error{parseErrors.length !== 1 ? 's' : ''}:</div>
+              <ul className="list-disc list-inside text-sm">
+                {parseErrors.slice(0, 5).map((error, index) => (
+                  <li key={index}>{error}</li>
+                ))}
+                {parseErrors.length > 5 && (
+                  <li>... and {parseErrors.length - 5} more errors</li>
+                )}
+              </ul>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Schema Error - Blocks Upload */}
+      {schemaWarning && (
+        <Alert variant="destructive" className="border-red-600 bg-red-50 dark:bg-red-950/50">
+          <AlertTriangle className="h-5 w-5 text-red-600" />
+          <AlertDescription>
+            <div className="space-y-3">
+              <div className="font-bold text-red-800 dark:text-red-200 text-lg">
+                🚫 UPLOAD BLOCKED - Wrong Data Type
+              </div>
+              <div className="font-medium text-red-700 dark:text-red-300">
+                {schemaWarning}
+              </div>
+              <div className="text-sm text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900/30 p-3 rounded-lg border border-red-300 dark:border-red-700">
+                <strong>Upload is disabled</strong> to prevent data corruption. Please use the correct upload page for your data type.
+              </div>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Success State */}
+      {isValidData && parsedData.length > 0 && !uploadResult && (
+        <Alert>
+          <CheckCircle className="h-4 w-4" />
+          <AlertDescription>
+            Data parsed successfully! {parsedData.length} record{parsedData.length !== 1 ? 's' : ''} ready for upload.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Upload Error */}
+      {uploadError && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Upload failed: {uploadError}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Chunked Upload Progress */}
+      {uploadProgress && (
+        <UploadProgressCard progress={uploadProgress} isUploading={isUploading} />
+      )}
+
+      {/* Dry Run Review */}
+      {uploadPlan && (
+        <UploadPlanReview
+          plan={uploadPlan}
+          rowNumbers={validRows.map(row => row.rowIndex)}
+          rejected={planRejected}
+          allowUnknownCodes={allowUnknownCodes}
+          onAllowUnknownCodesChange={setAllowUnknownCodes}
+          onConfirm={handleUpload}
+          onCancel={() => setUploadPlan(null)}
+          isUploading={isUploading}
+        />
+      )}
+
+      {/* Data Preview */}
+      {parsedData.length > 0 && !uploadPlan && (
+        <DataPreviewTable
+          data={previewData}
+          title={`${dataset.title} Preview`}
+          onUpload={handleReview}
+          isUploading={isPlanning}
+          isValidData={isValidData}
+          actionLabel={isPlanning ? 'Checking...' : `Review ${validRows.length} Record${validRows.length !== 1 ? 's' : ''}`}
+        />
+      )}
+
+      {/* Success Dialog */}
+      <UploadResultDialog
+        open={showSuccessDialog}
+        onOpenChange={setShowSuccessDialog}
+        datasetLabel={dataset.title}
+        result={uploadResult}
+        onUploadMore={clearData}
+      />
+    </div>
+  );
+}
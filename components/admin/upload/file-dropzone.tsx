@@ -0,0 +1,76 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useDropzone, FileRejection } from 'react-dropzone';
+import { FileUp, Loader2 } from 'lucide-react';
+import { ACCEPTED_UPLOAD_FILES, MAX_UPLOAD_FILE_SIZE } from '@/lib/upload/file-import';
+
+interface FileDropzoneProps {
+  onFileSelected: (file: File) => void;
+  onRejected: (message: string) => void;
+  isReading?: boolean;
+  disabled?: boolean;
+}
+
+export function FileDropzone({
+  onFileSelected,
+  onRejected,
+  isReading = false,
+  disabled = false
+}: FileDropzoneProps) {
+  const onDrop = useCallback((acceptedFiles: File[], rejections: FileRejection[]) => {
+    if (rejections.length > 0) {
+      const reason = rejections[0].errors[0];
+      onRejected(
+        reason?.code === 'file-too-large'
+          ? `File is too large (max ${MAX_UPLOAD_FILE_SIZE / 1024 / 1024}MB)`
+          : 'Unsupported file type. Please upload an .xlsx or .csv file'
+      );
+      return;
+    }
+
+    if (acceptedFiles[0]) {
+      onFileSelected(acceptedFiles[0]);
+    }
+  }, [onFileSelected, onRejected]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: ACCEPTED_UPLOAD_FILES,
+    maxFiles: 1,
+    maxSize: MAX_UPLOAD_FILE_SIZE,
+    disabled: disabled || isReading
+  });
+
+  return (
+    <div
+      {...getRootProps()}
+      className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${
+        isDragActive
+          ? 'border-primary bg-primary/5'
+          : disabled || isReading
+          ? 'border-muted-foreground/25 cursor-not-allowed opacity-50'
+          : 'border-muted-foreground/25 hover:border-muted-foreground/50'
+      }`}
+    >
+      <input {...getInputProps()} />
+      {isReading ? (
+        <Loader2 className="h-6 w-6 mx-auto mb-2 text-muted-foreground animate-spin" />
+      ) : (
+        <FileUp className="h-6 w-6 mx-auto mb-2 text-muted-foreground" />
+      )}
+      <div className="space-y-1">
+        <p className="text-sm font-medium">
+          {isReading
+            ? 'Reading file...'
+            : isDragActive
+            ? 'Drop the report file here'
+            : 'Import a report file'}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          Drag and drop or click to select an .xlsx or .csv file (max {MAX_UPLOAD_FILE_SIZE / 1024 / 1024}MB)
+        </p>
+      </div>
+    </div>
+  );
+}
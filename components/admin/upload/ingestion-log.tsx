@@ -0,0 +1,244 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, CheckCircle, ChevronDown, ChevronRight, FolderInput, Loader2, Play, RefreshCw } from 'lucide-react';
+import { getUploadIngestionRuns, runUploadIngestionNow, UploadIngestionRunWithFiles } from '@/lib/actions/upload-ingestion';
+import { getUploadDataset } from '@/lib/upload/datasets';
+import { UploadIngestionFileStatus, UploadIngestionRunStatus, UploadIngestionSource } from '@/lib/types/database';
+import { formatNumber } from '@/lib/utils';
+
+type BadgeVariant = 'default' | 'secondary' | 'destructive' | 'outline';
+
+const RUN_STATUS_BADGES: Record<UploadIngestionRunStatus, { label: string; variant: BadgeVariant }> = {
+  running: { label: 'Running', variant: 'outline' },
+  completed: { label: 'Completed', variant: 'default' },
+  failed: { label: 'Failed', variant: 'destructive' }
+};
+
+const FILE_STATUS_BADGES: Record<UploadIngestionFileStatus, { label: string; variant: BadgeVariant }> = {
+  uploaded: { label: 'Uploaded', variant: 'default' },
+  skipped: { label: 'Skipped', variant: 'secondary' },
+  failed: { label: 'Failed', variant: 'destructive' }
+};
+
+function formatRunDate(value: string) {
+  return new Date(value).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+}
+
+interface IngestionLogProps {
+  refreshKey?: number;
+  onRunComplete?: () => void;
+}
+
+/**
+ * Log of the drop-folder ingestion job, with a button to run it now
+ */
+export function IngestionLog({ refreshKey = 0, onRunComplete }: IngestionLogProps) {
+  const [runs, setRuns] = useState<UploadIngestionRunWithFiles[]>([]);
+  const [source, setSource] = useState<{ source: UploadIngestionSource; location: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [runResult, setRunResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+
+  const loadRuns = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getUploadIngestionRuns();
+
+    if (result.success && result.data) {
+      setRuns(result.data);
+      setSource(result.source ?? null);
+      setLoadError(null);
+    } else {
+      setLoadError(result.message);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns, refreshKey]);
+
+  const handleRunNow = async () => {
+    setIsRunning(true);
+    setRunResult(null);
+    const result = await runUploadIngestionNow();
+    setIsRunning(false);
+
+    setRunResult({
+      success: result.success,
+      message: result.error ? `${result.message}: ${result.error}` : result.message
+    });
+
+    if (result.data?.runId) {
+      setExpandedRunId(result.data.runId);
+    }
+    loadRuns();
+    onRunComplete?.();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <FolderInput className="h-5 w-5" />
+              <span>Drop-Folder Ingestion</span>
+            </CardTitle>
+            <CardDescription>
+              {source ? (
+                <>
+                  Report files dropped into the {source.source === 'bucket' ? 'storage bucket folder' : 'directory'}{' '}
+                  <span className="font-mono">{source.location}</span> are detected, mapped with the saved mapping
+                  profile, validated and uploaded, then archived.
+                </>
+              ) : (
+                'Not configured. Set UPLOAD_INGESTION_DIR or UPLOAD_INGESTION_BUCKET on the server to ingest dropped report files automatically.'
+              )}
+            </CardDescription>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleRunNow}
+              disabled={isRunning || !source}
+              className="flex items-center space-x-1"
+            >
+              {isRunning ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+              <span>Run Now</span>
+            </Button>
+            <Button variant="outline" size="sm" onClick={loadRuns} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {runResult && (
+          <Alert variant={runResult.success ? 'default' : 'destructive'}>
+            {runResult.success ? <CheckCircle className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
+            <AlertDescription>{runResult.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {loadError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{loadError}</AlertDescription>
+          </Alert>
+        )}
+
+        {!isLoading && runs.length === 0 && !loadError ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No ingestion runs yet.</p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8"></TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Trigger</TableHead>
+                  <TableHead className="text-right">Files</TableHead>
+                  <TableHead className="text-right">Uploaded</TableHead>
+                  <TableHead className="text-right">Skipped</TableHead>
+                  <TableHead className="text-right">Failed</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => {
+                  const status = RUN_STATUS_BADGES[run.status] ?? RUN_STATUS_BADGES.running;
+                  const isExpanded = expandedRunId === run.id;
+                  return (
+                    <Fragment key={run.id}>
+                      <TableRow
+                        className="cursor-pointer"
+                        onClick={() => setExpandedRunId(isExpanded ? null : run.id)}
+                      >
+                        <TableCell>
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap text-sm">{formatRunDate(run.started_at)}</TableCell>
+                        <TableCell className="text-sm">{run.triggered_by ? 'Manual' : 'Scheduled'}</TableCell>
+                        <TableCell className="text-right">{formatNumber(run.files_found)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(run.files_uploaded)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(run.files_skipped)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(run.files_failed)}</TableCell>
+                        <TableCell>
+                          <Badge variant={status.variant}>{status.label}</Badge>
+                        </TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow>
+                          <TableCell colSpan={8} className="bg-muted/40">
+                            {run.error && (
+                              <p className="text-sm text-destructive mb-2">{run.error}</p>
+                            )}
+                            {run.files.length === 0 ? (
+                              <p className="text-sm text-muted-foreground py-2">No files were found in this run.</p>
+                            ) : (
+                              <div className="space-y-2">
+                                {run.files.map((file) => {
+                                  const fileStatus = FILE_STATUS_BADGES[file.status] ?? FILE_STATUS_BADGES.failed;
+                                  return (
+                                    <div key={file.id} className="rounded-md border bg-background p-3 text-sm space-y-1">
+                                      <div className="flex items-center justify-between">
+                                        <div className="truncate">
+                                          <span className="font-medium">{file.file_name}</span>
+                                          {file.sheet_name && file.sheet_name !== file.file_name && (
+                                            <span className="text-muted-foreground"> · {file.sheet_name}</span>
+                                          )}
+                                          {file.dataset && (
+                                            <span className="text-muted-foreground">
+                                              {' '}→ {getUploadDataset(file.dataset)?.label ?? file.dataset}
+                                            </span>
+                                          )}
+                                        </div>
+                                        <Badge variant={fileStatus.variant}>{fileStatus.label}</Badge>
+                                      </div>
+                                      {file.status === 'uploaded' && (
+                                        <div className="text-xs text-muted-foreground">
+                                          {formatNumber(file.row_count)} rows: {formatNumber(file.records_inserted)} new,{' '}
+                                          {formatNumber(file.records_updated)} duplicates, {formatNumber(file.rejected_count)} rejected
+                                          {file.mapping_profile_id ? ' · saved mapping profile applied' : ' · suggested mapping'}
+                                        </div>
+                                      )}
+                                      {file.message && <div className="text-xs">{file.message}</div>}
+                                      {file.archived_to && (
+                                        <div className="font-mono text-xs text-muted-foreground truncate" title={file.archived_to}>
+                                          {file.archived_to}
+                                        </div>
+                                      )}
+                                    </div>
+                                  );
+                                })}
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
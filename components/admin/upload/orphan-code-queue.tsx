@@ -0,0 +1,418 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, CheckCircle, EyeOff, Link2, Loader2, RefreshCw, RotateCcw, UserPlus, UserX } from 'lucide-react';
+import {
+  createManpowerFromOrphanCode,
+  getOrphanAdvisorCodes,
+  mapOrphanAdvisorCode,
+  searchManpowerAdvisors,
+  setOrphanAdvisorCodeIgnored
+} from '@/lib/actions/orphan-codes';
+import { ManpowerRecord, OrphanAdvisorCode } from '@/lib/types/database';
+import { formatCurrency, formatNumber } from '@/lib/utils';
+
+type AdvisorMatch = Pick<ManpowerRecord, 'code_number' | 'advisor_name' | 'unit_code' | 'status'>;
+
+function formatDateRange(first?: string, last?: string) {
+  if (!first) return '-';
+  return first === last ? first : `${first} – ${last}`;
+}
+
+interface OrphanCodeQueueProps {
+  refreshKey?: number;
+}
+
+/**
+ * Advisor codes in uploaded apps with no manpower record. Their rows never
+ * reach the production summaries until the code is mapped or created.
+ */
+export function OrphanCodeQueue({ refreshKey = 0 }: OrphanCodeQueueProps) {
+  const [codes, setCodes] = useState<OrphanAdvisorCode[]>([]);
+  const [includeIgnored, setIncludeIgnored] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [actionResult, setActionResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [pendingCode, setPendingCode] = useState<string | null>(null);
+
+  // Map dialog
+  const [mapping, setMapping] = useState<OrphanAdvisorCode | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [matches, setMatches] = useState<AdvisorMatch[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [selectedTarget, setSelectedTarget] = useState<AdvisorMatch | null>(null);
+
+  // Create dialog
+  const [creating, setCreating] = useState<OrphanAdvisorCode | null>(null);
+  const [newAdvisor, setNewAdvisor] = useState({ advisor_name: '', unit_code: '', manager_id: '' });
+
+  const loadCodes = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getOrphanAdvisorCodes(includeIgnored);
+
+    if (result.success && result.data) {
+      setCodes(result.data);
+      setLoadError(null);
+    } else {
+      setLoadError(result.message);
+    }
+    setIsLoading(false);
+  }, [includeIgnored]);
+
+  useEffect(() => {
+    loadCodes();
+  }, [loadCodes, refreshKey]);
+
+  useEffect(() => {
+    if (!mapping) return;
+
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      const result = await searchManpowerAdvisors(searchQuery);
+      setMatches(result.success && result.data ? result.data : []);
+      setIsSearching(false);
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [mapping, searchQuery]);
+
+  const finishAction = (result: { success: boolean; message: string; error?: string }) => {
+    setActionResult({
+      success: result.success,
+      message: result.error ? `${result.message}: ${result.error}` : result.message
+    });
+
+    if (result.success) {
+      loadCodes();
+    }
+  };
+
+  const openMapDialog = (code: OrphanAdvisorCode) => {
+    setActionResult(null);
+    setSearchQuery(code.advisor_name ?? '');
+    setMatches([]);
+    setSelectedTarget(null);
+    setMapping(code);
+  };
+
+  const openCreateDialog = (code: OrphanAdvisorCode) => {
+    setActionResult(null);
+    setNewAdvisor({ advisor_name: code.advisor_name ?? '', unit_code: '', manager_id: '' });
+    setCreating(code);
+  };
+
+  const confirmMap = async () => {
+    if (!mapping || !selectedTarget) return;
+
+    setPendingCode(mapping.advisor_code);
+    const result = await mapOrphanAdvisorCode(mapping.advisor_code, selectedTarget.code_number);
+    setPendingCode(null);
+    setMapping(null);
+    finishAction(result);
+  };
+
+  const confirmCreate = async () => {
+    if (!creating || !newAdvisor.advisor_name.trim()) return;
+
+    setPendingCode(creating.advisor_code);
+    const result = await createManpowerFromOrphanCode({
+      code_number: creating.advisor_code,
+      advisor_name: newAdvisor.advisor_name.trim(),
+      unit_code: newAdvisor.unit_code.trim(),
+      manager_id: newAdvisor.manager_id.trim()
+    });
+    setPendingCode(null);
+    setCreating(null);
+    finishAction(result);
+  };
+
+  const toggleIgnored = async (code: OrphanAdvisorCode) => {
+    setActionResult(null);
+    setPendingCode(code.advisor_code);
+    const result = await setOrphanAdvisorCodeIgnored(code.advisor_code, !code.ignored);
+    setPendingCode(null);
+    finishAction(result);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <UserX className="h-5 w-5" />
+              <span>Unknown Advisor Codes</span>
+              {codes.filter(code => !code.ignored).length > 0 && (
+                <Badge variant="destructive">{formatNumber(codes.filter(code => !code.ignored).length)}</Badge>
+              )}
+            </CardTitle>
+            <CardDescription>
+              Submitted and settled rows whose advisor code has no manpower record are left out of production summaries.
+              Map each code to an existing advisor, create the advisor, or ignore it.
+            </CardDescription>
+          </div>
+          <div className="flex items-center space-x-4">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="orphan-include-ignored"
+                checked={includeIgnored}
+                onCheckedChange={(checked) => setIncludeIgnored(checked === true)}
+              />
+              <Label htmlFor="orphan-include-ignored" className="text-sm font-normal">
+                Show ignored
+              </Label>
+            </div>
+            <Button variant="outline" size="sm" onClick={loadCodes} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {actionResult && (
+          <Alert variant={actionResult.success ? 'default' : 'destructive'}>
+            {actionResult.success ? <CheckCircle className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
+            <AlertDescription>{actionResult.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {loadError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{loadError}</AlertDescription>
+          </Alert>
+        )}
+
+        {!isLoading && codes.length === 0 && !loadError ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            Every advisor code in submitted and settled apps has a manpower record.
+          </p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Advisor Code</TableHead>
+                  <TableHead>Name in Upload</TableHead>
+                  <TableHead className="text-right">Submitted Rows</TableHead>
+                  <TableHead className="text-right">Settled Rows</TableHead>
+                  <TableHead className="text-right">Submitted Apps</TableHead>
+                  <TableHead className="text-right">Settled Apps</TableHead>
+                  <TableHead className="text-right">Agency Credits</TableHead>
+                  <TableHead className="text-right">NSC</TableHead>
+                  <TableHead>Process Dates</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {codes.map((code) => {
+                  const isPending = pendingCode === code.advisor_code;
+                  return (
+                    <TableRow key={code.advisor_code} className={code.ignored ? 'opacity-60' : undefined}>
+                      <TableCell className="font-mono text-sm">
+                        <div className="flex items-center space-x-2">
+                          <span>{code.advisor_code}</span>
+                          {code.ignored && <Badge variant="secondary">Ignored</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">{code.advisor_name || '-'}</TableCell>
+                      <TableCell className="text-right">{formatNumber(code.submitted_rows)}</TableCell>
+                      <TableCell className="text-right">{formatNumber(code.settled_rows)}</TableCell>
+                      <TableCell className="text-right">{formatNumber(code.total_submitted_apps)}</TableCell>
+                      <TableCell className="text-right">{formatNumber(code.total_settled_apps)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(code.total_agency_credits)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(code.total_net_sales_credits)}</TableCell>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {formatDateRange(code.first_process_date, code.last_process_date)}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center justify-end space-x-2">
+                          {!code.ignored && (
+                            <>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => openMapDialog(code)}
+                                disabled={isPending}
+                                className="flex items-center space-x-1"
+                              >
+                                <Link2 className="h-4 w-4" />
+                                <span>Map</span>
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => openCreateDialog(code)}
+                                disabled={isPending}
+                                className="flex items-center space-x-1"
+                              >
+                                <UserPlus className="h-4 w-4" />
+                                <span>Create</span>
+                              </Button>
+                            </>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => toggleIgnored(code)}
+                            disabled={isPending}
+                            className="flex items-center space-x-1"
+                          >
+                            {isPending ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : code.ignored ? (
+                              <RotateCcw className="h-4 w-4" />
+                            ) : (
+                              <EyeOff className="h-4 w-4" />
+                            )}
+                            <span>{code.ignored ? 'Restore' : 'Ignore'}</span>
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Map to Existing Advisor */}
+      <Dialog open={!!mapping} onOpenChange={(open) => !open && !pendingCode && setMapping(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center space-x-2">
+              <Link2 className="h-5 w-5" />
+              <span>Map {mapping?.advisor_code} to an Advisor</span>
+            </DialogTitle>
+            <DialogDescription>
+              {mapping && (
+                <>
+                  The {formatNumber(mapping.submitted_rows + mapping.settled_rows)} row
+                  {mapping.submitted_rows + mapping.settled_rows !== 1 ? 's' : ''} recorded under {mapping.advisor_code}{' '}
+                  will be moved to the selected advisor and their production summaries recalculated. The code is
+                  also saved as an alias, so later uploads that use it go to the same advisor.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Input
+              placeholder="Search by advisor code or name"
+              value={searchQuery}
+              onChange={(e) => {
+                setSearchQuery(e.target.value);
+                setSelectedTarget(null);
+              }}
+              autoFocus
+            />
+            <div className="rounded-md border max-h-64 overflow-y-auto">
+              {isSearching ? (
+                <div className="flex items-center justify-center py-6">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                </div>
+              ) : matches.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  {searchQuery.trim().length < 2 ? 'Enter at least 2 characters' : 'No matching advisors'}
+                </p>
+              ) : (
+                matches.map((match) => (
+                  <button
+                    key={match.code_number}
+                    type="button"
+                    onClick={() => setSelectedTarget(match)}
+                    className={`flex w-full items-center justify-between px-3 py-2 text-left text-sm hover:bg-muted ${
+                      selectedTarget?.code_number === match.code_number ? 'bg-muted' : ''
+                    }`}
+                  >
+                    <span>
+                      <span className="font-medium">{match.advisor_name}</span>
+                      <span className="ml-2 font-mono text-xs text-muted-foreground">{match.code_number}</span>
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {[match.unit_code, match.status].filter(Boolean).join(' · ')}
+                    </span>
+                  </button>
+                ))
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMapping(null)} disabled={!!pendingCode}>
+              Cancel
+            </Button>
+            <Button onClick={confirmMap} disabled={!selectedTarget || !!pendingCode} className="flex items-center space-x-2">
+              {pendingCode ? <Loader2 className="h-4 w-4 animate-spin" /> : <Link2 className="h-4 w-4" />}
+              <span>{selectedTarget ? `Map to ${selectedTarget.code_number}` : 'Map'}</span>
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Create Manpower Record */}
+      <Dialog open={!!creating} onOpenChange={(open) => !open && !pendingCode && setCreating(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center space-x-2">
+              <UserPlus className="h-5 w-5" />
+              <span>Create Advisor {creating?.advisor_code}</span>
+            </DialogTitle>
+            <DialogDescription>
+              Adds a manpower record with this code and recalculates its production summaries. The remaining
+              details can be completed in Manpower afterwards.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="orphan-advisor-name">Advisor Name *</Label>
+              <Input
+                id="orphan-advisor-name"
+                value={newAdvisor.advisor_name}
+                onChange={(e) => setNewAdvisor(prev => ({ ...prev, advisor_name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="orphan-unit-code">Unit Code</Label>
+              <Input
+                id="orphan-unit-code"
+                value={newAdvisor.unit_code}
+                onChange={(e) => setNewAdvisor(prev => ({ ...prev, unit_code: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="orphan-manager-id">Manager Code</Label>
+              <Input
+                id="orphan-manager-id"
+                value={newAdvisor.manager_id}
+                onChange={(e) => setNewAdvisor(prev => ({ ...prev, manager_id: e.target.value }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreating(null)} disabled={!!pendingCode}>
+              Cancel
+            </Button>
+            <Button
+              onClick={confirmCreate}
+              disabled={!newAdvisor.advisor_name.trim() || !!pendingCode}
+              className="flex items-center space-x-2"
+            >
+              {pendingCode ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+              <span>Create Advisor</span>
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
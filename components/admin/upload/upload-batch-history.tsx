@@ -0,0 +1,216 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, CheckCircle, History, Loader2, RefreshCw, Undo2 } from 'lucide-react';
+import { getUploadBatches, rollbackUploadBatch, UploadBatchWithUploader } from '@/lib/actions/upload-batches';
+import { getUploadDataset } from '@/lib/upload/datasets';
+import { UploadBatchStatus } from '@/lib/types/database';
+import { formatNumber } from '@/lib/utils';
+
+const STATUS_BADGES: Record<UploadBatchStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  processing: { label: 'Processing', variant: 'outline' },
+  completed: { label: 'Completed', variant: 'default' },
+  failed: { label: 'Failed', variant: 'destructive' },
+  rolled_back: { label: 'Rolled Back', variant: 'secondary' }
+};
+
+function formatBatchDate(value: string) {
+  return new Date(value).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+}
+
+interface UploadBatchHistoryProps {
+  refreshKey?: number;
+}
+
+/**
+ * Upload history for the Data Upload Center with batch rollback
+ */
+export function UploadBatchHistory({ refreshKey = 0 }: UploadBatchHistoryProps) {
+  const [batches, setBatches] = useState<UploadBatchWithUploader[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [pendingRollback, setPendingRollback] = useState<UploadBatchWithUploader | null>(null);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+  const [rollbackResult, setRollbackResult] = useState<{ success: boolean; message: string } | null>(null);
+
+  const loadBatches = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getUploadBatches();
+
+    if (result.success && result.data) {
+      setBatches(result.data);
+      setLoadError(null);
+    } else {
+      setLoadError(result.message);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadBatches();
+  }, [loadBatches, refreshKey]);
+
+  const confirmRollback = async () => {
+    if (!pendingRollback) return;
+
+    setIsRollingBack(true);
+    const result = await rollbackUploadBatch(pendingRollback.id);
+    setIsRollingBack(false);
+    setPendingRollback(null);
+
+    setRollbackResult({
+      success: result.success,
+      message: result.error ? `${result.message}: ${result.error}` : result.message
+    });
+
+    if (result.success) {
+      loadBatches();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <History className="h-5 w-5" />
+              <span>Upload History</span>
+            </CardTitle>
+            <CardDescription>
+              Every upload is recorded as a batch. Rolling back a batch removes the rows it added and restores duplicates it refreshed.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadBatches} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rollbackResult && (
+          <Alert variant={rollbackResult.success ? 'default' : 'destructive'}>
+            {rollbackResult.success ? <CheckCircle className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
+            <AlertDescription>{rollbackResult.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {loadError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{loadError}</AlertDescription>
+          </Alert>
+        )}
+
+        {!isLoading && batches.length === 0 && !loadError ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No uploads recorded yet.</p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Uploaded</TableHead>
+                  <TableHead>Dataset</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Uploaded By</TableHead>
+                  <TableHead className="text-right">Rows</TableHead>
+                  <TableHead className="text-right">New</TableHead>
+                  <TableHead className="text-right">Duplicates</TableHead>
+                  <TableHead className="text-right">Errors</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batches.map((batch) => {
+                  const status = STATUS_BADGES[batch.status] ?? STATUS_BADGES.processing;
+                  return (
+                    <TableRow key={batch.id}>
+                      <TableCell className="whitespace-nowrap text-sm">{formatBatchDate(batch.created_at)}</TableCell>
+                      <TableCell className="text-sm">{getUploadDataset(batch.dataset)?.label ?? batch.dataset}</TableCell>
+                      <TableCell className="text-sm max-w-[200px]">
+                        <div className="truncate">{batch.file_name || 'Pasted data'}</div>
+                        {batch.file_hash && (
+                          <div className="font-mono text-xs text-muted-foreground" title={batch.file_hash}>
+                            {batch.file_hash.slice(0, 12)}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{batch.uploader_name ?? '-'}</TableCell>
+                      <TableCell className="text-right">{formatNumber(batch.row_count)}</TableCell>
+                      <TableCell className="text-right">{formatNumber(batch.records_inserted)}</TableCell>
+                      <TableCell className="text-right">{formatNumber(batch.records_updated)}</TableCell>
+                      <TableCell className="text-right">{formatNumber(batch.error_count)}</TableCell>
+                      <TableCell>
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {batch.status !== 'rolled_back' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              setRollbackResult(null);
+                              setPendingRollback(batch);
+                            }}
+                            className="flex items-center space-x-1"
+                          >
+                            <Undo2 className="h-4 w-4" />
+                            <span>Roll Back</span>
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Rollback Confirmation */}
+      <Dialog open={!!pendingRollback} onOpenChange={(open) => !open && !isRollingBack && setPendingRollback(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center space-x-2">
+              <Undo2 className="h-5 w-5 text-destructive" />
+              <span>Roll Back Upload Batch?</span>
+            </DialogTitle>
+            <DialogDescription>
+              {pendingRollback && (
+                <>
+                  This deletes the {formatNumber(pendingRollback.records_inserted)} record
+                  {pendingRollback.records_inserted !== 1 ? 's' : ''} added by the{' '}
+                  {getUploadDataset(pendingRollback.dataset)?.label ?? pendingRollback.dataset} upload from{' '}
+                  {formatBatchDate(pendingRollback.created_at)}, restores any duplicates it refreshed and
+                  recalculates the affected production summaries. This cannot be undone.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingRollback(null)} disabled={isRollingBack}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={confirmRollback} disabled={isRollingBack} className="flex items-center space-x-2">
+              {isRollingBack ? <Loader2 className="h-4 w-4 animate-spin" /> : <Undo2 className="h-4 w-4" />}
+              <span>Roll Back</span>
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
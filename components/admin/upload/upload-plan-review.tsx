@@ -0,0 +1,241 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, ArrowRight, Ban, ClipboardCheck, FilePlus, GitCompare, RotateCcw, Upload, UserX } from 'lucide-react';
+import type { UploadPlan, UploadPlanEntry } from '@/lib/upload/dry-run';
+import type { UploadRejectedRow } from '@/lib/upload/validation';
+import { formatNumber } from '@/lib/utils';
+
+interface UploadPlanReviewProps {
+  plan: UploadPlan;
+  rowNumbers: number[]; // Spreadsheet row number for each payload index
+  rejected: UploadRejectedRow[];
+  allowUnknownCodes: boolean;
+  onAllowUnknownCodesChange: (allow: boolean) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+  isUploading: boolean;
+}
+
+function formatDiffValue(value: string | number | null) {
+  if (value === null || value === '') {
+    return <span className="text-muted-foreground">-</span>;
+  }
+  return typeof value === 'number' ? value.toLocaleString() : value;
+}
+
+function PlanEntryTable({ entries, rowNumbers }: { entries: UploadPlanEntry[]; rowNumbers: number[] }) {
+  return (
+    <ScrollArea className="h-[320px] rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-16">Row</TableHead>
+            <TableHead>Field</TableHead>
+            <TableHead>Before</TableHead>
+            <TableHead className="w-8"></TableHead>
+            <TableHead>After</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {entries.flatMap((entry) =>
+            entry.diff.map((change, changeIndex) => (
+              <TableRow key={`${entry.index}-${change.field}`}>
+                <TableCell className="font-mono text-sm">
+                  {changeIndex === 0 ? rowNumbers[entry.index] ?? entry.index + 1 : ''}
+                </TableCell>
+                <TableCell className="text-sm">{change.label}</TableCell>
+                <TableCell className="text-sm text-red-700 dark:text-red-400 font-mono">
+                  {formatDiffValue(change.before)}
+                </TableCell>
+                <TableCell>
+                  <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                </TableCell>
+                <TableCell className="text-sm text-green-700 dark:text-green-400 font-mono">
+                  {formatDiffValue(change.after)}
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </ScrollArea>
+  );
+}
+
+function RejectedRowTable({ rows, rowNumbers }: { rows: UploadRejectedRow[]; rowNumbers: number[] }) {
+  return (
+    <ScrollArea className="h-[320px] rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-16">Row</TableHead>
+            <TableHead>Field</TableHead>
+            <TableHead>Value</TableHead>
+            <TableHead>Problem</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.flatMap((row) =>
+            row.errors.map((error, errorIndex) => (
+              <TableRow key={`${row.index}-${error.field}-${errorIndex}`}>
+                <TableCell className="font-mono text-sm">
+                  {errorIndex === 0 ? rowNumbers[row.index] ?? row.index + 1 : ''}
+                </TableCell>
+                <TableCell className="text-sm">{error.label}</TableCell>
+                <TableCell className="text-sm font-mono">{formatDiffValue(error.value ?? null)}</TableCell>
+                <TableCell className="text-sm text-red-700 dark:text-red-400">{error.message}</TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </ScrollArea>
+  );
+}
+
+/**
+ * Review screen for a dry-run upload plan
+ */
+export function UploadPlanReview({
+  plan,
+  rowNumbers,
+  rejected,
+  allowUnknownCodes,
+  onAllowUnknownCodesChange,
+  onConfirm,
+  onCancel,
+  isUploading
+}: UploadPlanReviewProps) {
+  const unknownCodeRecords = plan.unknownCodes.reduce((sum, { recordCount }) => sum + recordCount, 0);
+
+  const summary = [
+    { label: 'New Records', value: plan.newCount, icon: FilePlus, className: 'text-green-600' },
+    { label: 'Duplicates Refreshed', value: plan.replacedCount, icon: RotateCcw, className: 'text-blue-600' },
+    { label: 'Revised Records', value: plan.revisedCount, icon: GitCompare, className: 'text-orange-600' },
+    { label: 'Unknown Advisor Codes', value: plan.unknownCodes.length, icon: UserX, className: 'text-red-600' }
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ClipboardCheck className="h-5 w-5" />
+          <span>Review Upload</span>
+        </CardTitle>
+        <CardDescription>
+          Nothing has been written yet. Check what this upload of {formatNumber(plan.totalRecords)} record
+          {plan.totalRecords !== 1 ? 's' : ''} will do, then confirm.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Summary */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+          {summary.map(({ label, value, icon: Icon, className }) => (
+            <div key={label} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg border">
+              <div className="flex items-center space-x-2">
+                <Icon className={`h-4 w-4 ${className}`} />
+                <span className="text-sm font-medium">{label}</span>
+              </div>
+              <span className="text-lg font-bold">{formatNumber(value)}</span>
+            </div>
+          ))}
+        </div>
+
+        {plan.unknownCodes.length > 0 && (
+          <Alert variant="destructive">
+            <UserX className="h-4 w-4" />
+            <AlertDescription>
+              <div className="space-y-2">
+                <div>
+                  These advisor codes are not in manpower. Their records are rejected unless you include them below;
+                  included records are stored but left out of production summaries until the code exists.
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {plan.unknownCodes.slice(0, 30).map(({ code, recordCount }) => (
+                    <Badge key={code} variant="outline" className="font-mono text-xs">
+                      {code} ({recordCount})
+                    </Badge>
+                  ))}
+                  {plan.unknownCodes.length > 30 && (
+                    <Badge variant="outline" className="text-xs">
+                      +{plan.unknownCodes.length - 30} more
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2 pt-1">
+                  <Checkbox
+                    id="allow-unknown-codes"
+                    checked={allowUnknownCodes}
+                    onCheckedChange={(checked) => onAllowUnknownCodesChange(checked === true)}
+                    disabled={isUploading}
+                  />
+                  <Label htmlFor="allow-unknown-codes" className="text-sm font-normal">
+                    Upload the {formatNumber(unknownCodeRecords)} record{unknownCodeRecords !== 1 ? 's' : ''} with unknown codes anyway
+                  </Label>
+                </div>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {(plan.revised.length > 0 || plan.replaced.length > 0 || rejected.length > 0) && (
+          <Tabs defaultValue={rejected.length > 0 ? 'rejected' : plan.revised.length > 0 ? 'revised' : 'replaced'}>
+            <TabsList>
+              <TabsTrigger value="revised">Revised ({formatNumber(plan.revisedCount)})</TabsTrigger>
+              <TabsTrigger value="replaced">Duplicates ({formatNumber(plan.replacedCount)})</TabsTrigger>
+              <TabsTrigger value="rejected" className="flex items-center space-x-1">
+                <Ban className="h-3 w-3" />
+                <span>Rejected ({formatNumber(rejected.length)})</span>
+              </TabsTrigger>
+            </TabsList>
+            <TabsContent value="revised" className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                Same advisor, policy and date as an existing row but with different values. These are added as new
+                rows next to the existing ones.
+              </p>
+              <PlanEntryTable entries={plan.revised} rowNumbers={rowNumbers} />
+            </TabsContent>
+            <TabsContent value="replaced" className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                Exact matches of existing rows. The dedup step keeps the existing row and refreshes its created date.
+              </p>
+              <PlanEntryTable entries={plan.replaced} rowNumbers={rowNumbers} />
+            </TabsContent>
+            <TabsContent value="rejected" className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                Rows that failed server-side validation. They are skipped and highlighted in the preview after upload.
+              </p>
+              <RejectedRowTable rows={rejected} rowNumbers={rowNumbers} />
+            </TabsContent>
+          </Tabs>
+        )}
+
+        {plan.truncated && (
+          <p className="text-xs text-muted-foreground">
+            Only the first 500 rows of each list are shown.
+          </p>
+        )}
+
+        <div className="flex justify-between pt-2">
+          <Button variant="outline" onClick={onCancel} disabled={isUploading} className="flex items-center space-x-2">
+            <ArrowLeft className="h-4 w-4" />
+            <span>Back</span>
+          </Button>
+          <Button onClick={onConfirm} disabled={isUploading} className="flex items-center space-x-2">
+            <Upload className="h-4 w-4" />
+            <span>{isUploading ? 'Uploading...' : 'Confirm Upload'}</span>
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
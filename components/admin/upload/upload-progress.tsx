@@ -0,0 +1,47 @@
+'use client';
+
+import { Card, CardContent } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Loader2, RotateCcw } from 'lucide-react';
+import type { UploadProgress } from '@/lib/upload/chunked-upload';
+import { formatNumber } from '@/lib/utils';
+
+interface UploadProgressCardProps {
+  progress: UploadProgress;
+  isUploading: boolean;
+}
+
+/**
+ * Progress of a chunked upload
+ */
+export function UploadProgressCard({ progress, isUploading }: UploadProgressCardProps) {
+  const percent = progress.totalRecords > 0
+    ? Math.round((progress.completedRecords / progress.totalRecords) * 100)
+    : 0;
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-3">
+        <div className="flex items-center justify-between text-sm">
+          <div className="flex items-center space-x-2">
+            {isUploading && <Loader2 className="h-4 w-4 animate-spin" />}
+            <span className="font-medium">
+              {isUploading ? 'Uploading' : 'Uploaded'} chunk {formatNumber(progress.completedChunks)} of{' '}
+              {formatNumber(progress.totalChunks)}
+            </span>
+          </div>
+          <span className="text-muted-foreground">
+            {formatNumber(progress.completedRecords)} / {formatNumber(progress.totalRecords)} records ({percent}%)
+          </span>
+        </div>
+        <Progress value={percent} />
+        {progress.resumed && (
+          <p className="flex items-center space-x-1 text-xs text-muted-foreground">
+            <RotateCcw className="h-3 w-3" />
+            <span>Resumed an interrupted upload; chunks saved earlier were skipped.</span>
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
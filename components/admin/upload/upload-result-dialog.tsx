@@ -0,0 +1,153 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertCircle, CheckCircle, Copy, Plus, RotateCcw, TrendingUp } from 'lucide-react';
+import type { UploadRejectedRow } from '@/lib/upload/validation';
+
+export interface UploadResponse {
+  success: boolean;
+  message: string;
+  batchId?: string;
+  stats: {
+    recordsProcessed: number;
+    recordsInserted: number;
+    recordsUpdated: number;
+    errors: number;
+  };
+  errors?: string[];
+  rejected?: UploadRejectedRow[]; // Rows that failed server-side validation and were skipped
+}
+
+interface UploadResultDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  datasetLabel: string;
+  result: UploadResponse | null;
+  onUploadMore: () => void;
+}
+
+export function UploadResultDialog({
+  open,
+  onOpenChange,
+  datasetLabel,
+  result,
+  onUploadMore
+}: UploadResultDialogProps) {
+  const copyStatsToClipboard = async () => {
+    if (!result) return;
+
+    const statsText = `${datasetLabel} Upload Results:
+• Records processed: ${result.stats.recordsProcessed}
+• Records inserted: ${result.stats.recordsInserted}
+• Records updated (duplicates): ${result.stats.recordsUpdated}
+• Errors: ${result.stats.errors}`;
+
+    try {
+      await navigator.clipboard.writeText(statsText);
+    } catch (err) {
+      console.error('Failed to copy stats:', err);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <CheckCircle className="h-6 w-6 text-green-500" />
+            <span>Upload Successful!</span>
+          </DialogTitle>
+          <DialogDescription>
+            Your {datasetLabel.toLowerCase()} data has been uploaded successfully.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="text-center space-y-3">
+            <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg border">
+              <div className="flex items-center space-x-2">
+                <Plus className="h-4 w-4" />
+                <span className="text-sm font-medium">New Records</span>
+              </div>
+              <span className="text-lg font-bold">
+                {result?.stats.recordsInserted || 0}
+              </span>
+            </div>
+
+            <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg border">
+              <div className="flex items-center space-x-2">
+                <RotateCcw className="h-4 w-4" />
+                <span className="text-sm font-medium">Updated (Duplicates)</span>
+              </div>
+              <span className="text-lg font-bold">
+                {result?.stats.recordsUpdated || 0}
+              </span>
+            </div>
+
+            <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg border">
+              <div className="flex items-center space-x-2">
+                <TrendingUp className="h-4 w-4" />
+                <span className="text-sm font-medium">Total Processed</span>
+              </div>
+              <span className="text-lg font-bold">
+                {result?.stats.recordsProcessed || 0}
+              </span>
+            </div>
+
+            {(result?.stats.errors || 0) > 0 && (
+              <div className="flex items-center justify-between p-3 bg-destructive/10 rounded-lg border border-destructive/20">
+                <div className="flex items-center space-x-2">
+                  <AlertCircle className="h-4 w-4 text-destructive" />
+                  <span className="text-sm font-medium text-destructive">Errors</span>
+                </div>
+                <span className="text-lg font-bold text-destructive">
+                  {result?.stats.errors}
+                </span>
+              </div>
+            )}
+          </div>
+
+          {result?.rejected && result.rejected.length > 0 && (
+            <p className="text-sm text-destructive">
+              {result.rejected.length} row{result.rejected.length !== 1 ? 's were' : ' was'} rejected by validation and
+              skipped. Close this dialog to see them highlighted in the preview.
+            </p>
+          )}
+
+          {result?.errors && result.errors.length > 0 && (
+            <details className="text-sm">
+              <summary className="cursor-pointer text-destructive mb-2">View Error Details</summary>
+              <div className="bg-destructive/10 p-3 rounded-lg max-h-32 overflow-y-auto border border-destructive/20">
+                <ul className="list-disc list-inside space-y-1">
+                  {result.errors.slice(0, 5).map((error, index) => (
+                    <li key={index} className="text-destructive text-xs">{error}</li>
+                  ))}
+                  {result.errors.length > 5 && (
+                    <li className="text-destructive text-xs">... and {result.errors.length - 5} more errors</li>
+                  )}
+                </ul>
+              </div>
+            </details>
+          )}
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={copyStatsToClipboard} className="flex items-center space-x-2">
+            <Copy className="h-4 w-4" />
+            <span>Copy Stats</span>
+          </Button>
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+            <Button onClick={onUploadMore} className="flex items-center space-x-2">
+              <Plus className="h-4 w-4" />
+              <span>Upload More</span>
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
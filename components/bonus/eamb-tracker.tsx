@@ -0,0 +1,486 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, Edit, Medal, Plus, RefreshCw } from 'lucide-react';
+import { EambRulesForm } from '@/components/admin/eamb-rules-form';
+import { EligibilityBadges } from './eligibility-badges';
+import { SnapshotControls } from './snapshot-controls';
+import { useProductionYears } from '@/hooks/useProductionYears';
+import { exportEambPayouts, getEambTracker } from '@/lib/actions/eamb';
+import { monthPeriodKey } from '@/lib/bonus/engine';
+import { BONUS_METRIC_LABELS } from '@/lib/bonus/metrics';
+import { EambAdvisorResult, EambMonthResult, EambTracker as EambTrackerData } from '@/lib/bonus/eamb';
+import { MONTHS } from '@/lib/utils/manpower-filters';
+import { cn, formatCurrency, formatNumber } from '@/lib/utils';
+
+interface EambTrackerProps {
+  isAdmin: boolean;
+  classOptions: string[];
+}
+
+const formatRate = (rate: number) => `${Number((rate * 100).toFixed(2))}%`;
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const monthLabel = (month: number) => MONTHS[month - 1]?.label ?? String(month);
+
+const tierLabel = (result: EambMonthResult) => (result.tierIndex >= 0 ? `Tier ${result.tierIndex + 1}` : 'Below tiers');
+
+/**
+ * EAMB month by month for the advisors the user may see; admins also edit the
+ * year's rules and export the payout list for finance here
+ */
+export function EambTracker({ isAdmin, classOptions }: EambTrackerProps) {
+  const years = useProductionYears();
+
+  const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
+  const [selectedMonth, setSelectedMonth] = useState<number | 'all'>('all');
+  const [tracker, setTracker] = useState<EambTrackerData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [rulesFormOpen, setRulesFormOpen] = useState(false);
+
+  // The month picked is kept when reloading the same year
+  const loadTracker = useCallback(async (keepMonth?: boolean) => {
+    setIsLoading(true);
+    setNotice(null);
+    const result = await getEambTracker(selectedYear);
+
+    if (result.success && result.data) {
+      setTracker(result.data);
+      if (!keepMonth) {
+        setSelectedMonth(result.data.currentMonth ?? 'all');
+      }
+      setError(null);
+    } else {
+      setTracker(null);
+      setError(result.message);
+    }
+    setIsLoading(false);
+  }, [selectedYear]);
+
+  useEffect(() => {
+    loadTracker();
+  }, [loadTracker]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setNotice(null);
+    const result = await exportEambPayouts(selectedYear, selectedMonth === 'all' ? undefined : selectedMonth);
+
+    if (result.success && result.data) {
+      const url = URL.createObjectURL(new Blob([result.data.csv], { type: 'text/csv;charset=utf-8' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = result.data.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    }
+    setNotice(result.message);
+    setIsExporting(false);
+  };
+
+  const ruleSet = tracker?.ruleSet ?? null;
+  const ownResult = tracker?.advisors.find(advisor => advisor.advisor_code === tracker.currentAdvisorCode);
+  const teamResults = tracker?.advisors ?? [];
+  const showTeam = teamResults.length > (ownResult ? 1 : 0);
+  const startedMonths = (teamResults[0]?.months ?? []).map(entry => entry.month);
+  const eligibility = ruleSet?.eligibility;
+  const selectedMonthClosed = selectedMonth !== 'all' && selectedMonth !== tracker?.currentMonth && startedMonths.includes(selectedMonth);
+
+  return (
+    <div className="space-y-6">
+      {/* Year and Month Picker */}
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Year:</span>
+              <Select value={String(selectedYear)} onValueChange={(value) => setSelectedYear(Number(value))}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {years.map((year) => (
+                    <SelectItem key={year} value={String(year)}>{year}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {startedMonths.length > 0 && (
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Month:</span>
+                <Select
+                  value={String(selectedMonth)}
+                  onValueChange={(value) => setSelectedMonth(value === 'all' ? 'all' : Number(value))}
+                >
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Whole year</SelectItem>
+                    {startedMonths.map((month) => (
+                      <SelectItem key={month} value={String(month)}>{monthLabel(month)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="flex items-center gap-2 ml-auto">
+              <Button variant="outline" size="sm" onClick={() => loadTracker(true)} disabled={isLoading}>
+                <RefreshCw className={cn('h-4 w-4', isLoading && 'animate-spin')} />
+              </Button>
+              {isAdmin && (
+                <>
+                  {ruleSet && (
+                    <Button variant="outline" size="sm" onClick={handleExport} disabled={isExporting || isLoading}>
+                      <Download className="h-4 w-4 mr-1" />
+                      {isExporting ? 'Exporting...' : 'Export Payouts'}
+                    </Button>
+                  )}
+                  <Button size="sm" onClick={() => setRulesFormOpen(true)}>
+                    {ruleSet ? <Edit className="h-4 w-4 mr-1" /> : <Plus className="h-4 w-4 mr-1" />}
+                    {ruleSet ? 'Edit' : 'Set'} {selectedYear} Rules
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+          {notice && <p className="text-sm text-muted-foreground mt-3">{notice}</p>}
+        </CardContent>
+      </Card>
+
+      {error ? (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center text-red-600 dark:text-red-400">{error}</div>
+          </CardContent>
+        </Card>
+      ) : isLoading || !tracker ? (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 dark:border-white"></div>
+            </div>
+          </CardContent>
+        </Card>
+      ) : !ruleSet || !eligibility ? (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center text-gray-500 dark:text-gray-400 py-8">
+              No EAMB rules are set for {selectedYear}
+              {isAdmin && ' yet. Set them to start tracking the bonus.'}
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Rules */}
+          <Card>
+            <CardHeader>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <CardTitle>{selectedYear} EAMB Rules</CardTitle>
+                {selectedMonth !== 'all' && (
+                  <SnapshotControls
+                    program="eamb"
+                    year={selectedYear}
+                    periodKey={monthPeriodKey(selectedMonth)}
+                    periodLabel={`${monthLabel(selectedMonth)} ${selectedYear}`}
+                    closed={selectedMonthClosed}
+                    snapshotAt={tracker.snapshots[monthPeriodKey(selectedMonth)]}
+                    isAdmin={isAdmin}
+                    onChanged={() => loadTracker(true)}
+                  />
+                )}
+              </div>
+              <CardDescription>
+                Monthly {BONUS_METRIC_LABELS[ruleSet.metric]} by {ruleSet.period_type} month
+                {ruleSet.payout_metric && ruleSet.payout_metric !== ruleSet.metric && (
+                  <>, paid on {BONUS_METRIC_LABELS[ruleSet.payout_metric]}</>
+                )}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <EligibilityBadges eligibility={eligibility} />
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-muted-foreground">Tiers:</span>
+                {ruleSet.tiers.map((tier, index) => (
+                  <Badge key={tier.min_production} variant="outline">
+                    Tier {index + 1}: {formatCurrency(tier.min_production)}+ AC pays {formatRate(tier.rate)}
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-muted-foreground">Qualifiers:</span>
+                {ruleSet.qualifiers.min_cases
+                  ? <Badge variant="secondary">{formatNumber(ruleSet.qualifiers.min_cases)} lives per month</Badge>
+                  : <span>None</span>}
+              </div>
+              {ruleSet.description && (
+                <p className="text-gray-700 dark:text-gray-300 whitespace-pre-line">{ruleSet.description}</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Own months */}
+          {ownResult && <OwnEambCard result={ownResult} currentMonth={tracker.currentMonth} />}
+
+          {/* Team */}
+          {showTeam && (
+            <Card>
+              <CardHeader>
+                <CardTitle>{ownResult ? 'Team' : 'Advisors'}</CardTitle>
+                <CardDescription>
+                  {selectedMonth === 'all'
+                    ? `Qualified months and amounts earned in ${selectedYear}`
+                    : `${monthLabel(selectedMonth)} ${selectedYear}${selectedMonth === tracker.currentMonth ? ', in progress' : ''}`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {selectedMonth === 'all' ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Advisor</TableHead>
+                        <TableHead>Class</TableHead>
+                        <TableHead>Date Hired</TableHead>
+                        <TableHead className="text-right">Qualified Months</TableHead>
+                        <TableHead className="text-right">Earned</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {teamResults.map((advisor) => (
+                        <TableRow
+                          key={advisor.advisor_code}
+                          className={cn(advisor.advisor_code === tracker.currentAdvisorCode && 'bg-blue-50 dark:bg-blue-950')}
+                        >
+                          <TableCell>
+                            <div className="font-medium">{advisor.advisor_name || advisor.advisor_code}</div>
+                            <div className="text-xs text-muted-foreground">{advisor.advisor_code}</div>
+                          </TableCell>
+                          <TableCell>{advisor.advisor_class || '-'}</TableCell>
+                          <TableCell>{advisor.date_hired ? formatDate(advisor.date_hired) : '-'}</TableCell>
+                          <TableCell className="text-right">{formatNumber(advisor.qualifiedMonths)}</TableCell>
+                          <TableCell className="text-right font-medium">{formatCurrency(advisor.total)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Advisor</TableHead>
+                        <TableHead>Class</TableHead>
+                        <TableHead className="text-right">Tenure Month</TableHead>
+                        <TableHead className="text-right">AC</TableHead>
+                        <TableHead className="text-right">Lives</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {teamResults.map((advisor) => {
+                        const result = advisor.months.find(entry => entry.month === selectedMonth);
+                        if (!result) return null;
+
+                        return (
+                          <TableRow
+                            key={advisor.advisor_code}
+                            className={cn(advisor.advisor_code === tracker.currentAdvisorCode && 'bg-blue-50 dark:bg-blue-950')}
+                          >
+                            <TableCell>
+                              <div className="font-medium">{advisor.advisor_name || advisor.advisor_code}</div>
+                              <div className="text-xs text-muted-foreground">{advisor.advisor_code}</div>
+                            </TableCell>
+                            <TableCell>{advisor.advisor_class || '-'}</TableCell>
+                            <TableCell className="text-right">
+                              {result.tenureMonth !== null && result.tenureMonth > 0 ? result.tenureMonth : '-'}
+                            </TableCell>
+                            <TableCell className="text-right">{formatCurrency(result.production)}</TableCell>
+                            <TableCell className="text-right">{formatNumber(result.cases)}</TableCell>
+                            <TableCell className="text-right">
+                              <div className="font-medium">{formatCurrency(result.amount)}</div>
+                              <div className="text-xs text-muted-foreground">{tierLabel(result)}</div>
+                            </TableCell>
+                            <TableCell>
+                              <MonthStatus result={result} />
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {!ownResult && !showTeam && (
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-center text-gray-500 dark:text-gray-400 py-8">
+                  No production in {selectedYear} yet
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      {isAdmin && (
+        <EambRulesForm
+          isOpen={rulesFormOpen}
+          onOpenChange={setRulesFormOpen}
+          planYear={selectedYear}
+          ruleSet={ruleSet}
+          classOptions={classOptions}
+          onSaved={() => loadTracker(true)}
+        />
+      )}
+    </div>
+  );
+}
+
+function MonthStatus({ result }: { result: EambMonthResult }) {
+  if (!result.eligible) {
+    return (
+      <div className="space-y-1">
+        <Badge variant="outline">Not eligible</Badge>
+        {result.ineligibleReasons.map((reason) => (
+          <div key={reason} className="text-xs text-muted-foreground">{reason}</div>
+        ))}
+      </div>
+    );
+  }
+
+  if (result.amount > 0) {
+    return <Badge variant={result.closed ? 'default' : 'secondary'}>{result.closed ? 'Qualified' : 'On track'}</Badge>;
+  }
+
+  const reasons = result.tierIndex < 0 ? [...result.unmetQualifiers, 'Below tiers'] : result.unmetQualifiers;
+
+  return (
+    <div className="space-y-1">
+      <Badge variant={result.closed ? 'destructive' : 'outline'}>{result.closed ? 'Not qualified' : 'In progress'}</Badge>
+      {reasons.map((reason) => (
+        <div key={reason} className="text-xs text-muted-foreground">{reason}</div>
+      ))}
+    </div>
+  );
+}
+
+function OwnEambCard({ result, currentMonth }: { result: EambAdvisorResult; currentMonth: number | null }) {
+  const current = result.months.find(entry => entry.month === currentMonth);
+  const target = current?.nextTier;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Medal className="h-5 w-5 text-emerald-500" />
+          My EAMB
+        </CardTitle>
+        <CardDescription>
+          {result.advisor_name || result.advisor_code}
+          {result.date_hired && <> · Hired {formatDate(result.date_hired)}</>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="rounded-lg border p-4 space-y-1">
+            <div className="text-sm text-muted-foreground">Earned this year</div>
+            <div className="text-2xl font-bold">{formatCurrency(result.total)}</div>
+            <div className="text-xs text-muted-foreground">
+              {formatNumber(result.qualifiedMonths)} qualified month{result.qualifiedMonths === 1 ? '' : 's'}
+            </div>
+          </div>
+
+          {current && (
+            <div className="rounded-lg border p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">{monthLabel(current.month)} so far</span>
+                <MonthStatus result={current} />
+              </div>
+              {current.eligible && (
+                <>
+                  <div className="grid grid-cols-3 gap-2 text-sm">
+                    <div>
+                      <div className="text-xs text-muted-foreground">AC</div>
+                      <div className="font-medium">{formatCurrency(current.production)}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground">Lives</div>
+                      <div className="font-medium">{formatNumber(current.cases)}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground">Amount</div>
+                      <div className="font-medium">{formatCurrency(current.amount)}</div>
+                    </div>
+                  </div>
+                  {(target || current.casesNeeded > 0) && (
+                    <div className="space-y-1">
+                      {target && (
+                        <Progress value={Math.min((current.production / target.min_production) * 100, 100)} />
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        Still needed:{' '}
+                        {[
+                          target && current.gapToNextTier !== undefined &&
+                            `${formatCurrency(current.gapToNextTier)} AC for Tier ${current.tierIndex + 2} (${formatRate(target.rate)})`,
+                          current.casesNeeded > 0 &&
+                            `${formatNumber(current.casesNeeded)} more li${current.casesNeeded === 1 ? 'fe' : 'ves'}`
+                        ].filter(Boolean).join(' and ')}
+                      </p>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Month</TableHead>
+              <TableHead className="text-right">Tenure Month</TableHead>
+              <TableHead className="text-right">AC</TableHead>
+              <TableHead className="text-right">Lives</TableHead>
+              <TableHead>Tier</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {result.months.map((entry) => (
+              <TableRow key={entry.month}>
+                <TableCell className="font-medium">{monthLabel(entry.month)}</TableCell>
+                <TableCell className="text-right">
+                  {entry.tenureMonth !== null && entry.tenureMonth > 0 ? entry.tenureMonth : '-'}
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(entry.production)}</TableCell>
+                <TableCell className="text-right">{formatNumber(entry.cases)}</TableCell>
+                <TableCell>{tierLabel(entry)}</TableCell>
+                <TableCell className="text-right font-medium">{formatCurrency(entry.amount)}</TableCell>
+                <TableCell>
+                  <MonthStatus result={entry} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
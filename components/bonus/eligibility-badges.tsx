@@ -0,0 +1,36 @@
+import { Badge } from '@/components/ui/badge';
+import { BonusEligibility } from '@/lib/types/database';
+
+interface EligibilityBadgesProps {
+  eligibility: BonusEligibility;
+  showClasses?: boolean; // Off where the rules are already set per class
+}
+
+/**
+ * Who a program's rules apply to, as a row of badges for the rules card.
+ * Nothing is shown when classes are hidden and no other limit is set.
+ */
+export function EligibilityBadges({ eligibility, showClasses = true }: EligibilityBadgesProps) {
+  const hasTenure = !!(eligibility.min_tenure_months || eligibility.max_tenure_months);
+  if (!showClasses && !eligibility.app_roles?.length && !hasTenure) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-muted-foreground">Eligible:</span>
+      {showClasses && (
+        <Badge variant="secondary">
+          {eligibility.classes?.length ? `Class ${eligibility.classes.join(', ')}` : 'Every class'}
+        </Badge>
+      )}
+      {eligibility.app_roles?.length ? (
+        <Badge variant="secondary">Portal role {eligibility.app_roles.join(', ')}</Badge>
+      ) : null}
+      {hasTenure && (
+        <Badge variant="secondary">
+          Tenure month {eligibility.min_tenure_months ?? 1}
+          {eligibility.max_tenure_months ? ` to ${eligibility.max_tenure_months}` : ' onwards'}
+        </Badge>
+      )}
+    </div>
+  );
+}
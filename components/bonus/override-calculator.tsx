@@ -0,0 +1,327 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChevronDown, ChevronRight, Edit, Plus, RefreshCw } from 'lucide-react';
+import { OverrideRulesForm } from '@/components/admin/override-rules-form';
+import { EligibilityBadges } from './eligibility-badges';
+import { SnapshotControls } from './snapshot-controls';
+import { useProductionYears } from '@/hooks/useProductionYears';
+import { getOverrideReport } from '@/lib/actions/override';
+import { monthPeriodKey } from '@/lib/bonus/engine';
+import { BONUS_METRIC_LABELS } from '@/lib/bonus/metrics';
+import { ManagerOverride, OverrideReport } from '@/lib/bonus/override';
+import { MONTHS } from '@/lib/utils/manpower-filters';
+import { cn, formatCurrency } from '@/lib/utils';
+
+interface OverrideCalculatorProps {
+  isAdmin: boolean;
+}
+
+// 'all' computes the override on the whole plan year
+type MonthSelection = number | 'all';
+
+const formatRate = (rate: number) => `${Number((rate * 100).toFixed(2))}%`;
+
+/**
+ * Manager overrides for a month or a year, with the subordinate production
+ * behind each one; admins also edit the year's override rates here
+ */
+export function OverrideCalculator({ isAdmin }: OverrideCalculatorProps) {
+  const now = new Date();
+  const years = useProductionYears();
+
+  const [selectedYear, setSelectedYear] = useState(now.getFullYear());
+  const [selectedMonth, setSelectedMonth] = useState<MonthSelection>(now.getMonth() + 1);
+  const [report, setReport] = useState<OverrideReport | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [rulesFormOpen, setRulesFormOpen] = useState(false);
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getOverrideReport(selectedYear, selectedMonth === 'all' ? undefined : selectedMonth);
+
+    if (result.success && result.data) {
+      setReport(result.data);
+      // Open the user's own override so managers land on their drill-down
+      setExpanded(new Set(result.data.currentAdvisorCode ? [result.data.currentAdvisorCode] : []));
+      setError(null);
+    } else {
+      setReport(null);
+      setError(result.message);
+    }
+    setIsLoading(false);
+  }, [selectedYear, selectedMonth]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const toggle = (advisorCode: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(advisorCode)) {
+        next.delete(advisorCode);
+      } else {
+        next.add(advisorCode);
+      }
+      return next;
+    });
+  };
+
+  const ruleSet = report?.ruleSet ?? null;
+  const managers = report?.managers ?? [];
+  const totalOverride = managers.reduce((sum, manager) => sum + manager.override, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Period Picker */}
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Year:</span>
+              <Select value={String(selectedYear)} onValueChange={(value) => setSelectedYear(Number(value))}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {years.map((year) => (
+                    <SelectItem key={year} value={String(year)}>{year}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Month:</span>
+              <Select
+                value={String(selectedMonth)}
+                onValueChange={(value) => setSelectedMonth(value === 'all' ? 'all' : Number(value))}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Whole year</SelectItem>
+                  {MONTHS.map((month) => (
+                    <SelectItem key={month.value} value={String(Number(month.value))}>{month.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center gap-2 ml-auto">
+              <Button variant="outline" size="sm" onClick={loadReport} disabled={isLoading}>
+                <RefreshCw className={cn('h-4 w-4', isLoading && 'animate-spin')} />
+              </Button>
+              {isAdmin && (
+                <Button size="sm" onClick={() => setRulesFormOpen(true)}>
+                  {ruleSet ? <Edit className="h-4 w-4 mr-1" /> : <Plus className="h-4 w-4 mr-1" />}
+                  {ruleSet ? 'Edit' : 'Set'} {selectedYear} Rates
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error ? (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center text-red-600 dark:text-red-400">{error}</div>
+          </CardContent>
+        </Card>
+      ) : isLoading || !report ? (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 dark:border-white"></div>
+            </div>
+          </CardContent>
+        </Card>
+      ) : !ruleSet ? (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center text-gray-500 dark:text-gray-400 py-8">
+              No override rates are set for {selectedYear}
+              {isAdmin && ' yet. Set them to start computing overrides.'}
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Rates */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{selectedYear} Override Rates</CardTitle>
+              <CardDescription>
+                Paid on subordinate {BONUS_METRIC_LABELS[ruleSet.metric]} by {ruleSet.period_type} month
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {Object.entries(ruleSet.class_rates).map(([managerClass, rates]) => (
+                <div key={managerClass} className="flex flex-wrap items-center gap-2">
+                  <span className="w-12 font-medium">{managerClass}</span>
+                  {rates.map((rate, index) => (
+                    <Badge key={index} variant="outline">
+                      Gen {index + 1}: {formatRate(rate)}
+                    </Badge>
+                  ))}
+                </div>
+              ))}
+              <EligibilityBadges eligibility={ruleSet.eligibility} showClasses={false} />
+              {ruleSet.description && (
+                <p className="text-gray-700 dark:text-gray-300 whitespace-pre-line pt-2">{ruleSet.description}</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Managers */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>Manager Overrides</CardTitle>
+                <div className="flex flex-wrap items-center gap-3">
+                  <SnapshotControls
+                    program="override"
+                    year={selectedYear}
+                    periodKey={selectedMonth === 'all' ? 'FY' : monthPeriodKey(selectedMonth)}
+                    periodLabel={selectedMonth === 'all' ? String(selectedYear) : `${MONTHS[selectedMonth - 1].label} ${selectedYear}`}
+                    closed={report.closed}
+                    snapshotAt={report.snapshotAt}
+                    isAdmin={isAdmin}
+                    onChanged={loadReport}
+                  />
+                  <span className="text-sm text-muted-foreground">Total {formatCurrency(totalOverride)}</span>
+                </div>
+              </div>
+              <CardDescription>Expand a manager to see whose production earned the override</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {managers.length === 0 ? (
+                <div className="text-center text-gray-500 dark:text-gray-400 py-8">
+                  No managers with override rates in your view
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-8" />
+                      <TableHead>Manager</TableHead>
+                      <TableHead>Class</TableHead>
+                      <TableHead className="text-right">Subordinates</TableHead>
+                      <TableHead className="text-right">Team AC</TableHead>
+                      <TableHead className="text-right">Team NSC</TableHead>
+                      <TableHead className="text-right">Team FYC</TableHead>
+                      <TableHead className="text-right">Override</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {managers.map((manager) => (
+                      <ManagerRows
+                        key={manager.advisor_code}
+                        manager={manager}
+                        isOpen={expanded.has(manager.advisor_code)}
+                        isMe={manager.advisor_code === report.currentAdvisorCode}
+                        onToggle={() => toggle(manager.advisor_code)}
+                      />
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {isAdmin && (
+        <OverrideRulesForm
+          isOpen={rulesFormOpen}
+          onOpenChange={setRulesFormOpen}
+          planYear={selectedYear}
+          ruleSet={ruleSet}
+          onSaved={loadReport}
+        />
+      )}
+    </div>
+  );
+}
+
+interface ManagerRowsProps {
+  manager: ManagerOverride;
+  isOpen: boolean;
+  isMe: boolean;
+  onToggle: () => void;
+}
+
+function ManagerRows({ manager, isOpen, isMe, onToggle }: ManagerRowsProps) {
+  return (
+    <Fragment>
+      <TableRow className={cn('cursor-pointer', isMe && 'bg-blue-50 dark:bg-blue-950')} onClick={onToggle}>
+        <TableCell>
+          {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        </TableCell>
+        <TableCell>
+          <div className="font-medium">
+            {manager.advisor_name || manager.advisor_code}
+            {isMe && <span className="text-xs text-blue-600 dark:text-blue-400 ml-1">(you)</span>}
+          </div>
+          <div className="text-xs text-muted-foreground">{manager.advisor_code}</div>
+        </TableCell>
+        <TableCell>{manager.advisor_class}</TableCell>
+        <TableCell className="text-right">{manager.subordinateCount}</TableCell>
+        <TableCell className="text-right">{formatCurrency(manager.totals.agency_credits)}</TableCell>
+        <TableCell className="text-right">{formatCurrency(manager.totals.net_sales_credits)}</TableCell>
+        <TableCell className="text-right">{formatCurrency(manager.totals.fy_commission_php)}</TableCell>
+        <TableCell className="text-right font-semibold">{formatCurrency(manager.override)}</TableCell>
+      </TableRow>
+
+      {isOpen && (
+        <TableRow className="hover:bg-transparent">
+          <TableCell />
+          <TableCell colSpan={7} className="p-0 pb-4">
+            {manager.contributions.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-3">
+                No subordinate production in the paid generations this period
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Advisor</TableHead>
+                    <TableHead className="text-right">Generation</TableHead>
+                    <TableHead className="text-right">Production</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                    <TableHead className="text-right">Override</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {manager.contributions.map((contribution) => (
+                    <TableRow key={contribution.advisor_code} className="text-sm">
+                      <TableCell>
+                        {contribution.advisor_name || contribution.advisor_code}
+                        <span className="text-xs text-muted-foreground ml-1">
+                          {contribution.advisor_code}{contribution.advisor_class && ` · ${contribution.advisor_class}`}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-right">{contribution.generation}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(contribution.base)}</TableCell>
+                      <TableCell className="text-right">{formatRate(contribution.rate)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(contribution.override)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TableCell>
+        </TableRow>
+      )}
+    </Fragment>
+  );
+}
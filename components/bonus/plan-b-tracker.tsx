@@ -0,0 +1,526 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Award, Edit, Plus, RefreshCw } from 'lucide-react';
+import { PlanBRulesForm } from '@/components/admin/plan-b-rules-form';
+import { EligibilityBadges } from './eligibility-badges';
+import { SnapshotControls } from './snapshot-controls';
+import { useProductionYears } from '@/hooks/useProductionYears';
+import { getPlanBTracker } from '@/lib/actions/plan-b';
+import { BONUS_METRIC_LABELS } from '@/lib/bonus/metrics';
+import {
+  PlanBAdvisorResult,
+  PlanBTracker as PlanBTrackerData,
+  PlanBWindowResult,
+  PlanBWindowSchedule,
+  PlanBWindowStatus
+} from '@/lib/bonus/plan-b';
+import { MONTHS } from '@/lib/utils/manpower-filters';
+import { cn, formatCurrency, formatNumber } from '@/lib/utils';
+
+interface PlanBTrackerProps {
+  isAdmin: boolean;
+  classOptions: string[];
+}
+
+interface ManagerRollup {
+  managerCode: string | null;
+  managerName: string;
+  advisors: number;
+  qualified: number;
+  production: number;
+  payout: number;
+}
+
+const STATUS_LABELS: Record<PlanBWindowStatus, string> = {
+  upcoming: 'Upcoming',
+  open: 'Open',
+  awaiting_payout: 'Awaiting payout',
+  paid: 'Paid'
+};
+
+const STATUS_VARIANTS: Record<PlanBWindowStatus, 'default' | 'secondary' | 'outline'> = {
+  upcoming: 'outline',
+  open: 'default',
+  awaiting_payout: 'secondary',
+  paid: 'secondary'
+};
+
+const formatRate = (rate: number) => `${Number((rate * 100).toFixed(2))}%`;
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const monthLabel = (month: number) => MONTHS[month - 1]?.label.slice(0, 3) ?? String(month);
+
+const tierLabel = (result: PlanBWindowResult) => (result.tierIndex >= 0 ? `Tier ${result.tierIndex + 1}` : 'Below tiers');
+
+// The open window, else the latest one that has started
+const defaultWindowIndex = (schedule: PlanBWindowSchedule[]) => {
+  const open = schedule.findIndex(window => window.status === 'open');
+  if (open >= 0) return open;
+
+  const started = schedule.filter(window => window.status !== 'upcoming').length;
+  return Math.max(started - 1, 0);
+};
+
+/**
+ * Plan B for the advisors the user may see, window by window, with each
+ * manager's team rolled up; admins also edit the year's rules here
+ */
+export function PlanBTracker({ isAdmin, classOptions }: PlanBTrackerProps) {
+  const years = useProductionYears();
+
+  const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
+  const [selectedWindow, setSelectedWindow] = useState(0);
+  const [tracker, setTracker] = useState<PlanBTrackerData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [rulesFormOpen, setRulesFormOpen] = useState(false);
+
+  const loadTracker = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getPlanBTracker(selectedYear);
+
+    if (result.success && result.data) {
+      setTracker(result.data);
+      setSelectedWindow(defaultWindowIndex(result.data.schedule));
+      setError(null);
+    } else {
+      setTracker(null);
+      setError(result.message);
+    }
+    setIsLoading(false);
+  }, [selectedYear]);
+
+  useEffect(() => {
+    loadTracker();
+  }, [loadTracker]);
+
+  const ruleSet = tracker?.ruleSet ?? null;
+  const schedule = tracker?.schedule ?? [];
+  const activeWindow = schedule[selectedWindow];
+  const ownResult = tracker?.advisors.find(advisor => advisor.advisor_code === tracker.currentAdvisorCode);
+  const teamResults = useMemo(() => tracker?.advisors ?? [], [tracker]);
+  const showTeam = teamResults.length > (ownResult ? 1 : 0);
+
+  const rollups = useMemo(() => {
+    const names = new Map(teamResults.map(advisor => [advisor.advisor_code, advisor.advisor_name || advisor.advisor_code]));
+    const byManager = new Map<string, ManagerRollup>();
+
+    teamResults.forEach(advisor => {
+      const result = advisor.windows[selectedWindow];
+      if (!result) return;
+
+      const managerCode = advisor.manager_id ?? null;
+      const key = managerCode ?? '';
+      const rollup = byManager.get(key) ?? {
+        managerCode,
+        managerName: managerCode ? names.get(managerCode) ?? managerCode : 'No manager',
+        advisors: 0,
+        qualified: 0,
+        production: 0,
+        payout: 0
+      };
+      rollup.advisors += 1;
+      if (result.payout > 0) rollup.qualified += 1;
+      rollup.production += result.production;
+      rollup.payout += result.payout;
+      byManager.set(key, rollup);
+    });
+
+    return Array.from(byManager.values()).sort((a, b) => b.payout - a.payout);
+  }, [teamResults, selectedWindow]);
+
+  return (
+    <div className="space-y-6">
+      {/* Year and Window Picker */}
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Year:</span>
+              <Select value={String(selectedYear)} onValueChange={(value) => setSelectedYear(Number(value))}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {years.map((year) => (
+                    <SelectItem key={year} value={String(year)}>{year}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {schedule.length > 0 && (
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Window:</span>
+                <Select value={String(selectedWindow)} onValueChange={(value) => setSelectedWindow(Number(value))}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {schedule.map((entry, index) => (
+                      <SelectItem key={entry.label} value={String(index)}>{entry.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="flex items-center gap-2 ml-auto">
+              <Button variant="outline" size="sm" onClick={loadTracker} disabled={isLoading}>
+                <RefreshCw className={cn('h-4 w-4', isLoading && 'animate-spin')} />
+              </Button>
+              {isAdmin && (
+                <Button size="sm" onClick={() => setRulesFormOpen(true)}>
+                  {ruleSet ? <Edit className="h-4 w-4 mr-1" /> : <Plus className="h-4 w-4 mr-1" />}
+                  {ruleSet ? 'Edit' : 'Set'} {selectedYear} Rules
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error ? (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center text-red-600 dark:text-red-400">{error}</div>
+          </CardContent>
+        </Card>
+      ) : isLoading || !tracker ? (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 dark:border-white"></div>
+            </div>
+          </CardContent>
+        </Card>
+      ) : !ruleSet || !activeWindow ? (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center text-gray-500 dark:text-gray-400 py-8">
+              No Plan B rules are set for {selectedYear}
+              {isAdmin && ' yet. Set them to start tracking the bonus.'}
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Rules and Payout Schedule */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{selectedYear} Plan B Rules</CardTitle>
+              <CardDescription>
+                Qualifies on {BONUS_METRIC_LABELS[ruleSet.metric]} by {ruleSet.period_type} month
+                {ruleSet.payout_metric && ruleSet.payout_metric !== ruleSet.metric && (
+                  <>, paid on {BONUS_METRIC_LABELS[ruleSet.payout_metric]}</>
+                )}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <EligibilityBadges eligibility={ruleSet.eligibility} />
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-muted-foreground">Thresholds:</span>
+                {ruleSet.tiers.map((tier, index) => (
+                  <Badge key={tier.min_production} variant="outline">
+                    Tier {index + 1}: {formatCurrency(tier.min_production)}+ pays {formatRate(tier.rate)}
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-muted-foreground">Qualifiers:</span>
+                {ruleSet.qualifiers.min_cases
+                  ? <Badge variant="secondary">{formatNumber(ruleSet.qualifiers.min_cases)} cases per window</Badge>
+                  : <span>None</span>}
+              </div>
+              {ruleSet.description && (
+                <p className="text-gray-700 dark:text-gray-300 whitespace-pre-line">{ruleSet.description}</p>
+              )}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Window</TableHead>
+                    <TableHead>Months</TableHead>
+                    <TableHead>Dates</TableHead>
+                    <TableHead>Payout</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Figures</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {schedule.map((entry, index) => (
+                    <TableRow key={entry.label} className={cn(index === selectedWindow && 'bg-muted/50')}>
+                      <TableCell className="font-medium">{entry.label}</TableCell>
+                      <TableCell>
+                        {monthLabel(entry.start_month)}
+                        {entry.end_month !== entry.start_month && ` – ${monthLabel(entry.end_month)}`}
+                      </TableCell>
+                      <TableCell>{formatDate(entry.start)} – {formatDate(entry.end)}</TableCell>
+                      <TableCell>{formatDate(entry.payoutDate)}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[entry.status]}>{STATUS_LABELS[entry.status]}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <SnapshotControls
+                          program="plan_b"
+                          year={selectedYear}
+                          periodKey={entry.label}
+                          periodLabel={`${entry.label} ${selectedYear}`}
+                          closed={entry.status === 'awaiting_payout' || entry.status === 'paid'}
+                          snapshotAt={tracker.snapshots[entry.label]}
+                          isAdmin={isAdmin}
+                          onChanged={loadTracker}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {/* Own windows */}
+          {ownResult && <OwnPlanBCard result={ownResult} schedule={schedule} selectedWindow={selectedWindow} />}
+
+          {/* Manager roll-up */}
+          {showTeam && rollups.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Team Roll-up</CardTitle>
+                <CardDescription>{activeWindow.label} {selectedYear} by direct manager</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Manager</TableHead>
+                      <TableHead className="text-right">Advisors</TableHead>
+                      <TableHead className="text-right">Qualified</TableHead>
+                      <TableHead className="text-right">{BONUS_METRIC_LABELS[ruleSet.metric]}</TableHead>
+                      <TableHead className="text-right">Payout</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rollups.map((rollup) => (
+                      <TableRow
+                        key={rollup.managerCode ?? ''}
+                        className={cn(rollup.managerCode === tracker.currentAdvisorCode && 'bg-blue-50 dark:bg-blue-950')}
+                      >
+                        <TableCell>
+                          <div className="font-medium">{rollup.managerName}</div>
+                          {rollup.managerCode && (
+                            <div className="text-xs text-muted-foreground">{rollup.managerCode}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{formatNumber(rollup.advisors)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(rollup.qualified)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(rollup.production)}</TableCell>
+                        <TableCell className="text-right font-medium">{formatCurrency(rollup.payout)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Advisors */}
+          {showTeam && (
+            <Card>
+              <CardHeader>
+                <CardTitle>{ownResult ? 'Team' : 'Advisors'}</CardTitle>
+                <CardDescription>
+                  {activeWindow.label} {selectedYear} · {STATUS_LABELS[activeWindow.status]}
+                  {activeWindow.status === 'open' && ', figures are to date'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Advisor</TableHead>
+                      <TableHead>Manager</TableHead>
+                      <TableHead className="text-right">{ruleSet.metric === 'agency_credits' ? 'AC' : 'NSC'}</TableHead>
+                      <TableHead className="text-right">Cases</TableHead>
+                      <TableHead className="text-right">Payout</TableHead>
+                      <TableHead className="text-right">To Next Tier</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {teamResults.map((advisor) => {
+                      const result = advisor.windows[selectedWindow];
+                      return (
+                        <TableRow
+                          key={advisor.advisor_code}
+                          className={cn(advisor.advisor_code === tracker.currentAdvisorCode && 'bg-blue-50 dark:bg-blue-950')}
+                        >
+                          <TableCell>
+                            <div className="font-medium">{advisor.advisor_name || advisor.advisor_code}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {advisor.advisor_code}{advisor.advisor_class && ` · ${advisor.advisor_class}`}
+                            </div>
+                          </TableCell>
+                          <TableCell>{advisor.manager_id || '-'}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(result.production)}</TableCell>
+                          <TableCell className="text-right">{formatNumber(result.cases)}</TableCell>
+                          <TableCell className="text-right">
+                            <div className="font-medium">{formatCurrency(result.payout)}</div>
+                            <div className="text-xs text-muted-foreground">{tierLabel(result)}</div>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {result.gapToNextTier !== undefined ? formatCurrency(result.gapToNextTier) : 'Top tier'}
+                          </TableCell>
+                          <TableCell>
+                            <QualificationStatus result={result} />
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
+          {!ownResult && !showTeam && (
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-center text-gray-500 dark:text-gray-400 py-8">
+                  No production in {selectedYear} yet
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      {isAdmin && (
+        <PlanBRulesForm
+          isOpen={rulesFormOpen}
+          onOpenChange={setRulesFormOpen}
+          planYear={selectedYear}
+          ruleSet={ruleSet}
+          classOptions={classOptions}
+          onSaved={loadTracker}
+        />
+      )}
+    </div>
+  );
+}
+
+function QualificationStatus({ result }: { result: PlanBWindowResult }) {
+  if (result.qualified) {
+    return result.tierIndex >= 0
+      ? <Badge>Qualified</Badge>
+      : <Badge variant="outline">Below tiers</Badge>;
+  }
+
+  return (
+    <div className="space-y-1">
+      <Badge variant="destructive">Not qualified</Badge>
+      {result.unmetQualifiers.map((reason) => (
+        <div key={reason} className="text-xs text-muted-foreground">{reason}</div>
+      ))}
+    </div>
+  );
+}
+
+function OwnPlanBCard({
+  result,
+  schedule,
+  selectedWindow
+}: {
+  result: PlanBAdvisorResult;
+  schedule: PlanBWindowSchedule[];
+  selectedWindow: number;
+}) {
+  const current = result.windows[selectedWindow];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Award className="h-5 w-5 text-emerald-500" />
+          My Plan B
+        </CardTitle>
+        <CardDescription>{result.advisor_name || result.advisor_code}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="rounded-lg border p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">
+              {current.label} · {STATUS_LABELS[schedule[selectedWindow].status]}
+            </span>
+            <QualificationStatus result={current} />
+          </div>
+          <div className="text-2xl font-bold">{formatCurrency(current.payout)}</div>
+          <div className="grid grid-cols-3 gap-2 text-sm">
+            <div>
+              <div className="text-xs text-muted-foreground">Credits</div>
+              <div className="font-medium">{formatCurrency(current.production)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">Cases</div>
+              <div className="font-medium">{formatNumber(current.cases)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">Rate</div>
+              <div className="font-medium">{formatRate(current.rate)}</div>
+            </div>
+          </div>
+          {current.nextTier && current.gapToNextTier !== undefined && (
+            <div className="space-y-1">
+              <Progress value={Math.min((current.production / current.nextTier.min_production) * 100, 100)} />
+              <p className="text-xs text-muted-foreground">
+                {formatCurrency(current.gapToNextTier)} more for Tier {current.tierIndex + 2} ({formatRate(current.nextTier.rate)})
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Payout History</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Window</TableHead>
+                <TableHead className="text-right">Credits</TableHead>
+                <TableHead className="text-right">Cases</TableHead>
+                <TableHead>Tier</TableHead>
+                <TableHead className="text-right">Payout</TableHead>
+                <TableHead>Paid On</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {schedule.map((entry, index) => {
+                const outcome = result.windows[index];
+                return (
+                  <TableRow key={entry.label}>
+                    <TableCell className="font-medium">{entry.label}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(outcome.production)}</TableCell>
+                    <TableCell className="text-right">{formatNumber(outcome.cases)}</TableCell>
+                    <TableCell>{tierLabel(outcome)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(outcome.payout)}</TableCell>
+                    <TableCell>
+                      {entry.status === 'paid'
+                        ? formatDate(entry.payoutDate)
+                        : <Badge variant={STATUS_VARIANTS[entry.status]}>{STATUS_LABELS[entry.status]}</Badge>}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,382 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Edit, Plus, RefreshCw, Target } from 'lucide-react';
+import { QgbRulesForm } from '@/components/admin/qgb-rules-form';
+import { PersistencyForm } from '@/components/admin/persistency-form';
+import { EligibilityBadges } from './eligibility-badges';
+import { SnapshotControls } from './snapshot-controls';
+import { useProductionYears } from '@/hooks/useProductionYears';
+import { getQgbTracker } from '@/lib/actions/qgb';
+import { BONUS_METRIC_LABELS } from '@/lib/bonus/metrics';
+import { Quarter, QUARTERS, QgbAdvisorResult, QgbOutcome, QgbTracker as QgbTrackerData, quarterOfMonth } from '@/lib/bonus/qgb';
+import { cn, formatCurrency, formatNumber } from '@/lib/utils';
+
+interface QgbTrackerProps {
+  isAdmin: boolean;
+  classOptions: string[];
+}
+
+const formatRate = (rate: number) => `${Number((rate * 100).toFixed(2))}%`;
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const tierLabel = (outcome: QgbOutcome) => (outcome.tierIndex >= 0 ? `Tier ${outcome.tierIndex + 1}` : 'Below tiers');
+
+/**
+ * Quarterly Growth Bonus for the advisors the user may see, earned to date
+ * against projected for the quarter; admins also edit the year's rules here
+ */
+export function QgbTracker({ isAdmin, classOptions }: QgbTrackerProps) {
+  const now = new Date();
+  const years = useProductionYears();
+
+  const [selectedYear, setSelectedYear] = useState(now.getFullYear());
+  const [selectedQuarter, setSelectedQuarter] = useState<Quarter>(quarterOfMonth(now.getMonth() + 1));
+  const [tracker, setTracker] = useState<QgbTrackerData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [rulesFormOpen, setRulesFormOpen] = useState(false);
+  const [persistencyFormOpen, setPersistencyFormOpen] = useState(false);
+
+  const loadTracker = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getQgbTracker(selectedYear, selectedQuarter);
+
+    if (result.success && result.data) {
+      setTracker(result.data);
+      setError(null);
+    } else {
+      setTracker(null);
+      setError(result.message);
+    }
+    setIsLoading(false);
+  }, [selectedYear, selectedQuarter]);
+
+  useEffect(() => {
+    loadTracker();
+  }, [loadTracker]);
+
+  const ruleSet = tracker?.ruleSet ?? null;
+  const ownResult = tracker?.advisors.find(advisor => advisor.advisor_code === tracker.currentAdvisorCode);
+  const isFinal = (tracker?.elapsed ?? 0) >= 1;
+  const teamResults = tracker?.advisors ?? [];
+  const showTeam = teamResults.length > (ownResult ? 1 : 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Quarter Picker */}
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Year:</span>
+              <Select value={String(selectedYear)} onValueChange={(value) => setSelectedYear(Number(value))}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {years.map((year) => (
+                    <SelectItem key={year} value={String(year)}>{year}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Quarter:</span>
+              <Select
+                value={String(selectedQuarter)}
+                onValueChange={(value) => setSelectedQuarter(Number(value) as Quarter)}
+              >
+                <SelectTrigger className="w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {QUARTERS.map((quarter) => (
+                    <SelectItem key={quarter} value={String(quarter)}>Q{quarter}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center gap-2 ml-auto">
+              <Button variant="outline" size="sm" onClick={loadTracker} disabled={isLoading}>
+                <RefreshCw className={cn('h-4 w-4', isLoading && 'animate-spin')} />
+              </Button>
+              {isAdmin && (
+                <>
+                  <Button variant="outline" size="sm" onClick={() => setPersistencyFormOpen(true)}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Record Persistency
+                  </Button>
+                  <Button size="sm" onClick={() => setRulesFormOpen(true)}>
+                    {ruleSet ? <Edit className="h-4 w-4 mr-1" /> : <Plus className="h-4 w-4 mr-1" />}
+                    {ruleSet ? 'Edit' : 'Set'} {selectedYear} Rules
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error ? (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center text-red-600 dark:text-red-400">{error}</div>
+          </CardContent>
+        </Card>
+      ) : isLoading || !tracker ? (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 dark:border-white"></div>
+            </div>
+          </CardContent>
+        </Card>
+      ) : !ruleSet ? (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center text-gray-500 dark:text-gray-400 py-8">
+              No QGB rules are set for {selectedYear}
+              {isAdmin && ' yet. Set them to start tracking the bonus.'}
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Rules */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>Q{selectedQuarter} {selectedYear} Rules</CardTitle>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant={isFinal ? 'secondary' : 'default'}>{isFinal ? 'Closed' : 'In progress'}</Badge>
+                  <SnapshotControls
+                    program="qgb"
+                    year={selectedYear}
+                    periodKey={`Q${selectedQuarter}`}
+                    periodLabel={`Q${selectedQuarter} ${selectedYear}`}
+                    closed={isFinal}
+                    snapshotAt={tracker.snapshotAt}
+                    isAdmin={isAdmin}
+                    onChanged={loadTracker}
+                  />
+                </div>
+              </div>
+              <CardDescription>
+                {tracker.quarterStart && tracker.quarterEnd && (
+                  <>{formatDate(tracker.quarterStart)} – {formatDate(tracker.quarterEnd)} · </>
+                )}
+                Qualifies on {BONUS_METRIC_LABELS[ruleSet.metric]} by {ruleSet.period_type} month
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <EligibilityBadges eligibility={ruleSet.eligibility} />
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-muted-foreground">Tiers:</span>
+                {ruleSet.tiers.map((tier, index) => (
+                  <Badge key={tier.min_production} variant="outline">
+                    Tier {index + 1}: {formatCurrency(tier.min_production)}+ pays {formatRate(tier.rate)}
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-muted-foreground">Qualifiers:</span>
+                {!ruleSet.qualifiers.min_cases && !ruleSet.qualifiers.min_persistency && <span>None</span>}
+                {ruleSet.qualifiers.min_cases && (
+                  <Badge variant="secondary">{formatNumber(ruleSet.qualifiers.min_cases)} cases</Badge>
+                )}
+                {ruleSet.qualifiers.min_persistency && (
+                  <Badge variant="secondary">{formatRate(ruleSet.qualifiers.min_persistency)} persistency</Badge>
+                )}
+              </div>
+              {ruleSet.description && (
+                <p className="text-gray-700 dark:text-gray-300 whitespace-pre-line">{ruleSet.description}</p>
+              )}
+              {!isFinal && (
+                <div className="space-y-1">
+                  <Progress value={tracker.elapsed * 100} />
+                  <p className="text-xs text-muted-foreground">
+                    {Math.round(tracker.elapsed * 100)}% of the quarter has passed; projections extrapolate production to date
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Own bonus */}
+          {ownResult && <OwnQgbCard result={ownResult} isFinal={isFinal} />}
+
+          {/* Team bonus */}
+          {showTeam && (
+            <Card>
+              <CardHeader>
+                <CardTitle>{ownResult ? 'Team' : 'Advisors'}</CardTitle>
+                <CardDescription>
+                  {isFinal ? 'Final quarter results' : 'Earned to date and projected for the full quarter'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Advisor</TableHead>
+                      <TableHead>Class</TableHead>
+                      <TableHead className="text-right">{ruleSet.metric === 'agency_credits' ? 'AC' : 'NSC'}</TableHead>
+                      <TableHead className="text-right">Cases</TableHead>
+                      {ruleSet.qualifiers.min_persistency && <TableHead className="text-right">Persistency</TableHead>}
+                      <TableHead className="text-right">Earned</TableHead>
+                      {!isFinal && <TableHead className="text-right">Projected</TableHead>}
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {teamResults.map((result) => (
+                      <TableRow
+                        key={result.advisor_code}
+                        className={cn(result.advisor_code === tracker.currentAdvisorCode && 'bg-blue-50 dark:bg-blue-950')}
+                      >
+                        <TableCell>
+                          <div className="font-medium">{result.advisor_name || result.advisor_code}</div>
+                          <div className="text-xs text-muted-foreground">{result.advisor_code}</div>
+                        </TableCell>
+                        <TableCell>{result.advisor_class || '-'}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(result.earned.production)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(result.earned.cases)}</TableCell>
+                        {ruleSet.qualifiers.min_persistency && (
+                          <TableCell className="text-right">
+                            {result.persistency === null ? '-' : formatRate(result.persistency)}
+                          </TableCell>
+                        )}
+                        <TableCell className="text-right">
+                          <div className="font-medium">{formatCurrency(result.earned.bonus)}</div>
+                          <div className="text-xs text-muted-foreground">{tierLabel(result.earned)}</div>
+                        </TableCell>
+                        {!isFinal && (
+                          <TableCell className="text-right">
+                            <div className="font-medium">{formatCurrency(result.projected.bonus)}</div>
+                            <div className="text-xs text-muted-foreground">{tierLabel(result.projected)}</div>
+                          </TableCell>
+                        )}
+                        <TableCell>
+                          <QualificationStatus outcome={isFinal ? result.earned : result.projected} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
+          {!ownResult && !showTeam && (
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-center text-gray-500 dark:text-gray-400 py-8">
+                  No production in Q{selectedQuarter} {selectedYear} yet
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      {isAdmin && (
+        <>
+          <QgbRulesForm
+            isOpen={rulesFormOpen}
+            onOpenChange={setRulesFormOpen}
+            planYear={selectedYear}
+            ruleSet={ruleSet}
+            classOptions={classOptions}
+            onSaved={loadTracker}
+          />
+          <PersistencyForm
+            isOpen={persistencyFormOpen}
+            onOpenChange={setPersistencyFormOpen}
+            onSaved={loadTracker}
+          />
+        </>
+      )}
+    </div>
+  );
+}
+
+function QualificationStatus({ outcome }: { outcome: QgbOutcome }) {
+  if (outcome.qualified) {
+    return outcome.tierIndex >= 0
+      ? <Badge>Qualified</Badge>
+      : <Badge variant="outline">Below tiers</Badge>;
+  }
+
+  return (
+    <div className="space-y-1">
+      <Badge variant="destructive">Not qualified</Badge>
+      {outcome.unmetQualifiers.map((reason) => (
+        <div key={reason} className="text-xs text-muted-foreground">{reason}</div>
+      ))}
+    </div>
+  );
+}
+
+function OwnQgbCard({ result, isFinal }: { result: QgbAdvisorResult; isFinal: boolean }) {
+  const outcomes: { label: string; outcome: QgbOutcome }[] = isFinal
+    ? [{ label: 'Earned', outcome: result.earned }]
+    : [
+        { label: 'Earned to date', outcome: result.earned },
+        { label: 'Projected for the quarter', outcome: result.projected }
+      ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Target className="h-5 w-5 text-emerald-500" />
+          My QGB
+        </CardTitle>
+        <CardDescription>{result.advisor_name || result.advisor_code}</CardDescription>
+      </CardHeader>
+      <CardContent className={cn('grid gap-4', !isFinal && 'md:grid-cols-2')}>
+        {outcomes.map(({ label, outcome }) => (
+          <div key={label} className="rounded-lg border p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">{label}</span>
+              <QualificationStatus outcome={outcome} />
+            </div>
+            <div className="text-2xl font-bold">{formatCurrency(outcome.bonus)}</div>
+            <div className="grid grid-cols-3 gap-2 text-sm">
+              <div>
+                <div className="text-xs text-muted-foreground">Production</div>
+                <div className="font-medium">{formatCurrency(outcome.production)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground">Cases</div>
+                <div className="font-medium">{formatNumber(outcome.cases)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground">Rate</div>
+                <div className="font-medium">{formatRate(outcome.rate)}</div>
+              </div>
+            </div>
+            {outcome.nextTier && outcome.gapToNextTier !== undefined && (
+              <div className="space-y-1">
+                <Progress value={Math.min((outcome.production / outcome.nextTier.min_production) * 100, 100)} />
+                <p className="text-xs text-muted-foreground">
+                  {formatCurrency(outcome.gapToNextTier)} more for Tier {outcome.tierIndex + 2} ({formatRate(outcome.nextTier.rate)})
+                </p>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
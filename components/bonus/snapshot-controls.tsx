@@ -0,0 +1,82 @@
+'use client';
+
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Lock, Unlock } from 'lucide-react';
+import { freezeBonusPeriod, unfreezeBonusPeriod } from '@/lib/actions/bonus-snapshots';
+import { BonusProgram } from '@/lib/types/database';
+
+interface SnapshotControlsProps {
+  program: BonusProgram;
+  year: number;
+  periodKey: string;
+  periodLabel: string; // e.g. "Q1 2025"
+  closed: boolean;
+  snapshotAt?: string; // ISO timestamp; live figures when unset
+  isAdmin: boolean;
+  onChanged: () => void;
+}
+
+const formatTakenAt = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * Whether a period's figures are frozen or live; admins freeze a closed
+ * period here so later uploads no longer change it, or unfreeze it to
+ * recompute
+ */
+export function SnapshotControls({
+  program,
+  year,
+  periodKey,
+  periodLabel,
+  closed,
+  snapshotAt,
+  isAdmin,
+  onChanged
+}: SnapshotControlsProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleToggle = async () => {
+    const prompt = snapshotAt
+      ? `Unfreeze ${periodLabel}? Its figures will be recomputed from current production and rules.`
+      : `Freeze ${periodLabel}? Its figures will no longer change when production is uploaded or rules are edited.`;
+    if (!confirm(prompt)) return;
+
+    setIsSaving(true);
+    setError(null);
+    const result = snapshotAt
+      ? await unfreezeBonusPeriod(program, year, periodKey)
+      : await freezeBonusPeriod(program, year, periodKey);
+
+    if (result.success) {
+      onChanged();
+    } else {
+      setError(result.error ? `${result.message}: ${result.error}` : result.message);
+    }
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Badge variant={snapshotAt ? 'secondary' : 'outline'}>
+        {snapshotAt ? `Frozen ${formatTakenAt(snapshotAt)}` : 'Live'}
+      </Badge>
+      {isAdmin && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleToggle}
+          disabled={isSaving || (!snapshotAt && !closed)}
+          title={!snapshotAt && !closed ? 'Only closed periods can be frozen' : undefined}
+        >
+          {snapshotAt ? <Unlock className="h-4 w-4 mr-1" /> : <Lock className="h-4 w-4 mr-1" />}
+          {isSaving ? 'Saving...' : snapshotAt ? 'Unfreeze' : 'Freeze'}
+        </Button>
+      )}
+      {error && <span className="text-xs text-red-600 dark:text-red-400">{error}</span>}
+    </div>
+  );
+}
@@ -12,8 +12,8 @@ function HeaderContent({ children }: { children: React.ReactNode }) {
   const { isCollapsed } = useSidebar();
 
   return (
-    <div className={`transition-all duration-300 ease-in-out ${isCollapsed ? 'lg:pl-16' : 'lg:pl-64'}`}>
-      <main className="min-h-screen p-4 lg:p-6">
+    <div className={`transition-all duration-300 ease-in-out ${isCollapsed ? 'lg:pl-16' : 'lg:pl-64'} print:pl-0`}>
+      <main className="min-h-screen p-4 lg:p-6 print:p-0">
         {children}
       </main>
     </div>
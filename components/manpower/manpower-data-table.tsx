@@ -5,6 +5,7 @@ import { ManpowerRecord } from '@/lib/types/database';
 import { deleteManpowerRecord } from '@/lib/actions/manpower';
 import ManpowerForm from '../admin/manpower-form';
 import { PhotoZoomModal } from '../admin/photo-zoom-modal';
+import { AdvisorCodeAliasesDialog } from '../admin/advisor-code-aliases-dialog';
 import {
   Table,
   TableBody,
@@ -22,7 +23,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import { Plus, Pencil, Trash2 } from 'lucide-react';
+import { Plus, Pencil, Trash2, Link2 } from 'lucide-react';
 import {
   ProfileAvatar,
   HierarchyBadge,
@@ -64,6 +65,7 @@ export function ManpowerDataTable({
   const [isDeleting, setIsDeleting] = useState(false);
   const [showPhotoModal, setShowPhotoModal] = useState(false);
   const [selectedPhotoRecord, setSelectedPhotoRecord] = useState<ManpowerRecord | null>(null);
+  const [aliasRecord, setAliasRecord] = useState<ManpowerRecord | null>(null);
 
   const isAdminMode = mode === 'admin';
 
@@ -324,6 +326,14 @@ export function ManpowerDataTable({
                       >
                         <Pencil className="h-3 w-3" />
                       </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setAliasRecord(record)}
+                        title="Code aliases"
+                      >
+                        <Link2 className="h-3 w-3" />
+                      </Button>
                       <Button
                         size="sm"
                         variant="outline"
@@ -350,6 +360,15 @@ export function ManpowerDataTable({
         />
       )}
 
+      {/* Code Aliases Modal */}
+      {isAdminMode && (
+        <AdvisorCodeAliasesDialog
+          isOpen={!!aliasRecord}
+          onOpenChange={(open) => !open && setAliasRecord(null)}
+          record={aliasRecord}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {isAdminMode && (
         <Dialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
@@ -0,0 +1,60 @@
+'use client';
+
+import { ArrowDownRight, ArrowUpRight, Minus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+/**
+ * Percent change from `previous` to `current`, or null when there is no base
+ * to compare against (previous period had no production)
+ */
+export function percentChange(current: number, previous: number): number | null {
+  if (!previous) return null;
+  return ((current - previous) / Math.abs(previous)) * 100;
+}
+
+interface ChangeIndicatorProps {
+  current: number;
+  previous: number | null | undefined;
+  /** Shown after the percentage, e.g. "vs Sep 2025" */
+  label?: string;
+  className?: string;
+}
+
+/**
+ * Trend arrow with the percent change against a comparison period
+ */
+export function ChangeIndicator({ current, previous, label, className }: ChangeIndicatorProps) {
+  if (previous === null || previous === undefined) {
+    return null;
+  }
+
+  const change = percentChange(current, previous);
+  const isUp = change === null ? current > 0 : change > 0;
+  const isDown = change !== null && change < 0;
+
+  let text: string;
+  if (change === null) {
+    text = current > 0 ? 'New' : '0%';
+  } else {
+    text = `${change > 0 ? '+' : ''}${change.toFixed(Math.abs(change) < 10 ? 1 : 0)}%`;
+  }
+
+  const Icon = isUp ? ArrowUpRight : isDown ? ArrowDownRight : Minus;
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-0.5 text-xs whitespace-nowrap',
+        isUp && 'text-green-600 dark:text-green-400',
+        isDown && 'text-red-600 dark:text-red-400',
+        !isUp && !isDown && 'text-muted-foreground',
+        className
+      )}
+      title={label ? `${text} ${label}` : text}
+    >
+      <Icon className="h-3 w-3" />
+      <span>{text}</span>
+      {label && <span className="text-muted-foreground ml-1">{label}</span>}
+    </span>
+  );
+}
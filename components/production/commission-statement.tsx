@@ -0,0 +1,308 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { PeriodSwitcher } from '@/components/production/period-switcher';
+import { useProductionYears } from '@/hooks/useProductionYears';
+import { CommissionStatement, fetchCommissionStatement } from '@/lib/data/commission';
+import { CommissionStatementLine, ManpowerRecord } from '@/lib/types/database';
+import { formatCurrency } from '@/lib/utils';
+import { Printer } from 'lucide-react';
+
+type PeriodType = 'calendar' | 'systems';
+type TimeFrame = 'monthly' | 'annual';
+
+export type StatementAdvisor = Pick<ManpowerRecord, 'code_number' | 'advisor_name' | 'unit_code'>;
+
+interface CommissionStatementViewProps {
+  advisors: StatementAdvisor[];
+  defaultAdvisorCode?: string;
+}
+
+interface TransactionTypeGroup {
+  transactionType: string;
+  lines: CommissionStatementLine[];
+  premium: number;
+  commission: number;
+}
+
+const SECTIONS: { type: CommissionStatementLine['commission_type']; title: string }[] = [
+  { type: 'FY', title: 'First Year Commission' },
+  { type: 'RN', title: 'Renewal Commission' }
+];
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const sumBy = (lines: CommissionStatementLine[], key: 'premium_php' | 'commission_php') =>
+  lines.reduce((sum, line) => sum + line[key], 0);
+
+// Lines arrive sorted by transaction type, so groups keep that order
+function groupByTransactionType(lines: CommissionStatementLine[]): TransactionTypeGroup[] {
+  const groups: TransactionTypeGroup[] = [];
+
+  lines.forEach(line => {
+    const transactionType = line.transaction_type || 'Unspecified';
+    let group = groups.find(g => g.transactionType === transactionType);
+
+    if (!group) {
+      group = { transactionType, lines: [], premium: 0, commission: 0 };
+      groups.push(group);
+    }
+
+    group.lines.push(line);
+    group.premium += line.premium_php;
+    group.commission += line.commission_php;
+  });
+
+  return groups;
+}
+
+const formatDate = (isoDate?: string) =>
+  isoDate
+    ? new Date(`${isoDate}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+    : '-';
+
+const formatRate = (rate?: number) => (rate === undefined ? '-' : `${(rate * 100).toFixed(2)}%`);
+
+/**
+ * FY and RN commission statement of one advisor for a month or a year,
+ * printable as a PDF through the browser's print dialog
+ */
+export function CommissionStatementView({ advisors, defaultAdvisorCode }: CommissionStatementViewProps) {
+  const now = new Date();
+  const years = useProductionYears();
+
+  const [advisorCode, setAdvisorCode] = useState(defaultAdvisorCode ?? advisors[0]?.code_number ?? '');
+  const [timeFrame, setTimeFrame] = useState<TimeFrame>('monthly');
+  const [periodType, setPeriodType] = useState<PeriodType>('calendar');
+  const [selectedMonth, setSelectedMonth] = useState(now.getMonth() + 1);
+  const [selectedYear, setSelectedYear] = useState(now.getFullYear());
+  const [statement, setStatement] = useState<CommissionStatement | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!advisorCode) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    fetchCommissionStatement(advisorCode, {
+      periodType,
+      year: selectedYear,
+      month: timeFrame === 'monthly' ? selectedMonth : undefined
+    }).then(result => {
+      if (cancelled) return;
+      setStatement(result.data);
+      setError(result.error ? result.error.message : null);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [advisorCode, timeFrame, periodType, selectedMonth, selectedYear]);
+
+  const periodLabel = `${timeFrame === 'monthly' ? `${MONTH_NAMES[selectedMonth - 1]} ` : ''}${selectedYear} (${periodType})`;
+  const lines = statement?.lines ?? [];
+  const totalCommission = sumBy(lines, 'commission_php');
+
+  if (advisors.length === 0) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <div className="text-center text-gray-500 dark:text-gray-400 py-8">
+            Your account is not linked to any advisor whose commission you can view
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Controls are left off the printed statement */}
+      <div className="space-y-4 print:hidden">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Advisor:</span>
+            <Select value={advisorCode} onValueChange={setAdvisorCode} disabled={advisors.length === 1}>
+              <SelectTrigger className="w-72">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {advisors.map((advisor) => (
+                  <SelectItem key={advisor.code_number} value={advisor.code_number}>
+                    {advisor.advisor_name} ({advisor.code_number})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => window.print()}
+            disabled={isLoading || !statement}
+            className="flex items-center space-x-2"
+          >
+            <Printer className="h-4 w-4" />
+            <span>Print / Save as PDF</span>
+          </Button>
+        </div>
+
+        <PeriodSwitcher
+          timeFrame={timeFrame}
+          periodType={periodType}
+          selectedMonth={selectedMonth}
+          selectedYear={selectedYear}
+          onTimeFrameChange={setTimeFrame}
+          onPeriodTypeChange={setPeriodType}
+          onMonthChange={setSelectedMonth}
+          onYearChange={setSelectedYear}
+          years={years}
+        />
+      </div>
+
+      {error ? (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center text-red-600 dark:text-red-400">
+              Error loading statement: {error}
+            </div>
+          </CardContent>
+        </Card>
+      ) : isLoading || !statement ? (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 dark:border-white"></div>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="print:border-0 print:shadow-none">
+          <CardHeader>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div className="space-y-1">
+                <CardTitle className="text-xl">Commission Statement</CardTitle>
+                <CardDescription>
+                  {periodLabel}: {formatDate(statement.periodStart)} to {formatDate(statement.periodEnd)}
+                </CardDescription>
+              </div>
+              <div className="text-right space-y-1">
+                <div className="font-medium text-gray-900 dark:text-white">{statement.advisor.advisor_name}</div>
+                <div className="flex items-center justify-end gap-2">
+                  <Badge variant="outline">{statement.advisor.code_number}</Badge>
+                  {statement.advisor.unit_code && <Badge variant="secondary">{statement.advisor.unit_code}</Badge>}
+                </div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4 pt-4">
+              {SECTIONS.map((section) => (
+                <div key={section.type} className="rounded-lg border p-3">
+                  <div className="text-xs text-muted-foreground">{section.title}</div>
+                  <div className="text-lg font-semibold">
+                    {formatCurrency(sumBy(lines.filter(line => line.commission_type === section.type), 'commission_php'))}
+                  </div>
+                </div>
+              ))}
+              <div className="rounded-lg border p-3">
+                <div className="text-xs text-muted-foreground">Total Commission</div>
+                <div className="text-lg font-semibold">{formatCurrency(totalCommission)}</div>
+              </div>
+            </div>
+          </CardHeader>
+
+          <CardContent className="space-y-8">
+            {SECTIONS.map((section) => {
+              const sectionLines = lines.filter(line => line.commission_type === section.type);
+              const groups = groupByTransactionType(sectionLines);
+
+              return (
+                <div key={section.type} className="space-y-2">
+                  <h3 className="font-semibold text-gray-900 dark:text-white">{section.title}</h3>
+                  {sectionLines.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No {section.type} commission in this period</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Process Date</TableHead>
+                          <TableHead>Policy</TableHead>
+                          <TableHead>Insured</TableHead>
+                          {section.type === 'RN' && <TableHead className="text-right">Year</TableHead>}
+                          <TableHead className="text-right">Premium</TableHead>
+                          <TableHead className="text-right">Rate</TableHead>
+                          <TableHead className="text-right">Commission</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {groups.map((group) => (
+                          <TransactionTypeRows
+                            key={group.transactionType}
+                            group={group}
+                            showYear={section.type === 'RN'}
+                          />
+                        ))}
+                        <TableRow className="font-semibold border-t-2">
+                          <TableCell colSpan={section.type === 'RN' ? 4 : 3}>Total {section.title}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(sumBy(sectionLines, 'premium_php'))}</TableCell>
+                          <TableCell />
+                          <TableCell className="text-right">{formatCurrency(sumBy(sectionLines, 'commission_php'))}</TableCell>
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+              );
+            })}
+
+            <p className="text-xs text-muted-foreground">
+              Generated {now.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function TransactionTypeRows({ group, showYear }: { group: TransactionTypeGroup; showYear: boolean }) {
+  return (
+    <>
+      <TableRow className="bg-gray-50 dark:bg-gray-800/50 hover:bg-gray-50 dark:hover:bg-gray-800/50">
+        <TableCell colSpan={showYear ? 7 : 6} className="py-2 text-sm font-medium">
+          {group.transactionType}
+        </TableCell>
+      </TableRow>
+      {group.lines.map((line, index) => (
+        <TableRow key={`${line.policy_number}-${line.process_date}-${index}`}>
+          <TableCell className="whitespace-nowrap">{formatDate(line.process_date)}</TableCell>
+          <TableCell>{line.policy_number || '-'}</TableCell>
+          <TableCell>{line.insured_name || '-'}</TableCell>
+          {showYear && <TableCell className="text-right">{line.commission_year ?? '-'}</TableCell>}
+          <TableCell className="text-right">{formatCurrency(line.premium_php)}</TableCell>
+          <TableCell className="text-right">{formatRate(line.rate)}</TableCell>
+          <TableCell className="text-right">{formatCurrency(line.commission_php)}</TableCell>
+        </TableRow>
+      ))}
+      <TableRow className="text-sm">
+        <TableCell colSpan={showYear ? 4 : 3} className="text-muted-foreground">
+          Subtotal {group.transactionType}
+        </TableCell>
+        <TableCell className="text-right font-medium">{formatCurrency(group.premium)}</TableCell>
+        <TableCell />
+        <TableCell className="text-right font-medium">{formatCurrency(group.commission)}</TableCell>
+      </TableRow>
+    </>
+  );
+}
@@ -0,0 +1,390 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Edit, Plus, RefreshCw, Trash2, Trophy } from 'lucide-react';
+import { ContestForm, CONTEST_METRIC_LABELS } from '@/components/admin/contest-form';
+import { deleteContest, getContestLeaderboard, getContests } from '@/lib/actions/contests';
+import { ContestLeaderboardEntry, ContestPeriod } from '@/lib/types/database';
+import { cn, formatCurrency, formatNumber } from '@/lib/utils';
+
+interface ContestTrackerProps {
+  isAdmin: boolean;
+  currentAdvisorCode: string | null;
+  classOptions: string[];
+}
+
+type ContestStatus = 'upcoming' | 'active' | 'ended';
+
+function getContestStatus(contest: ContestPeriod, today: string): ContestStatus {
+  if (today < contest.start_date) return 'upcoming';
+  if (today > contest.end_date) return 'ended';
+  return 'active';
+}
+
+const STATUS_BADGES: Record<ContestStatus, { label: string; variant: 'default' | 'secondary' | 'outline' }> = {
+  active: { label: 'Live', variant: 'default' },
+  upcoming: { label: 'Upcoming', variant: 'outline' },
+  ended: { label: 'Ended', variant: 'secondary' }
+};
+
+function formatContestDate(date: string) {
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+}
+
+/**
+ * Contest picker with a live leaderboard; admins also create, edit and delete contests here
+ */
+export function ContestTracker({ isAdmin, currentAdvisorCode, classOptions }: ContestTrackerProps) {
+  const [contests, setContests] = useState<ContestPeriod[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [leaderboard, setLeaderboard] = useState<ContestLeaderboardEntry[]>([]);
+  const [teamOnly, setTeamOnly] = useState(false);
+  const [isLoadingContests, setIsLoadingContests] = useState(true);
+  const [isLoadingBoard, setIsLoadingBoard] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingContest, setEditingContest] = useState<ContestPeriod | null>(null);
+
+  // Local YYYY-MM-DD, comparable with the contest's date strings
+  const today = new Date().toLocaleDateString('en-CA');
+  const selectedContest = contests.find(contest => contest.id === selectedId) || null;
+
+  const loadContests = useCallback(async () => {
+    setIsLoadingContests(true);
+    const result = await getContests();
+
+    if (result.success && result.data) {
+      const list = result.data;
+      setContests(list);
+      // Default to a live contest, then the most recent one
+      setSelectedId(current => {
+        if (current && list.some(contest => contest.id === current)) return current;
+        const live = list.find(contest => getContestStatus(contest, today) === 'active');
+        return live?.id ?? list[0]?.id ?? null;
+      });
+    } else {
+      setError(result.message);
+    }
+    setIsLoadingContests(false);
+  }, [today]);
+
+  const loadLeaderboard = useCallback(async () => {
+    if (!selectedId) {
+      setLeaderboard([]);
+      return;
+    }
+
+    setIsLoadingBoard(true);
+    const result = await getContestLeaderboard(selectedId, teamOnly);
+
+    if (result.success && result.data) {
+      setLeaderboard(result.data);
+      setError(null);
+    } else {
+      setLeaderboard([]);
+      setError(result.message);
+    }
+    setIsLoadingBoard(false);
+  }, [selectedId, teamOnly]);
+
+  useEffect(() => {
+    loadContests();
+  }, [loadContests]);
+
+  useEffect(() => {
+    loadLeaderboard();
+  }, [loadLeaderboard]);
+
+  const handleDelete = async () => {
+    if (!selectedContest) return;
+    if (!confirm(`Delete the contest "${selectedContest.contest_name}"?`)) return;
+
+    const result = await deleteContest(selectedContest.id);
+    if (result.success) {
+      setSelectedId(null);
+      loadContests();
+    } else {
+      setError(result.error ? `${result.message}: ${result.error}` : result.message);
+    }
+  };
+
+  const openForm = (contest: ContestPeriod | null) => {
+    setEditingContest(contest);
+    setFormOpen(true);
+  };
+
+  const formatMetric = (value: number) =>
+    selectedContest?.qualifying_metric === 'settled_apps' ? formatNumber(value) : formatCurrency(value);
+
+  const thresholds = selectedContest?.thresholds || [];
+  const topThreshold = thresholds[thresholds.length - 1];
+  const qualifiedCount = leaderboard.filter(entry => entry.tier_reached > 0).length;
+  const status = selectedContest ? getContestStatus(selectedContest, today) : null;
+
+  return (
+    <div className="space-y-6">
+      {/* Contest Picker */}
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Contest:</span>
+              <Select
+                value={selectedId ?? undefined}
+                onValueChange={setSelectedId}
+                disabled={isLoadingContests || contests.length === 0}
+              >
+                <SelectTrigger className="w-72">
+                  <SelectValue placeholder={isLoadingContests ? 'Loading...' : 'No contests yet'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {contests.map((contest) => (
+                    <SelectItem key={contest.id} value={contest.id}>
+                      {contest.contest_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <Checkbox
+                checked={teamOnly}
+                onCheckedChange={(checked) => setTeamOnly(checked === true)}
+                disabled={!currentAdvisorCode}
+              />
+              My team only
+            </label>
+
+            <div className="flex items-center gap-2 ml-auto">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={loadLeaderboard}
+                disabled={isLoadingBoard || !selectedId}
+              >
+                <RefreshCw className={cn('h-4 w-4', isLoadingBoard && 'animate-spin')} />
+              </Button>
+              {isAdmin && (
+                <>
+                  {selectedContest && (
+                    <>
+                      <Button variant="outline" size="sm" onClick={() => openForm(selectedContest)}>
+                        <Edit className="h-4 w-4 mr-1" />
+                        Edit
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={handleDelete}>
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Delete
+                      </Button>
+                    </>
+                  )}
+                  <Button size="sm" onClick={() => openForm(null)}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    New Contest
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center text-red-600 dark:text-red-400">{error}</div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Contest Details */}
+      {selectedContest && status && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card className="md:col-span-2">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <Trophy className="h-5 w-5 text-amber-500" />
+                  {selectedContest.contest_name}
+                </CardTitle>
+                <Badge variant={STATUS_BADGES[status].variant}>{STATUS_BADGES[status].label}</Badge>
+              </div>
+              <CardDescription>
+                {formatContestDate(selectedContest.start_date)} – {formatContestDate(selectedContest.end_date)}
+                {' · '}Ranked on {CONTEST_METRIC_LABELS[selectedContest.qualifying_metric]}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {selectedContest.description && (
+                <p className="text-gray-700 dark:text-gray-300 whitespace-pre-line">{selectedContest.description}</p>
+              )}
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-muted-foreground">Tiers:</span>
+                {thresholds.length === 0 ? (
+                  <span className="text-muted-foreground">None (ranking only)</span>
+                ) : (
+                  thresholds.map((threshold, index) => (
+                    <Badge key={threshold} variant="outline">
+                      Tier {index + 1}: {formatMetric(threshold)}
+                    </Badge>
+                  ))
+                )}
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-muted-foreground">Eligible:</span>
+                {selectedContest.eligible_classes.length === 0 ? (
+                  <span>All classes</span>
+                ) : (
+                  selectedContest.eligible_classes.map((advisorClass) => (
+                    <Badge key={advisorClass} variant="secondary">{advisorClass}</Badge>
+                  ))
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Standings</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              <div className="text-2xl font-bold">{formatNumber(leaderboard.length)}</div>
+              <p className="text-xs text-muted-foreground">Advisors with production in the contest window</p>
+              {thresholds.length > 0 && (
+                <p className="text-sm pt-2">
+                  <span className="font-semibold">{formatNumber(qualifiedCount)}</span> qualified for at least one tier
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Leaderboard */}
+      {selectedContest && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Leaderboard</CardTitle>
+            <CardDescription>
+              Computed live from submitted and settled apps processed within the contest dates
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoadingBoard ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 dark:border-white"></div>
+              </div>
+            ) : leaderboard.length === 0 ? (
+              <div className="text-center text-gray-500 dark:text-gray-400 py-8">
+                No eligible production in this contest yet
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">#</TableHead>
+                    <TableHead>Advisor</TableHead>
+                    <TableHead>Class</TableHead>
+                    <TableHead className="text-right">Submitted</TableHead>
+                    <TableHead className="text-right">Lives</TableHead>
+                    <TableHead className="text-right">AC</TableHead>
+                    <TableHead className="text-right">NSC</TableHead>
+                    {thresholds.length > 0 && <TableHead className="w-48">Qualification</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {leaderboard.map((entry) => {
+                    const isMe = entry.advisor_code === currentAdvisorCode;
+                    const target = entry.next_threshold ?? topThreshold;
+                    const progress = target ? Math.min((entry.metric_value / target) * 100, 100) : 0;
+                    const name = entry.advisor_name || entry.advisor_code;
+                    return (
+                      <TableRow key={entry.advisor_code} className={cn(isMe && 'bg-blue-50 dark:bg-blue-950')}>
+                        <TableCell className="font-semibold">{entry.rank}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Avatar className="h-8 w-8">
+                              <AvatarImage src={entry.photo_url} alt={name} />
+                              <AvatarFallback>
+                                {name.split(' ').map(n => n[0]).join('').substring(0, 2)}
+                              </AvatarFallback>
+                            </Avatar>
+                            <div>
+                              <div className="font-medium">
+                                {name}
+                                {isMe && <span className="text-xs text-blue-600 dark:text-blue-400 ml-1">(you)</span>}
+                              </div>
+                              <div className="text-xs text-muted-foreground">{entry.advisor_code}</div>
+                            </div>
+                          </div>
+                        </TableCell>
+                        <TableCell>{entry.advisor_class || '-'}</TableCell>
+                        <TableCell className="text-right">{formatNumber(entry.submitted_apps)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(entry.settled_apps)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(entry.agency_credits)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(entry.net_sales_credits)}</TableCell>
+                        {thresholds.length > 0 && (
+                          <TableCell>
+                            <div className="space-y-1">
+                              <div className="flex items-center justify-between text-xs">
+                                <span className={cn(entry.tier_reached > 0 ? 'font-semibold text-green-600 dark:text-green-400' : 'text-muted-foreground')}>
+                                  {entry.tier_reached > 0 ? `Tier ${entry.tier_reached}` : 'Not qualified'}
+                                </span>
+                                {entry.next_threshold !== undefined && (
+                                  <span className="text-muted-foreground">
+                                    {formatMetric(entry.next_threshold - entry.metric_value)} to go
+                                  </span>
+                                )}
+                              </div>
+                              <Progress value={progress} className="h-1.5" />
+                            </div>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {!isLoadingContests && contests.length === 0 && (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center text-gray-500 dark:text-gray-400 py-8">
+              {isAdmin ? 'No contests yet. Create one to start a leaderboard.' : 'No contests have been set up yet.'}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {isAdmin && (
+        <ContestForm
+          isOpen={formOpen}
+          onOpenChange={setFormOpen}
+          contest={editingContest}
+          classOptions={classOptions}
+          onSaved={() => {
+            loadContests();
+            loadLeaderboard();
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -7,19 +7,29 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { ChevronDown, ChevronUp, TrendingUp, Users } from 'lucide-react';
-import { formatNumber, formatCurrency } from '@/lib/utils';
+import { formatNumber, formatCurrency, cn } from '@/lib/utils';
+import { ChangeIndicator } from './change-indicator';
 
-interface ProductionRecord {
-  advisor_code: string;
-  advisor_name: string;
-  unit_code: string;
-  manager_id: string;
+interface ProductionMetrics {
   total_submitted_apps: number;
   total_settled_apps: number;
   total_agency_credits: number;
   total_net_sales_credits: number;
+  total_fy_premium_php: number;
+  total_fy_commission_php: number;
 }
 
+interface ProductionRecord extends ProductionMetrics {
+  advisor_code: string;
+  advisor_name: string;
+  unit_code: string;
+  manager_id: string;
+  previous_period?: ProductionMetrics | null;
+  same_period_last_year?: ProductionMetrics | null;
+}
+
+type CompareTo = 'previous' | 'lastYear';
+
 interface ManpowerRecord {
   code_number: string;
   advisor_name: string;
@@ -52,6 +62,7 @@ interface TeamGroup {
   totalSettled: number;
   totalAC: number;
   totalNSC: number;
+  totalFYC: number;
 }
 
 export function IndividualProductionTable({
@@ -62,6 +73,21 @@ export function IndividualProductionTable({
   periodType
 }: IndividualProductionTableProps) {
   const [collapsedTeams, setCollapsedTeams] = useState<Set<string>>(new Set());
+  const [compareTo, setCompareTo] = useState<CompareTo>('lastYear');
+
+  // Annual views have no separate previous period: it is last year
+  const activeCompareTo: CompareTo = timeFrame === 'annual' ? 'lastYear' : compareTo;
+  const compareLabel = activeCompareTo === 'previous' ? 'vs last month' : 'vs last year';
+
+  const comparisonFor = (record: ProductionRecord) =>
+    activeCompareTo === 'previous' ? record.previous_period : record.same_period_last_year;
+
+  // An advisor missing from the comparison period had no production in it
+  const comparisonValue = (record: ProductionRecord, metric: keyof ProductionMetrics) => {
+    const comparison = comparisonFor(record);
+    if (comparison === undefined) return undefined;
+    return comparison ? comparison[metric] : 0;
+  };
 
   // Enrich production data with manpower details
   const enrichedData: EnrichedProductionRecord[] = productionData.map(record => {
@@ -89,7 +115,8 @@ export function IndividualProductionTable({
         totalSubmitted: 0,
         totalSettled: 0,
         totalAC: 0,
-        totalNSC: 0
+        totalNSC: 0,
+        totalFYC: 0
       };
       groups.push(existingGroup);
     }
@@ -99,6 +126,7 @@ export function IndividualProductionTable({
     existingGroup.totalSettled += Number(record.total_settled_apps) || 0;
     existingGroup.totalAC += Number(record.total_agency_credits) || 0;
     existingGroup.totalNSC += Number(record.total_net_sales_credits) || 0;
+    existingGroup.totalFYC += Number(record.total_fy_commission_php) || 0;
 
     return groups;
   }, [] as TeamGroup[]);
@@ -133,6 +161,8 @@ export function IndividualProductionTable({
           <TableHead className="text-right">Settled Lives</TableHead>
           <TableHead className="text-right">Agency Credit</TableHead>
           <TableHead className="text-right">Net Sales Credit</TableHead>
+          <TableHead className="text-right">FY Premium</TableHead>
+          <TableHead className="text-right">FY Commission</TableHead>
         </TableRow>
       </TableHeader>
       <TableBody>
@@ -153,10 +183,48 @@ export function IndividualProductionTable({
             <TableCell>
               <Badge variant="outline">{record.advisor_code}</Badge>
             </TableCell>
-            <TableCell className="text-right">{formatNumber(record.total_submitted_apps)}</TableCell>
-            <TableCell className="text-right">{formatNumber(record.total_settled_apps)}</TableCell>
-            <TableCell className="text-right">{formatCurrency(record.total_agency_credits)}</TableCell>
-            <TableCell className="text-right">{formatCurrency(record.total_net_sales_credits)}</TableCell>
+            <TableCell className="text-right">
+              <div>{formatNumber(record.total_submitted_apps)}</div>
+              <ChangeIndicator
+                current={Number(record.total_submitted_apps) || 0}
+                previous={comparisonValue(record, 'total_submitted_apps')}
+              />
+            </TableCell>
+            <TableCell className="text-right">
+              <div>{formatNumber(record.total_settled_apps)}</div>
+              <ChangeIndicator
+                current={Number(record.total_settled_apps) || 0}
+                previous={comparisonValue(record, 'total_settled_apps')}
+              />
+            </TableCell>
+            <TableCell className="text-right">
+              <div>{formatCurrency(record.total_agency_credits)}</div>
+              <ChangeIndicator
+                current={Number(record.total_agency_credits) || 0}
+                previous={comparisonValue(record, 'total_agency_credits')}
+              />
+            </TableCell>
+            <TableCell className="text-right">
+              <div>{formatCurrency(record.total_net_sales_credits)}</div>
+              <ChangeIndicator
+                current={Number(record.total_net_sales_credits) || 0}
+                previous={comparisonValue(record, 'total_net_sales_credits')}
+              />
+            </TableCell>
+            <TableCell className="text-right">
+              <div>{formatCurrency(record.total_fy_premium_php)}</div>
+              <ChangeIndicator
+                current={Number(record.total_fy_premium_php) || 0}
+                previous={comparisonValue(record, 'total_fy_premium_php')}
+              />
+            </TableCell>
+            <TableCell className="text-right">
+              <div>{formatCurrency(record.total_fy_commission_php)}</div>
+              <ChangeIndicator
+                current={Number(record.total_fy_commission_php) || 0}
+                previous={comparisonValue(record, 'total_fy_commission_php')}
+              />
+            </TableCell>
           </TableRow>
         ))}
       </TableBody>
@@ -189,6 +257,38 @@ export function IndividualProductionTable({
 
   return (
     <div className="space-y-4">
+      {/* Comparison Period Toggle */}
+      <div className="flex items-center justify-end gap-2">
+        <span className="text-xs text-muted-foreground">Arrows show change {compareLabel}</span>
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Compare:</span>
+        <div className="flex rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+          {timeFrame === 'monthly' && (
+            <button
+              onClick={() => setCompareTo('previous')}
+              className={cn(
+                'px-3 py-1.5 text-sm font-medium transition-colors border-r border-gray-200 dark:border-gray-700',
+                activeCompareTo === 'previous'
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+              )}
+            >
+              Last Month
+            </button>
+          )}
+          <button
+            onClick={() => setCompareTo('lastYear')}
+            className={cn(
+              'px-3 py-1.5 text-sm font-medium transition-colors',
+              activeCompareTo === 'lastYear'
+                ? 'bg-blue-600 text-white'
+                : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+            )}
+          >
+            Last Year
+          </button>
+        </div>
+      </div>
+
       {/* Team Groups Data Display */}
       <div className="space-y-4">
         {teamGroups.map((group) => {
@@ -212,7 +312,7 @@ export function IndividualProductionTable({
                     </div>
                   </div>
                   <div className="flex items-center gap-3">
-                    <div className="grid grid-cols-4 gap-4 text-base font-semibold text-gray-700 dark:text-gray-300 min-w-[480px]">
+                    <div className="grid grid-cols-5 gap-4 text-base font-semibold text-gray-700 dark:text-gray-300 min-w-[608px]">
                       <div className="flex items-center gap-1 justify-center w-16">
                         <Users className="h-4 w-4" />
                         <span>{group.records.length}</span>
@@ -226,6 +326,9 @@ export function IndividualProductionTable({
                       <div className="text-right w-32">
                         ₱{Math.round(group.totalNSC).toLocaleString()} NSC
                       </div>
+                      <div className="text-right w-32">
+                        ₱{Math.round(group.totalFYC).toLocaleString()} FYC
+                      </div>
                     </div>
                   </div>
                 </div>
@@ -16,6 +16,7 @@ interface PeriodSwitcherProps {
   onPeriodTypeChange: (periodType: PeriodType) => void;
   onMonthChange: (month: number) => void;
   onYearChange: (year: number) => void;
+  years?: number[]; // Defaults to the last 3 years including the current one
 }
 
 export function PeriodSwitcher({
@@ -26,7 +27,8 @@ export function PeriodSwitcher({
   onTimeFrameChange,
   onPeriodTypeChange,
   onMonthChange,
-  onYearChange
+  onYearChange,
+  years: yearOptions
 }: PeriodSwitcherProps) {
 
   // Generate month options
@@ -45,12 +47,9 @@ export function PeriodSwitcher({
     { value: 12, label: 'December' }
   ];
 
-  // Generate year options (last 3 years including current year)
+  // Generate year options (last 3 years including current year) unless the caller passes them
   const currentYear = new Date().getFullYear();
-  const years = [];
-  for (let i = currentYear - 2; i <= currentYear; i++) {
-    years.push(i);
-  }
+  const years = yearOptions ?? [currentYear - 2, currentYear - 1, currentYear];
   return (
     <Card>
       <CardContent className="p-6">
@@ -0,0 +1,129 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+
+export interface TrendSeries {
+  label: string;
+  values: number[];
+  /** Tailwind fill class for the bars, e.g. `fill-blue-500` */
+  fillClassName: string;
+  /** Tailwind background class for the legend swatch, e.g. `bg-blue-500` */
+  swatchClassName: string;
+}
+
+interface ProductionTrendChartProps {
+  categories: string[];
+  series: TrendSeries[];
+  formatter: (value: number) => string;
+  height?: number;
+}
+
+const CHART_WIDTH = 720;
+const AXIS_WIDTH = 64;
+const LABEL_HEIGHT = 20;
+const GRID_LINES = 4;
+
+/**
+ * Grouped bar chart drawn as plain SVG: one group per category, one bar per
+ * series. Hovering a bar shows its exact value.
+ */
+export function ProductionTrendChart({
+  categories,
+  series,
+  formatter,
+  height = 260
+}: ProductionTrendChartProps) {
+  const plotHeight = height - LABEL_HEIGHT;
+  const plotWidth = CHART_WIDTH - AXIS_WIDTH;
+  const maxValue = Math.max(0, ...series.flatMap(s => s.values));
+  const scaleMax = maxValue > 0 ? maxValue : 1;
+
+  const groupWidth = plotWidth / Math.max(categories.length, 1);
+  const barGap = 2;
+  const groupPadding = groupWidth * 0.15;
+  const barWidth = Math.max(
+    (groupWidth - groupPadding * 2 - barGap * (series.length - 1)) / Math.max(series.length, 1),
+    1
+  );
+
+  return (
+    <div className="space-y-3">
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${height}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label={`Bar chart of ${series.map(s => s.label).join(', ')}`}
+      >
+        {/* Grid lines and axis labels */}
+        {Array.from({ length: GRID_LINES + 1 }, (_, i) => {
+          const value = (scaleMax / GRID_LINES) * i;
+          const y = plotHeight - (value / scaleMax) * plotHeight;
+          return (
+            <g key={i}>
+              <line
+                x1={AXIS_WIDTH}
+                x2={CHART_WIDTH}
+                y1={y}
+                y2={y}
+                className="stroke-gray-200 dark:stroke-gray-700"
+                strokeWidth={1}
+              />
+              <text
+                x={AXIS_WIDTH - 6}
+                y={y + 4}
+                textAnchor="end"
+                className="fill-gray-500 dark:fill-gray-400 text-[10px]"
+              >
+                {maxValue > 0 ? formatter(value) : ''}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Bars */}
+        {categories.map((category, categoryIndex) => {
+          const groupX = AXIS_WIDTH + categoryIndex * groupWidth;
+          return (
+            <g key={category}>
+              {series.map((s, seriesIndex) => {
+                const value = s.values[categoryIndex] ?? 0;
+                const barHeight = (value / scaleMax) * plotHeight;
+                return (
+                  <rect
+                    key={s.label}
+                    x={groupX + groupPadding + seriesIndex * (barWidth + barGap)}
+                    y={plotHeight - barHeight}
+                    width={barWidth}
+                    height={barHeight}
+                    rx={1}
+                    className={s.fillClassName}
+                  >
+                    <title>{`${s.label} ${category}: ${formatter(value)}`}</title>
+                  </rect>
+                );
+              })}
+              <text
+                x={groupX + groupWidth / 2}
+                y={height - 4}
+                textAnchor="middle"
+                className="fill-gray-500 dark:fill-gray-400 text-[10px]"
+              >
+                {category}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center justify-center gap-4">
+        {series.map(s => (
+          <div key={s.label} className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+            <span className={cn('h-3 w-3 rounded-sm', s.swatchClassName)} />
+            {s.label}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,27 @@
 'use client';
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { FileText, UserCheck, DollarSign, TrendingUp } from 'lucide-react';
+import { FileText, UserCheck, DollarSign, TrendingUp, Wallet, Banknote } from 'lucide-react';
 import { formatCurrency, formatNumber } from '@/lib/utils';
+import { ChangeIndicator } from './change-indicator';
 
 export interface TeamProductionTotals {
   totalSubmittedApps: number;
   totalLives: number; // total_settled_apps
   totalAC: number; // total_agency_credits
   totalNSC: number; // total_net_sales_credits
+  totalFYPremium: number; // total_fy_premium_php
+  totalFYC: number; // total_fy_commission_php
+}
+
+export interface ComparisonPeriod {
+  label: string; // e.g. "Sep 2025" or "2024"
+  totals: TeamProductionTotals;
+}
+
+export interface TeamProductionComparison {
+  previousPeriod: ComparisonPeriod | null; // null for annual, where it is the same as last year
+  samePeriodLastYear: ComparisonPeriod | null;
 }
 
 interface ProductionMetricCardProps {
@@ -17,6 +30,7 @@ interface ProductionMetricCardProps {
   icon: React.ReactNode;
   description: string;
   formatter?: (value: number) => string;
+  comparisons?: { label: string; value: number }[];
   isLoading?: boolean;
 }
 
@@ -26,6 +40,7 @@ function ProductionMetricCard({
   icon,
   description,
   formatter = formatNumber,
+  comparisons = [],
   isLoading = false
 }: ProductionMetricCardProps) {
   return (
@@ -44,6 +59,18 @@ function ProductionMetricCard({
           <>
             <div className="text-2xl font-bold">{formatter(value)}</div>
             <p className="text-xs text-muted-foreground">{description}</p>
+            {comparisons.length > 0 && (
+              <div className="mt-3 space-y-1 border-t pt-2">
+                {comparisons.map((comparison) => (
+                  <div key={comparison.label} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="text-muted-foreground">
+                      {comparison.label}: {formatter(comparison.value)}
+                    </span>
+                    <ChangeIndicator current={value} previous={comparison.value} />
+                  </div>
+                ))}
+              </div>
+            )}
           </>
         )}
       </CardContent>
@@ -53,6 +80,7 @@ function ProductionMetricCard({
 
 interface TeamProductionCardsProps {
   data: TeamProductionTotals | null;
+  comparison?: TeamProductionComparison | null;
   timeFrame: 'monthly' | 'annual';
   periodType: 'calendar' | 'systems';
   isLoading?: boolean;
@@ -60,6 +88,7 @@ interface TeamProductionCardsProps {
 
 export function TeamProductionCards({
   data,
+  comparison,
   timeFrame,
   periodType,
   isLoading = false
@@ -68,17 +97,27 @@ export function TeamProductionCards({
     totalSubmittedApps: 0,
     totalLives: 0,
     totalAC: 0,
-    totalNSC: 0
+    totalNSC: 0,
+    totalFYPremium: 0,
+    totalFYC: 0
   };
 
+  const comparisonPeriods = [comparison?.previousPeriod, comparison?.samePeriodLastYear]
+    .filter((period): period is ComparisonPeriod => !!period);
+
+  // Comparison values for one metric, in display order
+  const comparisonsFor = (metric: keyof TeamProductionTotals) =>
+    comparisonPeriods.map(period => ({ label: period.label, value: period.totals[metric] }));
+
   const periodLabel = `${timeFrame} (${periodType})`;
   const teamLabel = "team and subordinates";
 
   return (
-    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
       <ProductionMetricCard
         title="Total Submitted"
         value={totals.totalSubmittedApps}
+        comparisons={comparisonsFor('totalSubmittedApps')}
         icon={<FileText className="h-4 w-4 text-blue-500" />}
         description={`Submitted apps for ${teamLabel} - ${periodLabel}`}
         isLoading={isLoading}
@@ -87,6 +126,7 @@ export function TeamProductionCards({
       <ProductionMetricCard
         title="Total Lives"
         value={totals.totalLives}
+        comparisons={comparisonsFor('totalLives')}
         icon={<UserCheck className="h-4 w-4 text-green-500" />}
         description={`Settled apps for ${teamLabel} - ${periodLabel}`}
         isLoading={isLoading}
@@ -95,6 +135,7 @@ export function TeamProductionCards({
       <ProductionMetricCard
         title="Total AC"
         value={totals.totalAC}
+        comparisons={comparisonsFor('totalAC')}
         icon={<DollarSign className="h-4 w-4 text-purple-500" />}
         description={`Agency credits for ${teamLabel} - ${periodLabel}`}
         formatter={formatCurrency}
@@ -104,11 +145,32 @@ export function TeamProductionCards({
       <ProductionMetricCard
         title="Total NSC"
         value={totals.totalNSC}
+        comparisons={comparisonsFor('totalNSC')}
         icon={<TrendingUp className="h-4 w-4 text-orange-500" />}
         description={`Net sales credits for ${teamLabel} - ${periodLabel}`}
         formatter={formatCurrency}
         isLoading={isLoading}
       />
+
+      <ProductionMetricCard
+        title="Total FY Premium"
+        value={totals.totalFYPremium}
+        comparisons={comparisonsFor('totalFYPremium')}
+        icon={<Wallet className="h-4 w-4 text-sky-500" />}
+        description={`First-year premium for ${teamLabel} - ${periodLabel}`}
+        formatter={formatCurrency}
+        isLoading={isLoading}
+      />
+
+      <ProductionMetricCard
+        title="Total FYC"
+        value={totals.totalFYC}
+        comparisons={comparisonsFor('totalFYC')}
+        icon={<Banknote className="h-4 w-4 text-emerald-500" />}
+        description={`First-year commission for ${teamLabel} - ${periodLabel}`}
+        formatter={formatCurrency}
+        isLoading={isLoading}
+      />
     </div>
   );
 }
\ No newline at end of file
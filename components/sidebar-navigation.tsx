@@ -4,6 +4,7 @@ import { useState, useMemo, memo } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import {
+  Activity,
   BarChart3,
   Users,
   FileText,
@@ -12,6 +13,7 @@ import {
   GraduationCap,
   GitBranch,
   Calendar,
+  CalendarClock,
   Upload,
   ChevronDown,
   ChevronRight,
@@ -80,6 +82,14 @@ export function SidebarNavigation({ className = '' }: SidebarNavigationProps) {
             label: 'Team Production',
             href: '/team-production',
           },
+          {
+            label: 'Contest Month',
+            href: '/production/contest-month',
+          },
+          {
+            label: 'Commission Statement',
+            href: '/production/commission-statement',
+          },
         ],
       },
       {
@@ -136,6 +146,14 @@ export function SidebarNavigation({ className = '' }: SidebarNavigationProps) {
         label: 'Upload',
         href: '/upload',
         icon: Upload,
+      }, {
+        label: 'Closing Periods',
+        href: '/closing-periods',
+        icon: CalendarClock,
+      }, {
+        label: 'Summary Health',
+        href: '/summary-health',
+        icon: Activity,
       });
     }
 
@@ -246,14 +264,14 @@ export function SidebarNavigation({ className = '' }: SidebarNavigationProps) {
       {/* Mobile Menu Button */}
       <button
         onClick={() => setIsMobileOpen(true)}
-        className="lg:hidden fixed top-4 left-4 z-50 p-2 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
+        className="lg:hidden print:hidden fixed top-4 left-4 z-50 p-2 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
       >
         <Menu className="w-5 h-5" />
       </button>
 
       {/* Sidebar */}
       <div className={cn(
-        "fixed left-0 top-0 z-40 h-screen bg-white dark:bg-gray-900 border-r border-gray-200 dark:border-gray-700 transition-all duration-300 ease-in-out shadow-lg lg:shadow-none",
+        "fixed left-0 top-0 z-40 h-screen bg-white dark:bg-gray-900 border-r border-gray-200 dark:border-gray-700 transition-all duration-300 ease-in-out shadow-lg lg:shadow-none print:hidden",
         // Desktop behavior
         "hidden lg:block",
         isCollapsed ? "lg:w-16" : "lg:w-64",
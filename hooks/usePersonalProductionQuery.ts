@@ -0,0 +1,214 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { createClient } from '@/lib/supabase/client';
+
+type PeriodType = 'calendar' | 'systems';
+
+interface UsePersonalProductionQueryOptions {
+  periodType: PeriodType;
+  startYear: number;
+  endYear: number;
+  enabled?: boolean;
+}
+
+export interface PersonalAdvisor {
+  code_number: string;
+  advisor_name: string;
+}
+
+/** One row of get_monthly_production_data for the advisor */
+export interface PersonalMonthlyProduction {
+  period_year: number;
+  period_month: number;
+  period_type: PeriodType;
+  period_start: string;
+  period_end: string;
+  total_submitted_apps: number;
+  total_settled_apps: number;
+  total_agency_credits: number;
+  total_net_sales_credits: number;
+  total_rn_commission_php: number;
+  total_fy_premium_php: number;
+  total_fy_commission_php: number;
+}
+
+/** One row of get_annual_production_data for the advisor */
+export interface PersonalAnnualProduction {
+  period_year: number;
+  period_type: PeriodType;
+  total_submitted_apps: number;
+  total_settled_apps: number;
+  total_agency_credits: number;
+  total_net_sales_credits: number;
+  total_rn_commission_php: number;
+  total_fy_premium_php: number;
+  total_fy_commission_php: number;
+  months_with_activity: number;
+  avg_monthly_submitted_apps: number;
+  avg_monthly_settled_apps: number;
+  avg_monthly_agency_credits: number;
+  avg_monthly_net_sales_credits: number;
+  avg_monthly_rn_commission_php: number;
+  avg_monthly_fy_premium_php: number;
+  avg_monthly_fy_commission_php: number;
+  peak_month_submitted_apps: number;
+  peak_month_settled_apps: number;
+  peak_month_agency_credits: number;
+  peak_month_net_sales_credits: number;
+  peak_month_rn_commission_php: number;
+  peak_month_fy_premium_php: number;
+  peak_month_fy_commission_php: number;
+}
+
+interface UsePersonalProductionQueryResult {
+  advisor: PersonalAdvisor | null;
+  monthlyData: PersonalMonthlyProduction[];
+  annualData: PersonalAnnualProduction[];
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+}
+
+// Summary columns come back from Postgres as numeric strings
+const toNumber = (value: unknown) => Number(value) || 0;
+
+/**
+ * Fetches the logged-in advisor's monthly and annual production for a span of
+ * years, scoped to the manpower record linked to their profile
+ */
+export function usePersonalProductionQuery(
+  options: UsePersonalProductionQueryOptions
+): UsePersonalProductionQueryResult {
+  const {
+    periodType,
+    startYear,
+    endYear,
+    enabled = true
+  } = options;
+
+  const [advisor, setAdvisor] = useState<PersonalAdvisor | null>(null);
+  const [monthlyData, setMonthlyData] = useState<PersonalMonthlyProduction[]>([]);
+  const [annualData, setAnnualData] = useState<PersonalAnnualProduction[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const supabase = createClient();
+
+  const fetchPersonalProduction = useCallback(async () => {
+    if (!enabled) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      // Get user's advisor code by finding their manpower record linked to their profile
+      const { data: manpowerRecord, error: manpowerError } = await supabase
+        .from('manpower')
+        .select('code_number, advisor_name')
+        .eq('profile_user_id', user.id)
+        .single();
+
+      if (manpowerError) {
+        if (manpowerError.code === 'PGRST116') {
+          throw new Error('Your user account is not linked to any advisor record. Please contact your administrator to link your account.');
+        }
+        throw new Error('Failed to get user manpower record: ' + manpowerError.message);
+      }
+
+      const rpcParams = {
+        p_start_year: startYear,
+        p_end_year: endYear,
+        p_period_type: periodType,
+        p_advisor_codes: [manpowerRecord.code_number]
+      };
+
+      const [monthlyResult, annualResult] = await Promise.all([
+        supabase.rpc('get_monthly_production_data', rpcParams),
+        supabase.rpc('get_annual_production_data', rpcParams)
+      ]);
+
+      if (monthlyResult.error) {
+        throw new Error(`Failed to fetch monthly production data: ${monthlyResult.error.message}`);
+      }
+      if (annualResult.error) {
+        throw new Error(`Failed to fetch annual production data: ${annualResult.error.message}`);
+      }
+
+      setAdvisor(manpowerRecord as PersonalAdvisor);
+      setMonthlyData(
+        (monthlyResult.data || []).map((row: Record<string, unknown>) => ({
+          period_year: toNumber(row.period_year),
+          period_month: toNumber(row.period_month),
+          period_type: row.period_type as PeriodType,
+          period_start: row.period_start as string,
+          period_end: row.period_end as string,
+          total_submitted_apps: toNumber(row.total_submitted_apps),
+          total_settled_apps: toNumber(row.total_settled_apps),
+          total_agency_credits: toNumber(row.total_agency_credits),
+          total_net_sales_credits: toNumber(row.total_net_sales_credits),
+          total_rn_commission_php: toNumber(row.total_rn_commission_php),
+          total_fy_premium_php: toNumber(row.total_fy_premium_php),
+          total_fy_commission_php: toNumber(row.total_fy_commission_php)
+        }))
+      );
+      setAnnualData(
+        (annualResult.data || []).map((row: Record<string, unknown>) => ({
+          period_year: toNumber(row.period_year),
+          period_type: row.period_type as PeriodType,
+          total_submitted_apps: toNumber(row.total_submitted_apps),
+          total_settled_apps: toNumber(row.total_settled_apps),
+          total_agency_credits: toNumber(row.total_agency_credits),
+          total_net_sales_credits: toNumber(row.total_net_sales_credits),
+          total_rn_commission_php: toNumber(row.total_rn_commission_php),
+          total_fy_premium_php: toNumber(row.total_fy_premium_php),
+          total_fy_commission_php: toNumber(row.total_fy_commission_php),
+          months_with_activity: toNumber(row.months_with_activity),
+          avg_monthly_submitted_apps: toNumber(row.avg_monthly_submitted_apps),
+          avg_monthly_settled_apps: toNumber(row.avg_monthly_settled_apps),
+          avg_monthly_agency_credits: toNumber(row.avg_monthly_agency_credits),
+          avg_monthly_net_sales_credits: toNumber(row.avg_monthly_net_sales_credits),
+          avg_monthly_rn_commission_php: toNumber(row.avg_monthly_rn_commission_php),
+          avg_monthly_fy_premium_php: toNumber(row.avg_monthly_fy_premium_php),
+          avg_monthly_fy_commission_php: toNumber(row.avg_monthly_fy_commission_php),
+          peak_month_submitted_apps: toNumber(row.peak_month_submitted_apps),
+          peak_month_settled_apps: toNumber(row.peak_month_settled_apps),
+          peak_month_agency_credits: toNumber(row.peak_month_agency_credits),
+          peak_month_net_sales_credits: toNumber(row.peak_month_net_sales_credits),
+          peak_month_rn_commission_php: toNumber(row.peak_month_rn_commission_php),
+          peak_month_fy_premium_php: toNumber(row.peak_month_fy_premium_php),
+          peak_month_fy_commission_php: toNumber(row.peak_month_fy_commission_php)
+        }))
+      );
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Failed to fetch personal production data');
+      setError(error);
+      setMonthlyData([]);
+      setAnnualData([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [enabled, periodType, startYear, endYear, supabase]);
+
+  const refetch = useCallback(async () => {
+    await fetchPersonalProduction();
+  }, [fetchPersonalProduction]);
+
+  useEffect(() => {
+    fetchPersonalProduction();
+  }, [fetchPersonalProduction]);
+
+  return {
+    advisor,
+    monthlyData,
+    annualData,
+    isLoading,
+    error,
+    refetch
+  };
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { createClient } from '@/lib/supabase/client';
+
+/** The last three years, used until the summary years have loaded */
+function defaultYears(): number[] {
+  const currentYear = new Date().getFullYear();
+  return [currentYear - 2, currentYear - 1, currentYear];
+}
+
+/**
+ * Every year with production summaries, live or archived, oldest first.
+ * The current year is always included.
+ */
+export function useProductionYears(): number[] {
+  const [years, setYears] = useState<number[]>(defaultYears);
+
+  useEffect(() => {
+    const supabase = createClient();
+    let cancelled = false;
+
+    supabase.rpc('get_production_summary_years').then(({ data, error }) => {
+      if (cancelled) return;
+
+      if (error) {
+        console.error('Error fetching production years:', error);
+        return;
+      }
+
+      const currentYear = new Date().getFullYear();
+      const summaryYears = (data || []).map((row: { period_year: number }) => Number(row.period_year));
+      setYears(Array.from(new Set([...summaryYears, currentYear])).sort((a, b) => a - b));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return years;
+}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { createClient } from '@/lib/supabase/client';
-import { TeamProductionTotals } from '@/components/production/team-production-cards';
+import { TeamProductionComparison, TeamProductionTotals } from '@/components/production/team-production-cards';
 
 type PeriodType = 'calendar' | 'systems';
 type TimeFrame = 'monthly' | 'annual';
@@ -15,26 +15,81 @@ interface UseTeamProductionQueryOptions {
   enabled?: boolean;
 }
 
-interface ProductionRecord {
-  advisor_code: string;
-  advisor_name: string;
-  unit_code: string;
-  manager_id: string;
+export interface ProductionMetrics {
   total_submitted_apps: number;
   total_settled_apps: number;
   total_agency_credits: number;
   total_net_sales_credits: number;
+  total_fy_premium_php: number;
+  total_fy_commission_php: number;
+}
+
+interface ProductionRecord extends ProductionMetrics {
+  advisor_code: string;
+  advisor_name: string;
+  unit_code: string;
+  manager_id: string;
   team_name?: string;
+  // The advisor's production in the comparison periods (null when they had none)
+  previous_period?: ProductionMetrics | null;
+  same_period_last_year?: ProductionMetrics | null;
+}
+
+// A row of get_team_production_data
+interface TeamProductionRow extends ProductionRecord {
+  total_count: number;
 }
 
 interface UseTeamProductionQueryResult {
   data: ProductionRecord[] | null;
   aggregatedTotals: TeamProductionTotals | null;
+  comparison: TeamProductionComparison | null;
   isLoading: boolean;
   error: Error | null;
   refetch: () => Promise<void>;
 }
 
+// Rows requested per get_team_production_data call
+const TEAM_PRODUCTION_PAGE_SIZE = 1000;
+
+const toMetrics = (record: ProductionMetrics): ProductionMetrics => ({
+  total_submitted_apps: Number(record.total_submitted_apps) || 0,
+  total_settled_apps: Number(record.total_settled_apps) || 0,
+  total_agency_credits: Number(record.total_agency_credits) || 0,
+  total_net_sales_credits: Number(record.total_net_sales_credits) || 0,
+  total_fy_premium_php: Number(record.total_fy_premium_php) || 0,
+  total_fy_commission_php: Number(record.total_fy_commission_php) || 0
+});
+
+// Calculate aggregated totals
+const sumTotals = (records: ProductionMetrics[]): TeamProductionTotals =>
+  records.reduce(
+    (acc: TeamProductionTotals, record: ProductionMetrics) => {
+      return {
+        totalSubmittedApps: acc.totalSubmittedApps + (Number(record.total_submitted_apps) || 0),
+        totalLives: acc.totalLives + (Number(record.total_settled_apps) || 0),
+        totalAC: acc.totalAC + (Number(record.total_agency_credits) || 0),
+        totalNSC: acc.totalNSC + (Number(record.total_net_sales_credits) || 0),
+        totalFYPremium: acc.totalFYPremium + (Number(record.total_fy_premium_php) || 0),
+        totalFYC: acc.totalFYC + (Number(record.total_fy_commission_php) || 0),
+      };
+    },
+    {
+      totalSubmittedApps: 0,
+      totalLives: 0,
+      totalAC: 0,
+      totalNSC: 0,
+      totalFYPremium: 0,
+      totalFYC: 0,
+    }
+  );
+
+// "Sep 2025" for a month, "2025" for a year
+const formatPeriodLabel = (periodYear: number, periodMonth?: number) =>
+  periodMonth
+    ? new Date(periodYear, periodMonth - 1, 1).toLocaleString('en-US', { month: 'short', year: 'numeric' })
+    : periodYear.toString();
+
 export function useTeamProductionQuery(
   options: UseTeamProductionQueryOptions
 ): UseTeamProductionQueryResult {
@@ -48,6 +103,7 @@ export function useTeamProductionQuery(
 
   const [data, setData] = useState<ProductionRecord[] | null>(null);
   const [aggregatedTotals, setAggregatedTotals] = useState<TeamProductionTotals | null>(null);
+  const [comparison, setComparison] = useState<TeamProductionComparison | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<Error | null>(null);
 
@@ -60,154 +116,88 @@ export function useTeamProductionQuery(
     setError(null);
 
     try {
-      // Determine which table to query
-      const tableName = timeFrame === 'monthly'
-        ? 'monthly_production_summary'
-        : 'annual_production_summary';
-
-      // Build query based on timeframe
-      let query = supabase
-        .from(tableName)
-        .select(`
-          advisor_code,
-          advisor_name,
-          unit_code,
-          manager_id,
-          total_submitted_apps,
-          total_settled_apps,
-          total_agency_credits,
-          total_net_sales_credits
-        `)
-        .eq('period_type', periodType)
-        .eq('period_year', year);
-
-      // Add month filter for monthly queries
-      if (timeFrame === 'monthly' && month) {
-        query = query.eq('period_month', month);
-      }
-
-      const { data: productionData, error: fetchError } = await query;
-
-      if (fetchError) {
-        throw new Error(`Failed to fetch ${timeFrame} production data: ${fetchError.message}`);
-      }
-
-      // Get current user's context to determine which records to include
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        throw new Error('User not authenticated');
-      }
-
-      // Get user's advisor code by finding their manpower record linked to their profile
-      const { data: manpowerRecord, error: manpowerError } = await supabase
-        .from('manpower')
-        .select('code_number')
-        .eq('profile_user_id', user.id)
-        .single();
-
-      if (manpowerError) {
-        // If no manpower record is linked to this user, provide a helpful message
-        if (manpowerError.code === 'PGRST116') {
-          throw new Error('Your user account is not linked to any advisor record. Please contact your administrator to link your account.');
+      // Fetch one period's rows for the caller's team subtree, a page at a time
+      // (month is ignored for annual queries)
+      const fetchPeriod = async (periodYear: number, periodMonth?: number) => {
+        const rows: TeamProductionRow[] = [];
+
+        for (let offset = 0; ; offset += TEAM_PRODUCTION_PAGE_SIZE) {
+          const { data: pageData, error: fetchError } = await supabase.rpc('get_team_production_data', {
+            p_time_frame: timeFrame,
+            p_period_type: periodType,
+            p_year: periodYear,
+            p_month: timeFrame === 'monthly' ? periodMonth ?? null : null,
+            p_limit: TEAM_PRODUCTION_PAGE_SIZE,
+            p_offset: offset
+          });
+
+          if (fetchError) {
+            // The RPC raises P0002 when the user has no linked manpower record
+            if (fetchError.code === 'P0002') {
+              throw new Error(fetchError.message);
+            }
+            throw new Error(`Failed to fetch ${timeFrame} production data: ${fetchError.message}`);
+          }
+
+          const page = (pageData || []) as TeamProductionRow[];
+          rows.push(...page);
+
+          const totalCount = page.length > 0 ? Number(page[0].total_count) : 0;
+          if (page.length < TEAM_PRODUCTION_PAGE_SIZE || rows.length >= totalCount) {
+            break;
+          }
         }
-        throw new Error('Failed to get user manpower record: ' + manpowerError.message);
-      }
-
-      // Get manpower hierarchy to determine reporting relationships
-      const { data: manpowerData, error: hierarchyError } = await supabase
-        .from('manpower')
-        .select(`
-          code_number,
-          advisor_name,
-          manager_id,
-          status
-        `)
-        .eq('status', 'active');
-
-      if (hierarchyError) {
-        throw new Error('Failed to get manpower data');
-      }
-
-      // Build team hierarchy for current user
-      const userAdvisorCode = manpowerRecord?.code_number;
-      if (!userAdvisorCode) {
-        throw new Error('User advisor code not found');
-      }
-
-      // Define interface for manpower data
-      interface ManpowerRecord {
-        code_number: string;
-        advisor_name: string;
-        manager_id: string;
-        status: string;
-      }
-
-      // Find all advisors who report to the current user (direct and indirect)
-      const findSubordinates = (managerCode: string, allManpower: ManpowerRecord[]): string[] => {
-        const directReports = allManpower
-          .filter((emp: ManpowerRecord) => emp.manager_id === managerCode)
-          .map((emp: ManpowerRecord) => emp.code_number);
-
-        const indirectReports = directReports.flatMap((reportCode: string) =>
-          findSubordinates(reportCode, allManpower)
-        );
-
-        return [...directReports, ...indirectReports];
-      };
-
-      const teamMemberCodes = [
-        userAdvisorCode, // Include the manager themselves
-        ...findSubordinates(userAdvisorCode, manpowerData as ManpowerRecord[] || [])
-      ];
-
-      // Filter production data to include only team members
-      const filteredData = (productionData || []).filter((record: ProductionRecord) =>
-        teamMemberCodes.includes(record.advisor_code)
-      );
 
-      // Fetch team names from teams table to enrich the data
-      const { data: teamsData, error: teamsError } = await supabase
-        .from('teams')
-        .select('unit_code, unit_name');
-
-      if (teamsError) {
-        console.warn('Could not fetch teams data:', teamsError.message);
-      }
+        return rows;
+      };
 
-      // Enrich filtered data with team names
-      const enrichedData = filteredData.map((record: ProductionRecord) => {
-        const teamRecord = teamsData?.find(team => team.unit_code === record.unit_code);
+      // Comparison periods: the previous month (monthly only) and the same period last year
+      const isMonthly = timeFrame === 'monthly' && !!month;
+      const previousMonth = isMonthly
+        ? (month === 1 ? { year: year - 1, month: 12 } : { year, month: month - 1 })
+        : null;
+
+      const [productionData, previousPeriodData, lastYearData] = await Promise.all([
+        fetchPeriod(year, month),
+        previousMonth ? fetchPeriod(previousMonth.year, previousMonth.month) : Promise.resolve(null),
+        fetchPeriod(year - 1, month)
+      ]);
+
+      const metricsByAdvisor = (records: ProductionRecord[]) =>
+        new Map(records.map(record => [record.advisor_code, toMetrics(record)]));
+      const previousByAdvisor = previousPeriodData ? metricsByAdvisor(previousPeriodData) : null;
+      const lastYearByAdvisor = metricsByAdvisor(lastYearData);
+
+      // Fall back to the unit code for team names and attach each advisor's comparison periods
+      const enrichedData: ProductionRecord[] = productionData.map((record: ProductionRecord) => {
         return {
           ...record,
-          team_name: teamRecord?.unit_name || record.unit_code || 'Unassigned Team'
+          team_name: record.team_name || record.unit_code || 'Unassigned Team',
+          previous_period: previousByAdvisor ? previousByAdvisor.get(record.advisor_code) ?? null : undefined,
+          same_period_last_year: lastYearByAdvisor.get(record.advisor_code) ?? null
         };
       });
 
-      // Calculate aggregated totals
-      const totals: TeamProductionTotals = enrichedData.reduce(
-        (acc: TeamProductionTotals, record: ProductionRecord) => {
-          return {
-            totalSubmittedApps: acc.totalSubmittedApps + (Number(record.total_submitted_apps) || 0),
-            totalLives: acc.totalLives + (Number(record.total_settled_apps) || 0),
-            totalAC: acc.totalAC + (Number(record.total_agency_credits) || 0),
-            totalNSC: acc.totalNSC + (Number(record.total_net_sales_credits) || 0),
-          };
-        },
-        {
-          totalSubmittedApps: 0,
-          totalLives: 0,
-          totalAC: 0,
-          totalNSC: 0,
-        }
-      );
-
       setData(enrichedData);
-      setAggregatedTotals(totals);
+      setAggregatedTotals(sumTotals(enrichedData));
+      setComparison({
+        previousPeriod: previousMonth && previousPeriodData
+          ? {
+              label: formatPeriodLabel(previousMonth.year, previousMonth.month),
+              totals: sumTotals(previousPeriodData)
+            }
+          : null,
+        samePeriodLastYear: {
+          label: formatPeriodLabel(year - 1, isMonthly ? month : undefined),
+          totals: sumTotals(lastYearData)
+        }
+      });
     } catch (err) {
       const error = err instanceof Error ? err : new Error('Failed to fetch team production data');
       setError(error);
       setData(null);
       setAggregatedTotals(null);
+      setComparison(null);
     } finally {
       setIsLoading(false);
     }
@@ -224,6 +214,7 @@ export function useTeamProductionQuery(
   return {
     data,
     aggregatedTotals,
+    comparison,
     isLoading,
     error,
     refetch
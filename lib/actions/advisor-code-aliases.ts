@@ -0,0 +1,158 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { checkAdminAccess } from '@/lib/auth';
+import { AdvisorCodeAlias } from '@/lib/types/database';
+import { normalizeAdvisorCode } from '@/lib/upload/parse';
+import { ActionResult } from './manpower';
+
+/**
+ * Get the alias codes of a manpower record
+ */
+export async function getAdvisorCodeAliases(codeNumber: string): Promise<{
+  success: boolean;
+  data?: AdvisorCodeAlias[];
+  message: string;
+}> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { data, error } = await supabase
+      .from('advisor_code_aliases')
+      .select('*')
+      .eq('code_number', codeNumber)
+      .order('alias_code');
+
+    if (error) {
+      console.error('Error fetching advisor code aliases:', error);
+      return { success: false, message: 'Failed to fetch advisor code aliases' };
+    }
+
+    return { success: true, data: data || [], message: 'Advisor code aliases fetched successfully' };
+  } catch (error) {
+    console.error('Unexpected error fetching advisor code aliases:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+}
+
+/**
+ * Add an alias code to a manpower record. Uploads store the alias under the
+ * manpower code, and production already saved under it rolls up to the advisor.
+ */
+export async function addAdvisorCodeAlias(
+  codeNumber: string,
+  aliasCode: string,
+  note?: string
+): Promise<ActionResult> {
+  const { isAdmin, userId } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  if (!aliasCode.trim()) {
+    return { success: false, message: 'Alias code is required' };
+  }
+
+  // Uploaded codes are normalized the same way before they are matched
+  const alias = normalizeAdvisorCode(aliasCode);
+
+  if (alias === codeNumber) {
+    return { success: false, message: 'An alias cannot be the advisor\'s own code' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { data: existing } = await supabase
+      .from('advisor_code_aliases')
+      .select('code_number')
+      .eq('alias_code', alias)
+      .maybeSingle();
+
+    if (existing) {
+      return {
+        success: false,
+        message: `${alias} is already an alias of ${existing.code_number}`
+      };
+    }
+
+    const { error } = await supabase
+      .from('advisor_code_aliases')
+      .insert({
+        alias_code: alias,
+        code_number: codeNumber,
+        note: note?.trim() || undefined,
+        created_by: userId ?? undefined
+      });
+
+    if (error) {
+      console.error('Error adding advisor code alias:', error);
+      return {
+        success: false,
+        message: 'Failed to add alias',
+        error: error.message
+      };
+    }
+
+    revalidatePath('/manpower');
+    revalidatePath('/admin/manpower');
+    revalidatePath('/production');
+    return { success: true, message: `${alias} now resolves to ${codeNumber}` };
+  } catch (error) {
+    console.error('Unexpected error adding advisor code alias:', error);
+    return {
+      success: false,
+      message: 'An unexpected error occurred',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Remove an alias code. Production saved under it no longer counts for the advisor.
+ */
+export async function deleteAdvisorCodeAlias(aliasCode: string): Promise<ActionResult> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { error } = await supabase
+      .from('advisor_code_aliases')
+      .delete()
+      .eq('alias_code', aliasCode);
+
+    if (error) {
+      console.error('Error deleting advisor code alias:', error);
+      return {
+        success: false,
+        message: 'Failed to remove alias',
+        error: error.message
+      };
+    }
+
+    revalidatePath('/manpower');
+    revalidatePath('/admin/manpower');
+    revalidatePath('/production');
+    return { success: true, message: `${aliasCode} removed` };
+  } catch (error) {
+    console.error('Unexpected error deleting advisor code alias:', error);
+    return {
+      success: false,
+      message: 'An unexpected error occurred',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
@@ -0,0 +1,428 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { checkAdminAccess } from '@/lib/auth';
+import {
+  APP_ROLES,
+  BonusEligibility,
+  BonusMetric,
+  BonusProgram,
+  BonusQualifiers,
+  BonusRuleSet,
+  BonusTier,
+  BonusWindow
+} from '@/lib/types/database';
+import { BONUS_METRIC_LABELS, BONUS_PROGRAM_PATHS, PROGRAM_METRICS } from '@/lib/bonus/metrics';
+import { ActionResult } from './manpower';
+
+export interface BonusRuleSetInput {
+  program: BonusProgram;
+  plan_year: number;
+  metric: BonusMetric;
+  period_type: 'calendar' | 'systems';
+  tiers: BonusTier[];
+  qualifiers: BonusQualifiers;
+  class_rates?: Record<string, number[]>;
+  windows?: BonusWindow[];
+  payout_metric?: BonusMetric | null;
+  eligibility?: BonusEligibility;
+  description?: string;
+}
+
+export interface AdvisorPersistencyInput {
+  advisor_code: string;
+  as_of_date: string;
+  persistency_rate: number; // 0-1
+}
+
+// Programs whose tier rate may be paid on a different metric than they qualify on
+const PAYOUT_METRIC_PROGRAMS: BonusProgram[] = ['plan_b', 'eamb'];
+
+const isFraction = (value: number) => Number.isFinite(value) && value > 0 && value <= 1;
+
+/**
+ * Check override rates: at least one class, each with at least one
+ * generation, every rate between 0% and 100%. Trailing zero generations are
+ * dropped since they pay nothing.
+ */
+function validateClassRates(
+  classRates: Record<string, number[]> | undefined
+): { data?: Record<string, number[]>; error?: string } {
+  const cleaned: Record<string, number[]> = {};
+
+  for (const [managerClass, rates] of Object.entries(classRates ?? {})) {
+    const key = managerClass.trim().toUpperCase();
+    if (!key) continue;
+
+    if (rates.some(rate => !Number.isFinite(rate) || rate < 0 || rate > 1)) {
+      return { error: `${key} override rates must be between 0% and 100%` };
+    }
+
+    const lastPaid = rates.reduce((last, rate, index) => (rate > 0 ? index : last), -1);
+    if (lastPaid >= 0) {
+      cleaned[key] = rates.slice(0, lastPaid + 1);
+    }
+  }
+
+  if (Object.keys(cleaned).length === 0) {
+    return { error: 'Set an override rate for at least one manager class' };
+  }
+
+  return { data: cleaned };
+}
+
+/**
+ * Check Plan B windows: uniquely labelled, within the year, not overlapping,
+ * with a payout delay of at most a year. Returned in calendar order.
+ */
+function validateWindows(windows: BonusWindow[] | undefined): { data?: BonusWindow[]; error?: string } {
+  const sorted = [...(windows ?? [])]
+    .map(window => ({ ...window, label: window.label.trim() }))
+    .sort((a, b) => a.start_month - b.start_month);
+
+  if (sorted.length === 0) {
+    return { error: 'At least one eligibility window is required' };
+  }
+
+  for (const [index, window] of sorted.entries()) {
+    if (!window.label) {
+      return { error: 'Every window needs a label' };
+    }
+
+    // Labels key each window's snapshot, so they must tell windows apart
+    if (sorted.some((other, otherIndex) => otherIndex < index && other.label === window.label)) {
+      return { error: `Two windows cannot share the label ${window.label}` };
+    }
+
+    const months = [window.start_month, window.end_month];
+    if (months.some(month => !Number.isInteger(month) || month < 1 || month > 12) || window.end_month < window.start_month) {
+      return { error: `${window.label} must start and end within the year, in order` };
+    }
+
+    if (!Number.isInteger(window.payout_after_months) || window.payout_after_months < 0 || window.payout_after_months > 12) {
+      return { error: `${window.label} payout must be 0 to 12 months after the window` };
+    }
+
+    if (index > 0 && window.start_month <= sorted[index - 1].end_month) {
+      return { error: `${window.label} overlaps ${sorted[index - 1].label}` };
+    }
+  }
+
+  return {
+    data: sorted.map(window => ({
+      label: window.label,
+      start_month: window.start_month,
+      end_month: window.end_month,
+      payout_after_months: window.payout_after_months
+    }))
+  };
+}
+
+/**
+ * Check eligibility: classes upper-cased without duplicates, known app roles,
+ * tenure bounds whole months with the minimum not above the maximum
+ */
+function validateEligibility(eligibility: BonusEligibility | undefined): { data?: BonusEligibility; error?: string } {
+  const classes = Array.from(new Set(
+    (eligibility?.classes ?? []).map(advisorClass => advisorClass.trim().toUpperCase()).filter(Boolean)
+  ));
+  const appRoles = Array.from(new Set(eligibility?.app_roles ?? []));
+  const minTenure = eligibility?.min_tenure_months ?? null;
+  const maxTenure = eligibility?.max_tenure_months ?? null;
+
+  if (appRoles.some(role => !APP_ROLES.includes(role))) {
+    return { error: 'Invalid app role' };
+  }
+
+  if ([minTenure, maxTenure].some(months => months !== null && (!Number.isInteger(months) || months < 1))) {
+    return { error: 'Tenure months must be whole numbers of at least 1' };
+  }
+
+  if (minTenure !== null && maxTenure !== null && minTenure > maxTenure) {
+    return { error: 'The first eligible tenure month cannot be after the last' };
+  }
+
+  return {
+    data: {
+      ...(classes.length > 0 && { classes }),
+      ...(appRoles.length > 0 && { app_roles: appRoles }),
+      ...(minTenure !== null && { min_tenure_months: minTenure }),
+      ...(maxTenure !== null && { max_tenure_months: maxTenure })
+    }
+  };
+}
+
+/**
+ * Check a rule set's fields and return them cleaned up: tiers sorted by
+ * minimum production, unset qualifiers dropped
+ */
+function validateRuleSetInput(input: BonusRuleSetInput): { data?: BonusRuleSetInput; error?: string } {
+  if (!BONUS_PROGRAM_PATHS[input.program]) {
+    return { error: 'Invalid bonus program' };
+  }
+
+  if (!Number.isInteger(input.plan_year) || input.plan_year < 2000 || input.plan_year > 2100) {
+    return { error: 'Plan year must be between 2000 and 2100' };
+  }
+
+  if (!PROGRAM_METRICS[input.program].includes(input.metric)) {
+    return { error: 'Invalid qualifying metric' };
+  }
+
+  if (input.period_type !== 'calendar' && input.period_type !== 'systems') {
+    return { error: 'Invalid period type' };
+  }
+
+  let classRates: Record<string, number[]> | undefined;
+  if (input.program === 'override') {
+    const { data, error } = validateClassRates(input.class_rates);
+    if (!data) {
+      return { error };
+    }
+    classRates = data;
+  } else if (input.tiers.length === 0) {
+    return { error: 'At least one tier is required' };
+  }
+
+  let windows: BonusWindow[] | undefined;
+  if (input.program === 'plan_b') {
+    const { data, error } = validateWindows(input.windows);
+    if (!data) {
+      return { error };
+    }
+    windows = data;
+  }
+
+  const { data: eligibility, error: eligibilityError } = validateEligibility(input.eligibility);
+  if (!eligibility) {
+    return { error: eligibilityError };
+  }
+
+  const payoutMetric = PAYOUT_METRIC_PROGRAMS.includes(input.program) ? input.payout_metric || null : undefined;
+  if (payoutMetric && !(payoutMetric in BONUS_METRIC_LABELS)) {
+    return { error: 'Invalid payout metric' };
+  }
+
+  if (input.tiers.some(tier => !Number.isFinite(tier.min_production) || tier.min_production < 0)) {
+    return { error: 'Tier minimums must be zero or more' };
+  }
+
+  if (input.tiers.some(tier => !isFraction(tier.rate))) {
+    return { error: 'Tier rates must be above 0% and at most 100%' };
+  }
+
+  const tiers = [...input.tiers].sort((a, b) => a.min_production - b.min_production);
+  if (tiers.some((tier, index) => index > 0 && tier.min_production === tiers[index - 1].min_production)) {
+    return { error: 'Two tiers cannot share the same minimum' };
+  }
+
+  const { min_cases: minCases, min_persistency: minPersistency } = input.qualifiers;
+  if (minCases != null && (!Number.isInteger(minCases) || minCases < 1)) {
+    return { error: 'Minimum cases must be a whole number of at least 1' };
+  }
+
+  if (minPersistency != null && !isFraction(minPersistency)) {
+    return { error: 'Minimum persistency must be above 0% and at most 100%' };
+  }
+
+  return {
+    data: {
+      program: input.program,
+      plan_year: input.plan_year,
+      metric: input.metric,
+      period_type: input.period_type,
+      tiers: tiers.map(tier => ({ min_production: tier.min_production, rate: tier.rate })),
+      qualifiers: {
+        ...(minCases != null && { min_cases: minCases }),
+        ...(minPersistency != null && { min_persistency: minPersistency })
+      },
+      ...(classRates && { class_rates: classRates }),
+      ...(windows && { windows }),
+      eligibility,
+      ...(payoutMetric !== undefined && { payout_metric: payoutMetric }),
+      description: input.description?.trim() || undefined
+    }
+  };
+}
+
+/**
+ * Get every rule set of a bonus program, latest plan year first
+ */
+export async function getBonusRuleSets(program: BonusProgram): Promise<{
+  success: boolean;
+  data?: BonusRuleSet[];
+  message: string;
+}> {
+  const supabase = await createClient();
+
+  try {
+    const { data, error } = await supabase
+      .from('bonus_rule_sets')
+      .select('*')
+      .eq('program', program)
+      .order('plan_year', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching bonus rule sets:', error);
+      return { success: false, message: 'Failed to fetch bonus rules' };
+    }
+
+    return {
+      success: true,
+      data: (data || []) as BonusRuleSet[],
+      message: 'Bonus rules fetched successfully'
+    };
+  } catch (error) {
+    console.error('Unexpected error fetching bonus rule sets:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+}
+
+/**
+ * Create or replace a program's rules for a plan year. Open periods, and closed
+ * periods not yet frozen, are recomputed with the new rules; frozen periods
+ * keep the rules saved in their snapshot until they are unfrozen.
+ */
+export async function saveBonusRuleSet(input: BonusRuleSetInput): Promise<ActionResult> {
+  const { isAdmin, userId } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const { data: ruleSet, error: validationError } = validateRuleSetInput(input);
+  if (!ruleSet) {
+    return { success: false, message: validationError || 'Invalid bonus rules' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { error } = await supabase
+      .from('bonus_rule_sets')
+      .upsert(
+        {
+          ...ruleSet,
+          description: ruleSet.description ?? null,
+          updated_by: userId ?? undefined
+        },
+        { onConflict: 'program,plan_year' }
+      );
+
+    if (error) {
+      console.error('Error saving bonus rule set:', error);
+      return {
+        success: false,
+        message: 'Failed to save bonus rules',
+        error: error.message
+      };
+    }
+
+    revalidatePath(BONUS_PROGRAM_PATHS[ruleSet.program]);
+    return { success: true, message: `${ruleSet.plan_year} rules saved` };
+  } catch (error) {
+    console.error('Unexpected error saving bonus rule set:', error);
+    return {
+      success: false,
+      message: 'An unexpected error occurred',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Delete a rule set
+ */
+export async function deleteBonusRuleSet(id: string): Promise<ActionResult> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { data, error } = await supabase
+      .from('bonus_rule_sets')
+      .delete()
+      .eq('id', id)
+      .select('program')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error deleting bonus rule set:', error);
+      return {
+        success: false,
+        message: 'Failed to delete bonus rules',
+        error: error.message
+      };
+    }
+
+    if (data) {
+      revalidatePath(BONUS_PROGRAM_PATHS[data.program as BonusProgram]);
+    }
+    return { success: true, message: 'Bonus rules deleted' };
+  } catch (error) {
+    console.error('Unexpected error deleting bonus rule set:', error);
+    return {
+      success: false,
+      message: 'An unexpected error occurred',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Record an advisor's persistency rate as of a date, replacing any rate
+ * already recorded for that date
+ */
+export async function recordAdvisorPersistency(input: AdvisorPersistencyInput): Promise<ActionResult> {
+  const { isAdmin, userId } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const advisorCode = input.advisor_code.trim();
+  if (!advisorCode || !input.as_of_date) {
+    return { success: false, message: 'Advisor code and date are required' };
+  }
+
+  if (!Number.isFinite(input.persistency_rate) || input.persistency_rate < 0 || input.persistency_rate > 1) {
+    return { success: false, message: 'Persistency must be between 0% and 100%' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { error } = await supabase
+      .from('advisor_persistency')
+      .upsert({
+        advisor_code: advisorCode,
+        as_of_date: input.as_of_date,
+        persistency_rate: input.persistency_rate,
+        updated_by: userId ?? undefined
+      });
+
+    if (error) {
+      console.error('Error recording advisor persistency:', error);
+      return {
+        success: false,
+        message: error.code === '23503' ? `Advisor ${advisorCode} not found` : 'Failed to record persistency',
+        error: error.message
+      };
+    }
+
+    revalidatePath(BONUS_PROGRAM_PATHS.qgb);
+    return { success: true, message: `Persistency recorded for ${advisorCode}` };
+  } catch (error) {
+    console.error('Unexpected error recording advisor persistency:', error);
+    return {
+      success: false,
+      message: 'An unexpected error occurred',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
@@ -0,0 +1,177 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { checkAdminAccess } from '@/lib/auth';
+import { BonusProgram } from '@/lib/types/database';
+import { fetchBonusRuleSet, fetchSummaryPeriods } from '@/lib/bonus/data';
+import { findPeriod } from '@/lib/bonus/engine';
+import { BONUS_PROGRAM_PATHS } from '@/lib/bonus/metrics';
+import { computeEamb, computeOverride, computePlanB, computeQgb } from '@/lib/bonus/programs';
+import { quarterOfMonth } from '@/lib/bonus/qgb';
+import { saveBonusSnapshot } from '@/lib/bonus/snapshots';
+import { ActionResult } from './manpower';
+
+type SnapshotContent = {
+  periodInfo?: Record<string, unknown>;
+  results: { advisor_code: string; result: unknown }[];
+};
+
+/**
+ * Freeze a closed period of a bonus program: its results for every advisor
+ * are computed now and shown from then on, whatever is uploaded or edited
+ * later. Freezing a frozen period again replaces its snapshot.
+ */
+export async function freezeBonusPeriod(program: BonusProgram, year: number, periodKey: string): Promise<ActionResult> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const rules = await fetchBonusRuleSet(supabase, program, year);
+    if (!rules) {
+      return { success: false, message: `No rules are set for ${year}` };
+    }
+
+    const period = findPeriod(rules, periodKey);
+    if (!period) {
+      return { success: false, message: `${periodKey} is not a period of the ${year} rules` };
+    }
+
+    const periodEnd = (await fetchSummaryPeriods(supabase, year, rules.period_type)).get(period.endMonth)?.period_end;
+    if (!periodEnd || periodEnd >= new Date().toLocaleDateString('en-CA')) {
+      return { success: false, message: `${periodKey} ${year} has not closed yet` };
+    }
+
+    // Admins see every advisor, so the snapshot covers the whole agency
+    let content: { success: boolean; data?: SnapshotContent; message: string };
+    switch (program) {
+      case 'qgb': {
+        const result = await computeQgb(supabase, year, quarterOfMonth(period.endMonth), null);
+        content = {
+          ...result,
+          data: result.data && {
+            periodInfo: { quarterStart: result.data.quarterStart, quarterEnd: result.data.quarterEnd },
+            results: result.data.advisors.map(advisor => ({ advisor_code: advisor.advisor_code, result: advisor }))
+          }
+        };
+        break;
+      }
+      case 'override': {
+        const result = await computeOverride(supabase, year, periodKey === 'FY' ? undefined : period.endMonth, null);
+        content = {
+          ...result,
+          data: result.data && {
+            results: result.data.managers.map(manager => ({ advisor_code: manager.advisor_code, result: manager }))
+          }
+        };
+        break;
+      }
+      case 'plan_b': {
+        const result = await computePlanB(supabase, year, null);
+        const index = result.data?.schedule.findIndex(window => window.label === periodKey) ?? -1;
+        content = {
+          ...result,
+          data: result.data && index >= 0 ? {
+            periodInfo: {
+              start: result.data.schedule[index].start,
+              end: result.data.schedule[index].end,
+              payoutDate: result.data.schedule[index].payoutDate
+            },
+            results: result.data.advisors.map(({ windows, ...advisor }) => ({
+              advisor_code: advisor.advisor_code,
+              result: { ...advisor, window: windows[index] }
+            }))
+          } : undefined
+        };
+        break;
+      }
+      case 'eamb': {
+        const result = await computeEamb(supabase, year, null);
+        content = {
+          ...result,
+          data: result.data && {
+            results: result.data.advisors.flatMap(advisor => {
+              // eslint-disable-next-line @typescript-eslint/no-unused-vars
+              const { months, qualifiedMonths, total, ...info } = advisor;
+              const month = months.find(entry => entry.month === period.endMonth);
+              return month ? [{ advisor_code: info.advisor_code, result: { ...info, month } }] : [];
+            })
+          }
+        };
+        break;
+      }
+    }
+
+    if (!content.success || !content.data) {
+      return { success: false, message: content.message };
+    }
+
+    await saveBonusSnapshot(supabase, {
+      program,
+      year,
+      periodKey,
+      ruleSet: rules,
+      periodInfo: content.data.periodInfo,
+      results: content.data.results
+    });
+
+    revalidatePath(BONUS_PROGRAM_PATHS[program]);
+    return {
+      success: true,
+      message: `${periodKey} ${year} frozen with ${content.data.results.length} result${content.data.results.length === 1 ? '' : 's'}`
+    };
+  } catch (error) {
+    console.error('Unexpected error freezing bonus period:', error);
+    return {
+      success: false,
+      message: 'An unexpected error occurred',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Drop a period's snapshot so its results are computed live again
+ */
+export async function unfreezeBonusPeriod(program: BonusProgram, year: number, periodKey: string): Promise<ActionResult> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { error } = await supabase
+      .from('bonus_snapshots')
+      .delete()
+      .eq('program', program)
+      .eq('plan_year', year)
+      .eq('period_key', periodKey);
+
+    if (error) {
+      console.error('Error unfreezing bonus period:', error);
+      return {
+        success: false,
+        message: 'Failed to unfreeze the period',
+        error: error.message
+      };
+    }
+
+    revalidatePath(BONUS_PROGRAM_PATHS[program]);
+    return { success: true, message: `${periodKey} ${year} is live again` };
+  } catch (error) {
+    console.error('Unexpected error unfreezing bonus period:', error);
+    return {
+      success: false,
+      message: 'An unexpected error occurred',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
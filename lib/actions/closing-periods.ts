@@ -0,0 +1,369 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { checkAdminAccess } from '@/lib/auth';
+import { SystemsClosingPeriod } from '@/lib/types/database';
+import {
+  ClosingPeriodPattern,
+  findClosingPeriodIssues,
+  formatPeriodName,
+  generateClosingPeriods
+} from '@/lib/utils/closing-periods';
+import { ActionResult } from './manpower';
+
+export interface ClosingPeriodInput {
+  id?: string;
+  period_year: number;
+  period_month: number;
+  start_date: string;
+  end_date: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function revalidateClosingPeriodPaths() {
+  revalidatePath('/closing-periods');
+  revalidatePath('/team-production');
+  revalidatePath('/production/personal-production');
+}
+
+/**
+ * Rebuild the monthly and annual summaries for a year range so systems
+ * figures follow the current closing periods
+ */
+async function refreshSummaries(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  startYear: number,
+  endYear: number
+): Promise<{ message?: string; error?: string }> {
+  const { data, error } = await supabase.rpc('refresh_production_summaries', {
+    p_start_year: startYear,
+    p_end_year: endYear
+  });
+
+  if (error) {
+    console.error('Error refreshing production summaries:', error);
+    return { error: error.message };
+  }
+
+  return { message: data as string };
+}
+
+/**
+ * Get a year's closing periods together with the previous December and the
+ * next January, so the year boundaries can be checked for gaps and overlaps
+ */
+export async function getClosingPeriods(year: number): Promise<{
+  success: boolean;
+  data?: SystemsClosingPeriod[];
+  message: string;
+}> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { data, error } = await supabase
+      .from('cal_systems_closing_periods')
+      .select('*')
+      .or(
+        `period_year.eq.${year},` +
+        `and(period_year.eq.${year - 1},period_month.eq.12),` +
+        `and(period_year.eq.${year + 1},period_month.eq.1)`
+      )
+      .order('period_year', { ascending: true })
+      .order('period_month', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching closing periods:', error);
+      return { success: false, message: 'Failed to fetch closing periods' };
+    }
+
+    return {
+      success: true,
+      data: (data || []) as SystemsClosingPeriod[],
+      message: 'Closing periods fetched successfully'
+    };
+  } catch (error) {
+    console.error('Unexpected error fetching closing periods:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+}
+
+/**
+ * Create or update one closing period, then rebuild the summaries of the
+ * affected years. Moving a period to another month or year refreshes both
+ * the old and the new year.
+ */
+export async function saveClosingPeriod(input: ClosingPeriodInput): Promise<ActionResult> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  if (!Number.isInteger(input.period_year) || input.period_year < 2000 || input.period_year > 2100) {
+    return { success: false, message: 'Year must be between 2000 and 2100' };
+  }
+
+  if (!Number.isInteger(input.period_month) || input.period_month < 1 || input.period_month > 12) {
+    return { success: false, message: 'Month must be between 1 and 12' };
+  }
+
+  if (!DATE_PATTERN.test(input.start_date) || !DATE_PATTERN.test(input.end_date)) {
+    return { success: false, message: 'Start and end dates are required' };
+  }
+
+  if (input.end_date <= input.start_date) {
+    return { success: false, message: 'End date must be after the start date' };
+  }
+
+  const supabase = await createClient();
+  const periodName = formatPeriodName(input.period_year, input.period_month);
+
+  try {
+    const affectedYears = [input.period_year];
+
+    if (input.id) {
+      const { data: existing, error: fetchError } = await supabase
+        .from('cal_systems_closing_periods')
+        .select('period_year')
+        .eq('id', input.id)
+        .single();
+
+      if (fetchError || !existing) {
+        return { success: false, message: 'Closing period not found' };
+      }
+
+      affectedYears.push(existing.period_year);
+    }
+
+    const period = {
+      period_year: input.period_year,
+      period_month: input.period_month,
+      start_date: input.start_date,
+      end_date: input.end_date
+    };
+
+    const { error } = input.id
+      ? await supabase.from('cal_systems_closing_periods').update(period).eq('id', input.id)
+      : await supabase.from('cal_systems_closing_periods').insert(period);
+
+    if (error) {
+      console.error('Error saving closing period:', error);
+      return {
+        success: false,
+        message: error.code === '23505'
+          ? `${periodName} already has a closing period`
+          : 'Failed to save closing period',
+        error: error.message
+      };
+    }
+
+    revalidateClosingPeriodPaths();
+
+    const refresh = await refreshSummaries(supabase, Math.min(...affectedYears), Math.max(...affectedYears));
+    if (refresh.error) {
+      return {
+        success: false,
+        message: `${periodName} saved but summaries could not be refreshed`,
+        error: refresh.error
+      };
+    }
+
+    return { success: true, message: `${periodName} saved and summaries refreshed` };
+  } catch (error) {
+    console.error('Unexpected error saving closing period:', error);
+    return {
+      success: false,
+      message: 'An unexpected error occurred',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Delete a closing period and rebuild its year's summaries
+ */
+export async function deleteClosingPeriod(id: string): Promise<ActionResult> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { data: deleted, error } = await supabase
+      .from('cal_systems_closing_periods')
+      .delete()
+      .eq('id', id)
+      .select('period_year, period_month')
+      .single();
+
+    if (error || !deleted) {
+      console.error('Error deleting closing period:', error);
+      return {
+        success: false,
+        message: 'Failed to delete closing period',
+        error: error?.message
+      };
+    }
+
+    revalidateClosingPeriodPaths();
+
+    const periodName = formatPeriodName(deleted.period_year, deleted.period_month);
+    const refresh = await refreshSummaries(supabase, deleted.period_year, deleted.period_year);
+    if (refresh.error) {
+      return {
+        success: false,
+        message: `${periodName} deleted but summaries could not be refreshed`,
+        error: refresh.error
+      };
+    }
+
+    return { success: true, message: `${periodName} deleted and summaries refreshed` };
+  } catch (error) {
+    console.error('Unexpected error deleting closing period:', error);
+    return {
+      success: false,
+      message: 'An unexpected error occurred',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Generate a year's twelve closing periods from a pattern. January starts the
+ * day after the stored previous December when there is one. Existing periods
+ * are only replaced when overwrite is set.
+ */
+export async function generateClosingPeriodsForYear(
+  year: number,
+  pattern: ClosingPeriodPattern,
+  overwrite = false
+): Promise<ActionResult> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+    return { success: false, message: 'Year must be between 2000 and 2100' };
+  }
+
+  if (!Number.isInteger(pattern.closingDay) || pattern.closingDay < 1 || pattern.closingDay > 31) {
+    return { success: false, message: 'Closing day must be between 1 and 31' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { data: existing, error: fetchError } = await supabase
+      .from('cal_systems_closing_periods')
+      .select('period_year, period_month, end_date')
+      .or(`period_year.eq.${year},and(period_year.eq.${year - 1},period_month.eq.12)`);
+
+    if (fetchError) {
+      console.error('Error fetching closing periods:', fetchError);
+      return { success: false, message: 'Failed to fetch existing closing periods', error: fetchError.message };
+    }
+
+    const previousDecember = (existing || []).find(p => p.period_year === year - 1);
+    const existingMonths = new Set(
+      (existing || []).filter(p => p.period_year === year).map(p => p.period_month)
+    );
+
+    const generated = generateClosingPeriods(year, pattern, previousDecember?.end_date);
+    const toSave = overwrite
+      ? generated
+      : generated.filter(period => !existingMonths.has(period.period_month));
+
+    if (toSave.length === 0) {
+      return { success: true, message: `${year} already has all twelve closing periods` };
+    }
+
+    const invalid = findClosingPeriodIssues(toSave).find(issue => issue.type === 'invalid');
+    if (invalid) {
+      return { success: false, message: invalid.message };
+    }
+
+    const { error } = await supabase
+      .from('cal_systems_closing_periods')
+      .upsert(toSave, { onConflict: 'period_year,period_month' });
+
+    if (error) {
+      console.error('Error generating closing periods:', error);
+      return {
+        success: false,
+        message: 'Failed to generate closing periods',
+        error: error.message
+      };
+    }
+
+    revalidateClosingPeriodPaths();
+
+    const refresh = await refreshSummaries(supabase, year, year);
+    if (refresh.error) {
+      return {
+        success: false,
+        message: `${toSave.length} closing periods saved but summaries could not be refreshed`,
+        error: refresh.error
+      };
+    }
+
+    return { success: true, message: `${toSave.length} closing periods saved for ${year} and summaries refreshed` };
+  } catch (error) {
+    console.error('Unexpected error generating closing periods:', error);
+    return {
+      success: false,
+      message: 'An unexpected error occurred',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Rebuild the production summaries for a year range on demand
+ */
+export async function refreshProductionSummaries(startYear: number, endYear: number): Promise<ActionResult> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  if (endYear < startYear) {
+    return { success: false, message: 'End year must not be before the start year' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const refresh = await refreshSummaries(supabase, startYear, endYear);
+    if (refresh.error) {
+      return {
+        success: false,
+        message: 'Failed to refresh production summaries',
+        error: refresh.error
+      };
+    }
+
+    revalidateClosingPeriodPaths();
+    return { success: true, message: refresh.message || 'Production summaries refreshed' };
+  } catch (error) {
+    console.error('Unexpected error refreshing production summaries:', error);
+    return {
+      success: false,
+      message: 'An unexpected error occurred',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
@@ -0,0 +1,286 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { checkAdminAccess } from '@/lib/auth';
+import { ContestLeaderboardEntry, ContestMetric, ContestPeriod } from '@/lib/types/database';
+import { ActionResult } from './manpower';
+
+export interface ContestInput {
+  contest_name: string;
+  start_date: string;
+  end_date: string;
+  description?: string;
+  qualifying_metric: ContestMetric;
+  thresholds: number[];
+  eligible_classes: string[];
+}
+
+const CONTEST_METRICS: ContestMetric[] = ['agency_credits', 'net_sales_credits', 'settled_apps'];
+
+/**
+ * Check a contest's fields and return them cleaned up: thresholds sorted and
+ * de-duplicated, blank classes dropped
+ */
+function validateContestInput(input: ContestInput): { data?: ContestInput; error?: string } {
+  const contestName = input.contest_name.trim();
+  if (!contestName) {
+    return { error: 'Contest name is required' };
+  }
+
+  if (!input.start_date || !input.end_date) {
+    return { error: 'Start and end dates are required' };
+  }
+
+  if (input.end_date <= input.start_date) {
+    return { error: 'End date must be after the start date' };
+  }
+
+  if (!CONTEST_METRICS.includes(input.qualifying_metric)) {
+    return { error: 'Invalid qualifying metric' };
+  }
+
+  if (input.thresholds.some(threshold => !Number.isFinite(threshold) || threshold <= 0)) {
+    return { error: 'Thresholds must be positive numbers' };
+  }
+
+  return {
+    data: {
+      contest_name: contestName,
+      start_date: input.start_date,
+      end_date: input.end_date,
+      description: input.description?.trim() || undefined,
+      qualifying_metric: input.qualifying_metric,
+      thresholds: Array.from(new Set(input.thresholds)).sort((a, b) => a - b),
+      eligible_classes: Array.from(new Set(input.eligible_classes.map(c => c.trim()).filter(Boolean)))
+    }
+  };
+}
+
+/**
+ * Get every contest, latest first
+ */
+export async function getContests(): Promise<{
+  success: boolean;
+  data?: ContestPeriod[];
+  message: string;
+}> {
+  const supabase = await createClient();
+
+  try {
+    const { data, error } = await supabase
+      .from('cal_contest_periods')
+      .select('*')
+      .order('start_date', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching contests:', error);
+      return { success: false, message: 'Failed to fetch contests' };
+    }
+
+    return {
+      success: true,
+      data: (data || []).map(contest => ({
+        ...contest,
+        thresholds: (contest.thresholds || []).map(Number)
+      })) as ContestPeriod[],
+      message: 'Contests fetched successfully'
+    };
+  } catch (error) {
+    console.error('Unexpected error fetching contests:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+}
+
+/**
+ * Get a contest's leaderboard, optionally limited to the caller's team
+ */
+export async function getContestLeaderboard(
+  contestId: string,
+  teamOnly = false
+): Promise<{
+  success: boolean;
+  data?: ContestLeaderboardEntry[];
+  message: string;
+}> {
+  const supabase = await createClient();
+
+  try {
+    const { data, error } = await supabase.rpc('get_contest_leaderboard', {
+      p_contest_id: contestId,
+      p_team_only: teamOnly
+    });
+
+    if (error) {
+      console.error('Error fetching contest leaderboard:', error);
+      return {
+        success: false,
+        message: error.code === 'P0002' ? error.message : 'Failed to fetch contest leaderboard'
+      };
+    }
+
+    return {
+      success: true,
+      data: ((data || []) as ContestLeaderboardEntry[]).map(entry => ({
+        ...entry,
+        submitted_apps: Number(entry.submitted_apps) || 0,
+        settled_apps: Number(entry.settled_apps) || 0,
+        agency_credits: Number(entry.agency_credits) || 0,
+        net_sales_credits: Number(entry.net_sales_credits) || 0,
+        metric_value: Number(entry.metric_value) || 0,
+        next_threshold: entry.next_threshold === null || entry.next_threshold === undefined
+          ? undefined
+          : Number(entry.next_threshold)
+      })),
+      message: 'Contest leaderboard fetched successfully'
+    };
+  } catch (error) {
+    console.error('Unexpected error fetching contest leaderboard:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+}
+
+/**
+ * Get the manpower classes a contest can be limited to
+ */
+export async function getContestClassOptions(): Promise<string[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('manpower')
+    .select('class')
+    .not('class', 'is', null);
+
+  if (error) {
+    console.error('Error fetching manpower classes:', error);
+    return [];
+  }
+
+  return Array.from(new Set((data || []).map(row => row.class as string).filter(Boolean))).sort();
+}
+
+/**
+ * Create a contest
+ */
+export async function createContest(input: ContestInput): Promise<ActionResult> {
+  const { isAdmin, userId } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const { data: contest, error: validationError } = validateContestInput(input);
+  if (!contest) {
+    return { success: false, message: validationError || 'Invalid contest' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { error } = await supabase
+      .from('cal_contest_periods')
+      .insert({ ...contest, created_by: userId ?? undefined });
+
+    if (error) {
+      console.error('Error creating contest:', error);
+      return {
+        success: false,
+        message: 'Failed to create contest',
+        error: error.message
+      };
+    }
+
+    revalidatePath('/production/contest-month');
+    return { success: true, message: `${contest.contest_name} created` };
+  } catch (error) {
+    console.error('Unexpected error creating contest:', error);
+    return {
+      success: false,
+      message: 'An unexpected error occurred',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Update a contest. The leaderboard is computed live, so it follows the new rules immediately.
+ */
+export async function updateContest(id: string, input: ContestInput): Promise<ActionResult> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const { data: contest, error: validationError } = validateContestInput(input);
+  if (!contest) {
+    return { success: false, message: validationError || 'Invalid contest' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { error } = await supabase
+      .from('cal_contest_periods')
+      .update({ ...contest, description: contest.description ?? null })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating contest:', error);
+      return {
+        success: false,
+        message: 'Failed to update contest',
+        error: error.message
+      };
+    }
+
+    revalidatePath('/production/contest-month');
+    return { success: true, message: `${contest.contest_name} updated` };
+  } catch (error) {
+    console.error('Unexpected error updating contest:', error);
+    return {
+      success: false,
+      message: 'An unexpected error occurred',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Delete a contest
+ */
+export async function deleteContest(id: string): Promise<ActionResult> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { error } = await supabase
+      .from('cal_contest_periods')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting contest:', error);
+      return {
+        success: false,
+        message: 'Failed to delete contest',
+        error: error.message
+      };
+    }
+
+    revalidatePath('/production/contest-month');
+    return { success: true, message: 'Contest deleted' };
+  } catch (error) {
+    console.error('Unexpected error deleting contest:', error);
+    return {
+      success: false,
+      message: 'An unexpected error occurred',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
@@ -0,0 +1,134 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { checkAdminAccess } from '@/lib/auth';
+import { fetchOwnAdvisor } from '@/lib/bonus/data';
+import { applyEambSnapshots, EambSnapshotResult, EambTracker } from '@/lib/bonus/eamb';
+import { computeEamb } from '@/lib/bonus/programs';
+import { fetchBonusSnapshots } from '@/lib/bonus/snapshots';
+import { MONTHS } from '@/lib/utils/manpower-filters';
+import { toCsv } from '@/lib/utils/csv';
+
+/**
+ * EAMB for every month of a plan year that has started, for every advisor
+ * the caller may see, with frozen months taken from their snapshots
+ */
+async function loadEamb(year: number): Promise<{
+  success: boolean;
+  data?: EambTracker;
+  message: string;
+}> {
+  const supabase = await createClient();
+
+  const { data: user, error: authError } = await supabase.auth.getClaims();
+  if (authError || !user?.claims) {
+    return { success: false, message: 'Not authenticated' };
+  }
+
+  const own = await fetchOwnAdvisor(supabase, user.claims.sub);
+  const result = await computeEamb(supabase, year, own);
+  if (!result.data?.ruleSet) {
+    return result;
+  }
+
+  const snapshots = await fetchBonusSnapshots<EambSnapshotResult>(supabase, 'eamb', year);
+  return { ...result, data: applyEambSnapshots(result.data, year, snapshots) };
+}
+
+/**
+ * EAMB month by month for the advisors the caller may see: their own months
+ * for advisors, their team's for managers and everyone for admins
+ */
+export async function getEambTracker(year: number): Promise<{
+  success: boolean;
+  data?: EambTracker;
+  message: string;
+}> {
+  try {
+    return await loadEamb(year);
+  } catch (error) {
+    console.error('Unexpected error computing EAMB:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+}
+
+/**
+ * Payout list for finance as CSV: one line per advisor and closed month with
+ * an amount, for one month or the whole year. Frozen months export their
+ * snapshot figures.
+ */
+export async function exportEambPayouts(year: number, month?: number): Promise<{
+  success: boolean;
+  data?: { filename: string; csv: string };
+  message: string;
+}> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  try {
+    const result = await loadEamb(year);
+    if (!result.success || !result.data?.ruleSet) {
+      return { success: false, message: result.message };
+    }
+
+    if (month !== undefined && month === result.data.currentMonth) {
+      return { success: false, message: `${MONTHS[month - 1].label} ${year} is still in progress` };
+    }
+
+    const rows = result.data.advisors.flatMap(advisor =>
+      advisor.months
+        .filter(entry => entry.closed && entry.amount > 0 && (month === undefined || entry.month === month))
+        .map(entry => [
+          advisor.advisor_code,
+          advisor.advisor_name,
+          advisor.advisor_class,
+          advisor.unit_code,
+          advisor.date_hired,
+          `${year}-${String(entry.month).padStart(2, '0')}`,
+          entry.tenureMonth,
+          entry.production.toFixed(2),
+          entry.cases,
+          entry.payoutBase.toFixed(2),
+          (entry.rate * 100).toFixed(2),
+          entry.amount.toFixed(2)
+        ])
+    );
+
+    if (rows.length === 0) {
+      return { success: false, message: 'No closed months with an EAMB payout to export' };
+    }
+
+    const period = month === undefined ? String(year) : `${year}-${String(month).padStart(2, '0')}`;
+
+    return {
+      success: true,
+      data: {
+        filename: `eamb-payouts-${period}.csv`,
+        csv: toCsv(
+          [
+            'Advisor Code',
+            'Advisor Name',
+            'Class',
+            'Unit',
+            'Date Hired',
+            'Month',
+            'Tenure Month',
+            'AC',
+            'Lives',
+            'Payout Base',
+            'Rate (%)',
+            'Amount'
+          ],
+          rows
+        )
+      },
+      message: `Exported ${rows.length} payout${rows.length === 1 ? '' : 's'}`
+    };
+  } catch (error) {
+    console.error('Unexpected error exporting EAMB payouts:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+}
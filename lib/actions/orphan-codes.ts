@@ -0,0 +1,260 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { checkAdminAccess } from '@/lib/auth';
+import { ManpowerRecord, OrphanAdvisorCode } from '@/lib/types/database';
+import { ActionResult, createManpowerRecord } from './manpower';
+
+/**
+ * Get advisor codes found in submitted/settled apps that have no manpower record
+ */
+export async function getOrphanAdvisorCodes(includeIgnored = false): Promise<{
+  success: boolean;
+  data?: OrphanAdvisorCode[];
+  message: string;
+}> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { data, error } = await supabase.rpc('get_orphan_advisor_codes', {
+      p_include_ignored: includeIgnored
+    });
+
+    if (error) {
+      console.error('Error fetching orphan advisor codes:', error);
+      return { success: false, message: 'Failed to fetch unknown advisor codes' };
+    }
+
+    return {
+      success: true,
+      data: (data || []) as OrphanAdvisorCode[],
+      message: 'Unknown advisor codes fetched successfully'
+    };
+  } catch (error) {
+    console.error('Unexpected error fetching orphan advisor codes:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+}
+
+/**
+ * Search manpower records to map an orphan code to
+ */
+export async function searchManpowerAdvisors(query: string): Promise<{
+  success: boolean;
+  data?: Pick<ManpowerRecord, 'code_number' | 'advisor_name' | 'unit_code' | 'status'>[];
+  message: string;
+}> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const term = query.trim().replace(/[%_,()]/g, '');
+  if (term.length < 2) {
+    return { success: true, data: [], message: 'Enter at least 2 characters' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { data, error } = await supabase
+      .from('manpower')
+      .select('code_number, advisor_name, unit_code, status')
+      .or(`code_number.ilike.%${term}%,advisor_name.ilike.%${term}%`)
+      .order('advisor_name')
+      .limit(10);
+
+    if (error) {
+      console.error('Error searching manpower:', error);
+      return { success: false, message: 'Failed to search advisors' };
+    }
+
+    return { success: true, data: data || [], message: 'Advisors fetched successfully' };
+  } catch (error) {
+    console.error('Unexpected error searching manpower:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+}
+
+/**
+ * Move an orphan code's production rows to an existing advisor and recalculate their summaries
+ */
+export async function mapOrphanAdvisorCode(orphanCode: string, targetCode: string): Promise<ActionResult & {
+  rowsUpdated?: number;
+}> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { data, error } = await supabase.rpc('map_orphan_advisor_code', {
+      p_orphan_code: orphanCode,
+      p_target_code: targetCode
+    });
+
+    if (error) {
+      console.error('Error mapping orphan advisor code:', error);
+      return {
+        success: false,
+        message: 'Failed to map advisor code',
+        error: error.message
+      };
+    }
+
+    revalidatePath('/upload');
+    revalidatePath('/production');
+    return {
+      success: true,
+      message: `Mapped ${orphanCode} to ${targetCode}: ${data.rows_updated} row${data.rows_updated !== 1 ? 's' : ''} moved, ${data.periods_recalculated} summary period${data.periods_recalculated !== 1 ? 's' : ''} recalculated`,
+      rowsUpdated: data.rows_updated
+    };
+  } catch (error) {
+    console.error('Unexpected error mapping orphan advisor code:', error);
+    return {
+      success: false,
+      message: 'An unexpected error occurred',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Create a manpower record for an orphan code and recalculate its summaries
+ */
+export async function createManpowerFromOrphanCode(data: {
+  code_number: string;
+  advisor_name: string;
+  unit_code?: string;
+  manager_id?: string;
+  status?: string;
+}): Promise<ActionResult> {
+  const { isAdmin, userId } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const created = await createManpowerRecord({
+    code_number: data.code_number,
+    advisor_name: data.advisor_name,
+    unit_code: data.unit_code || undefined,
+    manager_id: data.manager_id || undefined,
+    status: data.status || 'Active'
+  });
+
+  if (!created.success) {
+    return created;
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { data: periods, error } = await supabase.rpc('recalculate_advisor_code_summaries', {
+      p_advisor_code: data.code_number
+    });
+
+    if (error) {
+      console.error('Error recalculating summaries:', error);
+      return {
+        success: false,
+        message: 'Manpower record created but summaries could not be recalculated',
+        error: error.message
+      };
+    }
+
+    const { error: resolutionError } = await supabase
+      .from('orphan_advisor_code_resolutions')
+      .upsert({
+        advisor_code: data.code_number,
+        resolution: 'created',
+        mapped_to_code: null,
+        rows_updated: 0,
+        resolved_by: userId,
+        resolved_at: new Date().toISOString()
+      }, { onConflict: 'advisor_code' });
+
+    if (resolutionError) {
+      console.error('Error recording orphan resolution:', resolutionError);
+    }
+
+    revalidatePath('/upload');
+    revalidatePath('/production');
+    return {
+      success: true,
+      message: `Created ${data.advisor_name} (${data.code_number}) and recalculated ${periods} summary period${periods !== 1 ? 's' : ''}`
+    };
+  } catch (error) {
+    console.error('Unexpected error creating manpower from orphan code:', error);
+    return {
+      success: false,
+      message: 'An unexpected error occurred',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Hide an orphan code from the queue, or bring an ignored code back
+ */
+export async function setOrphanAdvisorCodeIgnored(advisorCode: string, ignored: boolean): Promise<ActionResult> {
+  const { isAdmin, userId } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { error } = ignored
+      ? await supabase
+          .from('orphan_advisor_code_resolutions')
+          .upsert({
+            advisor_code: advisorCode,
+            resolution: 'ignored',
+            mapped_to_code: null,
+            rows_updated: 0,
+            resolved_by: userId,
+            resolved_at: new Date().toISOString()
+          }, { onConflict: 'advisor_code' })
+      : await supabase
+          .from('orphan_advisor_code_resolutions')
+          .delete()
+          .eq('advisor_code', advisorCode)
+          .eq('resolution', 'ignored');
+
+    if (error) {
+      console.error('Error updating orphan advisor code:', error);
+      return {
+        success: false,
+        message: ignored ? 'Failed to ignore advisor code' : 'Failed to restore advisor code',
+        error: error.message
+      };
+    }
+
+    revalidatePath('/upload');
+    return {
+      success: true,
+      message: ignored ? `${advisorCode} ignored` : `${advisorCode} restored to the queue`
+    };
+  } catch (error) {
+    console.error('Unexpected error updating orphan advisor code:', error);
+    return {
+      success: false,
+      message: 'An unexpected error occurred',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
@@ -0,0 +1,51 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { fetchOwnAdvisor } from '@/lib/bonus/data';
+import { monthPeriodKey } from '@/lib/bonus/engine';
+import { ManagerOverride, OverrideReport } from '@/lib/bonus/override';
+import { computeOverride } from '@/lib/bonus/programs';
+import { fetchBonusSnapshots } from '@/lib/bonus/snapshots';
+
+/**
+ * Compute the override of every manager the caller may see for a month, or
+ * for the whole year when no month is given. A frozen period shows its
+ * snapshot instead.
+ */
+export async function getOverrideReport(year: number, month?: number): Promise<{
+  success: boolean;
+  data?: OverrideReport;
+  message: string;
+}> {
+  const supabase = await createClient();
+
+  try {
+    const { data: user, error: authError } = await supabase.auth.getClaims();
+    if (authError || !user?.claims) {
+      return { success: false, message: 'Not authenticated' };
+    }
+
+    const own = await fetchOwnAdvisor(supabase, user.claims.sub);
+    const periodKey = month === undefined ? 'FY' : monthPeriodKey(month);
+    const snapshot = (await fetchBonusSnapshots<ManagerOverride>(supabase, 'override', year, [periodKey])).get(periodKey);
+
+    if (!snapshot) {
+      return await computeOverride(supabase, year, month, own);
+    }
+
+    return {
+      success: true,
+      data: {
+        ruleSet: snapshot.rule_set,
+        currentAdvisorCode: own?.advisor_code ?? null,
+        managers: snapshot.results.sort((a, b) => b.override - a.override),
+        closed: true,
+        snapshotAt: snapshot.taken_at
+      },
+      message: 'Overrides loaded from the frozen snapshot'
+    };
+  } catch (error) {
+    console.error('Unexpected error computing overrides:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+}
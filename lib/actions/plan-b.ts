@@ -0,0 +1,39 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { fetchOwnAdvisor } from '@/lib/bonus/data';
+import { applyPlanBSnapshots, PlanBSnapshotResult, PlanBTracker } from '@/lib/bonus/plan-b';
+import { computePlanB } from '@/lib/bonus/programs';
+import { fetchBonusSnapshots } from '@/lib/bonus/snapshots';
+
+/**
+ * Evaluate Plan B for every window of a plan year for every advisor the
+ * caller may see: their own windows for advisors, their team's for managers
+ * and everyone for admins. Frozen windows show their snapshots.
+ */
+export async function getPlanBTracker(year: number): Promise<{
+  success: boolean;
+  data?: PlanBTracker;
+  message: string;
+}> {
+  const supabase = await createClient();
+
+  try {
+    const { data: user, error: authError } = await supabase.auth.getClaims();
+    if (authError || !user?.claims) {
+      return { success: false, message: 'Not authenticated' };
+    }
+
+    const own = await fetchOwnAdvisor(supabase, user.claims.sub);
+    const result = await computePlanB(supabase, year, own);
+    if (!result.data?.ruleSet) {
+      return result;
+    }
+
+    const snapshots = await fetchBonusSnapshots<PlanBSnapshotResult>(supabase, 'plan_b', year);
+    return { ...result, data: applyPlanBSnapshots(result.data, snapshots) };
+  } catch (error) {
+    console.error('Unexpected error computing Plan B:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+}
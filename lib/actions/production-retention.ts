@@ -0,0 +1,143 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { checkAdminAccess } from '@/lib/auth';
+import { ProductionArchiveResult, ProductionSummarySettings } from '@/lib/types/database';
+import { ActionResult } from './manpower';
+
+export interface RetentionSettingsInput {
+  live_years: number;
+  archive_retention_years?: number | null;
+}
+
+/**
+ * Get the production summary retention settings
+ */
+export async function getRetentionSettings(): Promise<{
+  success: boolean;
+  data?: ProductionSummarySettings;
+  message: string;
+}> {
+  const supabase = await createClient();
+
+  try {
+    const { data, error } = await supabase
+      .from('production_summary_settings')
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error fetching retention settings:', error);
+      return { success: false, message: 'Failed to fetch retention settings' };
+    }
+
+    return {
+      success: true,
+      data: data as ProductionSummarySettings,
+      message: 'Retention settings fetched successfully'
+    };
+  } catch (error) {
+    console.error('Unexpected error fetching retention settings:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+}
+
+/**
+ * Update how many years stay in the live summary tables and how long archived
+ * years are kept. Takes effect on the next archive run.
+ */
+export async function updateRetentionSettings(input: RetentionSettingsInput): Promise<ActionResult> {
+  const { isAdmin, userId } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  if (!Number.isInteger(input.live_years) || input.live_years < 1 || input.live_years > 20) {
+    return { success: false, message: 'Live years must be a whole number between 1 and 20' };
+  }
+
+  const archiveYears = input.archive_retention_years ?? null;
+  if (archiveYears !== null && (!Number.isInteger(archiveYears) || archiveYears < 1)) {
+    return { success: false, message: 'Archive retention must be at least 1 year, or blank to keep archived years forever' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { error } = await supabase
+      .from('production_summary_settings')
+      .update({
+        live_years: input.live_years,
+        archive_retention_years: archiveYears,
+        updated_by: userId ?? undefined
+      })
+      .eq('id', true);
+
+    if (error) {
+      console.error('Error updating retention settings:', error);
+      return {
+        success: false,
+        message: 'Failed to update retention settings',
+        error: error.message
+      };
+    }
+
+    revalidatePath('/summary-health');
+    return { success: true, message: 'Retention settings saved' };
+  } catch (error) {
+    console.error('Unexpected error updating retention settings:', error);
+    return {
+      success: false,
+      message: 'An unexpected error occurred',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Move summary years older than the live window to the archive now, instead
+ * of waiting for the scheduled cleanup
+ */
+export async function archiveProductionSummaries(): Promise<ActionResult & { data?: ProductionArchiveResult }> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { data, error } = await supabase.rpc('archive_production_summaries');
+
+    if (error) {
+      console.error('Error archiving production summaries:', error);
+      return {
+        success: false,
+        message: 'Failed to archive production summaries',
+        error: error.message
+      };
+    }
+
+    const result = data as ProductionArchiveResult;
+    const archived = result.monthly_archived + result.annual_archived;
+    const purged = result.monthly_purged + result.annual_purged;
+
+    revalidatePath('/summary-health');
+    return {
+      success: true,
+      message: `Archived ${archived} summary rows from before ${result.cutoff_year}` +
+        (purged > 0 ? ` and purged ${purged} expired archive rows` : ''),
+      data: result
+    };
+  } catch (error) {
+    console.error('Unexpected error archiving production summaries:', error);
+    return {
+      success: false,
+      message: 'An unexpected error occurred',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
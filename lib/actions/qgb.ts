@@ -0,0 +1,56 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { fetchOwnAdvisor } from '@/lib/bonus/data';
+import { computeQgb } from '@/lib/bonus/programs';
+import { evaluateQgbRows, Quarter, QgbAdvisorResult, QgbTracker } from '@/lib/bonus/qgb';
+import { fetchBonusSnapshots } from '@/lib/bonus/snapshots';
+
+/**
+ * Evaluate the QGB for a quarter for every advisor the caller may see: their
+ * own figures for advisors, their team's for managers and everyone for admins.
+ * A frozen quarter shows its snapshot instead.
+ */
+export async function getQgbTracker(year: number, quarter: Quarter): Promise<{
+  success: boolean;
+  data?: QgbTracker;
+  message: string;
+}> {
+  const supabase = await createClient();
+
+  try {
+    const { data: user, error: authError } = await supabase.auth.getClaims();
+    if (authError || !user?.claims) {
+      return { success: false, message: 'Not authenticated' };
+    }
+
+    const own = await fetchOwnAdvisor(supabase, user.claims.sub);
+    const snapshot = (await fetchBonusSnapshots<QgbAdvisorResult>(supabase, 'qgb', year, [`Q${quarter}`])).get(`Q${quarter}`);
+
+    if (!snapshot) {
+      return await computeQgb(supabase, year, quarter, own);
+    }
+
+    // Advisors still see their own quarter when they had nothing in it
+    const advisors = own && !snapshot.results.some(result => result.advisor_code === own.advisor_code)
+      ? [...snapshot.results, ...evaluateQgbRows(snapshot.rule_set, year, quarter, [], { elapsed: 1, include: [own] })]
+      : snapshot.results;
+
+    return {
+      success: true,
+      data: {
+        ruleSet: snapshot.rule_set,
+        quarterStart: snapshot.period_info.quarterStart as string | undefined,
+        quarterEnd: snapshot.period_info.quarterEnd as string | undefined,
+        elapsed: 1,
+        currentAdvisorCode: own?.advisor_code ?? null,
+        advisors: advisors.sort((a, b) => b.earned.production - a.earned.production),
+        snapshotAt: snapshot.taken_at
+      },
+      message: 'QGB loaded from the frozen snapshot'
+    };
+  } catch (error) {
+    console.error('Unexpected error computing QGB:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+}
@@ -0,0 +1,179 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { checkAdminAccess } from '@/lib/auth';
+import { ProductionPeriodType, SummaryFreshness, SummaryHealthRow } from '@/lib/types/database';
+import { ActionResult } from './manpower';
+
+export interface SummaryHealthFilters {
+  year: number;
+  periodType: ProductionPeriodType;
+  month?: number;
+  driftOnly?: boolean;
+}
+
+export interface SummaryRecalculationScope {
+  year: number;
+  periodType: ProductionPeriodType;
+  month?: number;
+  advisorCode?: string;
+}
+
+const HEALTH_NUMBER_FIELDS = [
+  'source_settled_apps',
+  'source_agency_credits',
+  'source_net_sales_credits',
+  'source_rn_commission_php',
+  'source_fy_premium_php',
+  'source_fy_commission_php',
+  'source_submitted_apps',
+  'summary_settled_apps',
+  'summary_agency_credits',
+  'summary_net_sales_credits',
+  'summary_rn_commission_php',
+  'summary_fy_premium_php',
+  'summary_fy_commission_php',
+  'summary_submitted_apps'
+] as const;
+
+/**
+ * Compare source-table totals with the monthly summaries of a year, per
+ * advisor and month
+ */
+export async function getSummaryHealth(filters: SummaryHealthFilters): Promise<{
+  success: boolean;
+  data?: SummaryHealthRow[];
+  message: string;
+}> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { data, error } = await supabase.rpc('get_production_summary_health', {
+      p_year: filters.year,
+      p_period_type: filters.periodType,
+      p_month: filters.month ?? null,
+      p_drift_only: filters.driftOnly ?? false
+    });
+
+    if (error) {
+      console.error('Error fetching summary health:', error);
+      return { success: false, message: 'Failed to check production summaries' };
+    }
+
+    return {
+      success: true,
+      data: ((data || []) as SummaryHealthRow[]).map(row => {
+        const normalized = { ...row };
+        HEALTH_NUMBER_FIELDS.forEach(field => {
+          normalized[field] = Number(row[field]) || 0;
+        });
+        return normalized;
+      }),
+      message: 'Summary health fetched successfully'
+    };
+  } catch (error) {
+    console.error('Unexpected error fetching summary health:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+}
+
+/**
+ * Get the row counts and last_updated range of a year's monthly and annual summaries
+ */
+export async function getSummaryFreshness(year: number, periodType: ProductionPeriodType): Promise<{
+  success: boolean;
+  data?: SummaryFreshness[];
+  message: string;
+}> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { data, error } = await supabase.rpc('get_production_summary_freshness', {
+      p_year: year,
+      p_period_type: periodType
+    });
+
+    if (error) {
+      console.error('Error fetching summary freshness:', error);
+      return { success: false, message: 'Failed to fetch summary freshness' };
+    }
+
+    return {
+      success: true,
+      data: ((data || []) as SummaryFreshness[]).map(row => ({
+        ...row,
+        row_count: Number(row.row_count) || 0
+      })),
+      message: 'Summary freshness fetched successfully'
+    };
+  } catch (error) {
+    console.error('Unexpected error fetching summary freshness:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+}
+
+/**
+ * Recalculate the monthly and annual summaries for one advisor, one month or
+ * a whole year
+ */
+export async function recalculateSummaries(scope: SummaryRecalculationScope): Promise<ActionResult> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  if (scope.month !== undefined && (scope.month < 1 || scope.month > 12)) {
+    return { success: false, message: 'Month must be between 1 and 12' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { data, error } = await supabase.rpc('recalculate_production_summaries', {
+      p_year: scope.year,
+      p_period_type: scope.periodType,
+      p_month: scope.month ?? null,
+      p_advisor_code: scope.advisorCode?.trim() || null
+    });
+
+    if (error) {
+      console.error('Error recalculating production summaries:', error);
+      return {
+        success: false,
+        message: 'Failed to recalculate production summaries',
+        error: error.message
+      };
+    }
+
+    const result = data as { monthly_recalculated: number; annual_recalculated: number };
+
+    revalidatePath('/team-production');
+    revalidatePath('/production/personal-production');
+
+    return {
+      success: true,
+      message: `Recalculated ${result.monthly_recalculated} monthly and ${result.annual_recalculated} annual summaries`
+    };
+  } catch (error) {
+    console.error('Unexpected error recalculating production summaries:', error);
+    return {
+      success: false,
+      message: 'An unexpected error occurred',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
@@ -0,0 +1,117 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { checkAdminAccess } from '@/lib/auth';
+import { UploadBatch } from '@/lib/types/database';
+import { ActionResult } from './manpower';
+
+export interface UploadBatchWithUploader extends UploadBatch {
+  uploader_name?: string;
+}
+
+/**
+ * Get the most recent upload batches with the uploader's name
+ */
+export async function getUploadBatches(limit = 50): Promise<{
+  success: boolean;
+  data?: UploadBatchWithUploader[];
+  message: string;
+}> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { data: batches, error } = await supabase
+      .from('upload_batches')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching upload batches:', error);
+      return { success: false, message: 'Failed to fetch upload history' };
+    }
+
+    // uploaded_by references auth.users, so resolve names from profiles separately
+    const uploaderIds = [...new Set((batches || []).map(batch => batch.uploaded_by).filter(Boolean))];
+    const uploaderNames = new Map<string, string>();
+
+    if (uploaderIds.length > 0) {
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('user_id, first_name, last_name, email')
+        .in('user_id', uploaderIds);
+
+      (profiles || []).forEach(profile => {
+        const name = [profile.first_name, profile.last_name].filter(Boolean).join(' ');
+        uploaderNames.set(profile.user_id, name || profile.email || 'Unknown');
+      });
+    }
+
+    return {
+      success: true,
+      data: (batches || []).map(batch => ({
+        ...batch,
+        uploader_name: batch.uploaded_by ? uploaderNames.get(batch.uploaded_by) : undefined
+      })) as UploadBatchWithUploader[],
+      message: 'Upload history fetched successfully'
+    };
+  } catch (error) {
+    console.error('Unexpected error fetching upload batches:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+}
+
+/**
+ * Roll back an upload batch: deletes the rows it inserted, restores rows its
+ * dedup step refreshed and lets the summary triggers recalculate production totals.
+ */
+export async function rollbackUploadBatch(batchId: string): Promise<ActionResult & {
+  recordsDeleted?: number;
+  recordsRestored?: number;
+}> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { data, error } = await supabase.rpc('rollback_upload_batch', {
+      p_batch_id: batchId
+    });
+
+    if (error) {
+      console.error('Error rolling back upload batch:', error);
+      return {
+        success: false,
+        message: 'Failed to roll back upload batch',
+        error: error.message
+      };
+    }
+
+    revalidatePath('/upload');
+    revalidatePath('/production');
+    return {
+      success: true,
+      message: `Batch rolled back: ${data.records_deleted} record${data.records_deleted !== 1 ? 's' : ''} deleted, ${data.records_restored} restored`,
+      recordsDeleted: data.records_deleted,
+      recordsRestored: data.records_restored
+    };
+  } catch (error) {
+    console.error('Unexpected error rolling back upload batch:', error);
+    return {
+      success: false,
+      message: 'An unexpected error occurred',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
@@ -0,0 +1,82 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { checkAdminAccess } from '@/lib/auth';
+import { UploadIngestionFile, UploadIngestionRun, UploadIngestionSource } from '@/lib/types/database';
+import { describeIngestionSource, runUploadIngestion, UploadIngestionRunSummary } from '@/lib/upload/ingestion';
+import { ActionResult } from './manpower';
+
+export interface UploadIngestionRunWithFiles extends UploadIngestionRun {
+  files: UploadIngestionFile[];
+}
+
+/**
+ * Get the ingestion log: recent runs with the files each one handled
+ */
+export async function getUploadIngestionRuns(limit = 20): Promise<{
+  success: boolean;
+  data?: UploadIngestionRunWithFiles[];
+  source?: { source: UploadIngestionSource; location: string } | null;
+  message: string;
+}> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { data, error } = await supabase
+      .from('upload_ingestion_runs')
+      .select('*, files:upload_ingestion_files(*)')
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching ingestion runs:', error);
+      return { success: false, message: 'Failed to fetch ingestion log' };
+    }
+
+    return {
+      success: true,
+      data: (data || []) as UploadIngestionRunWithFiles[],
+      source: describeIngestionSource(),
+      message: 'Ingestion log fetched successfully'
+    };
+  } catch (error) {
+    console.error('Unexpected error fetching ingestion runs:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+}
+
+/**
+ * Run the drop-folder ingestion job now instead of waiting for the schedule
+ */
+export async function runUploadIngestionNow(): Promise<ActionResult & { data?: UploadIngestionRunSummary }> {
+  const { isAdmin, userId } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  try {
+    const summary = await runUploadIngestion({ triggeredBy: userId });
+
+    revalidatePath('/upload');
+    return {
+      success: summary.status === 'completed',
+      message: summary.message,
+      data: summary
+    };
+  } catch (error) {
+    console.error('Unexpected error running ingestion:', error);
+    return {
+      success: false,
+      message: 'Ingestion run failed',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
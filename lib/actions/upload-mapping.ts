@@ -0,0 +1,157 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { checkAdminAccess } from '@/lib/auth';
+import { getUploadDataset } from '@/lib/upload/datasets';
+import { UploadMappingProfile } from '@/lib/types/database';
+import { ActionResult } from './manpower';
+
+/**
+ * Get saved column mapping profiles for an upload dataset
+ */
+export async function getUploadMappingProfiles(dataset: string): Promise<{
+  success: boolean;
+  data?: UploadMappingProfile[];
+  message: string;
+}> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { data, error } = await supabase
+      .from('upload_mapping_profiles')
+      .select('*')
+      .eq('dataset', dataset)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching mapping profiles:', error);
+      return { success: false, message: 'Failed to fetch mapping profiles' };
+    }
+
+    return { success: true, data: data as UploadMappingProfile[], message: 'Profiles fetched successfully' };
+  } catch (error) {
+    console.error('Unexpected error fetching mapping profiles:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+}
+
+/**
+ * Save a named mapping profile. Saving with an existing name overwrites that profile.
+ */
+export async function saveUploadMappingProfile(profile: {
+  dataset: string;
+  name: string;
+  headers: string[];
+  mapping: Record<string, string>;
+}): Promise<ActionResult & { data?: UploadMappingProfile }> {
+  const { isAdmin, userId } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const descriptor = getUploadDataset(profile.dataset);
+  if (!descriptor) {
+    return { success: false, message: `Unknown upload dataset: ${profile.dataset}` };
+  }
+
+  const name = profile.name.trim();
+  if (!name) {
+    return { success: false, message: 'Profile name is required' };
+  }
+
+  // Only keep mappings for real dataset columns
+  const columnKeys = new Set(descriptor.columns.map(column => column.key));
+  const mapping = Object.fromEntries(
+    Object.entries(profile.mapping).filter(([key]) => columnKeys.has(key))
+  );
+
+  if (Object.keys(mapping).length === 0) {
+    return { success: false, message: 'Map at least one column before saving a profile' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { data, error } = await supabase
+      .from('upload_mapping_profiles')
+      .upsert(
+        {
+          dataset: descriptor.id,
+          name,
+          headers: profile.headers.filter(header => header !== ''),
+          mapping,
+          created_by: userId
+        },
+        { onConflict: 'dataset,name' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving mapping profile:', error);
+      return {
+        success: false,
+        message: 'Failed to save mapping profile',
+        error: error.message
+      };
+    }
+
+    return {
+      success: true,
+      data: data as UploadMappingProfile,
+      message: `Mapping profile "${name}" saved`
+    };
+  } catch (error) {
+    console.error('Unexpected error saving mapping profile:', error);
+    return {
+      success: false,
+      message: 'An unexpected error occurred',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Delete a saved mapping profile
+ */
+export async function deleteUploadMappingProfile(id: string): Promise<ActionResult> {
+  const { isAdmin } = await checkAdminAccess();
+
+  if (!isAdmin) {
+    return { success: false, message: 'Unauthorized: Admin access required' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const { error } = await supabase
+      .from('upload_mapping_profiles')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting mapping profile:', error);
+      return {
+        success: false,
+        message: 'Failed to delete mapping profile',
+        error: error.message
+      };
+    }
+
+    return { success: true, message: 'Mapping profile deleted' };
+  } catch (error) {
+    console.error('Unexpected error deleting mapping profile:', error);
+    return {
+      success: false,
+      message: 'An unexpected error occurred',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
@@ -0,0 +1,111 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  evaluateTiers,
+  findPeriod,
+  groupProductionByAdvisor,
+  ineligibleReasons,
+  programPeriods,
+  sumProduction,
+  tenureMonth
+} from '../engine';
+import { EAMB_RULES, OVERRIDE_RULES, PLAN_B_RULES, PRODUCTION, QGB_RULES } from './fixtures';
+
+describe('tenureMonth', () => {
+  it('counts the month of hire as month 1', () => {
+    assert.equal(tenureMonth('2025-02-03', 2025, 2), 1);
+    assert.equal(tenureMonth('2024-11-15', 2025, 3), 5);
+  });
+
+  it('is zero or less before the month of hire', () => {
+    assert.equal(tenureMonth('2025-02-03', 2025, 1), 0);
+  });
+
+  it('is null without a date hired', () => {
+    assert.equal(tenureMonth(undefined, 2025, 1), null);
+  });
+});
+
+describe('ineligibleReasons', () => {
+  it('applies to everyone when eligibility is empty', () => {
+    assert.deepEqual(ineligibleReasons({}, { advisorClass: 'UM', appRole: null, tenureMonth: null }), []);
+  });
+
+  it('checks the class', () => {
+    assert.deepEqual(
+      ineligibleReasons({ classes: ['FA'] }, { advisorClass: 'um', tenureMonth: 4 }),
+      ['Class um is not eligible']
+    );
+  });
+
+  it('checks the app role of the linked account', () => {
+    const eligibility = { app_roles: ['advisor' as const] };
+    assert.deepEqual(ineligibleReasons(eligibility, { appRole: 'advisor', tenureMonth: 1 }), []);
+    assert.deepEqual(ineligibleReasons(eligibility, { appRole: 'manager', tenureMonth: 1 }), ['The manager role is not eligible']);
+    assert.deepEqual(ineligibleReasons(eligibility, { appRole: null, tenureMonth: 1 }), ['No portal account is linked']);
+  });
+
+  it('checks the tenure range', () => {
+    const eligibility = { min_tenure_months: 3, max_tenure_months: 12 };
+    assert.deepEqual(ineligibleReasons(eligibility, { tenureMonth: 2 }), ['Tenure month 2, eligible from month 3']);
+    assert.deepEqual(ineligibleReasons(eligibility, { tenureMonth: 13 }), ['Tenure month 13, eligible up to month 12']);
+    assert.deepEqual(ineligibleReasons(eligibility, { tenureMonth: null }), ['Date hired is not recorded']);
+  });
+});
+
+describe('evaluateTiers', () => {
+  it('pays the highest tier reached on the payout base', () => {
+    const outcome = evaluateTiers(QGB_RULES, { production: 60000, payoutBase: 60000, cases: 4 });
+    assert.equal(outcome.tierIndex, 0);
+    assert.equal(outcome.amount, 3000);
+    assert.equal(outcome.gapToNextTier, 40000);
+  });
+
+  it('pays nothing while a qualifier is unmet', () => {
+    const outcome = evaluateTiers(QGB_RULES, { production: 120000, payoutBase: 120000, cases: 2 });
+    assert.equal(outcome.tierIndex, 1);
+    assert.equal(outcome.amount, 0);
+    assert.deepEqual(outcome.unmetQualifiers, ['2 of 3 cases']);
+  });
+
+  it('requires persistency on file when the rules set a minimum', () => {
+    const rules = { ...QGB_RULES, qualifiers: { min_persistency: 0.8 } };
+    const values = { production: 60000, payoutBase: 60000, cases: 0 };
+    assert.deepEqual(evaluateTiers(rules, values).unmetQualifiers, ['No persistency on file (needs 80.0%)']);
+    assert.deepEqual(
+      evaluateTiers(rules, values, { persistency: 0.75 }).unmetQualifiers,
+      ['Persistency 75.0% below 80.0%']
+    );
+    assert.equal(evaluateTiers(rules, values, { persistency: 0.85 }).amount, 3000);
+  });
+});
+
+describe('sumProduction', () => {
+  it('totals the metric, payout base and cases over the months', () => {
+    const a001 = groupProductionByAdvisor(PRODUCTION).get('A001')!;
+    assert.deepEqual(
+      sumProduction(a001.months, 1, 3, 'agency_credits', 'fy_commission_php'),
+      { production: 60000, payoutBase: 24000, cases: 4 }
+    );
+  });
+
+  it('adds advisors to include with no months', () => {
+    const advisors = groupProductionByAdvisor(PRODUCTION, [{ advisor_code: 'A009' }]);
+    assert.equal(advisors.get('A009')?.months.size, 0);
+  });
+});
+
+describe('programPeriods', () => {
+  it('follows each program', () => {
+    assert.deepEqual(programPeriods(QGB_RULES).map(period => period.key), ['Q1', 'Q2', 'Q3', 'Q4']);
+    assert.deepEqual(programPeriods(PLAN_B_RULES).map(period => period.key), ['Q1', 'Q2']);
+    assert.equal(programPeriods(EAMB_RULES).length, 12);
+    assert.equal(programPeriods(OVERRIDE_RULES).at(-1)?.key, 'FY');
+  });
+
+  it('finds a period by key', () => {
+    assert.deepEqual(findPeriod(QGB_RULES, 'Q2'), { key: 'Q2', startMonth: 4, endMonth: 6 });
+    assert.deepEqual(findPeriod(EAMB_RULES, '03'), { key: '03', startMonth: 3, endMonth: 3 });
+    assert.equal(findPeriod(EAMB_RULES, 'FY'), undefined);
+  });
+});
@@ -0,0 +1,106 @@
+// Fixture production for the bonus calculator tests: a small 2025 agency of
+// one senior manager, two unit managers and three advisors
+
+import { BonusProductionRow, BonusProgram, BonusRuleSet } from '@/lib/types/database';
+import { BonusAdvisorInfo } from '../engine';
+import { OverrideNode } from '../override';
+
+export const YEAR = 2025;
+
+type Production = Pick<BonusProductionRow, 'agency_credits' | 'net_sales_credits' | 'fy_commission_php' | 'settled_apps'>;
+
+export const ADVISORS: Record<string, BonusAdvisorInfo> = {
+  S001: { advisor_code: 'S001', advisor_name: 'Sara Santos', advisor_class: 'SM', date_hired: '2015-06-01' },
+  M001: { advisor_code: 'M001', advisor_name: 'Mia Mendoza', advisor_class: 'UM', manager_id: 'S001', date_hired: '2020-01-10' },
+  M002: { advisor_code: 'M002', advisor_name: 'Noel Navarro', advisor_class: 'UM', manager_id: 'S001', date_hired: '2024-09-01' },
+  A001: { advisor_code: 'A001', advisor_name: 'Ana Aquino', advisor_class: 'FA', manager_id: 'M001', date_hired: '2024-11-15' },
+  A002: { advisor_code: 'A002', advisor_name: 'Ben Bautista', advisor_class: 'FA', manager_id: 'M001', date_hired: '2025-02-03' },
+  A003: { advisor_code: 'A003', advisor_name: 'Cruz Castro', advisor_class: 'FA', manager_id: 'M002' }
+};
+
+export const MANPOWER: OverrideNode[] = Object.values(ADVISORS);
+
+function row(advisorCode: string, month: number, production: Production): BonusProductionRow {
+  const start = new Date(Date.UTC(YEAR, month - 1, 1)).toISOString().slice(0, 10);
+  const end = new Date(Date.UTC(YEAR, month, 0)).toISOString().slice(0, 10);
+  const { date_hired, advisor_name, advisor_class, unit_code, manager_id } = ADVISORS[advisorCode];
+
+  return {
+    advisor_code: advisorCode,
+    advisor_name,
+    advisor_class,
+    date_hired,
+    unit_code,
+    manager_id,
+    period_month: month,
+    period_start: start,
+    period_end: end,
+    fy_premium_php: 0,
+    rn_commission_php: 0,
+    submitted_apps: production.settled_apps,
+    ...production
+  };
+}
+
+export const PRODUCTION: BonusProductionRow[] = [
+  row('A001', 1, { agency_credits: 30000, net_sales_credits: 25000, fy_commission_php: 12000, settled_apps: 2 }),
+  row('A001', 2, { agency_credits: 20000, net_sales_credits: 18000, fy_commission_php: 8000, settled_apps: 1 }),
+  row('A001', 3, { agency_credits: 10000, net_sales_credits: 9000, fy_commission_php: 4000, settled_apps: 1 }),
+  row('A001', 4, { agency_credits: 50000, net_sales_credits: 45000, fy_commission_php: 20000, settled_apps: 3 }),
+  row('A002', 2, { agency_credits: 15000, net_sales_credits: 12000, fy_commission_php: 6000, settled_apps: 1 }),
+  row('A002', 3, { agency_credits: 25000, net_sales_credits: 20000, fy_commission_php: 10000, settled_apps: 2 }),
+  row('A003', 1, { agency_credits: 80000, net_sales_credits: 70000, fy_commission_php: 30000, settled_apps: 4 }),
+  row('M001', 1, { agency_credits: 40000, net_sales_credits: 35000, fy_commission_php: 15000, settled_apps: 2 })
+];
+
+export const monthRows = (first: number, last = first) =>
+  PRODUCTION.filter(entry => entry.period_month >= first && entry.period_month <= last);
+
+function ruleSet(program: BonusProgram, rules: Partial<BonusRuleSet>): BonusRuleSet {
+  return {
+    id: `${program}-${YEAR}`,
+    program,
+    plan_year: YEAR,
+    metric: 'agency_credits',
+    period_type: 'calendar',
+    tiers: [],
+    qualifiers: {},
+    class_rates: {},
+    windows: [],
+    eligibility: {},
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    ...rules
+  };
+}
+
+export const QGB_RULES = ruleSet('qgb', {
+  tiers: [
+    { min_production: 50000, rate: 0.05 },
+    { min_production: 100000, rate: 0.1 }
+  ],
+  qualifiers: { min_cases: 3 }
+});
+
+export const OVERRIDE_RULES = ruleSet('override', {
+  class_rates: { UM: [0.1], SM: [0.05, 0.02] }
+});
+
+export const PLAN_B_RULES = ruleSet('plan_b', {
+  payout_metric: 'fy_commission_php',
+  tiers: [{ min_production: 50000, rate: 0.2 }],
+  qualifiers: { min_cases: 3 },
+  windows: [
+    { label: 'Q1', start_month: 1, end_month: 3, payout_after_months: 1 },
+    { label: 'Q2', start_month: 4, end_month: 6, payout_after_months: 2 }
+  ]
+});
+
+export const EAMB_RULES = ruleSet('eamb', {
+  tiers: [
+    { min_production: 20000, rate: 0.1 },
+    { min_production: 40000, rate: 0.15 }
+  ],
+  qualifiers: { min_cases: 1 },
+  eligibility: { classes: ['FA'], min_tenure_months: 1, max_tenure_months: 3 }
+});
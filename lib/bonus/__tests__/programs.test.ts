@@ -0,0 +1,240 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyEambSnapshots, EambTracker, evaluateEambRows } from '../eamb';
+import { computeOverrides, sumOverrideProduction } from '../override';
+import { applyPlanBSnapshots, evaluatePlanBRows, PlanBTracker, windowPayoutDate, windowStatus } from '../plan-b';
+import { elapsedShare, evaluateQgb, evaluateQgbRows } from '../qgb';
+import {
+  ADVISORS,
+  EAMB_RULES,
+  MANPOWER,
+  monthRows,
+  OVERRIDE_RULES,
+  PLAN_B_RULES,
+  PRODUCTION,
+  QGB_RULES,
+  YEAR
+} from './fixtures';
+
+const TAKEN_AT = '2025-05-02T08:00:00Z';
+
+const byCode = <T extends { advisor_code: string }>(results: T[], code: string): T => {
+  const result = results.find(entry => entry.advisor_code === code);
+  assert.ok(result, `${code} is in the results`);
+  return result;
+};
+
+describe('QGB', () => {
+  it('evaluates a closed quarter', () => {
+    const advisors = evaluateQgbRows(QGB_RULES, YEAR, 1, monthRows(1, 3), { elapsed: 1 });
+
+    assert.deepEqual(advisors.slice(0, 2).map(advisor => advisor.advisor_code), ['A003', 'A001']);
+    assert.equal(byCode(advisors, 'A003').earned.bonus, 4000);
+    assert.equal(byCode(advisors, 'A001').earned.bonus, 3000);
+
+    const a002 = byCode(advisors, 'A002').earned;
+    assert.equal(a002.tierIndex, -1);
+    assert.equal(a002.bonus, 0);
+
+    const m001 = byCode(advisors, 'M001').earned;
+    assert.equal(m001.tierIndex, -1);
+    assert.deepEqual(m001.unmetQualifiers, ['2 of 3 cases']);
+  });
+
+  it('projects production to date over the whole quarter', () => {
+    const evaluation = evaluateQgb(QGB_RULES, { production: 30000, cases: 2 }, null, 0.5);
+
+    assert.equal(evaluation.earned.bonus, 0);
+    assert.equal(evaluation.projected.production, 60000);
+    assert.equal(evaluation.projected.cases, 4);
+    assert.equal(evaluation.projected.bonus, 3000);
+  });
+
+  it('counts elapsed days including today', () => {
+    assert.equal(elapsedShare('2025-01-01', '2025-01-10', '2025-01-05'), 0.5);
+    assert.equal(elapsedShare('2025-01-01', '2025-01-10', '2024-12-31'), 0);
+    assert.equal(elapsedShare('2025-01-01', '2025-01-10', '2025-02-01'), 1);
+  });
+
+  it('pays only eligible advisors, checked as of the quarter end', () => {
+    const rules = { ...QGB_RULES, eligibility: { classes: ['FA'], min_tenure_months: 3 } };
+    const advisors = evaluateQgbRows(rules, YEAR, 1, monthRows(1, 3), { elapsed: 1 });
+
+    assert.equal(byCode(advisors, 'A001').earned.bonus, 3000);
+    assert.deepEqual(byCode(advisors, 'A002').earned.unmetQualifiers, ['Tenure month 2, eligible from month 3']);
+    assert.equal(byCode(advisors, 'A003').earned.bonus, 0);
+    assert.deepEqual(byCode(advisors, 'A003').earned.unmetQualifiers, ['Date hired is not recorded']);
+    assert.deepEqual(byCode(advisors, 'M001').earned.unmetQualifiers, ['Class UM is not eligible', '2 of 3 cases']);
+  });
+
+  it('limits the rules to app roles', () => {
+    const rules = { ...QGB_RULES, eligibility: { app_roles: ['advisor' as const] } };
+    const advisors = evaluateQgbRows(rules, YEAR, 1, monthRows(1, 3), {
+      elapsed: 1,
+      appRoles: new Map([['A001', 'advisor' as const], ['A003', 'manager' as const]])
+    });
+
+    assert.equal(byCode(advisors, 'A001').earned.bonus, 3000);
+    assert.deepEqual(byCode(advisors, 'A003').earned.unmetQualifiers, ['The manager role is not eligible']);
+  });
+
+  it('includes advisors without production', () => {
+    const advisors = evaluateQgbRows(QGB_RULES, YEAR, 2, monthRows(4, 6), {
+      elapsed: 1,
+      include: [ADVISORS.A002]
+    });
+
+    assert.equal(byCode(advisors, 'A002').earned.production, 0);
+    assert.equal(byCode(advisors, 'A002').earned.gapToNextTier, 50000);
+  });
+});
+
+describe('Override', () => {
+  it('pays each generation at the manager class rate', () => {
+    const managers = computeOverrides(MANPOWER, sumOverrideProduction(monthRows(1)), OVERRIDE_RULES);
+
+    assert.deepEqual(managers.map(manager => manager.advisor_code), ['M002', 'S001', 'M001']);
+    assert.equal(byCode(managers, 'M002').override, 8000);
+    assert.equal(byCode(managers, 'M001').override, 3000);
+    assert.equal(byCode(managers, 'M001').subordinateCount, 2);
+
+    const s001 = byCode(managers, 'S001');
+    assert.equal(s001.override, 4200);
+    assert.equal(s001.subordinateCount, 5);
+    assert.equal(s001.totals.agency_credits, 150000);
+    assert.deepEqual(
+      s001.contributions.map(contribution => [contribution.advisor_code, contribution.generation, contribution.override]),
+      [['M001', 1, 2000], ['A003', 2, 1600], ['A001', 2, 600]]
+    );
+  });
+
+  it('never counts a manager\'s own production', () => {
+    const m001 = byCode(computeOverrides(MANPOWER, sumOverrideProduction(monthRows(1)), OVERRIDE_RULES), 'M001');
+    assert.ok(m001.contributions.every(contribution => contribution.advisor_code !== 'M001'));
+  });
+
+  it('leaves out ineligible managers', () => {
+    const rules = { ...OVERRIDE_RULES, eligibility: { min_tenure_months: 12 } };
+    const managers = computeOverrides(MANPOWER, sumOverrideProduction(monthRows(1)), rules, { year: YEAR, month: 1 });
+
+    assert.deepEqual(managers.map(manager => manager.advisor_code), ['S001', 'M001']);
+  });
+
+  it('leaves out managers who are no longer active', () => {
+    const nodes = MANPOWER.map(node => ({ ...node, status: node.advisor_code === 'M002' ? 'cancelled' : 'active' }));
+    const managers = computeOverrides(nodes, sumOverrideProduction(monthRows(1)), OVERRIDE_RULES);
+
+    assert.deepEqual(managers.map(manager => manager.advisor_code), ['S001', 'M001']);
+    // The cancelled manager's team still counts towards the managers above
+    assert.equal(byCode(managers, 'S001').override, 4200);
+  });
+});
+
+describe('Plan B', () => {
+  it('evaluates every window on the payout metric', () => {
+    const advisors = evaluatePlanBRows(PLAN_B_RULES, YEAR, PLAN_B_RULES.windows, PRODUCTION);
+
+    assert.deepEqual(advisors.map(advisor => advisor.advisor_code), ['A001', 'A002', 'A003', 'M001']);
+
+    const [q1, q2] = byCode(advisors, 'A001').windows;
+    assert.deepEqual([q1.production, q1.payoutBase, q1.cases], [60000, 24000, 4]);
+    assert.equal(q1.payout, 4800);
+    assert.equal(q2.payout, 4000);
+
+    assert.equal(byCode(advisors, 'A002').windows[0].payout, 0);
+    assert.equal(byCode(advisors, 'A003').windows[0].payout, 6000);
+    assert.deepEqual(byCode(advisors, 'M001').windows[0].unmetQualifiers, ['2 of 3 cases']);
+  });
+
+  it('schedules payouts after each window', () => {
+    const [q1, q2] = PLAN_B_RULES.windows;
+    assert.equal(windowPayoutDate(YEAR, q1), '2025-04-30');
+    assert.equal(windowPayoutDate(YEAR, q2), '2025-08-31');
+
+    const dates = { start: '2025-01-01', end: '2025-03-31', payoutDate: '2025-04-30' };
+    assert.equal(windowStatus(dates, '2024-12-31'), 'upcoming');
+    assert.equal(windowStatus(dates, '2025-03-31'), 'open');
+    assert.equal(windowStatus(dates, '2025-04-10'), 'awaiting_payout');
+    assert.equal(windowStatus(dates, '2025-04-30'), 'paid');
+  });
+
+  it('shows frozen windows from their snapshot', () => {
+    const live = evaluatePlanBRows(PLAN_B_RULES, YEAR, PLAN_B_RULES.windows, PRODUCTION);
+    const tracker: PlanBTracker = {
+      ruleSet: PLAN_B_RULES,
+      schedule: PLAN_B_RULES.windows.map(window => ({
+        ...window,
+        start: '',
+        end: '',
+        payoutDate: windowPayoutDate(YEAR, window),
+        status: 'paid'
+      })),
+      currentAdvisorCode: null,
+      advisors: live,
+      snapshots: {}
+    };
+    const frozenA001 = { ...byCode(live, 'A001').windows[0], payout: 4500 };
+    const frozenZ001 = { ...byCode(live, 'A003').windows[0], payout: 1000 };
+
+    const result = applyPlanBSnapshots(tracker, new Map([['Q1', {
+      rule_set: PLAN_B_RULES,
+      taken_at: TAKEN_AT,
+      results: [
+        { ...ADVISORS.A001, window: frozenA001 },
+        { advisor_code: 'Z001', advisor_name: 'Zed Zamora', window: frozenZ001 }
+      ]
+    }]]));
+
+    assert.deepEqual(result.snapshots, { Q1: TAKEN_AT });
+    assert.deepEqual(byCode(result.advisors, 'A001').windows.map(window => window.payout), [4500, 4000]);
+    // Production uploaded after the freeze does not count towards the frozen window
+    assert.equal(byCode(result.advisors, 'A003').windows[0].payout, 0);
+    assert.deepEqual(byCode(result.advisors, 'Z001').windows.map(window => window.payout), [1000, 0]);
+  });
+});
+
+describe('EAMB', () => {
+  const months = [1, 2, 3, 4].map(month => ({ month, closed: month < 4 }));
+
+  it('evaluates each month within the tenure range', () => {
+    const advisors = evaluateEambRows(EAMB_RULES, YEAR, months, PRODUCTION);
+
+    const a001 = byCode(advisors, 'A001');
+    assert.deepEqual(a001.months.map(month => month.tenureMonth), [3, 4, 5, 6]);
+    assert.deepEqual(a001.months.map(month => month.amount), [3000, 0, 0, 0]);
+    assert.deepEqual(a001.months[1].ineligibleReasons, ['Tenure month 4, eligible up to month 3']);
+    assert.equal(a001.total, 3000);
+    assert.equal(a001.qualifiedMonths, 1);
+
+    const a002 = byCode(advisors, 'A002');
+    assert.deepEqual(a002.months[0].ineligibleReasons, ['Tenure month 0, eligible from month 1']);
+    assert.equal(a002.months[1].gapToNextTier, 5000);
+    assert.equal(a002.months[2].amount, 2500);
+    assert.equal(a002.months[3].casesNeeded, 1);
+    assert.equal(a002.months[3].closed, false);
+
+    assert.ok(byCode(advisors, 'M001').months.every(month => !month.eligible && month.amount === 0));
+  });
+
+  it('shows frozen months from their snapshot', () => {
+    const live = evaluateEambRows(EAMB_RULES, YEAR, months, PRODUCTION);
+    const tracker: EambTracker = {
+      ruleSet: EAMB_RULES,
+      currentMonth: 4,
+      currentAdvisorCode: null,
+      advisors: live,
+      snapshots: {}
+    };
+
+    const result = applyEambSnapshots(tracker, YEAR, new Map([['01', {
+      rule_set: EAMB_RULES,
+      taken_at: TAKEN_AT,
+      results: [{ ...ADVISORS.A001, month: { ...byCode(live, 'A001').months[0], amount: 5000 } }]
+    }]]));
+
+    assert.deepEqual(result.snapshots, { '01': TAKEN_AT });
+    assert.equal(byCode(result.advisors, 'A001').total, 5000);
+    assert.equal(byCode(result.advisors, 'A002').months[2].amount, 2500);
+    assert.equal(byCode(result.advisors, 'A003').months[0].amount, 0);
+  });
+});
@@ -0,0 +1,179 @@
+// Loaders shared by the bonus calculators. Production and hierarchy are read in
+// pages because PostgREST caps every response at 1000 rows, which an admin's
+// agency-wide view easily exceeds.
+
+import { createClient } from '@/lib/supabase/server';
+import { AppRole, BonusProductionRow, BonusProgram, BonusRuleSet, ManpowerRecord } from '@/lib/types/database';
+import { BonusAdvisorInfo } from './engine';
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+const PAGE_SIZE = 1000;
+
+export interface SummaryPeriod {
+  period_month: number;
+  period_start: string; // YYYY-MM-DD
+  period_end: string; // YYYY-MM-DD
+}
+
+export type BonusManpowerNode = Pick<
+  ManpowerRecord,
+  'code_number' | 'advisor_name' | 'class' | 'manager_id' | 'date_hired' | 'status'
+>;
+
+/**
+ * Monthly production of every advisor the caller may see for a range of
+ * months, from get_bonus_production_data
+ */
+export async function fetchBonusProduction(
+  supabase: ServerClient,
+  periodType: 'calendar' | 'systems',
+  year: number,
+  monthFrom: number,
+  monthTo: number
+): Promise<BonusProductionRow[]> {
+  const rows: BonusProductionRow[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc('get_bonus_production_data', {
+        p_period_type: periodType,
+        p_year: year,
+        p_month_from: monthFrom,
+        p_month_to: monthTo
+      })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load bonus production: ${error.message}`);
+    }
+
+    rows.push(...((data || []) as BonusProductionRow[]).map(row => ({
+      ...row,
+      settled_apps: Number(row.settled_apps) || 0,
+      agency_credits: Number(row.agency_credits) || 0,
+      net_sales_credits: Number(row.net_sales_credits) || 0,
+      fy_premium_php: Number(row.fy_premium_php) || 0,
+      fy_commission_php: Number(row.fy_commission_php) || 0,
+      rn_commission_php: Number(row.rn_commission_php) || 0,
+      submitted_apps: Number(row.submitted_apps) || 0
+    })));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+/**
+ * Manpower records the caller may see (manpower RLS applies), with the
+ * fields the calculators need to walk the hierarchy
+ */
+export async function fetchBonusManpower(supabase: ServerClient): Promise<BonusManpowerNode[]> {
+  const nodes: BonusManpowerNode[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('manpower')
+      .select('code_number, advisor_name, class, manager_id, date_hired, status')
+      .order('code_number')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load manpower: ${error.message}`);
+    }
+
+    nodes.push(...((data || []) as BonusManpowerNode[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return nodes;
+}
+
+/**
+ * A program's rule set for a plan year, or null when none is set
+ */
+export async function fetchBonusRuleSet(
+  supabase: ServerClient,
+  program: BonusProgram,
+  year: number
+): Promise<BonusRuleSet | null> {
+  const { data, error } = await supabase
+    .from('bonus_rule_sets')
+    .select('*')
+    .eq('program', program)
+    .eq('plan_year', year)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load ${program} rules: ${error.message}`);
+  }
+
+  return data as BonusRuleSet | null;
+}
+
+/**
+ * Start and end of each period month of a year, keyed by month. Systems
+ * months that have no closing period set up are missing.
+ */
+export async function fetchSummaryPeriods(
+  supabase: ServerClient,
+  year: number,
+  periodType: 'calendar' | 'systems'
+): Promise<Map<number, SummaryPeriod>> {
+  const { data, error } = await supabase.rpc('get_summary_periods', {
+    p_year: year,
+    p_period_type: periodType
+  });
+
+  if (error) {
+    throw new Error(`Failed to load ${periodType} periods: ${error.message}`);
+  }
+
+  return new Map(((data || []) as SummaryPeriod[]).map(period => [period.period_month, period]));
+}
+
+/**
+ * The caller's own manpower record, so advisors see their bonus before their
+ * first case of the period
+ */
+export async function fetchOwnAdvisor(supabase: ServerClient, userId: string): Promise<BonusAdvisorInfo | null> {
+  const { data } = await supabase
+    .from('manpower')
+    .select('code_number, advisor_name, class, unit_code, manager_id, date_hired')
+    .eq('profile_user_id', userId)
+    .maybeSingle();
+
+  if (!data) return null;
+
+  return {
+    advisor_code: data.code_number,
+    advisor_name: data.advisor_name ?? undefined,
+    advisor_class: data.class ?? undefined,
+    unit_code: data.unit_code ?? undefined,
+    manager_id: data.manager_id ?? undefined,
+    date_hired: data.date_hired ?? undefined
+  };
+}
+
+/**
+ * App role of each given advisor's linked account, for rule sets limited to
+ * some roles. Advisors without an account are left out.
+ */
+export async function fetchBonusAppRoles(supabase: ServerClient, codes: string[]): Promise<Map<string, AppRole>> {
+  const roles = new Map<string, AppRole>();
+
+  for (let from = 0; from < codes.length; from += PAGE_SIZE) {
+    const { data, error } = await supabase.rpc('get_bonus_app_roles', {
+      p_codes: codes.slice(from, from + PAGE_SIZE)
+    });
+
+    if (error) {
+      throw new Error(`Failed to load advisor roles: ${error.message}`);
+    }
+
+    ((data || []) as { advisor_code: string; app_role: AppRole }[])
+      .forEach(row => roles.set(row.advisor_code, row.app_role));
+  }
+
+  return roles;
+}
@@ -0,0 +1,185 @@
+// EAMB: a monthly bonus on AC and lives for advisors of the eligible classes
+// within the program's tenure range
+
+import { AppRole, BonusProductionRow, BonusRuleSet, BonusTier } from '@/lib/types/database';
+import {
+  BonusAdvisorInfo,
+  evaluateTiers,
+  groupProductionByAdvisor,
+  ineligibleReasons,
+  sumProduction,
+  TierValues,
+  monthPeriodKey,
+  tenureMonth
+} from './engine';
+
+export type EambValues = TierValues;
+
+export interface EambMonthResult extends EambValues {
+  month: number; // Period month, 1-12
+  closed: boolean; // False for the month in progress
+  tenureMonth: number | null; // Null without a date_hired
+  eligible: boolean;
+  ineligibleReasons: string[];
+  tierIndex: number; // -1 when below the first tier
+  rate: number;
+  amount: number; // Zero unless eligible, qualified and within a tier
+  qualified: boolean;
+  unmetQualifiers: string[];
+  nextTier?: BonusTier;
+  gapToNextTier?: number;
+  casesNeeded: number; // Lives still short of the monthly minimum
+}
+
+export interface EambAdvisorResult extends BonusAdvisorInfo {
+  months: EambMonthResult[]; // Every month of the year up to the one in progress
+  qualifiedMonths: number;
+  total: number;
+}
+
+export interface EambTracker {
+  ruleSet: BonusRuleSet | null; // Null when no rules are set for the plan year
+  currentMonth: number | null; // Period month in progress; null for past years
+  currentAdvisorCode: string | null;
+  advisors: EambAdvisorResult[];
+  snapshots: Record<string, string>; // Month key ("01") -> ISO timestamp it was frozen at
+}
+
+// One advisor's frozen result for a month
+export interface EambSnapshotResult extends BonusAdvisorInfo {
+  month: EambMonthResult;
+}
+
+export type EambRules = Pick<BonusRuleSet, 'tiers' | 'qualifiers' | 'eligibility'>;
+
+const ZERO_VALUES: EambValues = { production: 0, payoutBase: 0, cases: 0 };
+
+const withTotals = (advisor: Omit<EambAdvisorResult, 'qualifiedMonths' | 'total'>): EambAdvisorResult => ({
+  ...advisor,
+  qualifiedMonths: advisor.months.filter(result => result.amount > 0).length,
+  total: advisor.months.reduce((sum, result) => sum + result.amount, 0)
+});
+
+const byName = (a: BonusAdvisorInfo, b: BonusAdvisorInfo) =>
+  (a.advisor_name || a.advisor_code).localeCompare(b.advisor_name || b.advisor_code);
+
+/**
+ * Evaluate one advisor's month. The highest tier reached pays its rate on the
+ * month's payout base, provided the advisor is eligible that month and has
+ * the minimum lives.
+ */
+export function evaluateEambMonth(
+  rules: EambRules,
+  advisor: Pick<BonusAdvisorInfo, 'advisor_class' | 'date_hired'> & { app_role?: AppRole | null },
+  year: number,
+  month: number,
+  closed: boolean,
+  values: EambValues
+): EambMonthResult {
+  const tenure = tenureMonth(advisor.date_hired, year, month);
+  const notEligible = ineligibleReasons(rules.eligibility, {
+    advisorClass: advisor.advisor_class,
+    appRole: advisor.app_role ?? null,
+    tenureMonth: tenure
+  });
+  const outcome = evaluateTiers(rules, values, { casesLabel: 'lives' });
+  const minCases = rules.qualifiers.min_cases;
+  const qualified = notEligible.length === 0 && outcome.qualified;
+
+  return {
+    ...values,
+    month,
+    closed,
+    tenureMonth: tenure,
+    eligible: notEligible.length === 0,
+    ineligibleReasons: notEligible,
+    tierIndex: outcome.tierIndex,
+    rate: outcome.rate,
+    amount: qualified ? outcome.amount : 0,
+    qualified,
+    unmetQualifiers: outcome.unmetQualifiers,
+    nextTier: outcome.nextTier,
+    gapToNextTier: outcome.gapToNextTier,
+    casesNeeded: minCases ? Math.max(minCases - values.cases, 0) : 0
+  };
+}
+
+/**
+ * Evaluate the given months for every advisor with production in them, plus
+ * those in `include`, by name
+ */
+export function evaluateEambRows(
+  rules: EambRules & Pick<BonusRuleSet, 'metric' | 'payout_metric'>,
+  year: number,
+  months: { month: number; closed: boolean }[],
+  rows: BonusProductionRow[],
+  context: { appRoles?: Map<string, AppRole>; include?: BonusAdvisorInfo[] } = {}
+): EambAdvisorResult[] {
+  const payoutMetric = rules.payout_metric ?? rules.metric;
+
+  return Array.from(groupProductionByAdvisor(rows, context.include).values())
+    .map(({ months: production, ...advisor }) => {
+      const appRole = context.appRoles?.get(advisor.advisor_code) ?? null;
+      const monthResults = months.map(({ month, closed }) => evaluateEambMonth(
+        rules,
+        { ...advisor, app_role: appRole },
+        year,
+        month,
+        closed,
+        sumProduction(production, month, month, rules.metric, payoutMetric)
+      ));
+
+      return withTotals({ ...advisor, months: monthResults });
+    })
+    .sort(byName);
+}
+
+/**
+ * Replace the live results of frozen months with their snapshots, keyed by
+ * month ("01"). Advisors missing from a snapshot had nothing that month when
+ * it was frozen; advisors only in a snapshot are kept.
+ */
+export function applyEambSnapshots(
+  tracker: EambTracker,
+  year: number,
+  snapshots: Map<string, { rule_set: BonusRuleSet; taken_at: string; results: EambSnapshotResult[] }>
+): EambTracker {
+  if (!tracker.ruleSet || snapshots.size === 0) return tracker;
+  const rules = tracker.ruleSet;
+
+  const frozen = new Map(Array.from(snapshots, ([key, snapshot]) => [
+    key,
+    new Map(snapshot.results.map(result => [result.advisor_code, result.month]))
+  ]));
+
+  const advisors = new Map(tracker.advisors.map(advisor => [advisor.advisor_code, advisor]));
+  snapshots.forEach(snapshot => snapshot.results.forEach(result => {
+    if (advisors.has(result.advisor_code)) return;
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { month, ...advisor } = result;
+    advisors.set(advisor.advisor_code, withTotals({ ...advisor, months: [] }));
+  }));
+
+  // Every advisor shares the same months, so any live advisor gives them
+  const months = tracker.advisors[0]?.months.map(({ month, closed }) => ({ month, closed }))
+    ?? Array.from(snapshots.keys()).map(key => ({ month: Number(key), closed: true })).sort((a, b) => a.month - b.month);
+
+  return {
+    ...tracker,
+    advisors: Array.from(advisors.values())
+      .map(advisor => withTotals({
+        ...advisor,
+        months: months.map(({ month, closed }) => {
+          const snapshot = snapshots.get(monthPeriodKey(month));
+          if (snapshot) {
+            return frozen.get(monthPeriodKey(month))?.get(advisor.advisor_code)
+              ?? evaluateEambMonth(snapshot.rule_set, advisor, year, month, true, ZERO_VALUES);
+          }
+          return advisor.months.find(result => result.month === month)
+            ?? evaluateEambMonth(rules, advisor, year, month, closed, ZERO_VALUES);
+        })
+      }))
+      .sort(byName),
+    snapshots: Object.fromEntries(Array.from(snapshots, ([key, snapshot]) => [key, snapshot.taken_at]))
+  };
+}
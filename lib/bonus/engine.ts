@@ -0,0 +1,246 @@
+// Rules engine shared by every bonus program: who a rule set applies to, which
+// tier a period's production reaches and whether its qualifiers are met, and
+// the periods a program is reported and snapshotted by. Kept free of database
+// access so it can be checked against fixture production.
+
+import {
+  AppRole,
+  BonusEligibility,
+  BonusMetric,
+  BonusProductionRow,
+  BonusQualifiers,
+  BonusRuleSet,
+  BonusTier
+} from '@/lib/types/database';
+import { findTier } from './tiers';
+
+export interface BonusAdvisorInfo {
+  advisor_code: string;
+  advisor_name?: string;
+  advisor_class?: string;
+  unit_code?: string;
+  manager_id?: string;
+  date_hired?: string; // ISO date
+}
+
+export interface AdvisorProduction extends BonusAdvisorInfo {
+  months: Map<number, BonusProductionRow>;
+}
+
+export interface EligibilityContext {
+  advisorClass?: string;
+  appRole?: AppRole | null; // Null when the advisor has no linked account
+  tenureMonth: number | null; // Null without a date_hired
+}
+
+export interface TierValues {
+  production: number; // The rule set's qualifying metric
+  payoutBase: number; // What the tier rate is paid on
+  cases: number; // Settled apps (lives)
+}
+
+export interface TierOutcome {
+  tierIndex: number; // -1 when below the first tier
+  rate: number;
+  amount: number; // Zero unless every qualifier is met
+  qualified: boolean;
+  unmetQualifiers: string[];
+  nextTier?: BonusTier;
+  gapToNextTier?: number;
+}
+
+// A span of period months a program's results are reported for
+export interface BonusPeriod {
+  key: string; // Snapshot key, unique within a program and plan year
+  startMonth: number;
+  endMonth: number;
+}
+
+export const monthPeriodKey = (month: number) => String(month).padStart(2, '0');
+
+/**
+ * The periods a rule set's results are reported and snapshotted by: quarters
+ * for QGB, eligibility windows for Plan B, months for EAMB and months or the
+ * whole year for overrides
+ */
+export function programPeriods(ruleSet: Pick<BonusRuleSet, 'program' | 'windows'>): BonusPeriod[] {
+  const months = Array.from({ length: 12 }, (_, index) => ({
+    key: monthPeriodKey(index + 1),
+    startMonth: index + 1,
+    endMonth: index + 1
+  }));
+
+  switch (ruleSet.program) {
+    case 'qgb':
+      return [1, 2, 3, 4].map(quarter => ({
+        key: `Q${quarter}`,
+        startMonth: (quarter - 1) * 3 + 1,
+        endMonth: quarter * 3
+      }));
+    case 'plan_b':
+      return ruleSet.windows.map(window => ({
+        key: window.label,
+        startMonth: window.start_month,
+        endMonth: window.end_month
+      }));
+    case 'eamb':
+      return months;
+    case 'override':
+      return [...months, { key: 'FY', startMonth: 1, endMonth: 12 }];
+  }
+}
+
+export function findPeriod(ruleSet: Pick<BonusRuleSet, 'program' | 'windows'>, key: string): BonusPeriod | undefined {
+  return programPeriods(ruleSet).find(period => period.key === key);
+}
+
+/**
+ * Month of service a period month falls in, counting the month of hire as the
+ * first. Zero or less when the advisor was hired after it.
+ */
+export function tenureMonth(dateHired: string | undefined, year: number, month: number): number | null {
+  if (!dateHired) return null;
+
+  const [hiredYear, hiredMonth] = dateHired.split('-').map(Number);
+  if (!hiredYear || !hiredMonth) return null;
+
+  return (year - hiredYear) * 12 + (month - hiredMonth) + 1;
+}
+
+/**
+ * Why a rule set does not apply to an advisor; empty when it does. Omitted
+ * eligibility keys do not restrict.
+ */
+export function ineligibleReasons(eligibility: BonusEligibility | undefined, context: EligibilityContext): string[] {
+  const reasons: string[] = [];
+  if (!eligibility) return reasons;
+
+  if (eligibility.classes?.length && !eligibility.classes.includes((context.advisorClass || '').toUpperCase())) {
+    reasons.push(`Class ${context.advisorClass || 'not set'} is not eligible`);
+  }
+
+  if (eligibility.app_roles?.length && !(context.appRole && eligibility.app_roles.includes(context.appRole))) {
+    reasons.push(context.appRole ? `The ${context.appRole} role is not eligible` : 'No portal account is linked');
+  }
+
+  const { min_tenure_months: minTenure, max_tenure_months: maxTenure } = eligibility;
+  if (minTenure || maxTenure) {
+    const tenure = context.tenureMonth;
+    if (tenure === null) {
+      reasons.push('Date hired is not recorded');
+    } else if (minTenure && tenure < minTenure) {
+      reasons.push(`Tenure month ${Math.max(tenure, 0)}, eligible from month ${minTenure}`);
+    } else if (maxTenure && tenure > maxTenure) {
+      reasons.push(`Tenure month ${tenure}, eligible up to month ${maxTenure}`);
+    }
+  }
+
+  return reasons;
+}
+
+function unmetQualifiers(
+  qualifiers: BonusQualifiers,
+  cases: number,
+  persistency: number | null | undefined,
+  casesLabel: string
+): string[] {
+  const unmet: string[] = [];
+
+  if (qualifiers.min_cases && cases < qualifiers.min_cases) {
+    unmet.push(`${cases} of ${qualifiers.min_cases} ${casesLabel}`);
+  }
+
+  if (qualifiers.min_persistency) {
+    const required = `${(qualifiers.min_persistency * 100).toFixed(1)}%`;
+    if (persistency == null) {
+      unmet.push(`No persistency on file (needs ${required})`);
+    } else if (persistency < qualifiers.min_persistency) {
+      unmet.push(`Persistency ${(persistency * 100).toFixed(1)}% below ${required}`);
+    }
+  }
+
+  return unmet;
+}
+
+/**
+ * Evaluate a period's production against a rule set's tiers. The highest tier
+ * reached pays its rate on the whole payout base, and nothing is paid while a
+ * qualifier is unmet.
+ */
+export function evaluateTiers(
+  rules: Pick<BonusRuleSet, 'tiers' | 'qualifiers'>,
+  values: TierValues,
+  options: { persistency?: number | null; casesLabel?: string } = {}
+): TierOutcome {
+  const tierIndex = findTier(rules.tiers, values.production);
+  const rate = tierIndex >= 0 ? rules.tiers[tierIndex].rate : 0;
+  const unmet = unmetQualifiers(rules.qualifiers, values.cases, options.persistency, options.casesLabel ?? 'cases');
+  const nextTier = rules.tiers[tierIndex + 1];
+
+  return {
+    tierIndex,
+    rate,
+    amount: unmet.length === 0 ? values.payoutBase * rate : 0,
+    qualified: unmet.length === 0,
+    unmetQualifiers: unmet,
+    nextTier,
+    gapToNextTier: nextTier ? nextTier.min_production - values.production : undefined
+  };
+}
+
+/**
+ * Group monthly production rows by advisor. Advisors in `include` are added
+ * with no months so they still see what they need before their first case.
+ */
+export function groupProductionByAdvisor(
+  rows: BonusProductionRow[],
+  include: BonusAdvisorInfo[] = []
+): Map<string, AdvisorProduction> {
+  const advisors = new Map<string, AdvisorProduction>();
+
+  rows.forEach(row => {
+    const advisor = advisors.get(row.advisor_code) ?? {
+      advisor_code: row.advisor_code,
+      advisor_name: row.advisor_name,
+      advisor_class: row.advisor_class,
+      unit_code: row.unit_code,
+      manager_id: row.manager_id,
+      date_hired: row.date_hired,
+      months: new Map()
+    };
+    advisor.months.set(row.period_month, row);
+    advisors.set(row.advisor_code, advisor);
+  });
+
+  include.forEach(info => {
+    if (!advisors.has(info.advisor_code)) {
+      advisors.set(info.advisor_code, { ...info, months: new Map() });
+    }
+  });
+
+  return advisors;
+}
+
+/**
+ * Total an advisor's qualifying production, payout base and cases over a
+ * span of period months
+ */
+export function sumProduction(
+  months: Map<number, BonusProductionRow>,
+  startMonth: number,
+  endMonth: number,
+  metric: BonusMetric,
+  payoutMetric: BonusMetric = metric
+): TierValues {
+  const values: TierValues = { production: 0, payoutBase: 0, cases: 0 };
+
+  for (let month = startMonth; month <= endMonth; month++) {
+    const row = months.get(month);
+    if (!row) continue;
+    values.production += row[metric];
+    values.payoutBase += row[payoutMetric];
+    values.cases += row.settled_apps;
+  }
+
+  return values;
+}
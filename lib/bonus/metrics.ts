@@ -0,0 +1,25 @@
+// Production metrics the bonus programs can be computed on
+
+import { BonusMetric, BonusProgram } from '@/lib/types/database';
+
+export const BONUS_METRIC_LABELS: Record<BonusMetric, string> = {
+  agency_credits: 'Agency Credits (AC)',
+  net_sales_credits: 'Net Sales Credits (NSC)',
+  fy_commission_php: 'FY Commission (FYC)'
+};
+
+// Metrics each program may be set to qualify or pay on
+export const PROGRAM_METRICS: Record<BonusProgram, BonusMetric[]> = {
+  qgb: ['agency_credits', 'net_sales_credits'],
+  override: ['agency_credits', 'net_sales_credits', 'fy_commission_php'],
+  plan_b: ['agency_credits', 'net_sales_credits'],
+  eamb: ['agency_credits']
+};
+
+// Page each program's tracker lives on, revalidated when its rules or snapshots change
+export const BONUS_PROGRAM_PATHS: Record<BonusProgram, string> = {
+  qgb: '/bonus/qgb',
+  override: '/bonus/override',
+  plan_b: '/bonus/plan-b',
+  eamb: '/bonus/eamb'
+};
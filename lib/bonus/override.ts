@@ -0,0 +1,170 @@
+// Manager override: subordinate production rolled up the manager_id chain and
+// paid at a rate per manager class and generation
+
+import { AppRole, BonusProductionRow, BonusRuleSet } from '@/lib/types/database';
+import { ineligibleReasons, tenureMonth } from './engine';
+
+// Same cut-off as get_all_subordinates, which also guards against cycles
+const MAX_DEPTH = 10;
+
+export interface OverrideNode {
+  advisor_code: string;
+  advisor_name?: string;
+  advisor_class?: string;
+  manager_id?: string;
+  date_hired?: string; // ISO date
+  status?: string; // Managers must be active; subordinates count either way
+}
+
+export interface OverrideProduction {
+  agency_credits: number;
+  net_sales_credits: number;
+  fy_commission_php: number;
+}
+
+export interface OverrideContribution extends OverrideProduction {
+  advisor_code: string;
+  advisor_name?: string;
+  advisor_class?: string;
+  generation: number; // 1 for direct reports, matching level_depth
+  base: number; // The rule set's metric
+  rate: number;
+  override: number;
+}
+
+export interface ManagerOverride {
+  advisor_code: string;
+  advisor_name?: string;
+  advisor_class?: string;
+  manager_id?: string;
+  rates: number[]; // Rate per generation for the manager's class
+  subordinateCount: number;
+  totals: OverrideProduction; // Whole subtree, paid generations or not
+  override: number;
+  contributions: OverrideContribution[]; // Paid generations only, largest override first
+}
+
+export type OverrideRules = Pick<BonusRuleSet, 'metric' | 'class_rates'> & Partial<Pick<BonusRuleSet, 'eligibility'>>;
+
+export interface OverrideReport {
+  ruleSet: BonusRuleSet | null; // Null when no rules are set for the plan year
+  currentAdvisorCode: string | null;
+  managers: ManagerOverride[];
+  closed: boolean; // The month, or the year, has ended
+  snapshotAt?: string; // ISO timestamp the period was frozen at; live figures when unset
+}
+
+// Eligibility of managers is checked as of the last month reported on
+export interface OverrideEligibilityContext {
+  year: number;
+  month: number;
+  appRoles?: Map<string, AppRole>;
+}
+
+export const emptyOverrideProduction = (): OverrideProduction => ({
+  agency_credits: 0,
+  net_sales_credits: 0,
+  fy_commission_php: 0
+});
+
+/**
+ * Total each advisor's override metrics over the given production rows
+ */
+export function sumOverrideProduction(rows: BonusProductionRow[]): Map<string, OverrideProduction> {
+  const production = new Map<string, OverrideProduction>();
+
+  rows.forEach(row => {
+    const values = production.get(row.advisor_code) ?? emptyOverrideProduction();
+    values.agency_credits += row.agency_credits;
+    values.net_sales_credits += row.net_sales_credits;
+    values.fy_commission_php += row.fy_commission_php;
+    production.set(row.advisor_code, values);
+  });
+
+  return production;
+}
+
+/**
+ * Compute the override of every active, eligible manager whose class has rates.
+ * Production of subordinates n levels down is paid at the class's nth rate;
+ * the manager's own production never counts.
+ */
+export function computeOverrides(
+  nodes: OverrideNode[],
+  production: Map<string, OverrideProduction>,
+  rules: OverrideRules,
+  context?: OverrideEligibilityContext
+): ManagerOverride[] {
+  const children = new Map<string, OverrideNode[]>();
+  nodes.forEach(node => {
+    if (!node.manager_id) return;
+    const siblings = children.get(node.manager_id) ?? [];
+    siblings.push(node);
+    children.set(node.manager_id, siblings);
+  });
+
+  return nodes
+    .filter(node => !node.status || node.status === 'active')
+    .filter(node => rules.class_rates[node.advisor_class?.toUpperCase() ?? ''])
+    .filter(node => !context || ineligibleReasons(rules.eligibility, {
+      advisorClass: node.advisor_class,
+      appRole: context.appRoles?.get(node.advisor_code) ?? null,
+      tenureMonth: tenureMonth(node.date_hired, context.year, context.month)
+    }).length === 0)
+    .map(manager => {
+      const rates = rules.class_rates[manager.advisor_class!.toUpperCase()];
+      const totals = emptyOverrideProduction();
+      const contributions: OverrideContribution[] = [];
+      const visited = new Set([manager.advisor_code]);
+      let subordinateCount = 0;
+
+      let level = children.get(manager.advisor_code) ?? [];
+      for (let generation = 1; generation <= MAX_DEPTH && level.length > 0; generation++) {
+        const nextLevel: OverrideNode[] = [];
+
+        level.forEach(subordinate => {
+          if (visited.has(subordinate.advisor_code)) return;
+          visited.add(subordinate.advisor_code);
+          subordinateCount++;
+          nextLevel.push(...(children.get(subordinate.advisor_code) ?? []));
+
+          const values = production.get(subordinate.advisor_code);
+          if (!values) return;
+
+          totals.agency_credits += values.agency_credits;
+          totals.net_sales_credits += values.net_sales_credits;
+          totals.fy_commission_php += values.fy_commission_php;
+
+          const rate = rates[generation - 1] ?? 0;
+          const base = values[rules.metric];
+          if (rate > 0 && base !== 0) {
+            contributions.push({
+              ...values,
+              advisor_code: subordinate.advisor_code,
+              advisor_name: subordinate.advisor_name,
+              advisor_class: subordinate.advisor_class,
+              generation,
+              base,
+              rate,
+              override: base * rate
+            });
+          }
+        });
+
+        level = nextLevel;
+      }
+
+      return {
+        advisor_code: manager.advisor_code,
+        advisor_name: manager.advisor_name,
+        advisor_class: manager.advisor_class,
+        manager_id: manager.manager_id,
+        rates,
+        subordinateCount,
+        totals,
+        override: contributions.reduce((sum, contribution) => sum + contribution.override, 0),
+        contributions: contributions.sort((a, b) => b.override - a.override)
+      };
+    })
+    .sort((a, b) => b.override - a.override);
+}
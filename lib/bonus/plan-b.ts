@@ -0,0 +1,174 @@
+// Plan B: credit thresholds evaluated per eligibility window, paid on a schedule
+
+import { AppRole, BonusProductionRow, BonusRuleSet, BonusTier, BonusWindow } from '@/lib/types/database';
+import {
+  BonusAdvisorInfo,
+  evaluateTiers,
+  groupProductionByAdvisor,
+  ineligibleReasons,
+  sumProduction,
+  tenureMonth
+} from './engine';
+
+export type PlanBWindowStatus = 'upcoming' | 'open' | 'awaiting_payout' | 'paid';
+
+export interface PlanBWindowSchedule extends BonusWindow {
+  start: string; // YYYY-MM-DD, start of the window's first period month
+  end: string; // YYYY-MM-DD, end of its last period month
+  payoutDate: string; // YYYY-MM-DD
+  status: PlanBWindowStatus;
+}
+
+export interface PlanBValues {
+  production: number; // Qualifying credits
+  payoutBase: number; // What the tier rate is paid on
+  cases: number; // Settled apps (lives)
+}
+
+export interface PlanBWindowResult extends PlanBValues {
+  label: string;
+  tierIndex: number; // -1 when below the first tier
+  rate: number;
+  payout: number; // Zero unless qualified
+  qualified: boolean;
+  unmetQualifiers: string[];
+  nextTier?: BonusTier;
+  gapToNextTier?: number;
+}
+
+export interface PlanBAdvisorResult extends BonusAdvisorInfo {
+  windows: PlanBWindowResult[]; // Same order as the schedule
+}
+
+export interface PlanBTracker {
+  ruleSet: BonusRuleSet | null; // Null when no rules are set for the plan year
+  schedule: PlanBWindowSchedule[];
+  currentAdvisorCode: string | null;
+  advisors: PlanBAdvisorResult[];
+  snapshots: Record<string, string>; // Window label -> ISO timestamp it was frozen at
+}
+
+// One advisor's frozen result for a window
+export interface PlanBSnapshotResult extends BonusAdvisorInfo {
+  window: PlanBWindowResult;
+}
+
+export type PlanBRules = Pick<BonusRuleSet, 'tiers' | 'qualifiers'>;
+
+const ZERO_VALUES: PlanBValues = { production: 0, payoutBase: 0, cases: 0 };
+
+/**
+ * Last day of the calendar month `payout_after_months` after the window's
+ * last month
+ */
+export function windowPayoutDate(year: number, window: BonusWindow): string {
+  return new Date(Date.UTC(year, window.end_month + window.payout_after_months, 0)).toISOString().slice(0, 10);
+}
+
+export function windowStatus(window: Pick<PlanBWindowSchedule, 'start' | 'end' | 'payoutDate'>, today: string): PlanBWindowStatus {
+  if (today < window.start) return 'upcoming';
+  if (today <= window.end) return 'open';
+  if (today < window.payoutDate) return 'awaiting_payout';
+  return 'paid';
+}
+
+/**
+ * Evaluate one advisor's window. The highest threshold reached pays its rate
+ * on the window's payout base; nothing is paid below the minimum cases or
+ * when the rules do not apply to the advisor.
+ */
+export function evaluatePlanBWindow(
+  rules: PlanBRules,
+  label: string,
+  values: PlanBValues,
+  ineligible: string[] = []
+): PlanBWindowResult {
+  const outcome = evaluateTiers(rules, values);
+  const unmetQualifiers = [...ineligible, ...outcome.unmetQualifiers];
+
+  return {
+    ...values,
+    label,
+    tierIndex: outcome.tierIndex,
+    rate: outcome.rate,
+    payout: unmetQualifiers.length === 0 ? outcome.amount : 0,
+    qualified: unmetQualifiers.length === 0,
+    unmetQualifiers,
+    nextTier: outcome.nextTier,
+    gapToNextTier: outcome.gapToNextTier
+  };
+}
+
+/**
+ * Evaluate every window for every advisor with production in the year, plus
+ * those in `include`, by name. Eligibility is checked as of each window's
+ * last month.
+ */
+export function evaluatePlanBRows(
+  rules: PlanBRules & Pick<BonusRuleSet, 'metric' | 'payout_metric' | 'eligibility'>,
+  year: number,
+  windows: BonusWindow[],
+  rows: BonusProductionRow[],
+  context: { appRoles?: Map<string, AppRole>; include?: BonusAdvisorInfo[] } = {}
+): PlanBAdvisorResult[] {
+  const payoutMetric = rules.payout_metric ?? rules.metric;
+
+  return Array.from(groupProductionByAdvisor(rows, context.include).values())
+    .map(({ months, ...advisor }) => ({
+      ...advisor,
+      windows: windows.map(window => evaluatePlanBWindow(
+        rules,
+        window.label,
+        sumProduction(months, window.start_month, window.end_month, rules.metric, payoutMetric),
+        ineligibleReasons(rules.eligibility, {
+          advisorClass: advisor.advisor_class,
+          appRole: context.appRoles?.get(advisor.advisor_code) ?? null,
+          tenureMonth: tenureMonth(advisor.date_hired, year, window.end_month)
+        })
+      ))
+    }))
+    .sort((a, b) => (a.advisor_name || a.advisor_code).localeCompare(b.advisor_name || b.advisor_code));
+}
+
+/**
+ * Replace the live results of frozen windows with their snapshots, keyed by
+ * window label. Advisors missing from a snapshot had nothing in the window
+ * when it was frozen; advisors only in a snapshot are kept.
+ */
+export function applyPlanBSnapshots(
+  tracker: PlanBTracker,
+  snapshots: Map<string, { rule_set: BonusRuleSet; taken_at: string; results: PlanBSnapshotResult[] }>
+): PlanBTracker {
+  if (!tracker.ruleSet || snapshots.size === 0) return tracker;
+  const rules = tracker.ruleSet;
+
+  const frozen = new Map(Array.from(snapshots, ([label, snapshot]) => [
+    label,
+    new Map(snapshot.results.map(result => [result.advisor_code, result.window]))
+  ]));
+
+  const advisors = new Map(tracker.advisors.map(advisor => [advisor.advisor_code, advisor]));
+  snapshots.forEach(snapshot => snapshot.results.forEach(result => {
+    if (advisors.has(result.advisor_code)) return;
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { window, ...advisor } = result;
+    advisors.set(advisor.advisor_code, { ...advisor, windows: [] });
+  }));
+
+  return {
+    ...tracker,
+    advisors: Array.from(advisors.values())
+      .map(advisor => ({
+        ...advisor,
+        windows: tracker.schedule.map(({ label }) => {
+          const snapshot = snapshots.get(label);
+          if (snapshot) {
+            return frozen.get(label)?.get(advisor.advisor_code) ?? evaluatePlanBWindow(snapshot.rule_set, label, ZERO_VALUES);
+          }
+          return advisor.windows.find(result => result.label === label) ?? evaluatePlanBWindow(rules, label, ZERO_VALUES);
+        })
+      }))
+      .sort((a, b) => (a.advisor_name || a.advisor_code).localeCompare(b.advisor_name || b.advisor_code)),
+    snapshots: Object.fromEntries(Array.from(snapshots, ([label, snapshot]) => [label, snapshot.taken_at]))
+  };
+}
@@ -0,0 +1,280 @@
+// Live evaluation of each bonus program for the advisors the caller may see.
+// The tracker actions show these figures for periods that are not frozen, and
+// freezing a period snapshots them. Loaders throw on database errors; setup
+// problems an admin can fix come back as unsuccessful results.
+
+import { createClient } from '@/lib/supabase/server';
+import { AppRole, BonusRuleSet } from '@/lib/types/database';
+import {
+  fetchBonusAppRoles,
+  fetchBonusManpower,
+  fetchBonusProduction,
+  fetchBonusRuleSet,
+  fetchSummaryPeriods
+} from './data';
+import { BonusAdvisorInfo } from './engine';
+import { EambTracker, evaluateEambRows } from './eamb';
+import { computeOverrides, OverrideReport, sumOverrideProduction } from './override';
+import { evaluatePlanBRows, PlanBTracker, PlanBWindowSchedule, windowPayoutDate, windowStatus } from './plan-b';
+import { elapsedShare, evaluateQgbRows, Quarter, QgbTracker, quarterMonths } from './qgb';
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+export interface ProgramResult<T> {
+  success: boolean;
+  data?: T;
+  message: string;
+}
+
+const today = () => new Date().toLocaleDateString('en-CA');
+
+// Only systems months depend on closing periods an admin sets up
+const missingPeriodsMessage = (periodType: BonusRuleSet['period_type'], label: string) =>
+  periodType === 'systems'
+    ? `Systems closing periods are not set up for every month of ${label}`
+    : `No ${periodType} periods were found for every month of ${label}`;
+
+// Roles are only looked up when the rule set is limited to some
+async function loadAppRoles(
+  supabase: ServerClient,
+  rules: BonusRuleSet,
+  codes: Iterable<string>
+): Promise<Map<string, AppRole> | undefined> {
+  if (!rules.eligibility?.app_roles?.length) return undefined;
+  return fetchBonusAppRoles(supabase, Array.from(new Set(codes)));
+}
+
+/**
+ * QGB for one quarter, earned to date and projected to the quarter end
+ */
+export async function computeQgb(
+  supabase: ServerClient,
+  year: number,
+  quarter: Quarter,
+  own: BonusAdvisorInfo | null
+): Promise<ProgramResult<QgbTracker>> {
+  const currentAdvisorCode = own?.advisor_code ?? null;
+  const rules = await fetchBonusRuleSet(supabase, 'qgb', year);
+
+  if (!rules) {
+    return {
+      success: true,
+      data: { ruleSet: null, elapsed: 0, currentAdvisorCode, advisors: [] },
+      message: `No QGB rules are set for ${year}`
+    };
+  }
+
+  const months = quarterMonths(quarter);
+  const periods = await fetchSummaryPeriods(supabase, year, rules.period_type);
+  const first = periods.get(months[0]);
+  const last = periods.get(months[months.length - 1]);
+
+  if (months.some(month => !periods.has(month)) || !first || !last) {
+    return {
+      success: false,
+      message: missingPeriodsMessage(rules.period_type, `Q${quarter} ${year}`)
+    };
+  }
+
+  const quarterStart = first.period_start;
+  const quarterEnd = last.period_end;
+  const rows = await fetchBonusProduction(supabase, rules.period_type, year, months[0], months[months.length - 1]);
+  const codes = [...rows.map(row => row.advisor_code), ...(own ? [own.advisor_code] : [])];
+
+  const persistency = new Map<string, number>();
+  if (rules.qualifiers.min_persistency && codes.length > 0) {
+    const { data: rates, error } = await supabase
+      .from('advisor_persistency')
+      .select('advisor_code, persistency_rate')
+      .in('advisor_code', Array.from(new Set(codes)))
+      .lte('as_of_date', quarterEnd)
+      .order('as_of_date', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load advisor persistency: ${error.message}`);
+    }
+
+    // Latest first, so the first rate seen per advisor is the one that counts
+    (rates || []).forEach(rate => {
+      if (!persistency.has(rate.advisor_code)) {
+        persistency.set(rate.advisor_code, Number(rate.persistency_rate));
+      }
+    });
+  }
+
+  const elapsed = elapsedShare(quarterStart, quarterEnd, today());
+  const advisors = evaluateQgbRows(rules, year, quarter, rows, {
+    elapsed,
+    persistency,
+    appRoles: await loadAppRoles(supabase, rules, codes),
+    include: own ? [own] : []
+  });
+
+  return {
+    success: true,
+    data: { ruleSet: rules, quarterStart, quarterEnd, elapsed, currentAdvisorCode, advisors },
+    message: 'QGB computed successfully'
+  };
+}
+
+/**
+ * Manager overrides for a month, or for the whole year when no month is given
+ */
+export async function computeOverride(
+  supabase: ServerClient,
+  year: number,
+  month: number | undefined,
+  own: BonusAdvisorInfo | null
+): Promise<ProgramResult<OverrideReport>> {
+  const currentAdvisorCode = own?.advisor_code ?? null;
+  const rules = await fetchBonusRuleSet(supabase, 'override', year);
+
+  if (!rules) {
+    return {
+      success: true,
+      data: { ruleSet: null, currentAdvisorCode, managers: [], closed: false },
+      message: `No override rules are set for ${year}`
+    };
+  }
+
+  const lastMonth = month ?? 12;
+  const [nodes, rows, periods] = await Promise.all([
+    fetchBonusManpower(supabase),
+    fetchBonusProduction(supabase, rules.period_type, year, month ?? 1, lastMonth),
+    fetchSummaryPeriods(supabase, year, rules.period_type)
+  ]);
+  const periodEnd = periods.get(lastMonth)?.period_end;
+
+  const managers = computeOverrides(
+    nodes.map(node => ({
+      advisor_code: node.code_number,
+      advisor_name: node.advisor_name,
+      advisor_class: node.class,
+      manager_id: node.manager_id,
+      date_hired: node.date_hired,
+      status: node.status
+    })),
+    sumOverrideProduction(rows),
+    rules,
+    {
+      year,
+      month: lastMonth,
+      appRoles: await loadAppRoles(supabase, rules, nodes.map(node => node.code_number))
+    }
+  );
+
+  return {
+    success: true,
+    data: { ruleSet: rules, currentAdvisorCode, managers, closed: !!periodEnd && periodEnd < today() },
+    message: 'Overrides computed successfully'
+  };
+}
+
+/**
+ * Plan B for every window of a plan year, with each window's dates, payout
+ * date and status
+ */
+export async function computePlanB(
+  supabase: ServerClient,
+  year: number,
+  own: BonusAdvisorInfo | null
+): Promise<ProgramResult<PlanBTracker>> {
+  const currentAdvisorCode = own?.advisor_code ?? null;
+  const rules = await fetchBonusRuleSet(supabase, 'plan_b', year);
+
+  if (!rules) {
+    return {
+      success: true,
+      data: { ruleSet: null, schedule: [], currentAdvisorCode, advisors: [], snapshots: {} },
+      message: `No Plan B rules are set for ${year}`
+    };
+  }
+
+  const periods = await fetchSummaryPeriods(supabase, year, rules.period_type);
+  const schedule: PlanBWindowSchedule[] = [];
+  for (const window of rules.windows) {
+    const first = periods.get(window.start_month);
+    const last = periods.get(window.end_month);
+    if (!first || !last) {
+      return {
+        success: false,
+        message: missingPeriodsMessage(rules.period_type, `${window.label} ${year}`)
+      };
+    }
+
+    const dates = { start: first.period_start, end: last.period_end, payoutDate: windowPayoutDate(year, window) };
+    schedule.push({ ...window, ...dates, status: windowStatus(dates, today()) });
+  }
+
+  const rows = await fetchBonusProduction(supabase, rules.period_type, year, 1, 12);
+  const codes = [...rows.map(row => row.advisor_code), ...(own ? [own.advisor_code] : [])];
+  const advisors = evaluatePlanBRows(rules, year, rules.windows, rows, {
+    appRoles: await loadAppRoles(supabase, rules, codes),
+    include: own ? [own] : []
+  });
+
+  return {
+    success: true,
+    data: { ruleSet: rules, schedule, currentAdvisorCode, advisors, snapshots: {} },
+    message: 'Plan B computed successfully'
+  };
+}
+
+/**
+ * EAMB for every month of a plan year that has started
+ */
+export async function computeEamb(
+  supabase: ServerClient,
+  year: number,
+  own: BonusAdvisorInfo | null
+): Promise<ProgramResult<EambTracker>> {
+  const currentAdvisorCode = own?.advisor_code ?? null;
+  const rules = await fetchBonusRuleSet(supabase, 'eamb', year);
+
+  if (!rules) {
+    return {
+      success: true,
+      data: { ruleSet: null, currentMonth: null, currentAdvisorCode, advisors: [], snapshots: {} },
+      message: `No EAMB rules are set for ${year}`
+    };
+  }
+
+  const now = today();
+  const started = Array.from((await fetchSummaryPeriods(supabase, year, rules.period_type)).values())
+    .filter(period => period.period_start <= now)
+    .sort((a, b) => a.period_month - b.period_month);
+  const currentMonth = started.find(period => period.period_end >= now)?.period_month ?? null;
+
+  if (started.length === 0) {
+    return {
+      success: true,
+      data: { ruleSet: rules, currentMonth, currentAdvisorCode, advisors: [], snapshots: {} },
+      message: `${year} has not started yet`
+    };
+  }
+
+  const rows = await fetchBonusProduction(
+    supabase,
+    rules.period_type,
+    year,
+    started[0].period_month,
+    started[started.length - 1].period_month
+  );
+  const codes = [...rows.map(row => row.advisor_code), ...(own ? [own.advisor_code] : [])];
+  const advisors = evaluateEambRows(
+    rules,
+    year,
+    started.map(period => ({ month: period.period_month, closed: period.period_end < now })),
+    rows,
+    {
+      appRoles: await loadAppRoles(supabase, rules, codes),
+      include: own ? [own] : []
+    }
+  );
+
+  return {
+    success: true,
+    data: { ruleSet: rules, currentMonth, currentAdvisorCode, advisors, snapshots: {} },
+    message: 'EAMB computed successfully'
+  };
+}
@@ -0,0 +1,159 @@
+// Quarterly Growth Bonus (QGB) evaluation against an admin-defined rule set
+
+import { AppRole, BonusProductionRow, BonusRuleSet, BonusTier } from '@/lib/types/database';
+import {
+  BonusAdvisorInfo,
+  evaluateTiers,
+  groupProductionByAdvisor,
+  ineligibleReasons,
+  sumProduction,
+  tenureMonth
+} from './engine';
+
+export type Quarter = 1 | 2 | 3 | 4;
+
+export const QUARTERS: Quarter[] = [1, 2, 3, 4];
+
+export interface QgbProduction {
+  production: number; // AC or NSC, whichever the rule set qualifies on
+  cases: number; // Settled apps (lives)
+}
+
+export interface QgbOutcome extends QgbProduction {
+  tierIndex: number; // -1 when below the first tier
+  rate: number;
+  bonus: number; // Zero unless every qualifier is met
+  qualified: boolean;
+  unmetQualifiers: string[];
+  nextTier?: BonusTier;
+  gapToNextTier?: number;
+}
+
+export interface QgbEvaluation {
+  earned: QgbOutcome; // Production to date; final once the quarter has closed
+  projected: QgbOutcome; // Production to date extrapolated to the whole quarter
+}
+
+export type QgbRules = Pick<BonusRuleSet, 'tiers' | 'qualifiers'>;
+
+export interface QgbAdvisorResult extends QgbEvaluation, BonusAdvisorInfo {
+  persistency: number | null; // Latest rate on or before the quarter end
+}
+
+export interface QgbTracker {
+  ruleSet: BonusRuleSet | null; // Null when no rules are set for the plan year
+  quarterStart?: string; // YYYY-MM-DD
+  quarterEnd?: string; // YYYY-MM-DD
+  elapsed: number; // Share of the quarter that has passed (0-1)
+  currentAdvisorCode: string | null;
+  advisors: QgbAdvisorResult[];
+  snapshotAt?: string; // ISO timestamp the quarter was frozen at; live figures when unset
+}
+
+export function quarterMonths(quarter: Quarter): number[] {
+  const first = (quarter - 1) * 3 + 1;
+  return [first, first + 1, first + 2];
+}
+
+export function quarterOfMonth(month: number): Quarter {
+  return Math.ceil(month / 3) as Quarter;
+}
+
+// Dates are handled as UTC midnight so day counts never cross a DST change
+const dayNumber = (value: string) => Date.parse(`${value}T00:00:00Z`) / 86_400_000;
+
+/**
+ * Share of a period's days that have passed on `today` (all YYYY-MM-DD),
+ * counting today: 0 before the period starts, 1 once it has ended
+ */
+export function elapsedShare(periodStart: string, periodEnd: string, today: string): number {
+  const totalDays = dayNumber(periodEnd) - dayNumber(periodStart) + 1;
+  const elapsedDays = dayNumber(today) - dayNumber(periodStart) + 1;
+  return Math.min(Math.max(elapsedDays / totalDays, 0), 1);
+}
+
+function evaluateOutcome(
+  rules: QgbRules,
+  values: QgbProduction,
+  persistency: number | null,
+  ineligible: string[]
+): QgbOutcome {
+  const outcome = evaluateTiers(rules, { ...values, payoutBase: values.production }, { persistency });
+  const unmet = [...ineligible, ...outcome.unmetQualifiers];
+
+  return {
+    ...values,
+    tierIndex: outcome.tierIndex,
+    rate: outcome.rate,
+    bonus: unmet.length === 0 ? outcome.amount : 0,
+    qualified: unmet.length === 0,
+    unmetQualifiers: unmet,
+    nextTier: outcome.nextTier,
+    gapToNextTier: outcome.gapToNextTier
+  };
+}
+
+/**
+ * Evaluate an advisor's quarter. The highest tier reached pays its rate on the
+ * whole quarter's production, and nothing is paid while a qualifier is unmet.
+ * The projection scales production and cases by the share of the quarter
+ * that has elapsed; persistency is taken as it stands. Advisors the rules do
+ * not apply to earn nothing, with the reasons listed as unmet qualifiers.
+ */
+export function evaluateQgb(
+  rules: QgbRules,
+  actual: QgbProduction,
+  persistency: number | null,
+  elapsed: number,
+  ineligible: string[] = []
+): QgbEvaluation {
+  const projectedValues = elapsed > 0 && elapsed < 1
+    ? {
+        production: actual.production / elapsed,
+        cases: Math.floor(actual.cases / elapsed)
+      }
+    : actual;
+
+  return {
+    earned: evaluateOutcome(rules, actual, persistency, ineligible),
+    projected: evaluateOutcome(rules, projectedValues, persistency, ineligible)
+  };
+}
+
+/**
+ * Evaluate a quarter for every advisor with production in it, plus those in
+ * `include`, largest earned production first. Eligibility is checked as of
+ * the quarter's last month.
+ */
+export function evaluateQgbRows(
+  rules: QgbRules & Pick<BonusRuleSet, 'metric' | 'eligibility'>,
+  year: number,
+  quarter: Quarter,
+  rows: BonusProductionRow[],
+  context: {
+    elapsed: number;
+    persistency?: Map<string, number>;
+    appRoles?: Map<string, AppRole>;
+    include?: BonusAdvisorInfo[];
+  }
+): QgbAdvisorResult[] {
+  const [firstMonth, , lastMonth] = quarterMonths(quarter);
+
+  return Array.from(groupProductionByAdvisor(rows, context.include).values())
+    .map(({ months, ...advisor }) => {
+      const { production, cases } = sumProduction(months, firstMonth, lastMonth, rules.metric);
+      const persistency = context.persistency?.get(advisor.advisor_code) ?? null;
+      const ineligible = ineligibleReasons(rules.eligibility, {
+        advisorClass: advisor.advisor_class,
+        appRole: context.appRoles?.get(advisor.advisor_code) ?? null,
+        tenureMonth: tenureMonth(advisor.date_hired, year, lastMonth)
+      });
+
+      return {
+        ...advisor,
+        persistency,
+        ...evaluateQgb(rules, { production, cases }, persistency, context.elapsed, ineligible)
+      };
+    })
+    .sort((a, b) => b.earned.production - a.earned.production);
+}
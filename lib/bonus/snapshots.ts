@@ -0,0 +1,104 @@
+// Frozen bonus results. Once an admin freezes a closed period, the trackers
+// show its snapshot instead of recomputing it, so late uploads and rule edits
+// no longer move figures that have been paid or reported.
+
+import { createClient } from '@/lib/supabase/server';
+import { BonusProgram, BonusRuleSet, BonusSnapshot } from '@/lib/types/database';
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+const PAGE_SIZE = 1000;
+
+export interface LoadedSnapshot<T> {
+  period_key: string;
+  rule_set: BonusRuleSet;
+  period_info: Record<string, unknown>;
+  taken_at: string; // ISO timestamp
+  results: T[]; // Only the advisors the caller may see
+}
+
+/**
+ * Snapshots of a program's plan year keyed by period, optionally limited to
+ * some periods, with the results the caller may read
+ */
+export async function fetchBonusSnapshots<T>(
+  supabase: ServerClient,
+  program: BonusProgram,
+  year: number,
+  periodKeys?: string[]
+): Promise<Map<string, LoadedSnapshot<T>>> {
+  let query = supabase
+    .from('bonus_snapshots')
+    .select('id, period_key, rule_set, period_info, taken_at')
+    .eq('program', program)
+    .eq('plan_year', year);
+
+  if (periodKeys) {
+    query = query.in('period_key', periodKeys);
+  }
+
+  const { data: headers, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load ${program} snapshots: ${error.message}`);
+  }
+
+  const snapshots = new Map<string, LoadedSnapshot<T>>();
+  const byId = new Map<string, LoadedSnapshot<T>>();
+  ((headers || []) as Pick<BonusSnapshot, 'id' | 'period_key' | 'rule_set' | 'period_info' | 'taken_at'>[])
+    .forEach(({ id, ...header }) => {
+      const snapshot = { ...header, results: [] };
+      snapshots.set(header.period_key, snapshot);
+      byId.set(id, snapshot);
+    });
+
+  if (byId.size === 0) return snapshots;
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error: resultError } = await supabase
+      .from('bonus_snapshot_results')
+      .select('snapshot_id, result')
+      .in('snapshot_id', Array.from(byId.keys()))
+      .order('snapshot_id')
+      .order('advisor_code')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (resultError) {
+      throw new Error(`Failed to load ${program} snapshot results: ${resultError.message}`);
+    }
+
+    ((data || []) as { snapshot_id: string; result: T }[])
+      .forEach(row => byId.get(row.snapshot_id)?.results.push(row.result));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return snapshots;
+}
+
+/**
+ * Create or replace a period's snapshot with one result per advisor
+ */
+export async function saveBonusSnapshot(
+  supabase: ServerClient,
+  snapshot: {
+    program: BonusProgram;
+    year: number;
+    periodKey: string;
+    ruleSet: BonusRuleSet;
+    periodInfo?: Record<string, unknown>;
+    results: { advisor_code: string; result: unknown }[];
+  }
+): Promise<void> {
+  const { error } = await supabase.rpc('save_bonus_snapshot', {
+    p_program: snapshot.program,
+    p_plan_year: snapshot.year,
+    p_period_key: snapshot.periodKey,
+    p_rule_set: snapshot.ruleSet,
+    p_period_info: snapshot.periodInfo ?? {},
+    p_results: snapshot.results
+  });
+
+  if (error) {
+    throw new Error(`Failed to save the ${snapshot.program} snapshot: ${error.message}`);
+  }
+}
@@ -0,0 +1,15 @@
+// Tier lookup shared by the tiered bonus programs
+
+import { BonusTier } from '@/lib/types/database';
+
+/**
+ * Index of the highest tier the production reaches, or -1. Tiers must be
+ * sorted ascending by min_production.
+ */
+export function findTier(tiers: BonusTier[], production: number): number {
+  let reached = -1;
+  tiers.forEach((tier, index) => {
+    if (production >= tier.min_production) reached = index;
+  });
+  return reached;
+}
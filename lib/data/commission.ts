@@ -1,108 +1,321 @@
 'use server';
 
 import { createClient } from '@/lib/supabase/server';
-import { FYCommissionDetails, RNCommissionDetails, SubmittedAppsDetails, SettledAppsDetails } from '@/lib/types/database';
+import {
+  CommissionStatementLine,
+  FYCommissionDetails,
+  ManpowerRecord,
+  ProductionPeriodType,
+  RNCommissionDetails,
+  SettledAppsDetails,
+  SubmittedAppsDetails
+} from '@/lib/types/database';
 
 export interface CommissionDataResult<T> {
   data: T[] | null;
+  nextCursor: string | null; // Pass back as pagination.cursor for the next page; null on the last page
   error: Error | null;
 }
 
+export interface CommissionPeriod {
+  periodType: ProductionPeriodType;
+  year: number;
+  month?: number; // Omit for the whole year
+}
+
+export interface CommissionDataFilters {
+  startDate?: string; // ISO date, inclusive
+  endDate?: string; // ISO date, inclusive
+  advisorCodes?: string[];
+  policyNumber?: string;
+  transactionType?: string; // FY and RN commission only
+  period?: CommissionPeriod; // Calendar or systems period; combined with startDate/endDate when both are given
+}
+
+// Submitted and settled apps have no transaction type
+export type SalesDataFilters = Omit<CommissionDataFilters, 'transactionType'>;
+
+export interface PaginationOptions {
+  cursor?: string | null;
+  limit?: number; // Defaults to DEFAULT_PAGE_SIZE, capped at MAX_PAGE_SIZE
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+interface DetailRow {
+  id: string;
+  process_date?: string | null;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Cursors are the (process_date, id) of the last row of a page
+const encodeCursor = (row: DetailRow) =>
+  Buffer.from(JSON.stringify([row.process_date ?? null, row.id])).toString('base64url');
+
+function decodeCursor(cursor: string): { processDate: string | null; id: string } | null {
+  try {
+    const [processDate, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    // Both values end up in a PostgREST filter, so anything else is rejected
+    if (typeof id !== 'string' || !UUID_PATTERN.test(id)) return null;
+    if (processDate !== null && (typeof processDate !== 'string' || !DATE_PATTERN.test(processDate))) {
+      return null;
+    }
+    return { processDate, id };
+  } catch {
+    return null;
+  }
+}
+
 /**
- * Fetch First Year Commission data
- * RLS automatically filters based on user's app_role
+ * Date range of a calendar or systems month, or of the whole year
  */
-export async function fetchFYCommissionData(): Promise<CommissionDataResult<FYCommissionDetails>> {
-  try {
-    const supabase = await createClient();
+async function resolvePeriodRange(
+  supabase: ServerClient,
+  period: CommissionPeriod
+): Promise<{ start: string; end: string } | Error> {
+  const { data, error } = await supabase.rpc('get_summary_periods', {
+    p_year: period.year,
+    p_period_type: period.periodType
+  });
+
+  if (error) {
+    return new Error(`Database error: ${error.message}`);
+  }
 
-    const { data, error } = await supabase
-      .from('fy_commission_details')
-      .select('*')
-      .order('process_date', { ascending: false });
+  const periods = ((data || []) as { period_month: number; period_start: string; period_end: string }[])
+    .filter(p => period.month === undefined || p.period_month === period.month);
 
-    if (error) {
-      console.error('Error fetching FY commission data:', error);
-      return {
-        data: null,
-        error: new Error(`Database error: ${error.message}`)
-      };
-    }
+  if (periods.length === 0) {
+    return new Error(
+      period.periodType === 'systems'
+        ? `No systems closing period is set up for ${period.month ? `${period.month}/` : ''}${period.year}`
+        : 'Invalid period'
+    );
+  }
 
-    return {
-      data: data || [],
-      error: null
-    };
-  } catch (error) {
-    console.error('Unexpected error fetching FY commission data:', error);
-    return {
-      data: null,
-      error: error instanceof Error ? error : new Error('Unknown error occurred')
-    };
+  return {
+    start: periods.reduce((min, p) => (p.period_start < min ? p.period_start : min), periods[0].period_start),
+    end: periods.reduce((max, p) => (p.period_end > max ? p.period_end : max), periods[0].period_end)
+  };
+}
+
+/**
+ * Narrow the filters' explicit dates with their period, if any
+ */
+async function resolveDateRange(
+  supabase: ServerClient,
+  filters: CommissionDataFilters
+): Promise<{ start?: string; end?: string } | Error> {
+  if (!filters.period) {
+    return { start: filters.startDate, end: filters.endDate };
+  }
+
+  const range = await resolvePeriodRange(supabase, filters.period);
+  if (range instanceof Error) {
+    return range;
   }
+
+  return {
+    start: filters.startDate && filters.startDate > range.start ? filters.startDate : range.start,
+    end: filters.endDate && filters.endDate < range.end ? filters.endDate : range.end
+  };
 }
 
 /**
- * Fetch Renewal Commission data
+ * Fetch one page of a detail table, newest first
  * RLS automatically filters based on user's app_role
  */
-export async function fetchRNCommissionData(): Promise<CommissionDataResult<RNCommissionDetails>> {
+async function fetchDetailsPage<T extends DetailRow>(
+  table: string,
+  codeColumn: 'code' | 'advisor_code',
+  label: string,
+  filters: CommissionDataFilters,
+  pagination: PaginationOptions
+): Promise<CommissionDataResult<T>> {
   try {
     const supabase = await createClient();
 
-    const { data, error } = await supabase
-      .from('rn_commission_details')
-      .select('*')
-      .order('process_date', { ascending: false });
+    const range = await resolveDateRange(supabase, filters);
+    if (range instanceof Error) {
+      return { data: null, nextCursor: null, error: range };
+    }
+
+    const limit = Math.min(Math.max(pagination.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    let query = supabase.from(table).select('*');
+
+    if (range.start) query = query.gte('process_date', range.start);
+    if (range.end) query = query.lte('process_date', range.end);
+    if (filters.advisorCodes?.length) query = query.in(codeColumn, filters.advisorCodes);
+    if (filters.policyNumber) query = query.eq('policy_number', filters.policyNumber);
+    if (filters.transactionType) query = query.eq('transaction_type', filters.transactionType);
+
+    if (pagination.cursor) {
+      const cursor = decodeCursor(pagination.cursor);
+      if (!cursor) {
+        return { data: null, nextCursor: null, error: new Error('Invalid pagination cursor') };
+      }
+
+      // Rows without a process date sort last
+      query = cursor.processDate
+        ? query.or(
+            `process_date.lt.${cursor.processDate},` +
+            `and(process_date.eq.${cursor.processDate},id.lt.${cursor.id}),` +
+            'process_date.is.null'
+          )
+        : query.is('process_date', null).lt('id', cursor.id);
+    }
+
+    // One extra row tells whether there is a next page
+    const { data, error } = await query
+      .order('process_date', { ascending: false, nullsFirst: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1);
 
     if (error) {
-      console.error('Error fetching RN commission data:', error);
+      console.error(`Error fetching ${label} data:`, error);
       return {
         data: null,
+        nextCursor: null,
         error: new Error(`Database error: ${error.message}`)
       };
     }
 
+    const rows = (data || []) as T[];
+    const page = rows.slice(0, limit);
+
     return {
-      data: data || [],
+      data: page,
+      nextCursor: rows.length > limit ? encodeCursor(page[page.length - 1]) : null,
       error: null
     };
   } catch (error) {
-    console.error('Unexpected error fetching RN commission data:', error);
+    console.error(`Unexpected error fetching ${label} data:`, error);
     return {
       data: null,
+      nextCursor: null,
       error: error instanceof Error ? error : new Error('Unknown error occurred')
     };
   }
 }
 
 /**
- * Fetch Submitted Applications data
+ * Fetch First Year Commission data, a page at a time
  * RLS automatically filters based on user's app_role
  */
-export async function fetchSubmittedAppsData(): Promise<CommissionDataResult<SubmittedAppsDetails>> {
+export async function fetchFYCommissionData(
+  filters: CommissionDataFilters = {},
+  pagination: PaginationOptions = {}
+): Promise<CommissionDataResult<FYCommissionDetails>> {
+  return fetchDetailsPage<FYCommissionDetails>('fy_commission_details', 'code', 'FY commission', filters, pagination);
+}
+
+/**
+ * Fetch Renewal Commission data, a page at a time
+ * RLS automatically filters based on user's app_role
+ */
+export async function fetchRNCommissionData(
+  filters: CommissionDataFilters = {},
+  pagination: PaginationOptions = {}
+): Promise<CommissionDataResult<RNCommissionDetails>> {
+  return fetchDetailsPage<RNCommissionDetails>('rn_commission_details', 'code', 'RN commission', filters, pagination);
+}
+
+/**
+ * Fetch Submitted Applications data, a page at a time
+ * RLS automatically filters based on user's app_role
+ */
+export async function fetchSubmittedAppsData(
+  filters: SalesDataFilters = {},
+  pagination: PaginationOptions = {}
+): Promise<CommissionDataResult<SubmittedAppsDetails>> {
+  return fetchDetailsPage<SubmittedAppsDetails>('submitted_apps_details', 'advisor_code', 'submitted apps', filters, pagination);
+}
+
+/**
+ * Fetch Settled Applications data, a page at a time
+ * RLS automatically filters based on user's app_role
+ */
+export async function fetchSettledAppsData(
+  filters: SalesDataFilters = {},
+  pagination: PaginationOptions = {}
+): Promise<CommissionDataResult<SettledAppsDetails>> {
+  return fetchDetailsPage<SettledAppsDetails>('settled_apps_details', 'advisor_code', 'settled apps', filters, pagination);
+}
+
+/**
+ * Fetch comprehensive sales and commission totals for the given filters,
+ * aggregated in the database by get_commission_totals
+ */
+export async function fetchCommissionSummary(filters: CommissionDataFilters = {}) {
   try {
     const supabase = await createClient();
 
+    const range = await resolveDateRange(supabase, filters);
+    if (range instanceof Error) {
+      return { data: null, error: range };
+    }
+
     const { data, error } = await supabase
-      .from('submitted_apps_details')
-      .select('*')
-      .order('process_date', { ascending: false });
+      .rpc('get_commission_totals', {
+        p_start_date: range.start ?? null,
+        p_end_date: range.end ?? null,
+        p_advisor_codes: filters.advisorCodes?.length ? filters.advisorCodes : null,
+        p_policy_number: filters.policyNumber || null,
+        p_transaction_type: filters.transactionType || null
+      })
+      .single();
 
     if (error) {
-      console.error('Error fetching submitted apps data:', error);
+      console.error('Error fetching commission summary:', error);
       return {
         data: null,
         error: new Error(`Database error: ${error.message}`)
       };
     }
 
+    const totals = data as Record<string, number | string>;
+    const total = (key: string) => Number(totals[key]) || 0;
+
+    const fyTotal = total('fy_commission_total');
+    const rnTotal = total('rn_commission_total');
+    const totalSubmittedApps = total('submitted_apps_total');
+    const totalSettledApps = total('settled_apps_total');
+
     return {
-      data: data || [],
+      data: {
+        // Commission totals
+        fyPremiumTotal: total('fy_premium_total'),
+        fyCommissionTotal: fyTotal,
+        rnCommissionTotal: rnTotal,
+        totalCommission: fyTotal + rnTotal,
+
+        // Application totals
+        totalSubmittedApps: totalSubmittedApps,
+        totalSettledApps: totalSettledApps,
+
+        // Credit totals
+        totalAgencyCredits: total('agency_credits_total'),
+        totalNetSalesCredits: total('net_sales_credits_total'),
+
+        // Record counts
+        fyRecords: total('fy_records'),
+        rnRecords: total('rn_records'),
+        submittedAppRecords: total('submitted_records'),
+        settledAppRecords: total('settled_records'),
+
+        // Conversion rate
+        conversionRate: totalSubmittedApps > 0 ? (totalSettledApps / totalSubmittedApps) * 100 : 0
+      },
       error: null
     };
   } catch (error) {
-    console.error('Unexpected error fetching submitted apps data:', error);
+    console.error('Unexpected error fetching commission summary:', error);
     return {
       data: null,
       error: error instanceof Error ? error : new Error('Unknown error occurred')
@@ -110,21 +323,57 @@ export async function fetchSubmittedAppsData(): Promise<CommissionDataResult<Sub
   }
 }
 
+export interface CommissionStatement {
+  advisor: Pick<ManpowerRecord, 'code_number' | 'advisor_name' | 'unit_code'>;
+  periodStart: string; // ISO date
+  periodEnd: string; // ISO date
+  lines: CommissionStatementLine[];
+}
+
 /**
- * Fetch Settled Applications data
- * RLS automatically filters based on user's app_role
+ * Fetch an advisor's FY and RN commission statement for a calendar or systems
+ * month, or a whole year. Only the advisor, their managers, assigned staff and
+ * admins can read it.
  */
-export async function fetchSettledAppsData(): Promise<CommissionDataResult<SettledAppsDetails>> {
+export async function fetchCommissionStatement(
+  advisorCode: string,
+  period: CommissionPeriod
+): Promise<{ data: CommissionStatement | null; error: Error | null }> {
   try {
     const supabase = await createClient();
 
-    const { data, error } = await supabase
-      .from('settled_apps_details')
-      .select('*')
-      .order('process_date', { ascending: false });
+    const [advisorResult, range] = await Promise.all([
+      supabase
+        .from('manpower')
+        .select('code_number, advisor_name, unit_code')
+        .eq('code_number', advisorCode)
+        .maybeSingle(),
+      resolvePeriodRange(supabase, period)
+    ]);
+
+    if (advisorResult.error) {
+      return {
+        data: null,
+        error: new Error(`Database error: ${advisorResult.error.message}`)
+      };
+    }
+
+    if (!advisorResult.data) {
+      return { data: null, error: new Error(`Advisor ${advisorCode} not found`) };
+    }
+
+    if (range instanceof Error) {
+      return { data: null, error: range };
+    }
+
+    const { data, error } = await supabase.rpc('get_commission_statement', {
+      p_advisor_code: advisorCode,
+      p_period_start: range.start,
+      p_period_end: range.end
+    });
 
     if (error) {
-      console.error('Error fetching settled apps data:', error);
+      console.error('Error fetching commission statement:', error);
       return {
         data: null,
         error: new Error(`Database error: ${error.message}`)
@@ -132,11 +381,21 @@ export async function fetchSettledAppsData(): Promise<CommissionDataResult<Settl
     }
 
     return {
-      data: data || [],
+      data: {
+        advisor: advisorResult.data,
+        periodStart: range.start,
+        periodEnd: range.end,
+        lines: ((data || []) as CommissionStatementLine[]).map(line => ({
+          ...line,
+          premium_php: Number(line.premium_php) || 0,
+          rate: line.rate === null || line.rate === undefined ? undefined : Number(line.rate),
+          commission_php: Number(line.commission_php) || 0
+        }))
+      },
       error: null
     };
   } catch (error) {
-    console.error('Unexpected error fetching settled apps data:', error);
+    console.error('Unexpected error fetching commission statement:', error);
     return {
       data: null,
       error: error instanceof Error ? error : new Error('Unknown error occurred')
@@ -145,95 +404,44 @@ export async function fetchSettledAppsData(): Promise<CommissionDataResult<Settl
 }
 
 /**
- * Fetch comprehensive sales and commission summary by advisor code
+ * Advisors whose statement the user can pick. Manpower RLS limits this to the
+ * user, their subordinates or assigned advisors; it is read in pages since
+ * PostgREST returns at most 1000 rows and an admin sees the whole roster.
  */
-export async function fetchCommissionSummary(advisorCode?: string) {
+export async function fetchStatementAdvisors(): Promise<{
+  data: CommissionStatement['advisor'][] | null;
+  error: Error | null;
+}> {
   try {
     const supabase = await createClient();
-
-    // Build query conditions
-    let fyQuery = supabase
-      .from('fy_commission_details')
-      .select('code, fy_commission_php, process_date');
-
-    let rnQuery = supabase
-      .from('rn_commission_details')
-      .select('code, rn_commission_php, year, process_date');
-
-    let submittedAppsQuery = supabase
-      .from('submitted_apps_details')
-      .select('advisor_code, submitted_apps, process_date');
-
-    let settledAppsQuery = supabase
-      .from('settled_apps_details')
-      .select('advisor_code, settled_apps, agency_credits, net_sales_credits, process_date');
-
-    // Apply advisor filter if provided
-    if (advisorCode) {
-      fyQuery = fyQuery.eq('code', advisorCode);
-      rnQuery = rnQuery.eq('code', advisorCode);
-      submittedAppsQuery = submittedAppsQuery.eq('advisor_code', advisorCode);
-      settledAppsQuery = settledAppsQuery.eq('advisor_code', advisorCode);
-    }
-
-    const [fyResult, rnResult, submittedAppsResult, settledAppsResult] = await Promise.all([
-      fyQuery,
-      rnQuery,
-      submittedAppsQuery,
-      settledAppsQuery
-    ]);
-
-    if (fyResult.error || rnResult.error || submittedAppsResult.error || settledAppsResult.error) {
-      const errors = [fyResult.error, rnResult.error, submittedAppsResult.error, settledAppsResult.error]
-        .filter(Boolean)
-        .map(e => e!.message)
-        .join(', ');
-
-      return {
-        data: null,
-        error: new Error(`Database errors: ${errors}`)
-      };
+    const advisors: CommissionStatement['advisor'][] = [];
+
+    for (let from = 0; ; from += MAX_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('manpower')
+        .select('code_number, advisor_name, unit_code')
+        .order('advisor_name')
+        .order('code_number')
+        .range(from, from + MAX_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error fetching statement advisors:', error);
+        return {
+          data: null,
+          error: new Error(`Database error: ${error.message}`)
+        };
+      }
+
+      advisors.push(...((data || []) as CommissionStatement['advisor'][]));
+      if (!data || data.length < MAX_PAGE_SIZE) break;
     }
 
-    // Calculate totals
-    const fyTotal = fyResult.data?.reduce((sum, item) => sum + (item.fy_commission_php || 0), 0) || 0;
-    const rnTotal = rnResult.data?.reduce((sum, item) => sum + (item.rn_commission_php || 0), 0) || 0;
-    const totalSubmittedApps = submittedAppsResult.data?.reduce((sum, item) => sum + (item.submitted_apps || 0), 0) || 0;
-    const totalSettledApps = settledAppsResult.data?.reduce((sum, item) => sum + (item.settled_apps || 0), 0) || 0;
-    const totalAgencyCredits = settledAppsResult.data?.reduce((sum, item) => sum + (item.agency_credits || 0), 0) || 0;
-    const totalNetSalesCredits = settledAppsResult.data?.reduce((sum, item) => sum + (item.net_sales_credits || 0), 0) || 0;
-
-    return {
-      data: {
-        // Commission totals
-        fyCommissionTotal: fyTotal,
-        rnCommissionTotal: rnTotal,
-        totalCommission: fyTotal + rnTotal,
-
-        // Application totals
-        totalSubmittedApps: totalSubmittedApps,
-        totalSettledApps: totalSettledApps,
-
-        // Credit totals
-        totalAgencyCredits: totalAgencyCredits,
-        totalNetSalesCredits: totalNetSalesCredits,
-
-        // Record counts
-        fyRecords: fyResult.data?.length || 0,
-        rnRecords: rnResult.data?.length || 0,
-        submittedAppRecords: submittedAppsResult.data?.length || 0,
-        settledAppRecords: settledAppsResult.data?.length || 0,
-
-        // Conversion rate
-        conversionRate: totalSubmittedApps > 0 ? (totalSettledApps / totalSubmittedApps) * 100 : 0
-      },
-      error: null
-    };
+    return { data: advisors, error: null };
   } catch (error) {
-    console.error('Unexpected error fetching commission summary:', error);
+    console.error('Unexpected error fetching statement advisors:', error);
     return {
       data: null,
       error: error instanceof Error ? error : new Error('Unknown error occurred')
     };
   }
-}
\ No newline at end of file
+}
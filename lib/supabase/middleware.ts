@@ -81,7 +81,8 @@ export async function updateSession(request: NextRequest) {
     const user = data?.claims
 
   // Public routes that don't require authentication
-  const publicRoutes = ['/auth', '/login']
+  // (the scheduled ingestion route checks its own cron secret)
+  const publicRoutes = ['/auth', '/login', '/api/admin/upload/ingest']
   const isPublicRoute = publicRoutes.some(route => request.nextUrl.pathname.startsWith(route))
 
   if (!user && !isPublicRoute) {
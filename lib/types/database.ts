@@ -87,6 +87,7 @@ export interface FYCommissionDetails {
   due_date?: string; // ISO date string
   rate?: number; // Commission rate (0-1)
   fy_commission_php?: number; // First Year Commission in PHP
+  batch_id?: string; // References upload_batches.id
   created_at: string; // ISO timestamp
   updated_at: string; // ISO timestamp
 }
@@ -103,6 +104,7 @@ export interface RNCommissionDetails {
   rate?: number; // Commission rate (0-1)
   year?: number; // Commission year
   rn_commission_php?: number; // Renewal Commission in PHP
+  batch_id?: string; // References upload_batches.id
   created_at: string; // ISO timestamp
   updated_at: string; // ISO timestamp
 }
@@ -115,6 +117,7 @@ export interface SubmittedAppsDetails {
   insured_name?: string;
   policy_number?: string;
   submitted_apps?: number; // Number of submitted applications
+  batch_id?: string; // References upload_batches.id
   created_at: string; // ISO timestamp
   updated_at: string; // ISO timestamp
 }
@@ -129,10 +132,346 @@ export interface SettledAppsDetails {
   settled_apps?: number; // Number of settled applications
   agency_credits?: number; // Credits earned by the agency
   net_sales_credits?: number; // Net sales credits after deductions
+  batch_id?: string; // References upload_batches.id
   created_at: string; // ISO timestamp
   updated_at: string; // ISO timestamp
 }
 
+// Row returned by get_commission_statement
+export interface CommissionStatementLine {
+  commission_type: 'FY' | 'RN';
+  process_date: string; // ISO date
+  policy_number?: string;
+  insured_name?: string;
+  transaction_type?: string;
+  due_date?: string; // ISO date
+  commission_year?: number; // RN lines only
+  premium_php: number;
+  rate?: number; // Commission rate (0-1)
+  commission_php: number;
+}
+
+// =============================================================================
+// UPLOAD TABLES
+// =============================================================================
+
+export interface UploadMappingProfile {
+  id: string; // UUID
+  dataset: string; // Upload dataset id (e.g. 'rn-commission')
+  name: string; // e.g. "AIA RN report v2"
+  headers: string[]; // Source headers the profile was saved from
+  mapping: Record<string, string>; // Column key -> source header
+  created_by?: string; // References auth.users.id
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+export type UploadBatchStatus = 'processing' | 'completed' | 'failed' | 'rolled_back';
+
+export interface UploadBatch {
+  id: string; // UUID
+  dataset: string; // Upload dataset id (e.g. 'rn-commission')
+  uploaded_by?: string; // References auth.users.id
+  file_name?: string;
+  file_hash?: string; // SHA-256 of the source file or pasted text
+  row_count: number;
+  records_inserted: number;
+  records_updated: number; // Duplicates refreshed by the dedup step
+  error_count: number;
+  errors: string[];
+  status: UploadBatchStatus;
+  rolled_back_at?: string; // ISO timestamp
+  rolled_back_by?: string; // References auth.users.id
+  created_at: string; // ISO timestamp
+  completed_at?: string; // ISO timestamp
+  session_key?: string; // SHA-256 of the payload for chunked uploads
+  chunk_size?: number;
+  total_chunks?: number; // Set for chunked uploads only
+}
+
+export interface UploadBatchChunk {
+  batch_id: string; // References upload_batches.id
+  chunk_index: number;
+  record_count: number;
+  records_inserted: number;
+  records_updated: number;
+  errors: string[];
+  completed_at: string; // ISO timestamp
+}
+
+export type UploadIngestionSource = 'folder' | 'bucket';
+export type UploadIngestionRunStatus = 'running' | 'completed' | 'failed';
+export type UploadIngestionFileStatus = 'uploaded' | 'skipped' | 'failed';
+
+export interface UploadIngestionRun {
+  id: string; // UUID
+  source: UploadIngestionSource;
+  location: string; // Directory path or bucket/prefix scanned
+  status: UploadIngestionRunStatus;
+  triggered_by?: string; // References auth.users.id - null for scheduled runs
+  files_found: number;
+  files_uploaded: number;
+  files_skipped: number;
+  files_failed: number;
+  error?: string;
+  started_at: string; // ISO timestamp
+  finished_at?: string; // ISO timestamp
+}
+
+export interface UploadIngestionFile {
+  id: string; // UUID
+  run_id: string; // References upload_ingestion_runs.id
+  file_name: string;
+  file_hash?: string; // SHA-256 of the file
+  sheet_name?: string;
+  dataset?: string; // Upload dataset id detected from the headers
+  mapping_profile_id?: string; // References upload_mapping_profiles.id
+  batch_id?: string; // References upload_batches.id
+  status: UploadIngestionFileStatus;
+  row_count: number;
+  records_inserted: number;
+  records_updated: number;
+  rejected_count: number;
+  message?: string;
+  archived_to?: string;
+  created_at: string; // ISO timestamp
+}
+
+export interface AdvisorCodeAlias {
+  alias_code: string; // Primary key - code as it appears in uploaded files
+  code_number: string; // References manpower.code_number
+  note?: string;
+  created_by?: string; // References auth.users.id
+  created_at: string; // ISO timestamp
+}
+
+export type OrphanAdvisorCodeResolutionType = 'mapped' | 'created' | 'ignored';
+
+export interface OrphanAdvisorCodeResolution {
+  advisor_code: string; // Primary key - code with no manpower record
+  resolution: OrphanAdvisorCodeResolutionType;
+  mapped_to_code?: string; // References manpower.code_number
+  rows_updated: number;
+  resolved_by?: string; // References auth.users.id
+  resolved_at: string; // ISO timestamp
+}
+
+// Row returned by get_orphan_advisor_codes
+export interface OrphanAdvisorCode {
+  advisor_code: string;
+  advisor_name?: string; // Name as it appears in the uploaded rows
+  submitted_rows: number;
+  settled_rows: number;
+  total_submitted_apps: number;
+  total_settled_apps: number;
+  total_agency_credits: number;
+  total_net_sales_credits: number;
+  first_process_date?: string;
+  last_process_date?: string;
+  ignored: boolean;
+}
+
+// =============================================================================
+// PRODUCTION PERIOD TYPES
+// =============================================================================
+
+export interface SystemsClosingPeriod {
+  id: string; // UUID
+  period_year: number;
+  period_month: number; // 1-12
+  start_date: string; // ISO date
+  end_date: string; // ISO date
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+export type ProductionPeriodType = 'calendar' | 'systems';
+
+export interface ProductionSummarySettings {
+  id: boolean; // Single-row table, always true
+  live_years: number; // Years kept in the live summary tables, including the current one
+  archive_retention_years?: number; // Years kept in the archive after that; null keeps them forever
+  updated_at: string; // ISO timestamp
+  updated_by?: string; // References auth.users.id
+}
+
+// Result of archive_production_summaries
+export interface ProductionArchiveResult {
+  cutoff_year: number; // Oldest year left in the live tables
+  monthly_archived: number;
+  annual_archived: number;
+  monthly_purged: number;
+  annual_purged: number;
+}
+
+// Row returned by get_production_summary_health
+export interface SummaryHealthRow {
+  advisor_code: string;
+  advisor_name?: string;
+  period_month: number;
+  period_start: string; // ISO date
+  period_end: string; // ISO date
+  source_settled_apps: number;
+  source_agency_credits: number;
+  source_net_sales_credits: number;
+  source_rn_commission_php: number;
+  source_fy_premium_php: number;
+  source_fy_commission_php: number;
+  source_submitted_apps: number;
+  summary_settled_apps: number;
+  summary_agency_credits: number;
+  summary_net_sales_credits: number;
+  summary_rn_commission_php: number;
+  summary_fy_premium_php: number;
+  summary_fy_commission_php: number;
+  summary_submitted_apps: number;
+  has_summary: boolean;
+  has_drift: boolean;
+  last_updated?: string; // ISO timestamp, null when there is no summary row
+}
+
+// Row returned by get_production_summary_freshness
+export interface SummaryFreshness {
+  summary_table: 'monthly' | 'annual';
+  period_month?: number; // Null for the annual summary
+  row_count: number;
+  oldest_update?: string; // ISO timestamp
+  newest_update?: string; // ISO timestamp
+}
+
+// =============================================================================
+// CONTEST TYPES
+// =============================================================================
+
+export type ContestMetric = 'agency_credits' | 'net_sales_credits' | 'settled_apps';
+
+export interface ContestPeriod {
+  id: string; // UUID
+  contest_name: string;
+  start_date: string; // ISO date
+  end_date: string; // ISO date
+  description?: string;
+  qualifying_metric: ContestMetric;
+  thresholds: number[]; // Ascending qualification tiers
+  eligible_classes: string[]; // Empty means every class
+  created_by?: string; // References auth.users.id
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+// Row returned by get_contest_leaderboard
+export interface ContestLeaderboardEntry {
+  rank: number;
+  advisor_code: string;
+  advisor_name?: string;
+  advisor_class?: string;
+  unit_code?: string;
+  manager_id?: string;
+  photo_url?: string;
+  submitted_apps: number;
+  settled_apps: number;
+  agency_credits: number;
+  net_sales_credits: number;
+  metric_value: number;
+  tier_reached: number; // Number of thresholds reached
+  next_threshold?: number; // Null once every tier is reached
+}
+
+// =============================================================================
+// BONUS TYPES
+// =============================================================================
+
+export type BonusProgram = 'qgb' | 'override' | 'plan_b' | 'eamb';
+
+export type BonusMetric = 'agency_credits' | 'net_sales_credits' | 'fy_commission_php';
+
+export interface BonusTier {
+  min_production: number; // Period production needed to reach the tier
+  rate: number; // Fraction of the whole period production paid (0-1)
+}
+
+export interface BonusQualifiers {
+  min_cases?: number | null; // Settled apps (lives) in the period
+  min_persistency?: number | null; // Latest persistency rate (0-1) on or before the period end
+}
+
+export interface BonusEligibility {
+  classes?: string[]; // Upper-case manpower classes; omitted for every class
+  app_roles?: AppRole[]; // Roles of the advisor's linked account; omitted for everyone
+  min_tenure_months?: number | null; // Tenure month 1 is the month of date_hired
+  max_tenure_months?: number | null;
+}
+
+export interface BonusWindow {
+  label: string; // e.g. "H1"
+  start_month: number; // 1-12, period month of the rule set's period type
+  end_month: number; // 1-12, inclusive
+  payout_after_months: number; // Paid at the end of the month this many months after end_month
+}
+
+export interface BonusRuleSet {
+  id: string; // UUID
+  program: BonusProgram;
+  plan_year: number;
+  metric: BonusMetric;
+  period_type: 'calendar' | 'systems';
+  tiers: BonusTier[]; // Ascending by min_production
+  qualifiers: BonusQualifiers;
+  class_rates: Record<string, number[]>; // Override only: manager class -> rate per generation (0-1)
+  windows: BonusWindow[]; // Plan B only
+  payout_metric?: BonusMetric; // Paid on this instead of the qualifying metric when set
+  eligibility: BonusEligibility; // Who the rules apply to
+  description?: string;
+  updated_by?: string; // References auth.users.id
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+export interface AdvisorPersistency {
+  advisor_code: string;
+  as_of_date: string; // ISO date
+  persistency_rate: number; // 0-1
+  updated_by?: string; // References auth.users.id
+  updated_at: string; // ISO timestamp
+}
+
+export interface BonusSnapshot {
+  id: string; // UUID
+  program: BonusProgram;
+  plan_year: number;
+  period_key: string; // "Q1", a Plan B window label, "01".."12" or "FY"
+  rule_set: BonusRuleSet; // As evaluated
+  period_info: Record<string, unknown>; // Program-specific period details, e.g. quarter dates
+  taken_by?: string; // References auth.users.id
+  taken_at: string; // ISO timestamp
+}
+
+export interface BonusSnapshotResult {
+  snapshot_id: string; // References bonus_snapshots.id
+  advisor_code: string;
+  result: Record<string, unknown>; // Shaped like the program's live result for the advisor
+}
+
+// Row returned by get_bonus_production_data, one per advisor and month
+export interface BonusProductionRow {
+  advisor_code: string;
+  advisor_name?: string;
+  advisor_class?: string;
+  date_hired?: string; // ISO date
+  unit_code?: string;
+  manager_id?: string;
+  period_month: number;
+  period_start: string; // ISO date
+  period_end: string; // ISO date
+  settled_apps: number;
+  agency_credits: number;
+  net_sales_credits: number;
+  fy_premium_php: number;
+  fy_commission_php: number;
+  rn_commission_php: number;
+  submitted_apps: number;
+}
+
 // =============================================================================
 // HIERARCHY TYPES
 // =============================================================================
@@ -265,6 +604,95 @@ export interface Database {
         };
         Update: Partial<StaffAdvisorAssignment>;
       };
+      upload_mapping_profiles: {
+        Row: UploadMappingProfile;
+        Insert: Omit<UploadMappingProfile, 'id' | 'created_at' | 'updated_at'> & {
+          id?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: Partial<UploadMappingProfile>;
+      };
+      upload_batches: {
+        Row: UploadBatch;
+        Insert: Partial<UploadBatch> & Pick<UploadBatch, 'dataset'>;
+        Update: Partial<UploadBatch>;
+      };
+      upload_batch_chunks: {
+        Row: UploadBatchChunk;
+        Insert: Omit<UploadBatchChunk, 'completed_at'> & { completed_at?: string };
+        Update: Partial<UploadBatchChunk>;
+      };
+      orphan_advisor_code_resolutions: {
+        Row: OrphanAdvisorCodeResolution;
+        Insert: Omit<OrphanAdvisorCodeResolution, 'resolved_at' | 'rows_updated'> & {
+          resolved_at?: string;
+          rows_updated?: number;
+        };
+        Update: Partial<OrphanAdvisorCodeResolution>;
+      };
+      upload_ingestion_runs: {
+        Row: UploadIngestionRun;
+        Insert: Partial<UploadIngestionRun> & Pick<UploadIngestionRun, 'source' | 'location'>;
+        Update: Partial<UploadIngestionRun>;
+      };
+      upload_ingestion_files: {
+        Row: UploadIngestionFile;
+        Insert: Partial<UploadIngestionFile> & Pick<UploadIngestionFile, 'run_id' | 'file_name' | 'status'>;
+        Update: Partial<UploadIngestionFile>;
+      };
+      advisor_code_aliases: {
+        Row: AdvisorCodeAlias;
+        Insert: Omit<AdvisorCodeAlias, 'created_at'> & { created_at?: string };
+        Update: Partial<AdvisorCodeAlias>;
+      };
+      cal_systems_closing_periods: {
+        Row: SystemsClosingPeriod;
+        Insert: Omit<SystemsClosingPeriod, 'id' | 'created_at' | 'updated_at'> & {
+          id?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: Partial<SystemsClosingPeriod>;
+      };
+      production_summary_settings: {
+        Row: ProductionSummarySettings;
+        Insert: Partial<ProductionSummarySettings>;
+        Update: Partial<Omit<ProductionSummarySettings, 'id'>>;
+      };
+      cal_contest_periods: {
+        Row: ContestPeriod;
+        Insert: Omit<ContestPeriod, 'id' | 'created_at' | 'updated_at'> & {
+          id?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: Partial<ContestPeriod>;
+      };
+      bonus_rule_sets: {
+        Row: BonusRuleSet;
+        Insert: Omit<BonusRuleSet, 'id' | 'created_at' | 'updated_at'> & {
+          id?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: Partial<BonusRuleSet>;
+      };
+      advisor_persistency: {
+        Row: AdvisorPersistency;
+        Insert: Omit<AdvisorPersistency, 'updated_at'> & { updated_at?: string };
+        Update: Partial<Omit<AdvisorPersistency, 'advisor_code' | 'as_of_date'>>;
+      };
+      bonus_snapshots: {
+        Row: BonusSnapshot;
+        Insert: Omit<BonusSnapshot, 'id' | 'taken_at'> & { id?: string; taken_at?: string };
+        Update: Partial<Omit<BonusSnapshot, 'id'>>;
+      };
+      bonus_snapshot_results: {
+        Row: BonusSnapshotResult;
+        Insert: BonusSnapshotResult;
+        Update: Partial<Pick<BonusSnapshotResult, 'result'>>;
+      };
     };
     Functions: {
       // Utility functions
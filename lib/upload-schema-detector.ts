@@ -37,18 +37,23 @@ const SCHEMA_SIGNATURES = {
   }
 };
 
+/**
+ * Normalize a column header to a field-like name (lowercase, underscores)
+ */
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase()
+    .replace(/\s+/g, '_')
+    .replace(/[^\w]/g, '_')
+    .replace(/_+/g, '_')
+    .replace(/^_|_$/g, '');
+}
+
 /**
  * Detects the likely schema based on column headers from pasted Excel data
  */
 export function detectDataSchema(columnHeaders: string[]): SchemaDetectionResult {
   // Normalize headers (lowercase, remove spaces, etc.)
-  const normalizedHeaders = columnHeaders.map(header =>
-    header.toLowerCase()
-      .replace(/\s+/g, '_')
-      .replace(/[^\w]/g, '_')
-      .replace(/_+/g, '_')
-      .replace(/^_|_$/g, '')
-  );
+  const normalizedHeaders = columnHeaders.map(normalizeHeader);
 
   let bestMatch: SchemaDetectionResult = {
     detectedSchema: 'unknown',
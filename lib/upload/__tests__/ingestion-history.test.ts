@@ -0,0 +1,28 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { wasAlreadyIngested } from '../ingestion-history';
+
+describe('wasAlreadyIngested', () => {
+  it('ingests a file seen for the first time', () => {
+    assert.equal(wasAlreadyIngested([]), false);
+  });
+
+  it('skips a file whose upload stands', () => {
+    assert.equal(wasAlreadyIngested([{ batch_id: 'b1', upload_batches: { status: 'completed' } }]), true);
+  });
+
+  it('ingests a file again after its batch was rolled back', () => {
+    assert.equal(wasAlreadyIngested([{ batch_id: 'b1', upload_batches: { status: 'rolled_back' } }]), false);
+  });
+
+  it('skips a file re-ingested after a rollback', () => {
+    assert.equal(wasAlreadyIngested([
+      { batch_id: 'b1', upload_batches: { status: 'rolled_back' } },
+      { batch_id: 'b2', upload_batches: { status: 'completed' } }
+    ]), true);
+  });
+
+  it('skips a file whose batch is no longer on record', () => {
+    assert.equal(wasAlreadyIngested([{ batch_id: null, upload_batches: null }]), true);
+  });
+});
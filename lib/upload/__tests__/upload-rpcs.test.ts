@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+
+// The upload RPCs are SECURITY DEFINER and are redefined by later migrations;
+// every redefinition has to carry the guards forward
+const MIGRATIONS_DIR = path.join(process.cwd(), 'supabase', 'migrations');
+
+const UPLOAD_RPCS = [
+  'upload_submitted_apps_with_dedup',
+  'upload_settled_apps_with_dedup',
+  'upload_fy_commission_with_dedup',
+  'upload_rn_commission_with_dedup'
+];
+
+/**
+ * Body of a function as the latest migration that defines it leaves it
+ */
+function latestDefinition(name: string): { file: string; body: string } {
+  const files = readdirSync(MIGRATIONS_DIR).filter(file => file.endsWith('.sql')).sort();
+  const header = `CREATE OR REPLACE FUNCTION ${name}(`;
+
+  for (const file of files.reverse()) {
+    const sql = readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8');
+    const start = sql.lastIndexOf(header);
+    if (start === -1) continue;
+
+    const end = sql.indexOf('$$ LANGUAGE', start);
+    return { file, body: sql.slice(start, end === -1 ? undefined : end) };
+  }
+
+  assert.fail(`${name} is not defined by any migration`);
+}
+
+describe('upload RPC guards', () => {
+  for (const name of UPLOAD_RPCS) {
+    it(`${name} only lets admins upload into a live batch`, () => {
+      const { file, body } = latestDefinition(name);
+
+      assert.match(body, /get_user_app_role\(auth\.uid\(\)\) != 'admin'/, `${file} drops the admin check`);
+      assert.match(
+        body,
+        /FROM public\.upload_batches\s+WHERE id = p_batch_id AND status <> 'rolled_back'/,
+        `${file} drops the live batch check`
+      );
+    });
+  }
+});
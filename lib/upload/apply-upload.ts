@@ -0,0 +1,121 @@
+/**
+ * Apply Upload
+ * Records an upload batch for validated records and runs the dataset's dedup
+ * RPC against it. Shared by the upload API and the drop-folder ingestion job
+ * so both write data the same way.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { UploadDatasetDescriptor } from './datasets';
+import { formatRejectedRows, MAX_UPLOAD_RECORDS, UploadValidationResult } from './validation';
+
+export interface ApplyUploadSource {
+  userId: string | null;
+  fileName: string | null;
+  fileHash: string | null;
+  rowCount: number; // Records received, including rejected ones
+}
+
+export type ApplyUploadResult =
+  | {
+      success: true;
+      batchId: string;
+      recordsInserted: number;
+      recordsUpdated: number;
+      errors: string[]; // Per-record RPC errors
+    }
+  | {
+      success: false;
+      status: number; // HTTP status the upload API responds with
+      error: string;
+      details?: string;
+      batchId?: string;
+      debugInfo?: unknown;
+    };
+
+/**
+ * Create the upload batch and send the validated records to the dataset RPC.
+ * Payloads over MAX_UPLOAD_RECORDS are sent in several calls against the same
+ * batch; a failed call marks the batch failed.
+ */
+export async function applyValidatedUpload(
+  supabase: SupabaseClient,
+  dataset: UploadDatasetDescriptor,
+  validation: UploadValidationResult,
+  source: ApplyUploadSource
+): Promise<ApplyUploadResult> {
+  const { rejected } = validation;
+
+  // Record the upload batch so it can be reviewed and rolled back later
+  const { data: batch, error: batchError } = await supabase
+    .from('upload_batches')
+    .insert({
+      dataset: dataset.id,
+      uploaded_by: source.userId,
+      file_name: source.fileName,
+      file_hash: source.fileHash,
+      row_count: source.rowCount,
+      error_count: rejected.length,
+      errors: formatRejectedRows(rejected)
+    })
+    .select('id')
+    .single();
+
+  if (batchError || !batch) {
+    console.error('Upload batch error:', batchError);
+    return { success: false, status: 500, error: 'Failed to create upload batch', details: batchError?.message };
+  }
+
+  const markBatchFailed = async (errors: string[]) => {
+    await supabase
+      .from('upload_batches')
+      .update({
+        status: 'failed',
+        errors: [...formatRejectedRows(rejected), ...errors],
+        error_count: rejected.length + errors.length,
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', batch.id)
+      .eq('status', 'processing');
+  };
+
+  // Process uploads using the dataset's table-specific RPC function with duplicate detection
+  console.log(`Starting ${dataset.label} upload of ${validation.records.length} records via ${dataset.rpc} (batch ${batch.id})`);
+
+  let recordsInserted = 0;
+  let recordsUpdated = 0;
+  const errors: string[] = [];
+
+  for (let offset = 0; offset < validation.records.length; offset += MAX_UPLOAD_RECORDS) {
+    const { data: result, error: rpcError } = await supabase.rpc(dataset.rpc, {
+      p_records: validation.records.slice(offset, offset + MAX_UPLOAD_RECORDS),
+      p_batch_id: batch.id
+    });
+
+    if (rpcError) {
+      console.error('RPC error:', rpcError);
+      await markBatchFailed([rpcError.message]);
+      return { success: false, status: 500, error: 'RPC function error', details: rpcError.message, batchId: batch.id };
+    }
+
+    if (!result || !result.success) {
+      console.error('Upload failed - result:', JSON.stringify(result, null, 2));
+      const errorDetails = Array.isArray(result?.errors) ? result.errors.join(', ') : result?.errors || 'Unknown error';
+      await markBatchFailed(Array.isArray(result?.errors) ? result.errors : [String(errorDetails)]);
+      return {
+        success: false,
+        status: 400,
+        error: 'Upload failed',
+        details: errorDetails,
+        batchId: batch.id,
+        debugInfo: result
+      };
+    }
+
+    recordsInserted += result.records_inserted;
+    recordsUpdated += result.records_updated;
+    errors.push(...(result.errors || []));
+  }
+
+  return { success: true, batchId: batch.id, recordsInserted, recordsUpdated, errors };
+}
@@ -0,0 +1,224 @@
+/**
+ * Chunked Uploads
+ * Client side of the upload-session API. Large payloads are sent in chunks so
+ * no single RPC call runs long enough to time out; a failed chunk is retried,
+ * and running the same upload again resumes the unfinished session.
+ */
+
+import { hashUploadSource } from './file-import';
+import { mergeUploadPlans, UploadPlan } from './dry-run';
+import type { UploadRejectedRow } from './validation';
+
+type PayloadRecord = Record<string, string | number | undefined>;
+
+export const UPLOAD_CHUNK_SIZE = 500;
+export const DRY_RUN_CHUNK_SIZE = 2000;
+
+const MAX_CHUNK_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+export interface UploadProgress {
+  completedChunks: number;
+  totalChunks: number;
+  completedRecords: number;
+  totalRecords: number;
+  resumed: boolean; // Some chunks were applied by an earlier, interrupted run
+}
+
+export interface ChunkedUploadResult {
+  success: boolean;
+  message: string;
+  batchId: string;
+  stats: {
+    recordsProcessed: number;
+    recordsInserted: number;
+    recordsUpdated: number;
+    errors: number;
+  };
+  errors?: string[];
+  rejected?: UploadRejectedRow[];
+}
+
+interface ChunkedUploadOptions {
+  datasetId: string;
+  records: PayloadRecord[];
+  source: { fileName?: string; fileHash?: string };
+  allowUnknownCodes: boolean;
+  chunkSize?: number;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+function sliceChunks<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+async function sendJson(url: string, method: 'POST' | 'PUT', body: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  return { response, result: await response.json() };
+}
+
+function describeError(result: { error?: string; details?: string }, fallback: string) {
+  return result.details ? `${result.error}: ${result.details}` : result.error || fallback;
+}
+
+function shiftRejected(rejected: UploadRejectedRow[] | undefined, offset: number): UploadRejectedRow[] {
+  return (rejected || []).map(row => ({ ...row, index: row.index + offset }));
+}
+
+/**
+ * Upload a payload through an upload session, one chunk at a time.
+ * Rejected rows are reported with payload positions.
+ */
+export async function runChunkedUpload({
+  datasetId,
+  records,
+  source,
+  allowUnknownCodes,
+  chunkSize = UPLOAD_CHUNK_SIZE,
+  onProgress
+}: ChunkedUploadOptions): Promise<ChunkedUploadResult> {
+  const chunks = sliceChunks(records, chunkSize);
+
+  // The same payload and options resume the same session
+  const sessionKey = await hashUploadSource(JSON.stringify({ records, allowUnknownCodes }));
+
+  const { response: sessionResponse, result: session } = await sendJson(
+    `/api/admin/upload/${datasetId}/sessions`,
+    'POST',
+    { source, sessionKey, totalRecords: records.length, chunkSize }
+  );
+
+  if (!sessionResponse.ok) {
+    throw new Error(describeError(session, 'Failed to start upload session'));
+  }
+
+  const completed = new Set<number>(session.completedChunks);
+  const progress: UploadProgress = {
+    completedChunks: completed.size,
+    totalChunks: chunks.length,
+    completedRecords: chunks.reduce((sum, chunk, index) => sum + (completed.has(index) ? chunk.length : 0), 0),
+    totalRecords: records.length,
+    resumed: session.resumed && completed.size > 0
+  };
+  onProgress?.({ ...progress });
+
+  const errors: string[] = [];
+  const rejected: UploadRejectedRow[] = [];
+  let batchStats = { recordsInserted: 0, recordsUpdated: 0, errorCount: 0 };
+
+  for (let index = 0; index < chunks.length; index++) {
+    if (completed.has(index)) continue;
+
+    const offset = index * chunkSize;
+    let lastError = '';
+    let chunkResult = null;
+
+    for (let attempt = 1; attempt <= MAX_CHUNK_ATTEMPTS && !chunkResult; attempt++) {
+      try {
+        const { response, result } = await sendJson(
+          `/api/admin/upload/${datasetId}/sessions/${session.sessionId}/chunks/${index}`,
+          'PUT',
+          { data: chunks[index], allowUnknownCodes }
+        );
+
+        if (response.ok) {
+          chunkResult = result;
+        } else {
+          lastError = describeError(result, 'Chunk upload failed');
+          // Client errors will not succeed on retry
+          if (response.status < 500) break;
+        }
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : 'Network error';
+      }
+
+      if (!chunkResult && attempt < MAX_CHUNK_ATTEMPTS) {
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+      }
+    }
+
+    if (!chunkResult) {
+      throw new Error(
+        `Chunk ${index + 1} of ${chunks.length} failed: ${lastError}. ` +
+        `${progress.completedChunks} chunk${progress.completedChunks !== 1 ? 's were' : ' was'} saved; upload again to resume.`
+      );
+    }
+
+    rejected.push(...shiftRejected(chunkResult.rejected, offset));
+    errors.push(...(chunkResult.errors || []).map((error: string) => `Chunk ${index + 1}: ${error}`));
+    batchStats = chunkResult.batch;
+
+    progress.completedChunks++;
+    progress.completedRecords += chunks[index].length;
+    onProgress?.({ ...progress });
+  }
+
+  return {
+    success: true,
+    message: 'Upload completed successfully',
+    batchId: session.sessionId,
+    stats: {
+      recordsProcessed: records.length,
+      recordsInserted: batchStats.recordsInserted,
+      recordsUpdated: batchStats.recordsUpdated,
+      errors: batchStats.errorCount
+    },
+    errors: errors.length > 0 ? errors : undefined,
+    rejected: rejected.length > 0 ? rejected : undefined
+  };
+}
+
+/**
+ * Dry-run a payload in chunks and combine the plans
+ */
+export async function runChunkedDryRun({
+  datasetId,
+  records,
+  source,
+  chunkSize = DRY_RUN_CHUNK_SIZE
+}: Pick<ChunkedUploadOptions, 'datasetId' | 'records' | 'source' | 'chunkSize'>): Promise<{
+  plan: UploadPlan;
+  rejected: UploadRejectedRow[];
+}> {
+  const plans: UploadPlan[] = [];
+  const offsets: number[] = [];
+  const rejected: UploadRejectedRow[] = [];
+
+  const chunks = sliceChunks(records, chunkSize);
+  for (let index = 0; index < chunks.length; index++) {
+    const offset = index * chunkSize;
+
+    // Unknown codes are kept so the review can list them
+    const { response, result } = await sendJson(`/api/admin/upload/${datasetId}`, 'POST', {
+      data: chunks[index],
+      source,
+      dryRun: true,
+      allowUnknownCodes: true
+    });
+
+    rejected.push(...shiftRejected(result.rejected, offset));
+
+    // 422 means every record in the chunk was rejected
+    if (response.status === 422 && Array.isArray(result.rejected)) continue;
+
+    if (!response.ok) {
+      throw new Error(describeError(result, 'Dry run failed'));
+    }
+
+    plans.push(result.plan);
+    offsets.push(offset);
+  }
+
+  return { plan: mergeUploadPlans(plans, offsets), rejected };
+}
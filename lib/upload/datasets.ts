@@ -0,0 +1,186 @@
+/**
+ * Upload Dataset Descriptors
+ * Single source of truth for every dataset the Data Upload Center can import.
+ * The upload engine, the tab list and the upload API route are all driven by
+ * these descriptors, so adding a dataset only requires adding a descriptor here.
+ */
+
+import { FileSpreadsheet, Database, TrendingUp, LucideIcon } from 'lucide-react';
+import { DataSchema } from '@/lib/upload-schema-detector';
+
+export type UploadColumnType =
+  | 'code'      // Advisor code - leading zeros stripped to match manpower.code_number
+  | 'text'
+  | 'date'      // "Month DD, YYYY" (anything Date can parse) -> YYYY-MM-DD
+  | 'currency'  // Commas / currency symbols allowed, negatives in parentheses
+  | 'count'     // Plain non-negative number
+  | 'rate'      // Non-negative decimal rate
+  | 'integer';
+
+export interface UploadColumn {
+  key: string;
+  label: string;
+  hint?: string; // Extra format hint shown next to the label in the expected columns list
+  type: UploadColumnType;
+  required?: boolean; // Value must be present on every row
+  requireHeader?: boolean; // Column must be present in the headers, value may be blank
+  aliases: string[]; // Lowercase header fragments that map to this column
+  exactMatch?: boolean; // Match aliases exactly instead of by substring (e.g. 'rate' vs 'conversion rate')
+  min?: number;
+  max?: number;
+  percentToDecimal?: boolean; // Rates above 1 are treated as percentages
+}
+
+export type UploadDatasetId = 'submitted-apps' | 'settled-apps' | 'fy-commission' | 'rn-commission';
+
+export interface UploadDatasetDescriptor {
+  id: UploadDatasetId;
+  schema: Exclude<DataSchema, 'unknown'>;
+  label: string;
+  title: string;
+  description: string;
+  longDescription: string;
+  icon: LucideIcon;
+  color: string;
+  iconColor: string;
+  table: string;
+  rpc: string;
+  codeField: string; // Column holding the advisor code
+  dedupKey: string[]; // Fields the RPC compares to detect an existing row
+  matchKey: string[]; // Fields identifying the same business record, used to diff revised rows
+  columns: UploadColumn[];
+  footnote?: string;
+}
+
+export const UPLOAD_DATASETS: UploadDatasetDescriptor[] = [
+  {
+    id: 'submitted-apps',
+    schema: 'submitted_apps',
+    label: 'Submitted Apps',
+    title: 'Submitted Applications',
+    description: 'Import submitted application data',
+    longDescription: 'Import submitted application data from Excel. Paste your Excel data below to preview and upload.',
+    icon: FileSpreadsheet,
+    color: 'bg-blue-500',
+    iconColor: 'text-blue-500',
+    table: 'submitted_apps_details',
+    rpc: 'upload_submitted_apps_with_dedup',
+    codeField: 'advisor_code',
+    dedupKey: ['advisor_code', 'advisor_name', 'process_date', 'insured_name', 'policy_number', 'submitted_apps'],
+    matchKey: ['advisor_code', 'policy_number', 'process_date'],
+    columns: [
+      { key: 'advisor_code', label: 'Advisor Code', type: 'code', required: true, aliases: ['advisor code'] },
+      { key: 'advisor_name', label: 'Advisor Name', type: 'text', aliases: ['advisor name'] },
+      { key: 'process_date', label: 'Process Date', hint: 'Month DD, YYYY', type: 'date', aliases: ['process date'] },
+      { key: 'insured_name', label: 'Insured Name', type: 'text', aliases: ['insured name'] },
+      { key: 'policy_number', label: 'Policy Number', type: 'text', aliases: ['policy number'] },
+      { key: 'submitted_apps', label: 'Submitted Apps', type: 'currency', aliases: ['submitted apps'] }
+    ]
+  },
+  {
+    id: 'settled-apps',
+    schema: 'settled_apps',
+    label: 'Settled Apps',
+    title: 'Settled Applications',
+    description: 'Import settled application data with credits',
+    longDescription: 'Import settled application data with agency credits and net sales credits from Excel.',
+    icon: Database,
+    color: 'bg-green-500',
+    iconColor: 'text-green-500',
+    table: 'settled_apps_details',
+    rpc: 'upload_settled_apps_with_dedup',
+    codeField: 'advisor_code',
+    dedupKey: [
+      'advisor_code', 'advisor_name', 'process_date', 'insured_name', 'policy_number',
+      'settled_apps', 'agency_credits', 'net_sales_credits'
+    ],
+    matchKey: ['advisor_code', 'policy_number', 'process_date'],
+    columns: [
+      { key: 'advisor_code', label: 'Advisor Code', type: 'code', required: true, aliases: ['advisor code'] },
+      { key: 'advisor_name', label: 'Advisor Name', type: 'text', aliases: ['advisor name'] },
+      { key: 'process_date', label: 'Process Date', hint: 'Month DD, YYYY', type: 'date', aliases: ['process date'] },
+      { key: 'insured_name', label: 'Insured Name', type: 'text', aliases: ['insured name'] },
+      { key: 'policy_number', label: 'Policy Number', type: 'text', aliases: ['policy number'] },
+      { key: 'settled_apps', label: 'Settled Apps', type: 'count', aliases: ['settled apps'] },
+      { key: 'agency_credits', label: 'Agency Credits', type: 'currency', aliases: ['agency credits'] },
+      { key: 'net_sales_credits', label: 'Net Sales Credits', type: 'currency', aliases: ['net sales credits'] }
+    ]
+  },
+  {
+    id: 'fy-commission',
+    schema: 'fy_commission',
+    label: 'FY Commission',
+    title: 'First Year Commission',
+    description: 'Import first year commission data',
+    longDescription: 'Import first year commission data from Excel. Include advisor codes, premiums, and commission details.',
+    icon: TrendingUp,
+    color: 'bg-purple-500',
+    iconColor: 'text-purple-500',
+    table: 'fy_commission_details',
+    rpc: 'upload_fy_commission_with_dedup',
+    codeField: 'code',
+    dedupKey: [
+      'code', 'process_date', 'insured_name', 'policy_number', 'transaction_type',
+      'fy_premium_php', 'due_date', 'rate', 'fy_commission_php'
+    ],
+    matchKey: ['code', 'policy_number', 'process_date', 'transaction_type'],
+    columns: [
+      { key: 'code', label: 'Advisor Code', type: 'code', required: true, aliases: ['advisor code'] },
+      { key: 'process_date', label: 'Process Date', hint: 'Month DD, YYYY', type: 'date', aliases: ['process date'] },
+      { key: 'insured_name', label: 'Insured Name', type: 'text', aliases: ['insured name'] },
+      { key: 'policy_number', label: 'Policy Number', type: 'text', aliases: ['policy number'] },
+      { key: 'transaction_type', label: 'Transaction Type', type: 'text', aliases: ['transaction type'] },
+      { key: 'fy_premium_php', label: 'FY Premium (PHP)', type: 'currency', aliases: ['fy premium (php)'] },
+      { key: 'due_date', label: 'Due Date', hint: 'Month DD, YYYY', type: 'date', aliases: ['due date'] },
+      { key: 'rate', label: 'Rate', hint: 'decimal', type: 'rate', requireHeader: true, exactMatch: true, aliases: ['rate'] },
+      { key: 'fy_commission_php', label: 'FY Commission (PHP)', type: 'currency', aliases: ['fy commission (php)'] }
+    ],
+    footnote: '* Commission rate should be decimal format (e.g., 0.15 for 15%)'
+  },
+  {
+    id: 'rn-commission',
+    schema: 'rn_commission',
+    label: 'RN Commission',
+    title: 'Renewal Commission',
+    description: 'Import renewal commission data',
+    longDescription: 'Import renewal commission data from Excel. Include advisor codes, premiums, policy year and commission details.',
+    icon: TrendingUp,
+    color: 'bg-orange-500',
+    iconColor: 'text-orange-500',
+    table: 'rn_commission_details',
+    rpc: 'upload_rn_commission_with_dedup',
+    codeField: 'code',
+    dedupKey: [
+      'code', 'process_date', 'insured_name', 'policy_number', 'transaction_type',
+      'rn_premium_php', 'due_date', 'rate', 'year', 'rn_commission_php'
+    ],
+    matchKey: ['code', 'policy_number', 'process_date', 'transaction_type', 'year'],
+    columns: [
+      { key: 'code', label: 'Advisor Code', type: 'code', required: true, aliases: ['advisor code'] },
+      { key: 'process_date', label: 'Process Date', hint: 'Month DD, YYYY', type: 'date', aliases: ['process date'] },
+      { key: 'insured_name', label: 'Insured Name', type: 'text', aliases: ['insured name'] },
+      { key: 'policy_number', label: 'Policy Number', type: 'text', aliases: ['policy number'] },
+      { key: 'transaction_type', label: 'Transaction Type', type: 'text', aliases: ['transaction type'] },
+      { key: 'rn_premium_php', label: 'RN Premium (PHP)', type: 'currency', aliases: ['rn premium (php)'] },
+      { key: 'due_date', label: 'Due Date', hint: 'Month DD, YYYY', type: 'date', aliases: ['due date'] },
+      { key: 'rate', label: 'Rate', hint: 'decimal', type: 'rate', exactMatch: true, percentToDecimal: true, aliases: ['rate'] },
+      { key: 'year', label: 'Year', type: 'integer', min: 1, max: 50, aliases: ['year'] },
+      { key: 'rn_commission_php', label: 'RN Commission (PHP)', type: 'currency', aliases: ['rn commission (php)'] }
+    ],
+    footnote: '* Commission rate accepts decimals (0.15) or percentages (15), percentages are converted automatically'
+  }
+];
+
+/**
+ * Look up a dataset descriptor by its id (the URL segment used by the upload API)
+ */
+export function getUploadDataset(id: string): UploadDatasetDescriptor | undefined {
+  return UPLOAD_DATASETS.find(dataset => dataset.id === id);
+}
+
+/**
+ * Look up a dataset descriptor by the schema name used by the schema detector
+ */
+export function getUploadDatasetBySchema(schema: DataSchema): UploadDatasetDescriptor | undefined {
+  return UPLOAD_DATASETS.find(dataset => dataset.schema === schema);
+}
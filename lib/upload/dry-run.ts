@@ -0,0 +1,279 @@
+/**
+ * Upload Dry Run
+ * Works out what an upload would do without writing anything: which records
+ * are new, which existing rows the dedup step would refresh, which records
+ * revise an existing row and which advisor codes are missing from manpower.
+ * Matching mirrors the upload_*_with_dedup RPCs, including advisor code
+ * aliases being resolved to their manpower code first.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { UploadColumn, UploadDatasetDescriptor } from './datasets';
+import { findUnknownAdvisorCodes, resolveAdvisorCodeAliases, UploadRecord } from './validation';
+
+type ExistingRow = Record<string, string | number | null> & { id: string; created_at: string };
+
+export interface UploadFieldDiff {
+  field: string;
+  label: string;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+export interface UploadPlanEntry {
+  index: number; // Position of the record in the submitted payload
+  existingId: string;
+  diff: UploadFieldDiff[];
+}
+
+export interface UploadPlanUnknownCode {
+  code: string;
+  recordCount: number;
+}
+
+export interface UploadPlan {
+  totalRecords: number;
+  newCount: number;
+  replacedCount: number; // Exact duplicates whose created_at the dedup step refreshes
+  revisedCount: number; // New records sharing a matchKey with an existing row but with different values
+  replaced: UploadPlanEntry[];
+  revised: UploadPlanEntry[];
+  unknownCodes: UploadPlanUnknownCode[];
+  truncated: boolean; // Entry lists were capped at MAX_PLAN_ENTRIES
+}
+
+const MAX_PLAN_ENTRIES = 500;
+const CODE_CHUNK_SIZE = 100;
+const PAGE_SIZE = 1000;
+
+// Same COALESCE defaults the dedup RPCs compare with
+function comparableValue(column: UploadColumn | undefined, value: unknown): string {
+  const isBlank = value === null || value === undefined || value === '';
+
+  switch (column?.type) {
+    case 'date':
+      return isBlank ? '1900-01-01' : String(value).slice(0, 10);
+    case 'currency':
+    case 'count':
+    case 'rate':
+    case 'integer':
+      return isBlank ? '0' : String(Number(value));
+    default:
+      return isBlank ? '' : String(value);
+  }
+}
+
+function buildKey(descriptor: UploadDatasetDescriptor, fields: string[], row: Record<string, unknown>): string {
+  return fields
+    .map(field => comparableValue(descriptor.columns.find(c => c.key === field), row[field]))
+    .join('\u001f');
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Load existing rows that could match the payload - same advisor codes within
+ * the payload's process date range.
+ */
+async function fetchExistingRows(
+  supabase: SupabaseClient,
+  descriptor: UploadDatasetDescriptor,
+  codes: string[],
+  dates: string[]
+): Promise<ExistingRow[]> {
+  if (codes.length === 0 || dates.length === 0) return [];
+
+  const sortedDates = [...dates].sort();
+  const columns = ['id', 'created_at', ...descriptor.columns.map(c => c.key)].join(', ');
+  const rows: ExistingRow[] = [];
+
+  for (const codeChunk of chunk(codes, CODE_CHUNK_SIZE)) {
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(descriptor.table)
+        .select(columns)
+        .in(descriptor.codeField, codeChunk)
+        .gte('process_date', sortedDates[0])
+        .lte('process_date', sortedDates[sortedDates.length - 1])
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load existing ${descriptor.table} rows: ${error.message}`);
+      }
+
+      rows.push(...((data || []) as unknown as ExistingRow[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  return rows;
+}
+
+function diffRows(
+  descriptor: UploadDatasetDescriptor,
+  existing: ExistingRow,
+  record: UploadRecord
+): UploadFieldDiff[] {
+  return descriptor.columns
+    .filter(column => comparableValue(column, existing[column.key]) !== comparableValue(column, record[column.key]))
+    .map(column => ({
+      field: column.key,
+      label: column.label,
+      before: existing[column.key] ?? null,
+      after: record[column.key] ?? null
+    }));
+}
+
+/**
+ * Build the upload plan for a payload without writing to the database
+ */
+export async function buildUploadPlan(
+  supabase: SupabaseClient,
+  descriptor: UploadDatasetDescriptor,
+  records: UploadRecord[]
+): Promise<UploadPlan> {
+  const codes = [...new Set(
+    records.map(record => record[descriptor.codeField]).filter(Boolean).map(String)
+  )];
+  const dates = [...new Set(
+    records.map(record => record.process_date).filter(Boolean).map(String)
+  )];
+
+  // The RPCs store aliased codes under their manpower code, and match rows
+  // saved under either code
+  const aliases = await resolveAdvisorCodeAliases(supabase, codes);
+  const resolveCode = <T extends Record<string, unknown>>(row: T): T => {
+    const alias = aliases.get(String(row[descriptor.codeField] ?? ''));
+    return alias ? { ...row, [descriptor.codeField]: alias } : row;
+  };
+
+  const [existingRows, unknownCodes] = await Promise.all([
+    fetchExistingRows(supabase, descriptor, [...new Set([...codes, ...aliases.values()])], dates),
+    findUnknownAdvisorCodes(supabase, codes)
+  ]);
+
+  const exactIndex = new Map<string, ExistingRow[]>();
+  const matchIndex = new Map<string, ExistingRow[]>();
+  existingRows.forEach(row => {
+    const exactKey = buildKey(descriptor, descriptor.dedupKey, resolveCode(row));
+    const matchKey = buildKey(descriptor, descriptor.matchKey, resolveCode(row));
+    exactIndex.set(exactKey, [...(exactIndex.get(exactKey) || []), row]);
+    matchIndex.set(matchKey, [...(matchIndex.get(matchKey) || []), row]);
+  });
+
+  const plan: UploadPlan = {
+    totalRecords: records.length,
+    newCount: 0,
+    replacedCount: 0,
+    revisedCount: 0,
+    replaced: [],
+    revised: [],
+    unknownCodes: [],
+    truncated: false
+  };
+
+  // Records inserted earlier in the same payload are duplicates for later ones
+  const insertedKeys = new Set<string>();
+  const now = new Date().toISOString();
+
+  records.map(resolveCode).forEach((record, index) => {
+    // The RPCs compare code and process_date with '=', so blanks never match
+    const canMatch = Boolean(record[descriptor.codeField]) && Boolean(record.process_date);
+    const exactKey = buildKey(descriptor, descriptor.dedupKey, record);
+    const matches = canMatch ? exactIndex.get(exactKey) : undefined;
+
+    if (matches?.length || (canMatch && insertedKeys.has(exactKey))) {
+      plan.replacedCount++;
+      if (matches?.length && plan.replaced.length >= MAX_PLAN_ENTRIES) {
+        plan.truncated = true;
+      } else if (matches?.length) {
+        plan.replaced.push({
+          index,
+          existingId: matches[0].id,
+          diff: [{ field: 'created_at', label: 'Created At', before: matches[0].created_at, after: now }]
+        });
+      }
+      return;
+    }
+
+    plan.newCount++;
+    if (canMatch) insertedKeys.add(exactKey);
+
+    const revisedRow = matchIndex.get(buildKey(descriptor, descriptor.matchKey, record))?.[0];
+    if (revisedRow) {
+      plan.revisedCount++;
+      if (plan.revised.length >= MAX_PLAN_ENTRIES) {
+        plan.truncated = true;
+      } else {
+        plan.revised.push({ index, existingId: revisedRow.id, diff: diffRows(descriptor, revisedRow, record) });
+      }
+    }
+  });
+
+  const unknownCounts = new Map<string, number>();
+  records.forEach(record => {
+    const code = record[descriptor.codeField];
+    if (code && unknownCodes.has(String(code))) {
+      unknownCounts.set(String(code), (unknownCounts.get(String(code)) || 0) + 1);
+    }
+  });
+  plan.unknownCodes = [...unknownCounts.entries()]
+    .map(([code, recordCount]) => ({ code, recordCount }))
+    .sort((a, b) => b.recordCount - a.recordCount);
+
+  return plan;
+}
+
+/**
+ * Combine the plans of consecutive payload chunks into one plan. `offsets`
+ * holds the payload position of each chunk's first record. Duplicates that
+ * span two chunks are not detected, so the combined duplicate count can be low.
+ */
+export function mergeUploadPlans(plans: UploadPlan[], offsets: number[]): UploadPlan {
+  const merged: UploadPlan = {
+    totalRecords: 0,
+    newCount: 0,
+    replacedCount: 0,
+    revisedCount: 0,
+    replaced: [],
+    revised: [],
+    unknownCodes: [],
+    truncated: false
+  };
+  const unknownCounts = new Map<string, number>();
+
+  plans.forEach((plan, chunk) => {
+    const shift = (entry: UploadPlanEntry) => ({ ...entry, index: entry.index + offsets[chunk] });
+
+    merged.totalRecords += plan.totalRecords;
+    merged.newCount += plan.newCount;
+    merged.replacedCount += plan.replacedCount;
+    merged.revisedCount += plan.revisedCount;
+    merged.replaced.push(...plan.replaced.map(shift));
+    merged.revised.push(...plan.revised.map(shift));
+    merged.truncated = merged.truncated || plan.truncated;
+
+    plan.unknownCodes.forEach(({ code, recordCount }) => {
+      unknownCounts.set(code, (unknownCounts.get(code) || 0) + recordCount);
+    });
+  });
+
+  if (merged.replaced.length > MAX_PLAN_ENTRIES || merged.revised.length > MAX_PLAN_ENTRIES) {
+    merged.replaced = merged.replaced.slice(0, MAX_PLAN_ENTRIES);
+    merged.revised = merged.revised.slice(0, MAX_PLAN_ENTRIES);
+    merged.truncated = true;
+  }
+
+  merged.unknownCodes = [...unknownCounts.entries()]
+    .map(([code, recordCount]) => ({ code, recordCount }))
+    .sort((a, b) => b.recordCount - a.recordCount);
+
+  return merged;
+}
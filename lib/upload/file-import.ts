@@ -0,0 +1,88 @@
+/**
+ * Upload File Import
+ * Reads .xlsx and .csv report files in the browser into plain string rows
+ * so they can go through the same parsing and preview flow as pasted data.
+ */
+
+import readXlsxFile from 'read-excel-file/browser';
+import { parseDelimitedText } from './parse';
+
+export const ACCEPTED_UPLOAD_FILES = {
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+  'text/csv': ['.csv']
+};
+
+export const MAX_UPLOAD_FILE_SIZE = 25 * 1024 * 1024; // 25MB
+
+export interface ImportedSheet {
+  name: string;
+  rows: string[][];
+}
+
+export interface ImportedWorkbook {
+  fileName: string;
+  sheets: ImportedSheet[];
+}
+
+/**
+ * Convert a spreadsheet cell to the text form the row parser expects.
+ * Real Excel dates become YYYY-MM-DD which parseDateString accepts.
+ */
+export function cellToString(cell: unknown): string {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) {
+    return isNaN(cell.getTime()) ? '' : cell.toISOString().split('T')[0];
+  }
+  if (typeof cell === 'boolean') return cell ? 'TRUE' : 'FALSE';
+  return String(cell);
+}
+
+/**
+ * Read an .xlsx or .csv file into one or more sheets of string rows
+ */
+export async function readUploadFile(file: File): Promise<ImportedWorkbook> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  if (file.size > MAX_UPLOAD_FILE_SIZE) {
+    throw new Error(`File is too large (max ${MAX_UPLOAD_FILE_SIZE / 1024 / 1024}MB)`);
+  }
+
+  if (extension === 'csv') {
+    const text = await file.text();
+    return {
+      fileName: file.name,
+      sheets: [{ name: file.name, rows: parseDelimitedText(text, ',') }]
+    };
+  }
+
+  if (extension === 'xlsx') {
+    const sheets = await readXlsxFile(file);
+    return {
+      fileName: file.name,
+      sheets: sheets.map(({ sheet, data }) => ({
+        name: sheet,
+        rows: data.map(row => row.map(cellToString))
+      }))
+    };
+  }
+
+  if (extension === 'xls') {
+    throw new Error('Legacy .xls files are not supported. Please save the report as .xlsx or .csv');
+  }
+
+  throw new Error('Unsupported file type. Please upload an .xlsx or .csv file');
+}
+
+/**
+ * SHA-256 hex digest of a source file or pasted text, recorded on the upload batch
+ */
+export async function hashUploadSource(source: File | string): Promise<string> {
+  const bytes = typeof source === 'string'
+    ? new TextEncoder().encode(source)
+    : await source.arrayBuffer();
+
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
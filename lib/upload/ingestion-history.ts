@@ -0,0 +1,21 @@
+/**
+ * Ingestion History
+ * Decides from the ingestion log whether a dropped file was already uploaded.
+ * Kept apart from the ingestion job so it can be tested without a database.
+ */
+
+import type { UploadBatchStatus } from '@/lib/types/database';
+
+// An upload_ingestion_files row logged as uploaded, with the batch it produced
+export interface PreviousIngestion {
+  batch_id?: string | null;
+  upload_batches?: { status: UploadBatchStatus } | null; // Null once the batch is deleted
+}
+
+/**
+ * Whether an earlier upload of the file still stands. A file whose batches
+ * were all rolled back is ingested again when it is dropped again.
+ */
+export function wasAlreadyIngested(previous: PreviousIngestion[]): boolean {
+  return previous.some(entry => entry.upload_batches?.status !== 'rolled_back');
+}
@@ -0,0 +1,483 @@
+/**
+ * Drop-Folder Ingestion
+ * Server job that picks up carrier report files dropped into a local directory
+ * or a Supabase storage bucket. Each sheet's dataset is detected from its
+ * headers, the saved mapping profile (or the suggested mapping) is applied and
+ * the rows go through the same validation and upload path as the admin UI.
+ * Processed files are archived and every run is logged for the Upload page.
+ *
+ * Configuration (environment):
+ * - UPLOAD_INGESTION_DIR: directory to watch, or
+ * - UPLOAD_INGESTION_BUCKET: storage bucket to watch, with UPLOAD_INGESTION_PREFIX
+ *   (default "incoming") as the drop folder inside it
+ * - UPLOAD_INGESTION_ARCHIVE_DIR: archive directory for folder ingestion
+ *   (default "<dir>/archive"); bucket files are moved under "archive/"
+ * - UPLOAD_INGESTION_ALLOW_UNKNOWN_CODES: "true" to upload rows whose advisor
+ *   code has no manpower record, as the review screen's opt-in does
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import readXlsxFile from 'read-excel-file/node';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { detectDataSchema } from '@/lib/upload-schema-detector';
+import {
+  UploadIngestionFile,
+  UploadIngestionSource,
+  UploadMappingProfile
+} from '@/lib/types/database';
+import { applyValidatedUpload } from './apply-upload';
+import { getUploadDatasetBySchema } from './datasets';
+import { cellToString, ImportedSheet, MAX_UPLOAD_FILE_SIZE } from './file-import';
+import { PreviousIngestion, wasAlreadyIngested } from './ingestion-history';
+import { applyMappingProfile, findMatchingProfile, getUnmappedColumns, suggestColumnMapping } from './mapping';
+import { parseDelimitedText, parseUploadRows, splitSheetRows, toUploadRecord } from './parse';
+import { validateUploadRecords } from './validation';
+
+const MAX_FILES_PER_RUN = 20;
+const MAX_LOGGED_ERRORS = 5;
+const STALE_RUN_MINUTES = 30; // A run still marked running after this long is assumed to have crashed
+const INGESTION_EXTENSIONS = ['.csv', '.xlsx'];
+
+type IngestionFileLog = Omit<UploadIngestionFile, 'id' | 'run_id' | 'created_at'>;
+
+interface DroppedFile {
+  name: string;
+  path: string; // Full path, or object key inside the bucket
+}
+
+interface IngestionSourceAdapter {
+  source: UploadIngestionSource;
+  location: string;
+  listFiles(): Promise<DroppedFile[]>;
+  readFile(file: DroppedFile): Promise<Buffer>;
+  archiveFile(file: DroppedFile, destination: 'archive' | 'failed', fileHash: string | null): Promise<string>;
+}
+
+export interface UploadIngestionRunSummary {
+  runId: string | null; // Null when the run was skipped
+  status: 'completed' | 'failed' | 'skipped';
+  message: string;
+  filesFound: number;
+  filesUploaded: number;
+  filesSkipped: number;
+  filesFailed: number;
+}
+
+function isIngestibleFile(name: string): boolean {
+  // Skip hidden files and Excel lock files (~$report.xlsx)
+  if (name.startsWith('.') || name.startsWith('~$')) return false;
+  return INGESTION_EXTENSIONS.includes(path.extname(name).toLowerCase());
+}
+
+function archiveName(file: DroppedFile, fileHash: string | null): string {
+  const day = new Date().toISOString().split('T')[0];
+  // The hash prefix keeps same-named reports from different weeks apart
+  return `${day}/${fileHash ? `${fileHash.slice(0, 8)}-` : ''}${file.name}`;
+}
+
+function createFolderSource(directory: string, archiveDirectory: string): IngestionSourceAdapter {
+  return {
+    source: 'folder',
+    location: directory,
+
+    async listFiles() {
+      const entries = await fs.readdir(directory, { withFileTypes: true });
+      return entries
+        .filter(entry => entry.isFile() && isIngestibleFile(entry.name))
+        .map(entry => ({ name: entry.name, path: path.join(directory, entry.name) }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async readFile(file) {
+      return fs.readFile(file.path);
+    },
+
+    async archiveFile(file, destination, fileHash) {
+      const root = destination === 'archive' ? archiveDirectory : path.join(directory, 'failed');
+      const target = path.join(root, archiveName(file, fileHash));
+      await fs.mkdir(path.dirname(target), { recursive: true });
+
+      try {
+        await fs.rename(file.path, target);
+      } catch (error) {
+        // rename cannot cross devices; fall back to copy and delete
+        if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+        await fs.copyFile(file.path, target);
+        await fs.unlink(file.path);
+      }
+
+      return target;
+    }
+  };
+}
+
+function createBucketSource(supabase: SupabaseClient, bucket: string, prefix: string): IngestionSourceAdapter {
+  const folder = prefix.replace(/^\/+|\/+$/g, '');
+  const storage = supabase.storage.from(bucket);
+
+  return {
+    source: 'bucket',
+    location: `${bucket}/${folder}`,
+
+    async listFiles() {
+      const { data, error } = await storage.list(folder, { limit: 1000, sortBy: { column: 'name', order: 'asc' } });
+      if (error) {
+        throw new Error(`Failed to list ${bucket}/${folder}: ${error.message}`);
+      }
+
+      // Sub-folders are listed with a null id
+      return (data || [])
+        .filter(object => object.id && isIngestibleFile(object.name))
+        .map(object => ({ name: object.name, path: folder ? `${folder}/${object.name}` : object.name }));
+    },
+
+    async readFile(file) {
+      const { data, error } = await storage.download(file.path);
+      if (error || !data) {
+        throw new Error(`Failed to download ${file.path}: ${error?.message ?? 'no data'}`);
+      }
+      return Buffer.from(await data.arrayBuffer());
+    },
+
+    async archiveFile(file, destination, fileHash) {
+      const target = `${destination}/${archiveName(file, fileHash)}`;
+      const { error } = await storage.move(file.path, target);
+      if (error) {
+        throw new Error(`Failed to move ${file.path} to ${target}: ${error.message}`);
+      }
+      return `${bucket}/${target}`;
+    }
+  };
+}
+
+/**
+ * The configured drop location, or null when ingestion is not set up
+ */
+function getIngestionSource(supabase: SupabaseClient): IngestionSourceAdapter | null {
+  const directory = process.env.UPLOAD_INGESTION_DIR;
+  const bucket = process.env.UPLOAD_INGESTION_BUCKET;
+
+  if (directory) {
+    return createFolderSource(directory, process.env.UPLOAD_INGESTION_ARCHIVE_DIR || path.join(directory, 'archive'));
+  }
+
+  if (bucket) {
+    return createBucketSource(supabase, bucket, process.env.UPLOAD_INGESTION_PREFIX ?? 'incoming');
+  }
+
+  return null;
+}
+
+/**
+ * Where the ingestion job looks for files, for display on the Upload page
+ */
+export function describeIngestionSource(): { source: UploadIngestionSource; location: string } | null {
+  const directory = process.env.UPLOAD_INGESTION_DIR;
+  const bucket = process.env.UPLOAD_INGESTION_BUCKET;
+
+  if (directory) return { source: 'folder', location: directory };
+  if (bucket) {
+    const folder = (process.env.UPLOAD_INGESTION_PREFIX ?? 'incoming').replace(/^\/+|\/+$/g, '');
+    return { source: 'bucket', location: `${bucket}/${folder}` };
+  }
+  return null;
+}
+
+/**
+ * Read a dropped .csv or .xlsx file into sheets of string rows, the same
+ * shape readUploadFile produces in the browser
+ */
+async function readDroppedFile(file: DroppedFile, buffer: Buffer): Promise<ImportedSheet[]> {
+  if (buffer.length > MAX_UPLOAD_FILE_SIZE) {
+    throw new Error(`File is too large (max ${MAX_UPLOAD_FILE_SIZE / 1024 / 1024}MB)`);
+  }
+
+  if (path.extname(file.name).toLowerCase() === '.csv') {
+    return [{ name: file.name, rows: parseDelimitedText(buffer.toString('utf8'), ',') }];
+  }
+
+  const sheets = await readXlsxFile(buffer);
+  return sheets.map(({ sheet, data }) => ({
+    name: sheet,
+    rows: data.map(row => row.map(cellToString))
+  }));
+}
+
+function summarizeErrors(errors: string[]): string {
+  const shown = errors.slice(0, MAX_LOGGED_ERRORS).join('; ');
+  return errors.length > MAX_LOGGED_ERRORS ? `${shown}; and ${errors.length - MAX_LOGGED_ERRORS} more` : shown;
+}
+
+/**
+ * Detect, map, validate and upload one sheet. Returns null for sheets that do
+ * not look like any upload dataset (cover pages, pivot summaries).
+ */
+async function ingestSheet(
+  supabase: SupabaseClient,
+  sheet: ImportedSheet,
+  source: { fileName: string; fileHash: string; userId: string | null },
+  loadProfiles: (dataset: string) => Promise<UploadMappingProfile[]>
+): Promise<IngestionFileLog | null> {
+  const { headers, rows } = splitSheetRows(sheet.rows);
+  const dataset = getUploadDatasetBySchema(detectDataSchema(headers).detectedSchema);
+
+  if (!dataset || rows.length === 0) return null;
+
+  const log: IngestionFileLog = {
+    file_name: source.fileName,
+    file_hash: source.fileHash,
+    sheet_name: sheet.name,
+    dataset: dataset.id,
+    status: 'failed',
+    row_count: 0,
+    records_inserted: 0,
+    records_updated: 0,
+    rejected_count: 0
+  };
+
+  const profile = findMatchingProfile(await loadProfiles(dataset.id), headers);
+  const columnMapping = profile
+    ? applyMappingProfile(dataset, profile, headers)
+    : suggestColumnMapping(dataset, headers);
+  log.mapping_profile_id = profile?.id;
+
+  const unmapped = getUnmappedColumns(dataset, columnMapping);
+  if (unmapped.length > 0) {
+    log.message = `No column mapped for ${unmapped.map(column => column.label).join(', ')}. Save a mapping profile for these headers on the Upload page.`;
+    return log;
+  }
+
+  const parsed = parseUploadRows(dataset, rows, columnMapping);
+  const parsedRows = parsed.rows.filter(row => !row.errors);
+  log.row_count = parsed.rows.length;
+
+  const validation = await validateUploadRecords(
+    supabase,
+    dataset,
+    parsedRows.map(row => toUploadRecord(dataset, row)),
+    { allowUnknownCodes: process.env.UPLOAD_INGESTION_ALLOW_UNKNOWN_CODES === 'true' }
+  );
+
+  // Rejected rows reported by spreadsheet row number
+  const rejectedErrors = [
+    ...parsed.errors,
+    ...validation.rejected.map(row =>
+      `Row ${parsedRows[row.index].rowIndex}: ${row.errors.map(error => error.message).join(', ')}`
+    )
+  ];
+  log.rejected_count = rejectedErrors.length;
+
+  if (validation.records.length === 0) {
+    log.message = `No valid records. ${summarizeErrors(rejectedErrors)}`;
+    return log;
+  }
+
+  const applied = await applyValidatedUpload(supabase, dataset, validation, {
+    userId: source.userId,
+    fileName: `${source.fileName}${sheet.name !== source.fileName ? ` (${sheet.name})` : ''}`,
+    fileHash: source.fileHash,
+    rowCount: parsed.rows.length
+  });
+
+  if (!applied.success) {
+    log.batch_id = applied.batchId;
+    log.message = applied.details ? `${applied.error}: ${applied.details}` : applied.error;
+    return log;
+  }
+
+  log.status = 'uploaded';
+  log.batch_id = applied.batchId;
+  log.records_inserted = applied.recordsInserted;
+  log.records_updated = applied.recordsUpdated;
+  if (rejectedErrors.length > 0 || applied.errors.length > 0) {
+    log.message = summarizeErrors([...rejectedErrors, ...applied.errors]);
+  }
+  return log;
+}
+
+/**
+ * Process one dropped file and archive it. Files already ingested (same hash,
+ * batch not rolled back) are archived without uploading again; files with no uploaded sheet are moved
+ * to the failed folder so they are not retried every run.
+ */
+async function ingestFile(
+  supabase: SupabaseClient,
+  adapter: IngestionSourceAdapter,
+  file: DroppedFile,
+  userId: string | null,
+  loadProfiles: (dataset: string) => Promise<UploadMappingProfile[]>
+): Promise<IngestionFileLog[]> {
+  let fileHash: string | null = null;
+  let logs: IngestionFileLog[];
+
+  try {
+    const buffer = await adapter.readFile(file);
+    fileHash = createHash('sha256').update(buffer).digest('hex');
+
+    // Uploads that were rolled back since do not count
+    const { data: previous } = await supabase
+      .from('upload_ingestion_files')
+      .select('batch_id, upload_batches(status)')
+      .eq('file_hash', fileHash)
+      .eq('status', 'uploaded');
+
+    if (wasAlreadyIngested((previous || []) as unknown as PreviousIngestion[])) {
+      logs = [{
+        file_name: file.name,
+        file_hash: fileHash,
+        status: 'skipped',
+        row_count: 0,
+        records_inserted: 0,
+        records_updated: 0,
+        rejected_count: 0,
+        message: 'This file was already ingested'
+      }];
+    } else {
+      const sheets = await readDroppedFile(file, buffer);
+      logs = [];
+      for (const sheet of sheets) {
+        const log = await ingestSheet(supabase, sheet, { fileName: file.name, fileHash, userId }, loadProfiles);
+        if (log) logs.push(log);
+      }
+
+      if (logs.length === 0) {
+        logs = [{
+          file_name: file.name,
+          file_hash: fileHash,
+          status: 'failed',
+          row_count: 0,
+          records_inserted: 0,
+          records_updated: 0,
+          rejected_count: 0,
+          message: 'No sheet matched a known upload dataset'
+        }];
+      }
+    }
+  } catch (error) {
+    logs = [{
+      file_name: file.name,
+      file_hash: fileHash ?? undefined,
+      status: 'failed',
+      row_count: 0,
+      records_inserted: 0,
+      records_updated: 0,
+      rejected_count: 0,
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }];
+  }
+
+  const failed = logs.every(log => log.status === 'failed');
+  try {
+    const archivedTo = await adapter.archiveFile(file, failed ? 'failed' : 'archive', fileHash);
+    logs.forEach(log => { log.archived_to = archivedTo; });
+  } catch (error) {
+    const archiveError = `Could not archive file: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    logs.forEach(log => { log.message = log.message ? `${log.message}. ${archiveError}` : archiveError; });
+  }
+
+  return logs;
+}
+
+/**
+ * Run the ingestion job once over the configured drop location
+ */
+export async function runUploadIngestion({
+  triggeredBy = null
+}: { triggeredBy?: string | null } = {}): Promise<UploadIngestionRunSummary> {
+  const supabase = createAdminClient();
+  const adapter = getIngestionSource(supabase);
+
+  const summary: UploadIngestionRunSummary = {
+    runId: null,
+    status: 'skipped',
+    message: '',
+    filesFound: 0,
+    filesUploaded: 0,
+    filesSkipped: 0,
+    filesFailed: 0
+  };
+
+  if (!adapter) {
+    return { ...summary, message: 'Drop-folder ingestion is not configured (set UPLOAD_INGESTION_DIR or UPLOAD_INGESTION_BUCKET)' };
+  }
+
+  // Scheduled and manual runs must not pick up the same files twice, so the
+  // check for a run in progress and the claim are one statement
+  const { data: runId, error: runError } = await supabase.rpc('start_upload_ingestion_run', {
+    p_source: adapter.source,
+    p_location: adapter.location,
+    p_triggered_by: triggeredBy,
+    p_stale_minutes: STALE_RUN_MINUTES
+  });
+
+  if (runError) {
+    throw new Error(`Failed to start ingestion run: ${runError.message}`);
+  }
+  if (!runId) {
+    return { ...summary, message: 'Another ingestion run is in progress' };
+  }
+  summary.runId = runId;
+
+  const profileCache = new Map<string, UploadMappingProfile[]>();
+  const loadProfiles = async (dataset: string) => {
+    if (!profileCache.has(dataset)) {
+      const { data } = await supabase
+        .from('upload_mapping_profiles')
+        .select('*')
+        .eq('dataset', dataset)
+        .order('updated_at', { ascending: false });
+      profileCache.set(dataset, (data || []) as UploadMappingProfile[]);
+    }
+    return profileCache.get(dataset)!;
+  };
+
+  try {
+    const files = (await adapter.listFiles()).slice(0, MAX_FILES_PER_RUN);
+    summary.filesFound = files.length;
+
+    for (const file of files) {
+      const logs = await ingestFile(supabase, adapter, file, triggeredBy, loadProfiles);
+
+      const { error: logError } = await supabase
+        .from('upload_ingestion_files')
+        .insert(logs.map(log => ({ ...log, run_id: runId })));
+
+      if (logError) {
+        console.error('Ingestion file log error:', logError);
+      }
+
+      if (logs.some(log => log.status === 'uploaded')) {
+        summary.filesUploaded++;
+      } else if (logs.every(log => log.status === 'skipped')) {
+        summary.filesSkipped++;
+      } else {
+        summary.filesFailed++;
+      }
+    }
+
+    summary.status = 'completed';
+    summary.message = `${summary.filesFound} file${summary.filesFound !== 1 ? 's' : ''} found: ${summary.filesUploaded} uploaded, ${summary.filesSkipped} skipped, ${summary.filesFailed} failed`;
+  } catch (error) {
+    console.error('Ingestion run error:', error);
+    summary.status = 'failed';
+    summary.message = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  await supabase
+    .from('upload_ingestion_runs')
+    .update({
+      status: summary.status,
+      files_found: summary.filesFound,
+      files_uploaded: summary.filesUploaded,
+      files_skipped: summary.filesSkipped,
+      files_failed: summary.filesFailed,
+      error: summary.status === 'failed' ? summary.message : null,
+      finished_at: new Date().toISOString()
+    })
+    .eq('id', runId);
+
+  return summary;
+}
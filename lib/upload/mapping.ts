@@ -0,0 +1,108 @@
+/**
+ * Upload Column Mapping
+ * Suggests header -> field mappings and applies saved mapping profiles so
+ * renamed or reordered carrier columns are not silently dropped.
+ */
+
+import { detectDataSchema, normalizeHeader } from '@/lib/upload-schema-detector';
+import { UploadMappingProfile } from '@/lib/types/database';
+import { UploadDatasetDescriptor } from './datasets';
+import { resolveColumnMapping } from './parse';
+
+/**
+ * Suggest a column mapping for a set of headers. Descriptor aliases are tried
+ * first, then any remaining fields reported by detectDataSchema are matched
+ * against the normalized headers.
+ */
+export function suggestColumnMapping(
+  descriptor: UploadDatasetDescriptor,
+  headers: string[]
+): Record<string, number> {
+  const columnMapping = resolveColumnMapping(descriptor, headers);
+  const usedIndexes = new Set(Object.values(columnMapping));
+  const normalizedHeaders = headers.map(normalizeHeader);
+
+  const detection = detectDataSchema(headers);
+  const detectedFields = detection.detectedSchema === descriptor.schema ? detection.matchingFields : [];
+
+  descriptor.columns.forEach(column => {
+    if (columnMapping[column.key] !== undefined || !detectedFields.includes(column.key)) return;
+
+    const headerIndex = normalizedHeaders.findIndex((header, index) =>
+      !usedIndexes.has(index) && header !== '' && (header.includes(column.key) || column.key.includes(header))
+    );
+
+    if (headerIndex !== -1) {
+      columnMapping[column.key] = headerIndex;
+      usedIndexes.add(headerIndex);
+    }
+  });
+
+  return columnMapping;
+}
+
+/**
+ * A profile matches when every header it was saved from is present,
+ * regardless of column order.
+ */
+export function profileMatchesHeaders(profile: UploadMappingProfile, headers: string[]): boolean {
+  return profile.headers.length > 0 && profile.headers.every(header => headers.includes(header));
+}
+
+/**
+ * Find the first saved profile that matches the headers
+ */
+export function findMatchingProfile(
+  profiles: UploadMappingProfile[],
+  headers: string[]
+): UploadMappingProfile | undefined {
+  return profiles.find(profile => profileMatchesHeaders(profile, headers));
+}
+
+/**
+ * Resolve a saved profile's header names to header indexes
+ */
+export function applyMappingProfile(
+  descriptor: UploadDatasetDescriptor,
+  profile: UploadMappingProfile,
+  headers: string[]
+): Record<string, number> {
+  const columnMapping: Record<string, number> = {};
+
+  descriptor.columns.forEach(column => {
+    const header = profile.mapping[column.key];
+    const headerIndex = header === undefined ? -1 : headers.indexOf(header);
+
+    if (headerIndex !== -1) {
+      columnMapping[column.key] = headerIndex;
+    }
+  });
+
+  return columnMapping;
+}
+
+/**
+ * Convert an index-based mapping into the header-name form stored in a profile
+ */
+export function toProfileMapping(
+  columnMapping: Record<string, number>,
+  headers: string[]
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(columnMapping)
+      .filter(([, index]) => headers[index] !== undefined)
+      .map(([key, index]) => [key, headers[index]])
+  );
+}
+
+/**
+ * Required or header-required columns that have no source header mapped
+ */
+export function getUnmappedColumns(
+  descriptor: UploadDatasetDescriptor,
+  columnMapping: Record<string, number>
+) {
+  return descriptor.columns.filter(column =>
+    (column.required || column.requireHeader) && columnMapping[column.key] === undefined
+  );
+}
@@ -0,0 +1,314 @@
+/**
+ * Upload Parsing
+ * Shared cell parsers and the descriptor-driven row parser used by the upload engine.
+ */
+
+import { UploadColumn, UploadDatasetDescriptor } from './datasets';
+
+export type UploadValue = string | number;
+
+export interface ParsedUploadRow {
+  rowIndex: number; // Spreadsheet row number (header is row 1)
+  values: Record<string, UploadValue>;
+  errors?: string[];
+}
+
+export interface UploadParseResult {
+  rows: ParsedUploadRow[];
+  errors: string[];
+  columnMapping: Record<string, number>;
+}
+
+// Helper function to parse date from "Month DD, YYYY" format to "YYYY-MM-DD"
+export function parseDateString(dateStr: string): string | null {
+  try {
+    const date = new Date(dateStr);
+    if (isNaN(date.getTime())) {
+      return null;
+    }
+    return date.toISOString().split('T')[0]; // Returns YYYY-MM-DD format
+  } catch {
+    return null;
+  }
+}
+
+// Helper function to parse currency string (removes commas and converts to number)
+// Handles negative values in parentheses format: (1.0) = -1.0
+export function parseCurrencyString(currencyStr: string): number | null {
+  try {
+    let cleanStr = currencyStr.trim();
+    let isNegative = false;
+
+    // Check for parentheses notation (negative values)
+    if (cleanStr.startsWith('(') && cleanStr.endsWith(')')) {
+      isNegative = true;
+      cleanStr = cleanStr.slice(1, -1).trim(); // Remove parentheses
+    }
+
+    // Remove commas and any currency symbols
+    cleanStr = cleanStr.replace(/[,\$₱]/g, '').trim();
+
+    const num = parseFloat(cleanStr);
+    if (isNaN(num)) return null;
+
+    return isNegative ? -num : num;
+  } catch {
+    return null;
+  }
+}
+
+// Remove leading zeros from advisor code (091395 -> 91395)
+export function normalizeAdvisorCode(code: string): string {
+  return code.trim().replace(/^0+/, '') || '0'; // Keep at least one zero if all zeros
+}
+
+/**
+ * Split delimited text into rows of cells. Handles quoted fields, escaped
+ * quotes ("") and newlines embedded inside quoted fields, which is how both
+ * CSV files and Excel's clipboard encode multi-line cells.
+ */
+export function parseDelimitedText(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let atCellStart = true;
+
+  // Strip a UTF-8 byte order mark left by Excel's "CSV UTF-8" export
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && atCellStart) {
+      inQuotes = true;
+      atCellStart = false;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+      atCellStart = true;
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+      atCellStart = true;
+    } else {
+      cell += char;
+      atCellStart = false;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Split a sheet into lowercase headers and data rows. Blank data rows are
+ * kept so row numbers still line up with the spreadsheet; the row parser skips them.
+ */
+export function splitSheetRows(sheetRows: string[][]): { headers: string[]; rows: string[][] } {
+  const [headerRow = [], ...rows] = sheetRows;
+
+  return {
+    headers: headerRow.map(h => h.trim().toLowerCase()),
+    rows
+  };
+}
+
+/**
+ * Split tab-separated text pasted from Excel into a header row and data rows
+ */
+export function splitPastedText(data: string): { headers: string[]; rows: string[][] } {
+  return splitSheetRows(parseDelimitedText(data.trim(), '\t'));
+}
+
+/**
+ * Find the header index for every descriptor column
+ */
+export function resolveColumnMapping(
+  descriptor: UploadDatasetDescriptor,
+  headers: string[]
+): Record<string, number> {
+  const columnMapping: Record<string, number> = {};
+
+  descriptor.columns.forEach(column => {
+    const headerIndex = headers.findIndex(h =>
+      column.exactMatch
+        ? column.aliases.includes(h)
+        : column.aliases.some(alias => h.includes(alias))
+    );
+
+    if (headerIndex !== -1) {
+      columnMapping[column.key] = headerIndex;
+    }
+  });
+
+  return columnMapping;
+}
+
+/**
+ * Parse a single cell according to its column type.
+ * Returns the parsed value, undefined for a blank cell, or an error message.
+ */
+export function parseCell(
+  column: UploadColumn,
+  raw: string | undefined
+): { value?: UploadValue; error?: string } {
+  const value = raw?.trim();
+
+  if (!value) {
+    return column.required ? { error: `${column.label} is required` } : {};
+  }
+
+  switch (column.type) {
+    case 'code':
+      return { value: normalizeAdvisorCode(value) };
+
+    case 'text':
+      return { value };
+
+    case 'date': {
+      const parsedDate = parseDateString(value);
+      return parsedDate
+        ? { value: parsedDate }
+        : { error: `${column.label} must be in "Month DD, YYYY" format (e.g., "September 24, 2025")` };
+    }
+
+    case 'currency': {
+      const numValue = parseCurrencyString(value);
+      return numValue === null
+        ? { error: `${column.label} must be a valid number (currency format accepted, negatives in parentheses)` }
+        : { value: numValue };
+    }
+
+    case 'count': {
+      const numValue = parseFloat(value);
+      return isNaN(numValue) || numValue < 0
+        ? { error: `${column.label} must be a positive number` }
+        : { value: numValue };
+    }
+
+    case 'rate': {
+      if (value === '-') return {};
+
+      // Handle different rate formats - remove any non-numeric characters except decimal point
+      const cleanValue = value.replace(/[^\d.-]/g, '');
+      let numValue = parseFloat(cleanValue);
+
+      if (isNaN(numValue) || numValue < 0) {
+        return { error: `${column.label} must be a positive decimal number (got: "${value}", cleaned: "${cleanValue}")` };
+      }
+
+      if (column.percentToDecimal) {
+        // Convert percentage to decimal if needed (values > 1 are assumed to be percentages)
+        if (numValue > 1) {
+          numValue = numValue / 100;
+        }
+
+        // Database constraint: rate must be between 0 and 1
+        if (numValue > 1) {
+          return { error: `${column.label} must be between 0 and 1 (got: ${numValue}). Use decimal format: 0.15 for 15%` };
+        }
+      }
+
+      return { value: numValue };
+    }
+
+    case 'integer': {
+      if (value === '-') return {};
+
+      const numValue = parseInt(value);
+      const outOfRange =
+        (column.min !== undefined && numValue < column.min) ||
+        (column.max !== undefined && numValue > column.max);
+
+      return isNaN(numValue) || outOfRange
+        ? { error: `${column.label} must be a valid integer (${column.min ?? '-∞'}-${column.max ?? '∞'})` }
+        : { value: numValue };
+    }
+  }
+}
+
+/**
+ * Parse data rows against a dataset descriptor using a header -> column mapping
+ */
+export function parseUploadRows(
+  descriptor: UploadDatasetDescriptor,
+  rows: string[][],
+  columnMapping: Record<string, number>
+): UploadParseResult {
+  const errors: string[] = [];
+  const parsed: ParsedUploadRow[] = [];
+
+  rows.forEach((cells, index) => {
+    // Skip blank rows (e.g. trailing rows exported from Excel)
+    if (cells.every(cell => !cell || !cell.trim())) return;
+
+    const rowErrors: string[] = [];
+    const item: ParsedUploadRow = {
+      rowIndex: index + 2, // +2 because index starts at 0 and we skip header
+      values: {}
+    };
+
+    descriptor.columns.forEach(column => {
+      const cellIndex = columnMapping[column.key];
+
+      if (cellIndex === undefined) {
+        if (column.required) {
+          rowErrors.push(`${column.label} column not found`);
+        } else if (column.requireHeader) {
+          rowErrors.push(`${column.label} column not found in headers`);
+        }
+        return;
+      }
+
+      const { value, error } = parseCell(column, cells[cellIndex]);
+      if (error) {
+        rowErrors.push(error);
+      } else if (value !== undefined) {
+        item.values[column.key] = value;
+      }
+    });
+
+    if (rowErrors.length > 0) {
+      item.errors = rowErrors;
+      errors.push(`Row ${item.rowIndex}: ${rowErrors.join(', ')}`);
+    }
+
+    parsed.push(item);
+  });
+
+  return { rows: parsed, errors, columnMapping };
+}
+
+/**
+ * Build the payload record sent to the upload API for a parsed row
+ */
+export function toUploadRecord(
+  descriptor: UploadDatasetDescriptor,
+  row: ParsedUploadRow
+): Record<string, UploadValue | undefined> {
+  return Object.fromEntries(
+    descriptor.columns.map(column => [column.key, row.values[column.key]])
+  );
+}
@@ -0,0 +1,94 @@
+/**
+ * Upload Route Helpers
+ * Authentication and request-body handling shared by the upload API routes.
+ * Each helper returns either its result or the error response to send.
+ */
+
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+import { getCurrentUserProfile } from '@/lib/auth';
+import { MAX_UPLOAD_PAYLOAD_BYTES } from './validation';
+
+export const SHA256_PATTERN = /^[a-f0-9]{64}$/;
+
+export interface UploadSource {
+  fileName?: string;
+  fileHash?: string;
+}
+
+type RouteResult<T> = (T & { response?: never }) | { response: NextResponse };
+
+/**
+ * Check the caller is a signed-in admin
+ */
+export async function authorizeUploadRequest(): Promise<RouteResult<{ supabase: SupabaseClient; userId: string }>> {
+  const supabase = await createClient();
+  const { data: user, error: authError } = await supabase.auth.getClaims();
+
+  if (authError) {
+    console.error('Auth error details:', authError);
+    return {
+      response: NextResponse.json({
+        error: 'Authentication error',
+        details: authError.message
+      }, { status: 401 })
+    };
+  }
+
+  if (!user?.claims) {
+    return { response: NextResponse.json({ error: 'Unauthorized - no user claims' }, { status: 401 }) };
+  }
+
+  const { profile } = await getCurrentUserProfile();
+
+  if (!profile) {
+    return { response: NextResponse.json({ error: 'User profile not found' }, { status: 403 }) };
+  }
+
+  if (profile.app_role !== 'admin') {
+    return { response: NextResponse.json({ error: 'Admin access required' }, { status: 403 }) };
+  }
+
+  return { supabase, userId: user.claims.sub };
+}
+
+/**
+ * Parse the JSON body, rejecting requests over the payload size cap
+ */
+export async function readUploadRequestBody(request: Request): Promise<RouteResult<{ body: Record<string, unknown> }>> {
+  const contentLength = Number(request.headers.get('content-length'));
+  if (contentLength > MAX_UPLOAD_PAYLOAD_BYTES) {
+    return {
+      response: NextResponse.json({
+        error: 'Payload too large',
+        details: `Upload requests are limited to ${MAX_UPLOAD_PAYLOAD_BYTES / (1024 * 1024)}MB`
+      }, { status: 413 })
+    };
+  }
+
+  try {
+    const body = await request.json();
+    return { body: body && typeof body === 'object' ? body : {} };
+  } catch (parseError) {
+    console.error('Failed to parse request JSON:', parseError);
+    return {
+      response: NextResponse.json({
+        error: 'Invalid JSON in request body',
+        details: parseError instanceof Error ? parseError.message : 'Unknown parsing error'
+      }, { status: 400 })
+    };
+  }
+}
+
+/**
+ * Clean the client-supplied source details for the upload batch
+ */
+export function parseUploadSource(source: unknown): { fileName: string | null; fileHash: string | null } {
+  const { fileName, fileHash } = (source && typeof source === 'object' ? source : {}) as UploadSource;
+
+  return {
+    fileName: typeof fileName === 'string' ? fileName.slice(0, 255) : null,
+    fileHash: typeof fileHash === 'string' && SHA256_PATTERN.test(fileHash) ? fileHash : null
+  };
+}
@@ -0,0 +1,271 @@
+/**
+ * Upload Validation
+ * Server-side checks every upload payload goes through before it reaches the
+ * upload RPCs. The client parser already normalizes rows, but the API accepts
+ * any JSON, so each record is re-checked against its dataset descriptor and
+ * advisor codes are checked against manpower.code_number and its aliases.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { UploadColumn, UploadDatasetDescriptor } from './datasets';
+import { normalizeAdvisorCode, UploadValue } from './parse';
+
+export type UploadRecord = Record<string, string | number | null | undefined>;
+export type ValidatedUploadRecord = Record<string, UploadValue>;
+
+export const MAX_UPLOAD_RECORDS = 10000;
+export const MAX_UPLOAD_PAYLOAD_BYTES = 10 * 1024 * 1024; // 10MB
+export const MAX_UPLOAD_SESSION_RECORDS = 500000; // Whole payload of a chunked upload session
+
+const MAX_TEXT_LENGTH = 500;
+const MAX_CODE_LENGTH = 50;
+const MAX_AMOUNT = 1e10; // numeric(12, 2) columns
+const MAX_RATE = 10; // numeric(5, 4) columns
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CODE_CHUNK_SIZE = 100;
+
+export interface UploadFieldError {
+  field: string;
+  label: string;
+  message: string;
+  value?: string | number | null;
+}
+
+export interface UploadRejectedRow {
+  index: number; // Position of the record in the submitted payload
+  errors: UploadFieldError[];
+}
+
+export interface UploadValidationResult {
+  records: ValidatedUploadRecord[];
+  indexes: number[]; // Payload position of each validated record
+  rejected: UploadRejectedRow[];
+}
+
+export interface UploadValidationOptions {
+  allowUnknownCodes?: boolean; // Keep rows whose advisor code is not in manpower
+}
+
+function toNumber(value: string | number): number | null {
+  const num = typeof value === 'number' ? value : Number(value.trim());
+  return Number.isFinite(num) ? num : null;
+}
+
+function isCalendarDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+
+  const date = new Date(`${value}T00:00:00Z`);
+  const year = date.getUTCFullYear();
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value) && year >= 1900 && year <= 2100;
+}
+
+/**
+ * Check a single payload value against its column.
+ * Returns the cleaned value, undefined for a blank value, or an error message.
+ */
+export function validateUploadValue(
+  column: UploadColumn,
+  raw: unknown
+): { value?: UploadValue; error?: string } {
+  if (raw === null || raw === undefined || (typeof raw === 'string' && raw.trim() === '')) {
+    return column.required ? { error: `${column.label} is required` } : {};
+  }
+
+  if (typeof raw !== 'string' && typeof raw !== 'number') {
+    return { error: `${column.label} must be a text or number value` };
+  }
+
+  switch (column.type) {
+    case 'code': {
+      const code = normalizeAdvisorCode(String(raw));
+      if (code.length > MAX_CODE_LENGTH || /\s/.test(code)) {
+        return { error: `${column.label} must be a single code without spaces` };
+      }
+      return { value: code };
+    }
+
+    case 'text': {
+      const text = String(raw).trim();
+      return text.length > MAX_TEXT_LENGTH
+        ? { error: `${column.label} must be at most ${MAX_TEXT_LENGTH} characters` }
+        : { value: text };
+    }
+
+    case 'date': {
+      const date = String(raw).trim();
+      return isCalendarDate(date)
+        ? { value: date }
+        : { error: `${column.label} must be a valid YYYY-MM-DD date` };
+    }
+
+    case 'currency': {
+      const num = toNumber(raw);
+      return num === null || Math.abs(num) >= MAX_AMOUNT
+        ? { error: `${column.label} must be a valid amount` }
+        : { value: num };
+    }
+
+    case 'count': {
+      const num = toNumber(raw);
+      return num === null || num < 0 || num >= MAX_AMOUNT
+        ? { error: `${column.label} must be a positive number` }
+        : { value: num };
+    }
+
+    case 'rate': {
+      const num = toNumber(raw);
+      const max = column.percentToDecimal ? 1 : MAX_RATE;
+      return num === null || num < 0 || num > max
+        ? { error: `${column.label} must be a decimal between 0 and ${max}` }
+        : { value: num };
+    }
+
+    case 'integer': {
+      const num = toNumber(raw);
+      const outOfRange = num !== null && (
+        (column.min !== undefined && num < column.min) ||
+        (column.max !== undefined && num > column.max)
+      );
+      return num === null || !Number.isInteger(num) || outOfRange
+        ? { error: `${column.label} must be a valid integer (${column.min ?? '-∞'}-${column.max ?? '∞'})` }
+        : { value: num };
+    }
+  }
+}
+
+/**
+ * Map of alias code to manpower.code_number for the codes that are aliases
+ */
+export async function resolveAdvisorCodeAliases(
+  supabase: SupabaseClient,
+  codes: string[]
+): Promise<Map<string, string>> {
+  const aliases = new Map<string, string>();
+
+  for (let i = 0; i < codes.length; i += CODE_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('advisor_code_aliases')
+      .select('alias_code, code_number')
+      .in('alias_code', codes.slice(i, i + CODE_CHUNK_SIZE));
+
+    if (error) {
+      throw new Error(`Failed to check advisor code aliases: ${error.message}`);
+    }
+
+    (data || []).forEach(row => aliases.set(row.alias_code, row.code_number));
+  }
+
+  return aliases;
+}
+
+/**
+ * Codes that match neither a manpower record nor an advisor code alias
+ */
+export async function findUnknownAdvisorCodes(supabase: SupabaseClient, codes: string[]): Promise<Set<string>> {
+  const known = new Set<string>();
+
+  for (let i = 0; i < codes.length; i += CODE_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('manpower')
+      .select('code_number')
+      .in('code_number', codes.slice(i, i + CODE_CHUNK_SIZE));
+
+    if (error) {
+      throw new Error(`Failed to check advisor codes: ${error.message}`);
+    }
+
+    (data || []).forEach(row => known.add(row.code_number));
+  }
+
+  const unmatched = codes.filter(code => !known.has(code));
+  const aliases = await resolveAdvisorCodeAliases(supabase, unmatched);
+
+  return new Set(unmatched.filter(code => !aliases.has(code)));
+}
+
+/**
+ * Validate an upload payload against its dataset descriptor. Rows with field
+ * errors are returned in `rejected` and left out of `records`; fields that are
+ * not part of the descriptor are dropped.
+ */
+export async function validateUploadRecords(
+  supabase: SupabaseClient,
+  descriptor: UploadDatasetDescriptor,
+  records: unknown[],
+  { allowUnknownCodes = false }: UploadValidationOptions = {}
+): Promise<UploadValidationResult> {
+  const checked = records.map((record, index) => {
+    const values: ValidatedUploadRecord = {};
+    const errors: UploadFieldError[] = [];
+
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      errors.push({ field: '', label: 'Row', message: 'Row must be an object' });
+      return { index, values, errors };
+    }
+
+    descriptor.columns.forEach(column => {
+      const raw = (record as Record<string, unknown>)[column.key];
+      const { value, error } = validateUploadValue(column, raw);
+
+      if (error) {
+        errors.push({
+          field: column.key,
+          label: column.label,
+          message: error,
+          value: typeof raw === 'string' || typeof raw === 'number' ? raw : null
+        });
+      } else if (value !== undefined) {
+        values[column.key] = value;
+      }
+    });
+
+    return { index, values, errors };
+  });
+
+  if (!allowUnknownCodes) {
+    const codes = [...new Set(
+      checked
+        .filter(row => row.errors.length === 0)
+        .map(row => row.values[descriptor.codeField])
+        .filter(code => code !== undefined)
+        .map(String)
+    )];
+    const unknownCodes = await findUnknownAdvisorCodes(supabase, codes);
+    const codeColumn = descriptor.columns.find(column => column.key === descriptor.codeField);
+
+    checked.forEach(row => {
+      const code = row.values[descriptor.codeField];
+      if (row.errors.length === 0 && code !== undefined && unknownCodes.has(String(code))) {
+        row.errors.push({
+          field: descriptor.codeField,
+          label: codeColumn?.label ?? 'Advisor Code',
+          message: `Advisor code ${code} is not in manpower`,
+          value: code
+        });
+      }
+    });
+  }
+
+  const result: UploadValidationResult = { records: [], indexes: [], rejected: [] };
+
+  checked.forEach(row => {
+    if (row.errors.length > 0) {
+      result.rejected.push({ index: row.index, errors: row.errors });
+    } else {
+      result.records.push(row.values);
+      result.indexes.push(row.index);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * One line per rejected row for the upload batch error log. `offset` is the
+ * payload position of the first record when the payload is a chunk.
+ */
+export function formatRejectedRows(rejected: UploadRejectedRow[], offset = 0): string[] {
+  return rejected.map(row =>
+    `Record ${offset + row.index + 1}: ${row.errors.map(error => error.message).join(', ')}`
+  );
+}
@@ -0,0 +1,162 @@
+// Utility functions for systems closing periods
+
+export interface ClosingPeriodDates {
+  period_year: number;
+  period_month: number; // 1-12
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD
+}
+
+export type ClosingPeriodIssueType = 'gap' | 'overlap' | 'missing' | 'invalid';
+
+export interface ClosingPeriodIssue {
+  type: ClosingPeriodIssueType;
+  period_year: number;
+  period_month: number;
+  message: string;
+}
+
+// What to do when a generated closing date falls on a weekend
+export type WeekendRule = 'none' | 'previous_business_day' | 'next_business_day';
+
+export interface ClosingPeriodPattern {
+  closingDay: number; // Day of month each period closes on; clamped to the month's last day
+  weekendRule: WeekendRule;
+}
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Dates are handled as UTC midnight so day arithmetic never crosses a DST change
+function parseDate(value: string): Date {
+  return new Date(`${value}T00:00:00Z`);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDays(value: string, days: number): string {
+  const date = parseDate(value);
+  date.setUTCDate(date.getUTCDate() + days);
+  return formatDate(date);
+}
+
+export function formatPeriodName(year: number, month: number): string {
+  return `${MONTH_LABELS[month - 1]} ${year}`;
+}
+
+function periodKey(period: Pick<ClosingPeriodDates, 'period_year' | 'period_month'>): number {
+  return period.period_year * 12 + (period.period_month - 1);
+}
+
+/**
+ * Check closing periods for invalid ranges, gaps and overlaps between
+ * consecutive periods, and months missing from the given year. Neighbouring
+ * periods from other years may be passed in so the year boundaries are checked too.
+ */
+export function findClosingPeriodIssues(
+  periods: ClosingPeriodDates[],
+  year?: number
+): ClosingPeriodIssue[] {
+  const issues: ClosingPeriodIssue[] = [];
+  const sorted = [...periods].sort((a, b) => periodKey(a) - periodKey(b));
+
+  sorted.forEach(period => {
+    if (period.end_date <= period.start_date) {
+      issues.push({
+        type: 'invalid',
+        period_year: period.period_year,
+        period_month: period.period_month,
+        message: `${formatPeriodName(period.period_year, period.period_month)} ends on or before it starts`
+      });
+    }
+  });
+
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1];
+    const current = sorted[i];
+
+    // Only consecutive months should touch
+    if (periodKey(current) - periodKey(previous) !== 1) continue;
+
+    const expectedStart = addDays(previous.end_date, 1);
+    const currentName = formatPeriodName(current.period_year, current.period_month);
+    const previousName = formatPeriodName(previous.period_year, previous.period_month);
+
+    if (current.start_date > expectedStart) {
+      issues.push({
+        type: 'gap',
+        period_year: current.period_year,
+        period_month: current.period_month,
+        message: `Gap between ${previousName} (ends ${previous.end_date}) and ${currentName} (starts ${current.start_date})`
+      });
+    } else if (current.start_date < expectedStart) {
+      issues.push({
+        type: 'overlap',
+        period_year: current.period_year,
+        period_month: current.period_month,
+        message: `${currentName} (starts ${current.start_date}) overlaps ${previousName} (ends ${previous.end_date})`
+      });
+    }
+  }
+
+  if (year !== undefined) {
+    for (let month = 1; month <= 12; month++) {
+      if (!sorted.some(period => period.period_year === year && period.period_month === month)) {
+        issues.push({
+          type: 'missing',
+          period_year: year,
+          period_month: month,
+          message: `${formatPeriodName(year, month)} has no closing period`
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * The closing date for a month under a pattern
+ */
+function closingDateFor(year: number, month: number, pattern: ClosingPeriodPattern): string {
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const date = new Date(Date.UTC(year, month - 1, Math.min(Math.max(pattern.closingDay, 1), lastDay)));
+
+  if (pattern.weekendRule !== 'none') {
+    const step = pattern.weekendRule === 'previous_business_day' ? -1 : 1;
+    while (date.getUTCDay() === 0 || date.getUTCDay() === 6) {
+      date.setUTCDate(date.getUTCDate() + step);
+    }
+  }
+
+  return formatDate(date);
+}
+
+/**
+ * Generate the twelve closing periods of a year from a pattern. Each period
+ * runs from the day after the previous month's closing date to its own
+ * closing date, so consecutive periods never gap or overlap. Pass the end of
+ * the existing previous December so January starts right after it.
+ */
+export function generateClosingPeriods(
+  year: number,
+  pattern: ClosingPeriodPattern,
+  previousEndDate?: string
+): ClosingPeriodDates[] {
+  const periods: ClosingPeriodDates[] = [];
+  let previousClose = previousEndDate || closingDateFor(year - 1, 12, pattern);
+
+  for (let month = 1; month <= 12; month++) {
+    const close = closingDateFor(year, month, pattern);
+    periods.push({
+      period_year: year,
+      period_month: month,
+      start_date: addDays(previousClose, 1),
+      end_date: close
+    });
+    previousClose = close;
+  }
+
+  return periods;
+}
@@ -0,0 +1,16 @@
+// CSV building for downloads opened in Excel
+
+export type CsvValue = string | number | null | undefined;
+
+const escapeCell = (value: CsvValue): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Join a header row and data rows into CSV text. CRLF line endings and a
+ * byte order mark keep Excel from misreading names with accents.
+ */
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return '\uFEFF' + [header, ...rows].map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,77 @@
+-- Migration: Create Upload Mapping Profiles Table
+-- Description: Stores named, per-dataset column mapping profiles that the upload engine applies when source headers match
+-- Date: 2025-10-19
+
+-- ============================================================================
+-- 1. Upload Mapping Profiles Table
+-- ============================================================================
+CREATE TABLE public.upload_mapping_profiles (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    dataset text NOT NULL,
+    name text NOT NULL,
+    headers text[] NOT NULL DEFAULT '{}',
+    mapping jsonb NOT NULL DEFAULT '{}'::jsonb,
+    created_by uuid NULL REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL,
+
+    -- Constraints
+    CONSTRAINT upload_mapping_profiles_dataset_valid CHECK (dataset IN ('submitted-apps', 'settled-apps', 'fy-commission', 'rn-commission')),
+    CONSTRAINT upload_mapping_profiles_name_not_empty CHECK (length(trim(name)) > 0),
+    CONSTRAINT upload_mapping_profiles_mapping_object CHECK (jsonb_typeof(mapping) = 'object'),
+    CONSTRAINT upload_mapping_profiles_unique_name UNIQUE (dataset, name)
+);
+
+-- Add comments
+COMMENT ON TABLE public.upload_mapping_profiles IS 'Saved header-to-field mapping profiles for the data upload engine';
+COMMENT ON COLUMN public.upload_mapping_profiles.dataset IS 'Upload dataset id (submitted-apps, settled-apps, fy-commission, rn-commission)';
+COMMENT ON COLUMN public.upload_mapping_profiles.name IS 'Display name of the profile, e.g. "AIA RN report v2"';
+COMMENT ON COLUMN public.upload_mapping_profiles.headers IS 'Normalized source headers the profile was saved from; used to auto-apply the profile';
+COMMENT ON COLUMN public.upload_mapping_profiles.mapping IS 'Object of target column key -> source header';
+
+-- ============================================================================
+-- 2. Create Update Trigger
+-- ============================================================================
+CREATE TRIGGER update_upload_mapping_profiles_updated_at
+    BEFORE UPDATE ON public.upload_mapping_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 3. Create Indexes
+-- ============================================================================
+CREATE INDEX idx_upload_mapping_profiles_dataset ON public.upload_mapping_profiles(dataset);
+
+-- ============================================================================
+-- 4. Enable Row Level Security (RLS)
+-- ============================================================================
+ALTER TABLE public.upload_mapping_profiles ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- 5. Create RLS Policies
+-- ============================================================================
+
+-- Uploads are admin-only, so are the mapping profiles
+CREATE POLICY "admins_can_manage_upload_mapping_profiles"
+ON public.upload_mapping_profiles FOR ALL
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+)
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+);
+
+-- ============================================================================
+-- 6. Grant Permissions
+-- ============================================================================
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.upload_mapping_profiles TO authenticated;
+GRANT ALL ON public.upload_mapping_profiles TO service_role;
@@ -0,0 +1,732 @@
+-- Migration: Create Upload Batch Tracking
+-- Description: Records every upload as an upload_batches row, stamps detail rows with their batch id,
+--              logs rows refreshed by the dedup step and adds rollback_upload_batch to undo a bad import
+-- Date: 2025-10-19
+
+-- ============================================================================
+-- 1. Upload Batches Table
+-- ============================================================================
+CREATE TABLE public.upload_batches (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    dataset text NOT NULL,
+    uploaded_by uuid NULL REFERENCES auth.users(id) ON DELETE SET NULL,
+    file_name text NULL,
+    file_hash text NULL,
+    row_count integer NOT NULL DEFAULT 0,
+    records_inserted integer NOT NULL DEFAULT 0,
+    records_updated integer NOT NULL DEFAULT 0,
+    error_count integer NOT NULL DEFAULT 0,
+    errors text[] NOT NULL DEFAULT '{}',
+    status text NOT NULL DEFAULT 'processing',
+    rolled_back_at timestamptz NULL,
+    rolled_back_by uuid NULL REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    completed_at timestamptz NULL,
+
+    -- Constraints
+    CONSTRAINT upload_batches_dataset_valid CHECK (dataset IN ('submitted-apps', 'settled-apps', 'fy-commission', 'rn-commission')),
+    CONSTRAINT upload_batches_status_valid CHECK (status IN ('processing', 'completed', 'failed', 'rolled_back')),
+    CONSTRAINT upload_batches_counts_positive CHECK (row_count >= 0 AND records_inserted >= 0 AND records_updated >= 0 AND error_count >= 0)
+);
+
+-- Add comments
+COMMENT ON TABLE public.upload_batches IS 'One row per data upload; detail rows reference their batch through batch_id';
+COMMENT ON COLUMN public.upload_batches.dataset IS 'Upload dataset id (submitted-apps, settled-apps, fy-commission, rn-commission)';
+COMMENT ON COLUMN public.upload_batches.uploaded_by IS 'User who ran the upload';
+COMMENT ON COLUMN public.upload_batches.file_hash IS 'SHA-256 of the source file or pasted text';
+COMMENT ON COLUMN public.upload_batches.row_count IS 'Number of records sent to the upload RPC';
+COMMENT ON COLUMN public.upload_batches.records_updated IS 'Duplicates whose created_at was refreshed by the dedup step';
+COMMENT ON COLUMN public.upload_batches.status IS 'processing, completed, failed or rolled_back';
+
+-- ============================================================================
+-- 2. Upload Batch Row Changes Table
+-- ============================================================================
+-- The dedup step only refreshes created_at on exact duplicates, so the previous
+-- value is all a rollback needs to restore them.
+CREATE TABLE public.upload_batch_row_changes (
+    batch_id uuid NOT NULL REFERENCES public.upload_batches(id) ON DELETE CASCADE,
+    table_name text NOT NULL,
+    row_id uuid NOT NULL,
+    previous_created_at timestamptz NOT NULL,
+
+    PRIMARY KEY (batch_id, row_id)
+);
+
+COMMENT ON TABLE public.upload_batch_row_changes IS 'Existing detail rows refreshed by an upload batch and their previous created_at';
+
+-- ============================================================================
+-- 3. Stamp Detail Rows with their Batch
+-- ============================================================================
+ALTER TABLE public.submitted_apps_details
+ADD COLUMN IF NOT EXISTS batch_id uuid NULL REFERENCES public.upload_batches(id) ON DELETE SET NULL;
+
+ALTER TABLE public.settled_apps_details
+ADD COLUMN IF NOT EXISTS batch_id uuid NULL REFERENCES public.upload_batches(id) ON DELETE SET NULL;
+
+ALTER TABLE public.fy_commission_details
+ADD COLUMN IF NOT EXISTS batch_id uuid NULL REFERENCES public.upload_batches(id) ON DELETE SET NULL;
+
+ALTER TABLE public.rn_commission_details
+ADD COLUMN IF NOT EXISTS batch_id uuid NULL REFERENCES public.upload_batches(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.submitted_apps_details.batch_id IS 'Upload batch that inserted this row';
+COMMENT ON COLUMN public.settled_apps_details.batch_id IS 'Upload batch that inserted this row';
+COMMENT ON COLUMN public.fy_commission_details.batch_id IS 'Upload batch that inserted this row';
+COMMENT ON COLUMN public.rn_commission_details.batch_id IS 'Upload batch that inserted this row';
+
+-- ============================================================================
+-- 4. Create Indexes
+-- ============================================================================
+CREATE INDEX idx_upload_batches_dataset ON public.upload_batches(dataset);
+CREATE INDEX idx_upload_batches_created_at ON public.upload_batches(created_at);
+CREATE INDEX idx_upload_batches_file_hash ON public.upload_batches(file_hash);
+
+CREATE INDEX idx_submitted_apps_details_batch_id ON public.submitted_apps_details(batch_id);
+CREATE INDEX idx_settled_apps_details_batch_id ON public.settled_apps_details(batch_id);
+CREATE INDEX idx_fy_commission_details_batch_id ON public.fy_commission_details(batch_id);
+CREATE INDEX idx_rn_commission_details_batch_id ON public.rn_commission_details(batch_id);
+
+-- ============================================================================
+-- 5. Enable Row Level Security (RLS)
+-- ============================================================================
+ALTER TABLE public.upload_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.upload_batch_row_changes ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- 6. Create RLS Policies
+-- ============================================================================
+
+-- Upload batches - admin only, like the uploads themselves
+CREATE POLICY "admins_can_view_upload_batches"
+ON public.upload_batches FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+);
+
+CREATE POLICY "admins_can_create_upload_batches"
+ON public.upload_batches FOR INSERT
+TO authenticated
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+);
+
+CREATE POLICY "admins_can_update_upload_batches"
+ON public.upload_batches FOR UPDATE
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+);
+
+-- Row changes are written by the upload RPCs only
+CREATE POLICY "admins_can_view_upload_batch_row_changes"
+ON public.upload_batch_row_changes FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+);
+
+-- ============================================================================
+-- 7. Batch Helper Functions
+-- ============================================================================
+CREATE OR REPLACE FUNCTION record_upload_batch_row_changes(
+  p_batch_id uuid,
+  p_table_name text,
+  p_row_ids uuid[]
+) RETURNS void AS $$
+BEGIN
+  IF p_batch_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Keep the first value seen in this batch so repeated rows restore correctly
+  EXECUTE format(
+    'INSERT INTO public.upload_batch_row_changes (batch_id, table_name, row_id, previous_created_at)
+     SELECT $1, $2, id, created_at FROM public.%I WHERE id = ANY($3)
+     ON CONFLICT (batch_id, row_id) DO NOTHING',
+    p_table_name
+  ) USING p_batch_id, p_table_name, p_row_ids;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION complete_upload_batch(
+  p_batch_id uuid,
+  p_records_inserted integer,
+  p_records_updated integer,
+  p_errors text[]
+) RETURNS void AS $$
+BEGIN
+  IF p_batch_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.upload_batches
+  SET records_inserted = records_inserted + p_records_inserted,
+      records_updated = records_updated + p_records_updated,
+      error_count = error_count + COALESCE(array_length(p_errors, 1), 0),
+      errors = errors || COALESCE(p_errors, ARRAY[]::text[]),
+      status = CASE
+        WHEN (records_inserted + records_updated + p_records_inserted + p_records_updated) > 0 THEN 'completed'
+        ELSE 'failed'
+      END,
+      completed_at = now()
+  WHERE id = p_batch_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION record_upload_batch_row_changes(uuid, text, uuid[]) IS 'Logs the previous created_at of rows an upload batch refreshed as duplicates';
+COMMENT ON FUNCTION complete_upload_batch(uuid, integer, integer, text[]) IS 'Adds upload RPC results to an upload batch and marks it completed or failed';
+
+-- ============================================================================
+-- 8. Submitted Apps Upload with Deduplication and Batch Tracking
+-- ============================================================================
+DROP FUNCTION IF EXISTS upload_submitted_apps_with_dedup(jsonb);
+
+CREATE OR REPLACE FUNCTION upload_submitted_apps_with_dedup(
+  p_records jsonb,
+  p_batch_id uuid DEFAULT NULL
+) RETURNS jsonb AS $$
+DECLARE
+  records_inserted integer := 0;
+  records_updated integer := 0;
+  errors text[] := ARRAY[]::text[];
+  record_item jsonb;
+  matched_ids uuid[];
+  i integer;
+BEGIN
+  -- Security check: only admin can upload
+  IF public.get_user_app_role(auth.uid()) != 'admin' THEN
+    RAISE EXCEPTION 'Access denied: Only admin users can upload data';
+  END IF;
+
+  -- Rows can only be stamped with a batch that is still live
+  IF p_batch_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.upload_batches
+    WHERE id = p_batch_id AND status <> 'rolled_back'
+  ) THEN
+    RAISE EXCEPTION 'Upload batch % does not exist or has been rolled back', p_batch_id;
+  END IF;
+
+  -- Validate input
+  IF p_records IS NULL OR jsonb_array_length(p_records) = 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'records_inserted', 0,
+      'records_updated', 0,
+      'errors', ARRAY['No records provided']
+    );
+  END IF;
+
+  -- Process each record with duplicate detection
+  FOR i IN 0..jsonb_array_length(p_records)-1 LOOP
+    record_item := p_records->i;
+
+    BEGIN
+      -- Find existing records with exact same values
+      SELECT array_agg(id) INTO matched_ids
+      FROM submitted_apps_details
+      WHERE advisor_code = record_item->>'advisor_code'
+        AND COALESCE(advisor_name, '') = COALESCE(record_item->>'advisor_name', '')
+        AND process_date = (record_item->>'process_date')::date
+        AND COALESCE(insured_name, '') = COALESCE(record_item->>'insured_name', '')
+        AND COALESCE(policy_number, '') = COALESCE(record_item->>'policy_number', '')
+        AND COALESCE(submitted_apps, 0) = COALESCE((record_item->>'submitted_apps')::numeric, 0);
+
+      IF matched_ids IS NOT NULL THEN
+        -- Remember the previous created_at so a rollback can restore it
+        PERFORM record_upload_batch_row_changes(p_batch_id, 'submitted_apps_details', matched_ids);
+
+        -- Update existing record (refresh created_at to mark as latest)
+        UPDATE submitted_apps_details
+        SET created_at = NOW()
+        WHERE id = ANY(matched_ids);
+
+        records_updated := records_updated + 1;
+      ELSE
+        -- Insert new record stamped with its upload batch
+        INSERT INTO submitted_apps_details (
+          advisor_code, advisor_name, process_date, insured_name, policy_number, submitted_apps, batch_id
+        ) VALUES (
+          record_item->>'advisor_code',
+          record_item->>'advisor_name',
+          (record_item->>'process_date')::date,
+          record_item->>'insured_name',
+          record_item->>'policy_number',
+          (record_item->>'submitted_apps')::numeric,
+          p_batch_id
+        );
+
+        records_inserted := records_inserted + 1;
+      END IF;
+
+    EXCEPTION
+      WHEN OTHERS THEN
+        errors := errors || ('Record ' || (i + 1)::text || ' failed: ' || SQLERRM);
+        CONTINUE;
+    END;
+  END LOOP;
+
+  PERFORM complete_upload_batch(p_batch_id, records_inserted, records_updated, errors);
+
+  RETURN jsonb_build_object(
+    'success', (records_inserted + records_updated) > 0,
+    'records_inserted', records_inserted,
+    'records_updated', records_updated,
+    'errors', COALESCE(errors, ARRAY[]::text[])
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'records_inserted', 0,
+      'records_updated', 0,
+      'errors', ARRAY['Function error: ' || SQLERRM]
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 9. Settled Apps Upload with Deduplication and Batch Tracking
+-- ============================================================================
+DROP FUNCTION IF EXISTS upload_settled_apps_with_dedup(jsonb);
+
+CREATE OR REPLACE FUNCTION upload_settled_apps_with_dedup(
+  p_records jsonb,
+  p_batch_id uuid DEFAULT NULL
+) RETURNS jsonb AS $$
+DECLARE
+  records_inserted integer := 0;
+  records_updated integer := 0;
+  errors text[] := ARRAY[]::text[];
+  record_item jsonb;
+  matched_ids uuid[];
+  i integer;
+BEGIN
+  -- Security check: only admin can upload
+  IF public.get_user_app_role(auth.uid()) != 'admin' THEN
+    RAISE EXCEPTION 'Access denied: Only admin users can upload data';
+  END IF;
+
+  -- Rows can only be stamped with a batch that is still live
+  IF p_batch_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.upload_batches
+    WHERE id = p_batch_id AND status <> 'rolled_back'
+  ) THEN
+    RAISE EXCEPTION 'Upload batch % does not exist or has been rolled back', p_batch_id;
+  END IF;
+
+  -- Validate input
+  IF p_records IS NULL OR jsonb_array_length(p_records) = 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'records_inserted', 0,
+      'records_updated', 0,
+      'errors', ARRAY['No records provided']
+    );
+  END IF;
+
+  -- Process each record with duplicate detection
+  FOR i IN 0..jsonb_array_length(p_records)-1 LOOP
+    record_item := p_records->i;
+
+    BEGIN
+      -- Find existing records with exact same values
+      SELECT array_agg(id) INTO matched_ids
+      FROM settled_apps_details
+      WHERE advisor_code = record_item->>'advisor_code'
+        AND COALESCE(advisor_name, '') = COALESCE(record_item->>'advisor_name', '')
+        AND process_date = (record_item->>'process_date')::date
+        AND COALESCE(insured_name, '') = COALESCE(record_item->>'insured_name', '')
+        AND COALESCE(policy_number, '') = COALESCE(record_item->>'policy_number', '')
+        AND COALESCE(settled_apps, 0) = COALESCE((record_item->>'settled_apps')::numeric, 0)
+        AND COALESCE(agency_credits, 0) = COALESCE((record_item->>'agency_credits')::numeric, 0)
+        AND COALESCE(net_sales_credits, 0) = COALESCE((record_item->>'net_sales_credits')::numeric, 0);
+
+      IF matched_ids IS NOT NULL THEN
+        -- Remember the previous created_at so a rollback can restore it
+        PERFORM record_upload_batch_row_changes(p_batch_id, 'settled_apps_details', matched_ids);
+
+        -- Update existing record (refresh created_at to mark as latest)
+        UPDATE settled_apps_details
+        SET created_at = NOW()
+        WHERE id = ANY(matched_ids);
+
+        records_updated := records_updated + 1;
+      ELSE
+        -- Insert new record stamped with its upload batch
+        INSERT INTO settled_apps_details (
+          advisor_code, advisor_name, process_date, insured_name, policy_number, settled_apps, agency_credits, net_sales_credits, batch_id
+        ) VALUES (
+          record_item->>'advisor_code',
+          record_item->>'advisor_name',
+          (record_item->>'process_date')::date,
+          record_item->>'insured_name',
+          record_item->>'policy_number',
+          (record_item->>'settled_apps')::numeric,
+          (record_item->>'agency_credits')::numeric,
+          (record_item->>'net_sales_credits')::numeric,
+          p_batch_id
+        );
+
+        records_inserted := records_inserted + 1;
+      END IF;
+
+    EXCEPTION
+      WHEN OTHERS THEN
+        errors := errors || ('Record ' || (i + 1)::text || ' failed: ' || SQLERRM);
+        CONTINUE;
+    END;
+  END LOOP;
+
+  PERFORM complete_upload_batch(p_batch_id, records_inserted, records_updated, errors);
+
+  RETURN jsonb_build_object(
+    'success', (records_inserted + records_updated) > 0,
+    'records_inserted', records_inserted,
+    'records_updated', records_updated,
+    'errors', COALESCE(errors, ARRAY[]::text[])
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'records_inserted', 0,
+      'records_updated', 0,
+      'errors', ARRAY['Function error: ' || SQLERRM]
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 10. FY Commission Upload with Deduplication and Batch Tracking
+-- ============================================================================
+DROP FUNCTION IF EXISTS upload_fy_commission_with_dedup(jsonb);
+
+CREATE OR REPLACE FUNCTION upload_fy_commission_with_dedup(
+  p_records jsonb,
+  p_batch_id uuid DEFAULT NULL
+) RETURNS jsonb AS $$
+DECLARE
+  records_inserted integer := 0;
+  records_updated integer := 0;
+  errors text[] := ARRAY[]::text[];
+  record_item jsonb;
+  matched_ids uuid[];
+  i integer;
+BEGIN
+  -- Security check: only admin can upload
+  IF public.get_user_app_role(auth.uid()) != 'admin' THEN
+    RAISE EXCEPTION 'Access denied: Only admin users can upload data';
+  END IF;
+
+  -- Rows can only be stamped with a batch that is still live
+  IF p_batch_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.upload_batches
+    WHERE id = p_batch_id AND status <> 'rolled_back'
+  ) THEN
+    RAISE EXCEPTION 'Upload batch % does not exist or has been rolled back', p_batch_id;
+  END IF;
+
+  -- Validate input
+  IF p_records IS NULL OR jsonb_array_length(p_records) = 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'records_inserted', 0,
+      'records_updated', 0,
+      'errors', ARRAY['No records provided']
+    );
+  END IF;
+
+  -- Process each record with duplicate detection
+  FOR i IN 0..jsonb_array_length(p_records)-1 LOOP
+    record_item := p_records->i;
+
+    BEGIN
+      -- Find existing records with exact same values
+      SELECT array_agg(id) INTO matched_ids
+      FROM fy_commission_details
+      WHERE code = record_item->>'code'
+        AND process_date = (record_item->>'process_date')::date
+        AND COALESCE(insured_name, '') = COALESCE(record_item->>'insured_name', '')
+        AND COALESCE(policy_number, '') = COALESCE(record_item->>'policy_number', '')
+        AND COALESCE(transaction_type, '') = COALESCE(record_item->>'transaction_type', '')
+        AND COALESCE(fy_premium_php, 0) = COALESCE((record_item->>'fy_premium_php')::numeric, 0)
+        AND COALESCE(due_date::date, '1900-01-01'::date) = COALESCE((record_item->>'due_date')::date, '1900-01-01'::date)
+        AND COALESCE(rate, 0) = COALESCE((record_item->>'rate')::numeric, 0)
+        AND COALESCE(fy_commission_php, 0) = COALESCE((record_item->>'fy_commission_php')::numeric, 0);
+
+      IF matched_ids IS NOT NULL THEN
+        -- Remember the previous created_at so a rollback can restore it
+        PERFORM record_upload_batch_row_changes(p_batch_id, 'fy_commission_details', matched_ids);
+
+        -- Update existing record (refresh created_at to mark as latest)
+        UPDATE fy_commission_details
+        SET created_at = NOW()
+        WHERE id = ANY(matched_ids);
+
+        records_updated := records_updated + 1;
+      ELSE
+        -- Insert new record stamped with its upload batch
+        INSERT INTO fy_commission_details (
+          code, process_date, insured_name, policy_number, transaction_type, fy_premium_php, due_date, rate, fy_commission_php, batch_id
+        ) VALUES (
+          record_item->>'code',
+          (record_item->>'process_date')::date,
+          record_item->>'insured_name',
+          record_item->>'policy_number',
+          record_item->>'transaction_type',
+          (record_item->>'fy_premium_php')::numeric,
+          (record_item->>'due_date')::date,
+          (record_item->>'rate')::numeric,
+          (record_item->>'fy_commission_php')::numeric,
+          p_batch_id
+        );
+
+        records_inserted := records_inserted + 1;
+      END IF;
+
+    EXCEPTION
+      WHEN OTHERS THEN
+        errors := errors || ('Record ' || (i + 1)::text || ' failed: ' || SQLERRM);
+        CONTINUE;
+    END;
+  END LOOP;
+
+  PERFORM complete_upload_batch(p_batch_id, records_inserted, records_updated, errors);
+
+  RETURN jsonb_build_object(
+    'success', (records_inserted + records_updated) > 0,
+    'records_inserted', records_inserted,
+    'records_updated', records_updated,
+    'errors', COALESCE(errors, ARRAY[]::text[])
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'records_inserted', 0,
+      'records_updated', 0,
+      'errors', ARRAY['Function error: ' || SQLERRM]
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 11. RN Commission Upload with Deduplication and Batch Tracking
+-- ============================================================================
+DROP FUNCTION IF EXISTS upload_rn_commission_with_dedup(jsonb);
+
+CREATE OR REPLACE FUNCTION upload_rn_commission_with_dedup(
+  p_records jsonb,
+  p_batch_id uuid DEFAULT NULL
+) RETURNS jsonb AS $$
+DECLARE
+  records_inserted integer := 0;
+  records_updated integer := 0;
+  errors text[] := ARRAY[]::text[];
+  record_item jsonb;
+  matched_ids uuid[];
+  i integer;
+BEGIN
+  -- Security check: only admin can upload
+  IF public.get_user_app_role(auth.uid()) != 'admin' THEN
+    RAISE EXCEPTION 'Access denied: Only admin users can upload data';
+  END IF;
+
+  -- Rows can only be stamped with a batch that is still live
+  IF p_batch_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.upload_batches
+    WHERE id = p_batch_id AND status <> 'rolled_back'
+  ) THEN
+    RAISE EXCEPTION 'Upload batch % does not exist or has been rolled back', p_batch_id;
+  END IF;
+
+  -- Validate input
+  IF p_records IS NULL OR jsonb_array_length(p_records) = 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'records_inserted', 0,
+      'records_updated', 0,
+      'errors', ARRAY['No records provided']
+    );
+  END IF;
+
+  -- Process each record with duplicate detection
+  FOR i IN 0..jsonb_array_length(p_records)-1 LOOP
+    record_item := p_records->i;
+
+    BEGIN
+      -- Find existing records with exact same values
+      SELECT array_agg(id) INTO matched_ids
+      FROM rn_commission_details
+      WHERE code = record_item->>'code'
+        AND process_date = (record_item->>'process_date')::date
+        AND COALESCE(insured_name, '') = COALESCE(record_item->>'insured_name', '')
+        AND COALESCE(policy_number, '') = COALESCE(record_item->>'policy_number', '')
+        AND COALESCE(transaction_type, '') = COALESCE(record_item->>'transaction_type', '')
+        AND COALESCE(rn_premium_php, 0) = COALESCE((record_item->>'rn_premium_php')::numeric, 0)
+        AND COALESCE(due_date::date, '1900-01-01'::date) = COALESCE((record_item->>'due_date')::date, '1900-01-01'::date)
+        AND COALESCE(rate, 0) = COALESCE((record_item->>'rate')::numeric, 0)
+        AND COALESCE(year, 0) = COALESCE((record_item->>'year')::integer, 0)
+        AND COALESCE(rn_commission_php, 0) = COALESCE((record_item->>'rn_commission_php')::numeric, 0);
+
+      IF matched_ids IS NOT NULL THEN
+        -- Remember the previous created_at so a rollback can restore it
+        PERFORM record_upload_batch_row_changes(p_batch_id, 'rn_commission_details', matched_ids);
+
+        -- Update existing record (refresh created_at to mark as latest)
+        UPDATE rn_commission_details
+        SET created_at = NOW()
+        WHERE id = ANY(matched_ids);
+
+        records_updated := records_updated + 1;
+      ELSE
+        -- Insert new record stamped with its upload batch
+        INSERT INTO rn_commission_details (
+          code, process_date, insured_name, policy_number, transaction_type, rn_premium_php, due_date, rate, year, rn_commission_php, batch_id
+        ) VALUES (
+          record_item->>'code',
+          (record_item->>'process_date')::date,
+          record_item->>'insured_name',
+          record_item->>'policy_number',
+          record_item->>'transaction_type',
+          (record_item->>'rn_premium_php')::numeric,
+          (record_item->>'due_date')::date,
+          (record_item->>'rate')::numeric,
+          (record_item->>'year')::integer,
+          (record_item->>'rn_commission_php')::numeric,
+          p_batch_id
+        );
+
+        records_inserted := records_inserted + 1;
+      END IF;
+
+    EXCEPTION
+      WHEN OTHERS THEN
+        errors := errors || ('Record ' || (i + 1)::text || ' failed: ' || SQLERRM);
+        CONTINUE;
+    END;
+  END LOOP;
+
+  PERFORM complete_upload_batch(p_batch_id, records_inserted, records_updated, errors);
+
+  RETURN jsonb_build_object(
+    'success', (records_inserted + records_updated) > 0,
+    'records_inserted', records_inserted,
+    'records_updated', records_updated,
+    'errors', COALESCE(errors, ARRAY[]::text[])
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'records_inserted', 0,
+      'records_updated', 0,
+      'errors', ARRAY['Function error: ' || SQLERRM]
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 12. Rollback Upload Batch
+-- ============================================================================
+CREATE OR REPLACE FUNCTION rollback_upload_batch(
+  p_batch_id uuid
+) RETURNS jsonb AS $$
+DECLARE
+  batch_record RECORD;
+  target_table text;
+  rows_restored integer := 0;
+  rows_deleted integer := 0;
+BEGIN
+  -- Security check: only admin can roll back uploads
+  IF public.get_user_app_role(auth.uid()) != 'admin' THEN
+    RAISE EXCEPTION 'Access denied: Only admin users can roll back uploads';
+  END IF;
+
+  SELECT * INTO batch_record
+  FROM public.upload_batches
+  WHERE id = p_batch_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Upload batch % does not exist', p_batch_id;
+  END IF;
+
+  IF batch_record.status = 'rolled_back' THEN
+    RAISE EXCEPTION 'Upload batch % has already been rolled back', p_batch_id;
+  END IF;
+
+  target_table := CASE batch_record.dataset
+    WHEN 'submitted-apps' THEN 'submitted_apps_details'
+    WHEN 'settled-apps' THEN 'settled_apps_details'
+    WHEN 'fy-commission' THEN 'fy_commission_details'
+    WHEN 'rn-commission' THEN 'rn_commission_details'
+  END;
+
+  -- Restore rows the dedup step refreshed
+  EXECUTE format(
+    'UPDATE public.%I t
+     SET created_at = c.previous_created_at
+     FROM public.upload_batch_row_changes c
+     WHERE c.batch_id = $1 AND c.row_id = t.id AND t.batch_id IS DISTINCT FROM $1',
+    target_table
+  ) USING p_batch_id;
+  GET DIAGNOSTICS rows_restored = ROW_COUNT;
+
+  -- Delete rows inserted by the batch. The summary triggers on the detail
+  -- tables recalculate every affected monthly (and so annual) summary.
+  EXECUTE format('DELETE FROM public.%I WHERE batch_id = $1', target_table)
+  USING p_batch_id;
+  GET DIAGNOSTICS rows_deleted = ROW_COUNT;
+
+  UPDATE public.upload_batches
+  SET status = 'rolled_back',
+      rolled_back_at = now(),
+      rolled_back_by = auth.uid()
+  WHERE id = p_batch_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'batch_id', p_batch_id,
+    'records_deleted', rows_deleted,
+    'records_restored', rows_restored
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION rollback_upload_batch(uuid) IS 'Deletes rows inserted by an upload batch, restores rows it refreshed as duplicates and marks it rolled back';
+
+-- ============================================================================
+-- 13. Grant Permissions
+-- ============================================================================
+GRANT SELECT, INSERT, UPDATE ON public.upload_batches TO authenticated;
+GRANT SELECT ON public.upload_batch_row_changes TO authenticated;
+GRANT ALL ON public.upload_batches TO service_role;
+GRANT ALL ON public.upload_batch_row_changes TO service_role;
+
+GRANT EXECUTE ON FUNCTION rollback_upload_batch(uuid) TO authenticated;
+
+-- Batch helpers are only called from the SECURITY DEFINER upload RPCs
+REVOKE EXECUTE ON FUNCTION record_upload_batch_row_changes(uuid, text, uuid[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_upload_batch(uuid, integer, integer, text[]) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,203 @@
+-- Migration: Create Chunked Upload Sessions
+-- Description: Lets an upload batch be sent in chunks. Each chunk is recorded once in upload_batch_chunks,
+--              so a retried or resumed chunk never inserts its rows twice.
+-- Date: 2025-10-19
+
+-- ============================================================================
+-- 1. Session Columns on Upload Batches
+-- ============================================================================
+ALTER TABLE public.upload_batches
+ADD COLUMN IF NOT EXISTS session_key text NULL,
+ADD COLUMN IF NOT EXISTS chunk_size integer NULL,
+ADD COLUMN IF NOT EXISTS total_chunks integer NULL;
+
+ALTER TABLE public.upload_batches
+ADD CONSTRAINT upload_batches_chunks_positive CHECK (
+    (chunk_size IS NULL OR chunk_size > 0) AND (total_chunks IS NULL OR total_chunks > 0)
+);
+
+COMMENT ON COLUMN public.upload_batches.session_key IS 'SHA-256 of the chunked payload, used to resume an interrupted upload';
+COMMENT ON COLUMN public.upload_batches.chunk_size IS 'Records per chunk for chunked uploads';
+COMMENT ON COLUMN public.upload_batches.total_chunks IS 'Number of chunks in a chunked upload, NULL for single-request uploads';
+
+CREATE INDEX idx_upload_batches_session_key ON public.upload_batches(session_key);
+
+-- ============================================================================
+-- 2. Upload Batch Chunks Table
+-- ============================================================================
+CREATE TABLE public.upload_batch_chunks (
+    batch_id uuid NOT NULL REFERENCES public.upload_batches(id) ON DELETE CASCADE,
+    chunk_index integer NOT NULL,
+    record_count integer NOT NULL DEFAULT 0,
+    records_inserted integer NOT NULL DEFAULT 0,
+    records_updated integer NOT NULL DEFAULT 0,
+    errors text[] NOT NULL DEFAULT '{}',
+    completed_at timestamptz DEFAULT now() NOT NULL,
+
+    PRIMARY KEY (batch_id, chunk_index),
+    CONSTRAINT upload_batch_chunks_index_positive CHECK (chunk_index >= 0)
+);
+
+COMMENT ON TABLE public.upload_batch_chunks IS 'Chunks of a chunked upload batch that have been applied, one row per chunk';
+
+-- ============================================================================
+-- 3. Enable Row Level Security (RLS)
+-- ============================================================================
+ALTER TABLE public.upload_batch_chunks ENABLE ROW LEVEL SECURITY;
+
+-- Chunks are written by upload_batch_chunk only
+CREATE POLICY "admins_can_view_upload_batch_chunks"
+ON public.upload_batch_chunks FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+);
+
+-- ============================================================================
+-- 4. Upload a Single Chunk
+-- ============================================================================
+CREATE OR REPLACE FUNCTION upload_batch_chunk(
+  p_batch_id uuid,
+  p_chunk_index integer,
+  p_records jsonb,
+  p_rejected text[] DEFAULT '{}'
+) RETURNS jsonb AS $$
+DECLARE
+  batch_record RECORD;
+  chunk_record RECORD;
+  result jsonb;
+  chunk_errors text[];
+  chunks_completed integer;
+BEGIN
+  -- Security check: only admin can upload
+  IF public.get_user_app_role(auth.uid()) != 'admin' THEN
+    RAISE EXCEPTION 'Access denied: Only admin users can upload data';
+  END IF;
+
+  -- Lock the batch so chunks of one session are applied one at a time
+  SELECT * INTO batch_record
+  FROM public.upload_batches
+  WHERE id = p_batch_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Upload batch % does not exist', p_batch_id;
+  END IF;
+
+  IF batch_record.total_chunks IS NULL THEN
+    RAISE EXCEPTION 'Upload batch % is not a chunked upload session', p_batch_id;
+  END IF;
+
+  IF batch_record.status = 'rolled_back' THEN
+    RAISE EXCEPTION 'Upload batch % has been rolled back', p_batch_id;
+  END IF;
+
+  IF p_chunk_index < 0 OR p_chunk_index >= batch_record.total_chunks THEN
+    RAISE EXCEPTION 'Chunk % is out of range for upload batch % (% chunks)',
+      p_chunk_index, p_batch_id, batch_record.total_chunks;
+  END IF;
+
+  -- A chunk that was already applied returns its original result
+  SELECT * INTO chunk_record
+  FROM public.upload_batch_chunks
+  WHERE batch_id = p_batch_id AND chunk_index = p_chunk_index;
+
+  IF FOUND THEN
+    result := jsonb_build_object(
+      'success', true,
+      'already_uploaded', true,
+      'records_inserted', chunk_record.records_inserted,
+      'records_updated', chunk_record.records_updated,
+      'errors', to_jsonb(chunk_record.errors)
+    );
+  ELSE
+    -- Every row of the chunk may have been rejected before reaching the database
+    IF p_records IS NULL OR jsonb_array_length(p_records) = 0 THEN
+      result := jsonb_build_object('success', true, 'records_inserted', 0, 'records_updated', 0, 'errors', '[]'::jsonb);
+    ELSE
+      -- The dataset RPC adds its errors to the batch even when no row went in; a failed
+      -- chunk is undone so the client's retries do not add the same errors again
+      BEGIN
+        result := CASE batch_record.dataset
+          WHEN 'submitted-apps' THEN upload_submitted_apps_with_dedup(p_records, p_batch_id)
+          WHEN 'settled-apps' THEN upload_settled_apps_with_dedup(p_records, p_batch_id)
+          WHEN 'fy-commission' THEN upload_fy_commission_with_dedup(p_records, p_batch_id)
+          WHEN 'rn-commission' THEN upload_rn_commission_with_dedup(p_records, p_batch_id)
+        END;
+
+        IF NOT (result->>'success')::boolean THEN
+          RAISE EXCEPTION 'Upload chunk failed' USING ERRCODE = 'U0001';
+        END IF;
+      EXCEPTION
+        WHEN SQLSTATE 'U0001' THEN
+          NULL; -- result keeps the failed chunk's errors for the client
+      END;
+    END IF;
+
+    -- Only successful chunks are recorded; a failed chunk can be retried
+    IF (result->>'success')::boolean THEN
+      chunk_errors := ARRAY(SELECT jsonb_array_elements_text(COALESCE(result->'errors', '[]'::jsonb)));
+
+      INSERT INTO public.upload_batch_chunks (
+        batch_id, chunk_index, record_count, records_inserted, records_updated, errors
+      ) VALUES (
+        p_batch_id,
+        p_chunk_index,
+        COALESCE(jsonb_array_length(p_records), 0),
+        (result->>'records_inserted')::integer,
+        (result->>'records_updated')::integer,
+        COALESCE(p_rejected, ARRAY[]::text[]) || chunk_errors
+      );
+
+      -- Rows rejected by validation count as batch errors alongside RPC errors
+      UPDATE public.upload_batches
+      SET error_count = error_count + COALESCE(array_length(p_rejected, 1), 0),
+          errors = errors || COALESCE(p_rejected, ARRAY[]::text[])
+      WHERE id = p_batch_id;
+    END IF;
+
+    result := result || jsonb_build_object('already_uploaded', false);
+  END IF;
+
+  SELECT count(*) INTO chunks_completed
+  FROM public.upload_batch_chunks
+  WHERE batch_id = p_batch_id;
+
+  -- The dataset RPC marks the batch completed; keep it processing until every chunk is in
+  UPDATE public.upload_batches
+  SET status = CASE
+        WHEN chunks_completed < total_chunks THEN 'processing'
+        WHEN (records_inserted + records_updated) > 0 THEN 'completed'
+        ELSE 'failed'
+      END,
+      completed_at = CASE WHEN chunks_completed < total_chunks THEN NULL ELSE now() END
+  WHERE id = p_batch_id
+  RETURNING records_inserted, records_updated, error_count, status, total_chunks
+  INTO batch_record;
+
+  RETURN result || jsonb_build_object(
+    'chunks_completed', chunks_completed,
+    'total_chunks', batch_record.total_chunks,
+    'batch', jsonb_build_object(
+      'records_inserted', batch_record.records_inserted,
+      'records_updated', batch_record.records_updated,
+      'error_count', batch_record.error_count,
+      'status', batch_record.status
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION upload_batch_chunk(uuid, integer, jsonb, text[]) IS 'Applies one chunk of a chunked upload batch exactly once through the dataset upload RPC';
+
+-- ============================================================================
+-- 5. Grant Permissions
+-- ============================================================================
+GRANT SELECT ON public.upload_batch_chunks TO authenticated;
+GRANT ALL ON public.upload_batch_chunks TO service_role;
+
+GRANT EXECUTE ON FUNCTION upload_batch_chunk(uuid, integer, jsonb, text[]) TO authenticated;
@@ -0,0 +1,269 @@
+-- Migration: Create Orphan Advisor Code Queue
+-- Description: Lists submitted/settled app rows whose advisor_code has no manpower record (so they never reach
+--              monthly_production_summary) and lets admins map, create or ignore each code
+-- Date: 2025-10-19
+
+-- ============================================================================
+-- 1. Orphan Advisor Code Resolutions Table
+-- ============================================================================
+CREATE TABLE public.orphan_advisor_code_resolutions (
+    advisor_code text PRIMARY KEY,
+    resolution text NOT NULL,
+    mapped_to_code text NULL REFERENCES public.manpower(code_number) ON DELETE SET NULL,
+    rows_updated integer NOT NULL DEFAULT 0,
+    resolved_by uuid NULL REFERENCES auth.users(id) ON DELETE SET NULL,
+    resolved_at timestamptz DEFAULT now() NOT NULL,
+
+    -- Constraints
+    CONSTRAINT orphan_advisor_code_resolutions_resolution_valid CHECK (resolution IN ('mapped', 'created', 'ignored')),
+    CONSTRAINT orphan_advisor_code_resolutions_mapped_target CHECK (resolution <> 'mapped' OR mapped_to_code IS NOT NULL)
+);
+
+-- Add comments
+COMMENT ON TABLE public.orphan_advisor_code_resolutions IS 'How each unknown advisor code found in uploaded production was resolved';
+COMMENT ON COLUMN public.orphan_advisor_code_resolutions.resolution IS 'mapped (rows moved to an existing advisor), created (manpower record added) or ignored';
+COMMENT ON COLUMN public.orphan_advisor_code_resolutions.mapped_to_code IS 'Advisor the rows were moved to when resolution is mapped';
+COMMENT ON COLUMN public.orphan_advisor_code_resolutions.rows_updated IS 'Detail rows moved to mapped_to_code';
+
+-- ============================================================================
+-- 2. Enable Row Level Security (RLS)
+-- ============================================================================
+ALTER TABLE public.orphan_advisor_code_resolutions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "admins_can_manage_orphan_advisor_code_resolutions"
+ON public.orphan_advisor_code_resolutions FOR ALL
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+)
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+);
+
+-- ============================================================================
+-- 3. Create Indexes
+-- ============================================================================
+CREATE INDEX IF NOT EXISTS idx_submitted_apps_details_advisor_code ON public.submitted_apps_details(advisor_code);
+CREATE INDEX IF NOT EXISTS idx_settled_apps_details_advisor_code ON public.settled_apps_details(advisor_code);
+
+-- ============================================================================
+-- 4. List Orphan Advisor Codes
+-- ============================================================================
+CREATE OR REPLACE FUNCTION get_orphan_advisor_codes(
+  p_include_ignored boolean DEFAULT false
+) RETURNS TABLE (
+  advisor_code text,
+  advisor_name text,
+  submitted_rows bigint,
+  settled_rows bigint,
+  total_submitted_apps numeric,
+  total_settled_apps numeric,
+  total_agency_credits numeric,
+  total_net_sales_credits numeric,
+  first_process_date date,
+  last_process_date date,
+  ignored boolean
+) AS $$
+BEGIN
+  -- Security check: only admin can review orphan codes
+  IF public.get_user_app_role(auth.uid()) != 'admin' THEN
+    RAISE EXCEPTION 'Access denied: Only admin users can view orphan advisor codes';
+  END IF;
+
+  RETURN QUERY
+  WITH orphan_rows AS (
+    SELECT
+      s.advisor_code,
+      s.advisor_name,
+      s.process_date,
+      1 AS submitted_row,
+      0 AS settled_row,
+      COALESCE(s.submitted_apps, 0) AS submitted_apps,
+      0::numeric AS settled_apps,
+      0::numeric AS agency_credits,
+      0::numeric AS net_sales_credits
+    FROM public.submitted_apps_details s
+    WHERE s.advisor_code IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM public.manpower m WHERE m.code_number = s.advisor_code)
+    UNION ALL
+    SELECT
+      t.advisor_code,
+      t.advisor_name,
+      t.process_date,
+      0,
+      1,
+      0::numeric,
+      COALESCE(t.settled_apps, 0),
+      COALESCE(t.agency_credits, 0),
+      COALESCE(t.net_sales_credits, 0)
+    FROM public.settled_apps_details t
+    WHERE t.advisor_code IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM public.manpower m WHERE m.code_number = t.advisor_code)
+  )
+  SELECT
+    o.advisor_code,
+    max(o.advisor_name),
+    sum(o.submitted_row)::bigint,
+    sum(o.settled_row)::bigint,
+    sum(o.submitted_apps),
+    sum(o.settled_apps),
+    sum(o.agency_credits),
+    sum(o.net_sales_credits),
+    min(o.process_date),
+    max(o.process_date),
+    (r.resolution = 'ignored') IS TRUE
+  FROM orphan_rows o
+  LEFT JOIN public.orphan_advisor_code_resolutions r ON r.advisor_code = o.advisor_code
+  GROUP BY o.advisor_code, r.resolution
+  HAVING p_include_ignored OR r.resolution IS DISTINCT FROM 'ignored'
+  ORDER BY sum(o.agency_credits) DESC, o.advisor_code;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_orphan_advisor_codes(boolean) IS 'Advisor codes in submitted/settled apps with no manpower record, with row counts and production totals';
+
+-- ============================================================================
+-- 5. Recalculate Every Summary Period for an Advisor Code
+-- ============================================================================
+CREATE OR REPLACE FUNCTION recalculate_advisor_code_summaries(
+  p_advisor_code text
+) RETURNS integer AS $$
+DECLARE
+  period_record RECORD;
+  periods_recalculated integer := 0;
+BEGIN
+  -- Security check: only admin can trigger recalculation
+  IF public.get_user_app_role(auth.uid()) != 'admin' THEN
+    RAISE EXCEPTION 'Access denied: Only admin users can recalculate production summaries';
+  END IF;
+
+  FOR period_record IN
+    WITH code_dates AS (
+      SELECT DISTINCT process_date FROM public.submitted_apps_details WHERE advisor_code = p_advisor_code
+      UNION
+      SELECT DISTINCT process_date FROM public.settled_apps_details WHERE advisor_code = p_advisor_code
+      UNION
+      SELECT DISTINCT process_date FROM public.rn_commission_details WHERE code = p_advisor_code
+    )
+    SELECT DISTINCT
+      'calendar' AS period_type,
+      cp.period_year,
+      cp.period_month,
+      cp.period_start,
+      cp.period_end
+    FROM code_dates d
+    CROSS JOIN LATERAL get_calendar_period(d.process_date) cp
+    WHERE d.process_date IS NOT NULL
+    UNION
+    SELECT DISTINCT
+      'systems',
+      scp.period_year,
+      scp.period_month,
+      scp.start_date,
+      scp.end_date
+    FROM code_dates d
+    JOIN public.cal_systems_closing_periods scp
+      ON d.process_date >= scp.start_date AND d.process_date <= scp.end_date
+  LOOP
+    PERFORM recalculate_monthly_summary(
+      p_advisor_code,
+      period_record.period_year,
+      period_record.period_month,
+      period_record.period_type,
+      period_record.period_start,
+      period_record.period_end
+    );
+    periods_recalculated := periods_recalculated + 1;
+  END LOOP;
+
+  RETURN periods_recalculated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION recalculate_advisor_code_summaries(text) IS 'Recalculates the calendar and systems monthly summaries of every period an advisor code has production in';
+
+-- ============================================================================
+-- 6. Map an Orphan Code to an Existing Advisor
+-- ============================================================================
+CREATE OR REPLACE FUNCTION map_orphan_advisor_code(
+  p_orphan_code text,
+  p_target_code text
+) RETURNS jsonb AS $$
+DECLARE
+  rows_moved integer := 0;
+  table_rows integer;
+  periods_recalculated integer;
+BEGIN
+  -- Security check: only admin can map orphan codes
+  IF public.get_user_app_role(auth.uid()) != 'admin' THEN
+    RAISE EXCEPTION 'Access denied: Only admin users can map orphan advisor codes';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.manpower WHERE code_number = p_orphan_code) THEN
+    RAISE EXCEPTION 'Advisor code % already has a manpower record', p_orphan_code;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.manpower WHERE code_number = p_target_code) THEN
+    RAISE EXCEPTION 'Advisor code % does not exist in manpower', p_target_code;
+  END IF;
+
+  -- Move the rows to the target advisor. Commission rows are moved too so
+  -- every dataset agrees on who the production belongs to.
+  UPDATE public.submitted_apps_details SET advisor_code = p_target_code WHERE advisor_code = p_orphan_code;
+  GET DIAGNOSTICS table_rows = ROW_COUNT;
+  rows_moved := rows_moved + table_rows;
+
+  UPDATE public.settled_apps_details SET advisor_code = p_target_code WHERE advisor_code = p_orphan_code;
+  GET DIAGNOSTICS table_rows = ROW_COUNT;
+  rows_moved := rows_moved + table_rows;
+
+  UPDATE public.fy_commission_details SET code = p_target_code WHERE code = p_orphan_code;
+  GET DIAGNOSTICS table_rows = ROW_COUNT;
+  rows_moved := rows_moved + table_rows;
+
+  UPDATE public.rn_commission_details SET code = p_target_code WHERE code = p_orphan_code;
+  GET DIAGNOSTICS table_rows = ROW_COUNT;
+  rows_moved := rows_moved + table_rows;
+
+  -- The row triggers already recalculated each touched period; run it once
+  -- more per period so the target's summaries are complete in one pass
+  periods_recalculated := recalculate_advisor_code_summaries(p_target_code);
+
+  INSERT INTO public.orphan_advisor_code_resolutions (advisor_code, resolution, mapped_to_code, rows_updated, resolved_by)
+  VALUES (p_orphan_code, 'mapped', p_target_code, rows_moved, auth.uid())
+  ON CONFLICT (advisor_code) DO UPDATE
+  SET resolution = 'mapped',
+      mapped_to_code = EXCLUDED.mapped_to_code,
+      rows_updated = EXCLUDED.rows_updated,
+      resolved_by = EXCLUDED.resolved_by,
+      resolved_at = now();
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'orphan_code', p_orphan_code,
+    'target_code', p_target_code,
+    'rows_updated', rows_moved,
+    'periods_recalculated', periods_recalculated
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION map_orphan_advisor_code(text, text) IS 'Moves production rows of an unknown advisor code to an existing advisor and recalculates their summaries';
+
+-- ============================================================================
+-- 7. Grant Permissions
+-- ============================================================================
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.orphan_advisor_code_resolutions TO authenticated;
+GRANT ALL ON public.orphan_advisor_code_resolutions TO service_role;
+
+GRANT EXECUTE ON FUNCTION get_orphan_advisor_codes(boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION recalculate_advisor_code_summaries(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION map_orphan_advisor_code(text, text) TO authenticated;
@@ -0,0 +1,1096 @@
+-- Migration: Create Advisor Code Aliases
+-- Description: Old or reformatted advisor codes (e.g. leading zeros stripped by Excel) that belong to a manpower
+--              record. Uploads store aliased codes under the manpower code and summaries roll up alias production.
+-- Date: 2025-10-19
+
+-- ============================================================================
+-- 1. Advisor Code Aliases Table
+-- ============================================================================
+CREATE TABLE public.advisor_code_aliases (
+    alias_code text PRIMARY KEY,
+    code_number text NOT NULL REFERENCES public.manpower(code_number) ON UPDATE CASCADE ON DELETE CASCADE,
+    note text NULL,
+    created_by uuid NULL REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at timestamptz DEFAULT now() NOT NULL,
+
+    -- Constraints
+    CONSTRAINT advisor_code_aliases_alias_not_blank CHECK (length(trim(alias_code)) > 0),
+    CONSTRAINT advisor_code_aliases_not_self CHECK (alias_code <> code_number)
+);
+
+-- Add comments
+COMMENT ON TABLE public.advisor_code_aliases IS 'Other advisor codes carrier files use for a manpower record';
+COMMENT ON COLUMN public.advisor_code_aliases.alias_code IS 'Code as it appears in uploaded files';
+COMMENT ON COLUMN public.advisor_code_aliases.code_number IS 'Manpower record the alias resolves to';
+
+CREATE INDEX IF NOT EXISTS idx_advisor_code_aliases_code_number ON public.advisor_code_aliases(code_number);
+
+-- ============================================================================
+-- 2. Enable Row Level Security (RLS)
+-- ============================================================================
+ALTER TABLE public.advisor_code_aliases ENABLE ROW LEVEL SECURITY;
+
+-- Summary recalculation reads aliases as the uploading user
+CREATE POLICY "authenticated_can_read_advisor_code_aliases"
+ON public.advisor_code_aliases FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "admins_can_manage_advisor_code_aliases"
+ON public.advisor_code_aliases FOR ALL
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+)
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+);
+
+-- ============================================================================
+-- 3. Resolve an Advisor Code
+-- ============================================================================
+CREATE OR REPLACE FUNCTION resolve_advisor_code(p_code text)
+RETURNS text AS $$
+  SELECT COALESCE(
+    (SELECT a.code_number FROM public.advisor_code_aliases a WHERE a.alias_code = p_code),
+    p_code
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+COMMENT ON FUNCTION resolve_advisor_code(text) IS 'Returns the manpower code an alias belongs to, or the code itself';
+
+-- ============================================================================
+-- 4. Validate Aliases
+-- ============================================================================
+CREATE OR REPLACE FUNCTION validate_advisor_code_alias()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- An alias that is also a manpower code would make ownership ambiguous
+  IF EXISTS (SELECT 1 FROM public.manpower WHERE code_number = NEW.alias_code) THEN
+    RAISE EXCEPTION 'Advisor code % already has its own manpower record', NEW.alias_code;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS tr_validate_advisor_code_alias ON public.advisor_code_aliases;
+CREATE TRIGGER tr_validate_advisor_code_alias
+    BEFORE INSERT OR UPDATE ON public.advisor_code_aliases
+    FOR EACH ROW
+    EXECUTE FUNCTION validate_advisor_code_alias();
+
+-- ============================================================================
+-- 5. Submitted Apps Upload with Deduplication, Batch Tracking and Alias Resolution
+-- ============================================================================
+CREATE OR REPLACE FUNCTION upload_submitted_apps_with_dedup(
+  p_records jsonb,
+  p_batch_id uuid DEFAULT NULL
+) RETURNS jsonb AS $$
+DECLARE
+  records_inserted integer := 0;
+  records_updated integer := 0;
+  errors text[] := ARRAY[]::text[];
+  record_item jsonb;
+  matched_ids uuid[];
+  v_code text;
+  i integer;
+BEGIN
+  -- Security check: only admin can upload
+  IF public.get_user_app_role(auth.uid()) != 'admin' THEN
+    RAISE EXCEPTION 'Access denied: Only admin users can upload data';
+  END IF;
+
+  -- Rows can only be stamped with a batch that is still live
+  IF p_batch_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.upload_batches
+    WHERE id = p_batch_id AND status <> 'rolled_back'
+  ) THEN
+    RAISE EXCEPTION 'Upload batch % does not exist or has been rolled back', p_batch_id;
+  END IF;
+
+  -- Validate input
+  IF p_records IS NULL OR jsonb_array_length(p_records) = 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'records_inserted', 0,
+      'records_updated', 0,
+      'errors', ARRAY['No records provided']
+    );
+  END IF;
+
+  -- Process each record with duplicate detection
+  FOR i IN 0..jsonb_array_length(p_records)-1 LOOP
+    record_item := p_records->i;
+
+    BEGIN
+      -- Store aliased codes under their manpower code
+      v_code := resolve_advisor_code(record_item->>'advisor_code');
+
+      -- Find existing records with exact same values, saved under either code
+      SELECT array_agg(id) INTO matched_ids
+      FROM submitted_apps_details
+      WHERE advisor_code IN (v_code, record_item->>'advisor_code')
+        AND COALESCE(advisor_name, '') = COALESCE(record_item->>'advisor_name', '')
+        AND process_date = (record_item->>'process_date')::date
+        AND COALESCE(insured_name, '') = COALESCE(record_item->>'insured_name', '')
+        AND COALESCE(policy_number, '') = COALESCE(record_item->>'policy_number', '')
+        AND COALESCE(submitted_apps, 0) = COALESCE((record_item->>'submitted_apps')::numeric, 0);
+
+      IF matched_ids IS NOT NULL THEN
+        -- Remember the previous created_at so a rollback can restore it
+        PERFORM record_upload_batch_row_changes(p_batch_id, 'submitted_apps_details', matched_ids);
+
+        -- Update existing record (refresh created_at to mark as latest)
+        UPDATE submitted_apps_details
+        SET created_at = NOW()
+        WHERE id = ANY(matched_ids);
+
+        records_updated := records_updated + 1;
+      ELSE
+        -- Insert new record stamped with its upload batch
+        INSERT INTO submitted_apps_details (
+          advisor_code, advisor_name, process_date, insured_name, policy_number, submitted_apps, batch_id
+        ) VALUES (
+          v_code,
+          record_item->>'advisor_name',
+          (record_item->>'process_date')::date,
+          record_item->>'insured_name',
+          record_item->>'policy_number',
+          (record_item->>'submitted_apps')::numeric,
+          p_batch_id
+        );
+
+        records_inserted := records_inserted + 1;
+      END IF;
+
+    EXCEPTION
+      WHEN OTHERS THEN
+        errors := errors || ('Record ' || (i + 1)::text || ' failed: ' || SQLERRM);
+        CONTINUE;
+    END;
+  END LOOP;
+
+  PERFORM complete_upload_batch(p_batch_id, records_inserted, records_updated, errors);
+
+  RETURN jsonb_build_object(
+    'success', (records_inserted + records_updated) > 0,
+    'records_inserted', records_inserted,
+    'records_updated', records_updated,
+    'errors', COALESCE(errors, ARRAY[]::text[])
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'records_inserted', 0,
+      'records_updated', 0,
+      'errors', ARRAY['Function error: ' || SQLERRM]
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 6. Settled Apps Upload with Deduplication, Batch Tracking and Alias Resolution
+-- ============================================================================
+CREATE OR REPLACE FUNCTION upload_settled_apps_with_dedup(
+  p_records jsonb,
+  p_batch_id uuid DEFAULT NULL
+) RETURNS jsonb AS $$
+DECLARE
+  records_inserted integer := 0;
+  records_updated integer := 0;
+  errors text[] := ARRAY[]::text[];
+  record_item jsonb;
+  matched_ids uuid[];
+  v_code text;
+  i integer;
+BEGIN
+  -- Security check: only admin can upload
+  IF public.get_user_app_role(auth.uid()) != 'admin' THEN
+    RAISE EXCEPTION 'Access denied: Only admin users can upload data';
+  END IF;
+
+  -- Rows can only be stamped with a batch that is still live
+  IF p_batch_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.upload_batches
+    WHERE id = p_batch_id AND status <> 'rolled_back'
+  ) THEN
+    RAISE EXCEPTION 'Upload batch % does not exist or has been rolled back', p_batch_id;
+  END IF;
+
+  -- Validate input
+  IF p_records IS NULL OR jsonb_array_length(p_records) = 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'records_inserted', 0,
+      'records_updated', 0,
+      'errors', ARRAY['No records provided']
+    );
+  END IF;
+
+  -- Process each record with duplicate detection
+  FOR i IN 0..jsonb_array_length(p_records)-1 LOOP
+    record_item := p_records->i;
+
+    BEGIN
+      -- Store aliased codes under their manpower code
+      v_code := resolve_advisor_code(record_item->>'advisor_code');
+
+      -- Find existing records with exact same values, saved under either code
+      SELECT array_agg(id) INTO matched_ids
+      FROM settled_apps_details
+      WHERE advisor_code IN (v_code, record_item->>'advisor_code')
+        AND COALESCE(advisor_name, '') = COALESCE(record_item->>'advisor_name', '')
+        AND process_date = (record_item->>'process_date')::date
+        AND COALESCE(insured_name, '') = COALESCE(record_item->>'insured_name', '')
+        AND COALESCE(policy_number, '') = COALESCE(record_item->>'policy_number', '')
+        AND COALESCE(settled_apps, 0) = COALESCE((record_item->>'settled_apps')::numeric, 0)
+        AND COALESCE(agency_credits, 0) = COALESCE((record_item->>'agency_credits')::numeric, 0)
+        AND COALESCE(net_sales_credits, 0) = COALESCE((record_item->>'net_sales_credits')::numeric, 0);
+
+      IF matched_ids IS NOT NULL THEN
+        -- Remember the previous created_at so a rollback can restore it
+        PERFORM record_upload_batch_row_changes(p_batch_id, 'settled_apps_details', matched_ids);
+
+        -- Update existing record (refresh created_at to mark as latest)
+        UPDATE settled_apps_details
+        SET created_at = NOW()
+        WHERE id = ANY(matched_ids);
+
+        records_updated := records_updated + 1;
+      ELSE
+        -- Insert new record stamped with its upload batch
+        INSERT INTO settled_apps_details (
+          advisor_code, advisor_name, process_date, insured_name, policy_number, settled_apps, agency_credits, net_sales_credits, batch_id
+        ) VALUES (
+          v_code,
+          record_item->>'advisor_name',
+          (record_item->>'process_date')::date,
+          record_item->>'insured_name',
+          record_item->>'policy_number',
+          (record_item->>'settled_apps')::numeric,
+          (record_item->>'agency_credits')::numeric,
+          (record_item->>'net_sales_credits')::numeric,
+          p_batch_id
+        );
+
+        records_inserted := records_inserted + 1;
+      END IF;
+
+    EXCEPTION
+      WHEN OTHERS THEN
+        errors := errors || ('Record ' || (i + 1)::text || ' failed: ' || SQLERRM);
+        CONTINUE;
+    END;
+  END LOOP;
+
+  PERFORM complete_upload_batch(p_batch_id, records_inserted, records_updated, errors);
+
+  RETURN jsonb_build_object(
+    'success', (records_inserted + records_updated) > 0,
+    'records_inserted', records_inserted,
+    'records_updated', records_updated,
+    'errors', COALESCE(errors, ARRAY[]::text[])
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'records_inserted', 0,
+      'records_updated', 0,
+      'errors', ARRAY['Function error: ' || SQLERRM]
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 7. FY Commission Upload with Deduplication, Batch Tracking and Alias Resolution
+-- ============================================================================
+CREATE OR REPLACE FUNCTION upload_fy_commission_with_dedup(
+  p_records jsonb,
+  p_batch_id uuid DEFAULT NULL
+) RETURNS jsonb AS $$
+DECLARE
+  records_inserted integer := 0;
+  records_updated integer := 0;
+  errors text[] := ARRAY[]::text[];
+  record_item jsonb;
+  matched_ids uuid[];
+  v_code text;
+  i integer;
+BEGIN
+  -- Security check: only admin can upload
+  IF public.get_user_app_role(auth.uid()) != 'admin' THEN
+    RAISE EXCEPTION 'Access denied: Only admin users can upload data';
+  END IF;
+
+  -- Rows can only be stamped with a batch that is still live
+  IF p_batch_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.upload_batches
+    WHERE id = p_batch_id AND status <> 'rolled_back'
+  ) THEN
+    RAISE EXCEPTION 'Upload batch % does not exist or has been rolled back', p_batch_id;
+  END IF;
+
+  -- Validate input
+  IF p_records IS NULL OR jsonb_array_length(p_records) = 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'records_inserted', 0,
+      'records_updated', 0,
+      'errors', ARRAY['No records provided']
+    );
+  END IF;
+
+  -- Process each record with duplicate detection
+  FOR i IN 0..jsonb_array_length(p_records)-1 LOOP
+    record_item := p_records->i;
+
+    BEGIN
+      -- Store aliased codes under their manpower code
+      v_code := resolve_advisor_code(record_item->>'code');
+
+      -- Find existing records with exact same values, saved under either code
+      SELECT array_agg(id) INTO matched_ids
+      FROM fy_commission_details
+      WHERE code IN (v_code, record_item->>'code')
+        AND process_date = (record_item->>'process_date')::date
+        AND COALESCE(insured_name, '') = COALESCE(record_item->>'insured_name', '')
+        AND COALESCE(policy_number, '') = COALESCE(record_item->>'policy_number', '')
+        AND COALESCE(transaction_type, '') = COALESCE(record_item->>'transaction_type', '')
+        AND COALESCE(fy_premium_php, 0) = COALESCE((record_item->>'fy_premium_php')::numeric, 0)
+        AND COALESCE(due_date::date, '1900-01-01'::date) = COALESCE((record_item->>'due_date')::date, '1900-01-01'::date)
+        AND COALESCE(rate, 0) = COALESCE((record_item->>'rate')::numeric, 0)
+        AND COALESCE(fy_commission_php, 0) = COALESCE((record_item->>'fy_commission_php')::numeric, 0);
+
+      IF matched_ids IS NOT NULL THEN
+        -- Remember the previous created_at so a rollback can restore it
+        PERFORM record_upload_batch_row_changes(p_batch_id, 'fy_commission_details', matched_ids);
+
+        -- Update existing record (refresh created_at to mark as latest)
+        UPDATE fy_commission_details
+        SET created_at = NOW()
+        WHERE id = ANY(matched_ids);
+
+        records_updated := records_updated + 1;
+      ELSE
+        -- Insert new record stamped with its upload batch
+        INSERT INTO fy_commission_details (
+          code, process_date, insured_name, policy_number, transaction_type, fy_premium_php, due_date, rate, fy_commission_php, batch_id
+        ) VALUES (
+          v_code,
+          (record_item->>'process_date')::date,
+          record_item->>'insured_name',
+          record_item->>'policy_number',
+          record_item->>'transaction_type',
+          (record_item->>'fy_premium_php')::numeric,
+          (record_item->>'due_date')::date,
+          (record_item->>'rate')::numeric,
+          (record_item->>'fy_commission_php')::numeric,
+          p_batch_id
+        );
+
+        records_inserted := records_inserted + 1;
+      END IF;
+
+    EXCEPTION
+      WHEN OTHERS THEN
+        errors := errors || ('Record ' || (i + 1)::text || ' failed: ' || SQLERRM);
+        CONTINUE;
+    END;
+  END LOOP;
+
+  PERFORM complete_upload_batch(p_batch_id, records_inserted, records_updated, errors);
+
+  RETURN jsonb_build_object(
+    'success', (records_inserted + records_updated) > 0,
+    'records_inserted', records_inserted,
+    'records_updated', records_updated,
+    'errors', COALESCE(errors, ARRAY[]::text[])
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'records_inserted', 0,
+      'records_updated', 0,
+      'errors', ARRAY['Function error: ' || SQLERRM]
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 8. RN Commission Upload with Deduplication, Batch Tracking and Alias Resolution
+-- ============================================================================
+CREATE OR REPLACE FUNCTION upload_rn_commission_with_dedup(
+  p_records jsonb,
+  p_batch_id uuid DEFAULT NULL
+) RETURNS jsonb AS $$
+DECLARE
+  records_inserted integer := 0;
+  records_updated integer := 0;
+  errors text[] := ARRAY[]::text[];
+  record_item jsonb;
+  matched_ids uuid[];
+  v_code text;
+  i integer;
+BEGIN
+  -- Security check: only admin can upload
+  IF public.get_user_app_role(auth.uid()) != 'admin' THEN
+    RAISE EXCEPTION 'Access denied: Only admin users can upload data';
+  END IF;
+
+  -- Rows can only be stamped with a batch that is still live
+  IF p_batch_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.upload_batches
+    WHERE id = p_batch_id AND status <> 'rolled_back'
+  ) THEN
+    RAISE EXCEPTION 'Upload batch % does not exist or has been rolled back', p_batch_id;
+  END IF;
+
+  -- Validate input
+  IF p_records IS NULL OR jsonb_array_length(p_records) = 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'records_inserted', 0,
+      'records_updated', 0,
+      'errors', ARRAY['No records provided']
+    );
+  END IF;
+
+  -- Process each record with duplicate detection
+  FOR i IN 0..jsonb_array_length(p_records)-1 LOOP
+    record_item := p_records->i;
+
+    BEGIN
+      -- Store aliased codes under their manpower code
+      v_code := resolve_advisor_code(record_item->>'code');
+
+      -- Find existing records with exact same values, saved under either code
+      SELECT array_agg(id) INTO matched_ids
+      FROM rn_commission_details
+      WHERE code IN (v_code, record_item->>'code')
+        AND process_date = (record_item->>'process_date')::date
+        AND COALESCE(insured_name, '') = COALESCE(record_item->>'insured_name', '')
+        AND COALESCE(policy_number, '') = COALESCE(record_item->>'policy_number', '')
+        AND COALESCE(transaction_type, '') = COALESCE(record_item->>'transaction_type', '')
+        AND COALESCE(rn_premium_php, 0) = COALESCE((record_item->>'rn_premium_php')::numeric, 0)
+        AND COALESCE(due_date::date, '1900-01-01'::date) = COALESCE((record_item->>'due_date')::date, '1900-01-01'::date)
+        AND COALESCE(rate, 0) = COALESCE((record_item->>'rate')::numeric, 0)
+        AND COALESCE(year, 0) = COALESCE((record_item->>'year')::integer, 0)
+        AND COALESCE(rn_commission_php, 0) = COALESCE((record_item->>'rn_commission_php')::numeric, 0);
+
+      IF matched_ids IS NOT NULL THEN
+        -- Remember the previous created_at so a rollback can restore it
+        PERFORM record_upload_batch_row_changes(p_batch_id, 'rn_commission_details', matched_ids);
+
+        -- Update existing record (refresh created_at to mark as latest)
+        UPDATE rn_commission_details
+        SET created_at = NOW()
+        WHERE id = ANY(matched_ids);
+
+        records_updated := records_updated + 1;
+      ELSE
+        -- Insert new record stamped with its upload batch
+        INSERT INTO rn_commission_details (
+          code, process_date, insured_name, policy_number, transaction_type, rn_premium_php, due_date, rate, year, rn_commission_php, batch_id
+        ) VALUES (
+          v_code,
+          (record_item->>'process_date')::date,
+          record_item->>'insured_name',
+          record_item->>'policy_number',
+          record_item->>'transaction_type',
+          (record_item->>'rn_premium_php')::numeric,
+          (record_item->>'due_date')::date,
+          (record_item->>'rate')::numeric,
+          (record_item->>'year')::integer,
+          (record_item->>'rn_commission_php')::numeric,
+          p_batch_id
+        );
+
+        records_inserted := records_inserted + 1;
+      END IF;
+
+    EXCEPTION
+      WHEN OTHERS THEN
+        errors := errors || ('Record ' || (i + 1)::text || ' failed: ' || SQLERRM);
+        CONTINUE;
+    END;
+  END LOOP;
+
+  PERFORM complete_upload_batch(p_batch_id, records_inserted, records_updated, errors);
+
+  RETURN jsonb_build_object(
+    'success', (records_inserted + records_updated) > 0,
+    'records_inserted', records_inserted,
+    'records_updated', records_updated,
+    'errors', COALESCE(errors, ARRAY[]::text[])
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'records_inserted', 0,
+      'records_updated', 0,
+      'errors', ARRAY['Function error: ' || SQLERRM]
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 9. Summaries Include Production Saved Under Aliases
+-- ============================================================================
+CREATE OR REPLACE FUNCTION recalculate_monthly_summary(
+    p_advisor_code text,
+    p_period_year integer,
+    p_period_month integer,
+    p_period_type text,
+    p_period_start date,
+    p_period_end date
+) RETURNS void AS $$
+DECLARE
+    advisor_info RECORD;
+    summary_data RECORD;
+    source_codes text[];
+BEGIN
+    -- Get advisor information with team details
+    SELECT
+        m.advisor_name,
+        m.unit_code,
+        m.manager_id,
+        m.photo_url,
+        COALESCE(t.unit_name, m.unit_code) as unit_name
+    INTO advisor_info
+    FROM public.manpower m
+    LEFT JOIN public.teams t ON m.team_id = t.id
+    WHERE m.code_number = p_advisor_code;
+
+    -- If advisor doesn't exist, exit
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    -- Production saved under the advisor's aliases belongs to the advisor too
+    source_codes := ARRAY[p_advisor_code] || ARRAY(
+        SELECT alias_code FROM public.advisor_code_aliases WHERE code_number = p_advisor_code
+    );
+
+    -- Aggregate all production data for the period
+    WITH settled_data AS (
+        SELECT
+            COALESCE(SUM(settled_apps), 0) as total_settled_apps,
+            COALESCE(SUM(agency_credits), 0) as total_agency_credits,
+            COALESCE(SUM(net_sales_credits), 0) as total_net_sales_credits,
+            COUNT(*) as settled_count
+        FROM public.settled_apps_details
+        WHERE advisor_code = ANY(source_codes)
+            AND process_date >= p_period_start
+            AND process_date <= p_period_end
+    ),
+    commission_data AS (
+        SELECT
+            COALESCE(SUM(rn_commission_php), 0) as total_rn_commission_php,
+            COUNT(*) as commission_count
+        FROM public.rn_commission_details
+        WHERE code = ANY(source_codes)
+            AND process_date >= p_period_start
+            AND process_date <= p_period_end
+    ),
+    submitted_data AS (
+        SELECT
+            COALESCE(SUM(submitted_apps), 0) as total_submitted_apps,
+            COUNT(*) as submitted_count
+        FROM public.submitted_apps_details
+        WHERE advisor_code = ANY(source_codes)
+            AND process_date >= p_period_start
+            AND process_date <= p_period_end
+    )
+    SELECT
+        sd.total_settled_apps,
+        sd.total_agency_credits,
+        sd.total_net_sales_credits,
+        cd.total_rn_commission_php,
+        sub.total_submitted_apps,
+        (sd.settled_count + cd.commission_count + sub.submitted_count) as total_transactions
+    INTO summary_data
+    FROM settled_data sd, commission_data cd, submitted_data sub;
+
+    -- Upsert the summary record
+    INSERT INTO public.monthly_production_summary (
+        advisor_code,
+        period_year,
+        period_month,
+        period_type,
+        period_start,
+        period_end,
+        advisor_name,
+        unit_code,
+        unit_name,
+        manager_id,
+        photo_url,
+        total_settled_apps,
+        total_agency_credits,
+        total_net_sales_credits,
+        total_rn_commission_php,
+        total_submitted_apps,
+        transaction_count,
+        last_updated
+    )
+    VALUES (
+        p_advisor_code,
+        p_period_year,
+        p_period_month,
+        p_period_type,
+        p_period_start,
+        p_period_end,
+        advisor_info.advisor_name,
+        advisor_info.unit_code,
+        advisor_info.unit_name,
+        advisor_info.manager_id,
+        advisor_info.photo_url,
+        summary_data.total_settled_apps,
+        summary_data.total_agency_credits,
+        summary_data.total_net_sales_credits,
+        summary_data.total_rn_commission_php,
+        summary_data.total_submitted_apps,
+        summary_data.total_transactions,
+        now()
+    )
+    ON CONFLICT (advisor_code, period_year, period_month, period_type)
+    DO UPDATE SET
+        period_start = EXCLUDED.period_start,
+        period_end = EXCLUDED.period_end,
+        advisor_name = EXCLUDED.advisor_name,
+        unit_code = EXCLUDED.unit_code,
+        unit_name = EXCLUDED.unit_name,
+        manager_id = EXCLUDED.manager_id,
+        photo_url = EXCLUDED.photo_url,
+        total_settled_apps = EXCLUDED.total_settled_apps,
+        total_agency_credits = EXCLUDED.total_agency_credits,
+        total_net_sales_credits = EXCLUDED.total_net_sales_credits,
+        total_rn_commission_php = EXCLUDED.total_rn_commission_php,
+        total_submitted_apps = EXCLUDED.total_submitted_apps,
+        transaction_count = EXCLUDED.transaction_count,
+        last_updated = EXCLUDED.last_updated;
+
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 10. Trigger Function: Handle Settled Apps Changes (Resolving Aliases)
+-- ============================================================================
+CREATE OR REPLACE FUNCTION trigger_update_summary_settled_apps()
+RETURNS TRIGGER AS $$
+DECLARE
+    cal_period RECORD;
+    sys_period RECORD;
+    affected_date date;
+BEGIN
+    -- Determine which date to use (NEW for INSERT/UPDATE, OLD for DELETE)
+    affected_date := COALESCE(NEW.process_date, OLD.process_date);
+
+    -- Get calendar period for this date
+    SELECT * INTO cal_period FROM get_calendar_period(affected_date);
+
+    -- Update calendar summary if period found
+    IF cal_period IS NOT NULL THEN
+        PERFORM recalculate_monthly_summary(
+            resolve_advisor_code(COALESCE(NEW.advisor_code, OLD.advisor_code)),
+            cal_period.period_year,
+            cal_period.period_month,
+            'calendar',
+            cal_period.period_start,
+            cal_period.period_end
+        );
+    END IF;
+
+    -- Get systems period for this date
+    SELECT * INTO sys_period FROM get_systems_period(affected_date);
+
+    -- Update systems summary if period found
+    IF sys_period IS NOT NULL THEN
+        PERFORM recalculate_monthly_summary(
+            resolve_advisor_code(COALESCE(NEW.advisor_code, OLD.advisor_code)),
+            sys_period.period_year,
+            sys_period.period_month,
+            'systems',
+            sys_period.period_start,
+            sys_period.period_end
+        );
+    END IF;
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 11. Trigger Function: Handle Commission Changes (Resolving Aliases)
+-- ============================================================================
+CREATE OR REPLACE FUNCTION trigger_update_summary_commission()
+RETURNS TRIGGER AS $$
+DECLARE
+    cal_period RECORD;
+    sys_period RECORD;
+    affected_date date;
+BEGIN
+    affected_date := COALESCE(NEW.process_date, OLD.process_date);
+
+    -- Update calendar summary
+    SELECT * INTO cal_period FROM get_calendar_period(affected_date);
+    IF cal_period IS NOT NULL THEN
+        PERFORM recalculate_monthly_summary(
+            resolve_advisor_code(COALESCE(NEW.code, OLD.code)),
+            cal_period.period_year,
+            cal_period.period_month,
+            'calendar',
+            cal_period.period_start,
+            cal_period.period_end
+        );
+    END IF;
+
+    -- Update systems summary
+    SELECT * INTO sys_period FROM get_systems_period(affected_date);
+    IF sys_period IS NOT NULL THEN
+        PERFORM recalculate_monthly_summary(
+            resolve_advisor_code(COALESCE(NEW.code, OLD.code)),
+            sys_period.period_year,
+            sys_period.period_month,
+            'systems',
+            sys_period.period_start,
+            sys_period.period_end
+        );
+    END IF;
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 12. Trigger Function: Handle Submitted Apps Changes (Resolving Aliases)
+-- ============================================================================
+CREATE OR REPLACE FUNCTION trigger_update_summary_submitted_apps()
+RETURNS TRIGGER AS $$
+DECLARE
+    cal_period RECORD;
+    sys_period RECORD;
+    affected_date date;
+BEGIN
+    affected_date := COALESCE(NEW.process_date, OLD.process_date);
+
+    -- Update calendar summary
+    SELECT * INTO cal_period FROM get_calendar_period(affected_date);
+    IF cal_period IS NOT NULL THEN
+        PERFORM recalculate_monthly_summary(
+            resolve_advisor_code(COALESCE(NEW.advisor_code, OLD.advisor_code)),
+            cal_period.period_year,
+            cal_period.period_month,
+            'calendar',
+            cal_period.period_start,
+            cal_period.period_end
+        );
+    END IF;
+
+    -- Update systems summary
+    SELECT * INTO sys_period FROM get_systems_period(affected_date);
+    IF sys_period IS NOT NULL THEN
+        PERFORM recalculate_monthly_summary(
+            resolve_advisor_code(COALESCE(NEW.advisor_code, OLD.advisor_code)),
+            sys_period.period_year,
+            sys_period.period_month,
+            'systems',
+            sys_period.period_start,
+            sys_period.period_end
+        );
+    END IF;
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 13. Recalculate Summary Periods an Advisor's Codes Have Production In
+-- ============================================================================
+CREATE OR REPLACE FUNCTION recalculate_advisor_code_periods(
+  p_advisor_code text,
+  p_source_codes text[]
+) RETURNS integer AS $$
+DECLARE
+  period_record RECORD;
+  periods_recalculated integer := 0;
+BEGIN
+  FOR period_record IN
+    WITH code_dates AS (
+      SELECT DISTINCT process_date FROM public.submitted_apps_details WHERE advisor_code = ANY(p_source_codes)
+      UNION
+      SELECT DISTINCT process_date FROM public.settled_apps_details WHERE advisor_code = ANY(p_source_codes)
+      UNION
+      SELECT DISTINCT process_date FROM public.rn_commission_details WHERE code = ANY(p_source_codes)
+    )
+    SELECT DISTINCT
+      'calendar' AS period_type,
+      cp.period_year,
+      cp.period_month,
+      cp.period_start,
+      cp.period_end
+    FROM code_dates d
+    CROSS JOIN LATERAL get_calendar_period(d.process_date) cp
+    WHERE d.process_date IS NOT NULL
+    UNION
+    SELECT DISTINCT
+      'systems',
+      scp.period_year,
+      scp.period_month,
+      scp.start_date,
+      scp.end_date
+    FROM code_dates d
+    JOIN public.cal_systems_closing_periods scp
+      ON d.process_date >= scp.start_date AND d.process_date <= scp.end_date
+  LOOP
+    PERFORM recalculate_monthly_summary(
+      p_advisor_code,
+      period_record.period_year,
+      period_record.period_month,
+      period_record.period_type,
+      period_record.period_start,
+      period_record.period_end
+    );
+    periods_recalculated := periods_recalculated + 1;
+  END LOOP;
+
+  RETURN periods_recalculated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION recalculate_advisor_code_periods(text, text[]) IS 'Recalculates an advisor''s summaries for every period the given source codes have production in';
+
+CREATE OR REPLACE FUNCTION recalculate_advisor_code_summaries(
+  p_advisor_code text
+) RETURNS integer AS $$
+BEGIN
+  -- Security check: only admin can trigger recalculation
+  IF public.get_user_app_role(auth.uid()) != 'admin' THEN
+    RAISE EXCEPTION 'Access denied: Only admin users can recalculate production summaries';
+  END IF;
+
+  RETURN recalculate_advisor_code_periods(
+    p_advisor_code,
+    ARRAY[p_advisor_code] || ARRAY(
+      SELECT alias_code FROM public.advisor_code_aliases WHERE code_number = p_advisor_code
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION recalculate_advisor_code_summaries(text) IS 'Recalculates the calendar and systems monthly summaries of every period an advisor code or its aliases have production in';
+
+-- ============================================================================
+-- 14. Trigger Function: Handle Alias Changes
+-- ============================================================================
+CREATE OR REPLACE FUNCTION trigger_update_summary_advisor_code_alias()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- The previous owner loses the alias production
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM recalculate_advisor_code_periods(OLD.code_number, ARRAY[OLD.alias_code]);
+  END IF;
+
+  -- The new owner gains it
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM recalculate_advisor_code_periods(NEW.code_number, ARRAY[NEW.alias_code]);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS tr_update_summary_advisor_code_alias ON public.advisor_code_aliases;
+CREATE TRIGGER tr_update_summary_advisor_code_alias
+    AFTER INSERT OR UPDATE OR DELETE ON public.advisor_code_aliases
+    FOR EACH ROW
+    EXECUTE FUNCTION trigger_update_summary_advisor_code_alias();
+
+-- ============================================================================
+-- 15. Leave Aliased Codes Out of the Orphan Queue
+-- ============================================================================
+CREATE OR REPLACE FUNCTION get_orphan_advisor_codes(
+  p_include_ignored boolean DEFAULT false
+) RETURNS TABLE (
+  advisor_code text,
+  advisor_name text,
+  submitted_rows bigint,
+  settled_rows bigint,
+  total_submitted_apps numeric,
+  total_settled_apps numeric,
+  total_agency_credits numeric,
+  total_net_sales_credits numeric,
+  first_process_date date,
+  last_process_date date,
+  ignored boolean
+) AS $$
+BEGIN
+  -- Security check: only admin can review orphan codes
+  IF public.get_user_app_role(auth.uid()) != 'admin' THEN
+    RAISE EXCEPTION 'Access denied: Only admin users can view orphan advisor codes';
+  END IF;
+
+  RETURN QUERY
+  WITH orphan_rows AS (
+    SELECT
+      s.advisor_code,
+      s.advisor_name,
+      s.process_date,
+      1 AS submitted_row,
+      0 AS settled_row,
+      COALESCE(s.submitted_apps, 0) AS submitted_apps,
+      0::numeric AS settled_apps,
+      0::numeric AS agency_credits,
+      0::numeric AS net_sales_credits
+    FROM public.submitted_apps_details s
+    WHERE s.advisor_code IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM public.manpower m WHERE m.code_number = s.advisor_code)
+      AND NOT EXISTS (SELECT 1 FROM public.advisor_code_aliases a WHERE a.alias_code = s.advisor_code)
+    UNION ALL
+    SELECT
+      t.advisor_code,
+      t.advisor_name,
+      t.process_date,
+      0,
+      1,
+      0::numeric,
+      COALESCE(t.settled_apps, 0),
+      COALESCE(t.agency_credits, 0),
+      COALESCE(t.net_sales_credits, 0)
+    FROM public.settled_apps_details t
+    WHERE t.advisor_code IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM public.manpower m WHERE m.code_number = t.advisor_code)
+      AND NOT EXISTS (SELECT 1 FROM public.advisor_code_aliases a WHERE a.alias_code = t.advisor_code)
+  )
+  SELECT
+    o.advisor_code,
+    max(o.advisor_name),
+    sum(o.submitted_row)::bigint,
+    sum(o.settled_row)::bigint,
+    sum(o.submitted_apps),
+    sum(o.settled_apps),
+    sum(o.agency_credits),
+    sum(o.net_sales_credits),
+    min(o.process_date),
+    max(o.process_date),
+    (r.resolution = 'ignored') IS TRUE
+  FROM orphan_rows o
+  LEFT JOIN public.orphan_advisor_code_resolutions r ON r.advisor_code = o.advisor_code
+  GROUP BY o.advisor_code, r.resolution
+  HAVING p_include_ignored OR r.resolution IS DISTINCT FROM 'ignored'
+  ORDER BY sum(o.agency_credits) DESC, o.advisor_code;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_orphan_advisor_codes(boolean) IS 'Advisor codes in submitted/settled apps with no manpower record or alias, with row counts and production totals';
+
+-- ============================================================================
+-- 16. Alias Codes Mapped from the Orphan Queue
+-- ============================================================================
+CREATE OR REPLACE FUNCTION map_orphan_advisor_code(
+  p_orphan_code text,
+  p_target_code text
+) RETURNS jsonb AS $$
+DECLARE
+  rows_moved integer := 0;
+  table_rows integer;
+  periods_recalculated integer;
+BEGIN
+  -- Security check: only admin can map orphan codes
+  IF public.get_user_app_role(auth.uid()) != 'admin' THEN
+    RAISE EXCEPTION 'Access denied: Only admin users can map orphan advisor codes';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.manpower WHERE code_number = p_orphan_code) THEN
+    RAISE EXCEPTION 'Advisor code % already has a manpower record', p_orphan_code;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.manpower WHERE code_number = p_target_code) THEN
+    RAISE EXCEPTION 'Advisor code % does not exist in manpower', p_target_code;
+  END IF;
+
+  -- Move the rows to the target advisor. Commission rows are moved too so
+  -- every dataset agrees on who the production belongs to.
+  UPDATE public.submitted_apps_details SET advisor_code = p_target_code WHERE advisor_code = p_orphan_code;
+  GET DIAGNOSTICS table_rows = ROW_COUNT;
+  rows_moved := rows_moved + table_rows;
+
+  UPDATE public.settled_apps_details SET advisor_code = p_target_code WHERE advisor_code = p_orphan_code;
+  GET DIAGNOSTICS table_rows = ROW_COUNT;
+  rows_moved := rows_moved + table_rows;
+
+  UPDATE public.fy_commission_details SET code = p_target_code WHERE code = p_orphan_code;
+  GET DIAGNOSTICS table_rows = ROW_COUNT;
+  rows_moved := rows_moved + table_rows;
+
+  UPDATE public.rn_commission_details SET code = p_target_code WHERE code = p_orphan_code;
+  GET DIAGNOSTICS table_rows = ROW_COUNT;
+  rows_moved := rows_moved + table_rows;
+
+  -- Later uploads of the orphan code resolve to the target
+  INSERT INTO public.advisor_code_aliases (alias_code, code_number, note, created_by)
+  VALUES (p_orphan_code, p_target_code, 'Mapped from the unknown advisor code queue', auth.uid())
+  ON CONFLICT (alias_code) DO UPDATE
+  SET code_number = EXCLUDED.code_number;
+
+  -- The row triggers already recalculated each touched period; run it once
+  -- more per period so the target's summaries are complete in one pass
+  periods_recalculated := recalculate_advisor_code_summaries(p_target_code);
+
+  INSERT INTO public.orphan_advisor_code_resolutions (advisor_code, resolution, mapped_to_code, rows_updated, resolved_by)
+  VALUES (p_orphan_code, 'mapped', p_target_code, rows_moved, auth.uid())
+  ON CONFLICT (advisor_code) DO UPDATE
+  SET resolution = 'mapped',
+      mapped_to_code = EXCLUDED.mapped_to_code,
+      rows_updated = EXCLUDED.rows_updated,
+      resolved_by = EXCLUDED.resolved_by,
+      resolved_at = now();
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'orphan_code', p_orphan_code,
+    'target_code', p_target_code,
+    'rows_updated', rows_moved,
+    'periods_recalculated', periods_recalculated
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION map_orphan_advisor_code(text, text) IS 'Moves production rows of an unknown advisor code to an existing advisor, aliases the code to them and recalculates their summaries';
+
+-- Codes mapped before aliases existed
+INSERT INTO public.advisor_code_aliases (alias_code, code_number, note, created_by, created_at)
+SELECT r.advisor_code, r.mapped_to_code, 'Mapped from the unknown advisor code queue', r.resolved_by, r.resolved_at
+FROM public.orphan_advisor_code_resolutions r
+WHERE r.resolution = 'mapped'
+  AND r.mapped_to_code IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.manpower m WHERE m.code_number = r.advisor_code)
+ON CONFLICT (alias_code) DO NOTHING;
+
+-- ============================================================================
+-- 17. Grant Permissions
+-- ============================================================================
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.advisor_code_aliases TO authenticated;
+GRANT ALL ON public.advisor_code_aliases TO service_role;
+
+GRANT EXECUTE ON FUNCTION resolve_advisor_code(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION recalculate_advisor_code_summaries(text) TO authenticated;
+
+-- Internal helper, called by the alias trigger and recalculate_advisor_code_summaries
+REVOKE EXECUTE ON FUNCTION recalculate_advisor_code_periods(text, text[]) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,153 @@
+-- Migration: Create Upload Ingestion Log
+-- Description: Logs each run of the drop-folder ingestion job and every report file it picked up, with the
+--              upload batch each file produced
+-- Date: 2025-10-19
+
+-- ============================================================================
+-- 1. Upload Ingestion Runs Table
+-- ============================================================================
+CREATE TABLE public.upload_ingestion_runs (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    source text NOT NULL,
+    location text NOT NULL,
+    status text NOT NULL DEFAULT 'running',
+    triggered_by uuid NULL REFERENCES auth.users(id) ON DELETE SET NULL,
+    files_found integer NOT NULL DEFAULT 0,
+    files_uploaded integer NOT NULL DEFAULT 0,
+    files_skipped integer NOT NULL DEFAULT 0,
+    files_failed integer NOT NULL DEFAULT 0,
+    error text NULL,
+    started_at timestamptz DEFAULT now() NOT NULL,
+    finished_at timestamptz NULL,
+
+    -- Constraints
+    CONSTRAINT upload_ingestion_runs_source_valid CHECK (source IN ('folder', 'bucket')),
+    CONSTRAINT upload_ingestion_runs_status_valid CHECK (status IN ('running', 'completed', 'failed')),
+    CONSTRAINT upload_ingestion_runs_counts_positive CHECK (
+        files_found >= 0 AND files_uploaded >= 0 AND files_skipped >= 0 AND files_failed >= 0
+    )
+);
+
+-- Add comments
+COMMENT ON TABLE public.upload_ingestion_runs IS 'One row per run of the drop-folder ingestion job';
+COMMENT ON COLUMN public.upload_ingestion_runs.location IS 'Directory path or storage bucket/prefix that was scanned';
+COMMENT ON COLUMN public.upload_ingestion_runs.triggered_by IS 'Admin who started the run; null for scheduled runs';
+COMMENT ON COLUMN public.upload_ingestion_runs.status IS 'running, completed (every file handled, some may have failed) or failed (the run itself errored)';
+
+-- ============================================================================
+-- 2. Upload Ingestion Files Table
+-- ============================================================================
+CREATE TABLE public.upload_ingestion_files (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    run_id uuid NOT NULL REFERENCES public.upload_ingestion_runs(id) ON DELETE CASCADE,
+    file_name text NOT NULL,
+    file_hash text NULL,
+    sheet_name text NULL,
+    dataset text NULL,
+    mapping_profile_id uuid NULL REFERENCES public.upload_mapping_profiles(id) ON DELETE SET NULL,
+    batch_id uuid NULL REFERENCES public.upload_batches(id) ON DELETE SET NULL,
+    status text NOT NULL,
+    row_count integer NOT NULL DEFAULT 0,
+    records_inserted integer NOT NULL DEFAULT 0,
+    records_updated integer NOT NULL DEFAULT 0,
+    rejected_count integer NOT NULL DEFAULT 0,
+    message text NULL,
+    archived_to text NULL,
+    created_at timestamptz DEFAULT now() NOT NULL,
+
+    -- Constraints
+    CONSTRAINT upload_ingestion_files_status_valid CHECK (status IN ('uploaded', 'skipped', 'failed'))
+);
+
+-- Add comments
+COMMENT ON TABLE public.upload_ingestion_files IS 'Report files (one row per detected sheet) handled by an ingestion run';
+COMMENT ON COLUMN public.upload_ingestion_files.dataset IS 'Upload dataset detected from the sheet headers';
+COMMENT ON COLUMN public.upload_ingestion_files.mapping_profile_id IS 'Saved mapping profile applied, if one matched the headers';
+COMMENT ON COLUMN public.upload_ingestion_files.status IS 'uploaded, skipped (already ingested) or failed';
+COMMENT ON COLUMN public.upload_ingestion_files.archived_to IS 'Path the file was moved to after processing';
+
+-- ============================================================================
+-- 3. Create Indexes
+-- ============================================================================
+CREATE INDEX IF NOT EXISTS idx_upload_ingestion_runs_started_at ON public.upload_ingestion_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_upload_ingestion_files_run_id ON public.upload_ingestion_files(run_id);
+CREATE INDEX IF NOT EXISTS idx_upload_ingestion_files_file_hash ON public.upload_ingestion_files(file_hash);
+
+-- At most one run holds the drop location at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_upload_ingestion_runs_one_running
+    ON public.upload_ingestion_runs(status)
+    WHERE status = 'running';
+
+-- ============================================================================
+-- 4. Enable Row Level Security (RLS)
+-- ============================================================================
+-- The job writes with the service role; admins read the log on the Upload page
+ALTER TABLE public.upload_ingestion_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.upload_ingestion_files ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "admins_can_view_upload_ingestion_runs"
+ON public.upload_ingestion_runs FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+);
+
+CREATE POLICY "admins_can_view_upload_ingestion_files"
+ON public.upload_ingestion_files FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+);
+
+-- ============================================================================
+-- 5. Start Ingestion Run Function
+-- ============================================================================
+-- Claims the drop location for a new run in one statement, so scheduled and manual runs
+-- started together cannot both pick up the same files. Returns null while another run
+-- holds it; a run still marked running after p_stale_minutes is assumed to have crashed.
+CREATE OR REPLACE FUNCTION start_upload_ingestion_run(
+    p_source text,
+    p_location text,
+    p_triggered_by uuid DEFAULT NULL,
+    p_stale_minutes integer DEFAULT 30
+) RETURNS uuid AS $$
+DECLARE
+    v_run_id uuid;
+BEGIN
+    UPDATE public.upload_ingestion_runs
+    SET status = 'failed',
+        error = format('Run did not finish within %s minutes', p_stale_minutes),
+        finished_at = now()
+    WHERE status = 'running'
+      AND started_at < now() - make_interval(mins => p_stale_minutes);
+
+    INSERT INTO public.upload_ingestion_runs (source, location, triggered_by)
+    VALUES (p_source, p_location, p_triggered_by)
+    ON CONFLICT (status) WHERE status = 'running' DO NOTHING
+    RETURNING id INTO v_run_id;
+
+    RETURN v_run_id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION start_upload_ingestion_run(text, text, uuid, integer) IS 'Starts an ingestion run unless another one is in progress; returns the run id, or null';
+
+-- ============================================================================
+-- 6. Grant Permissions
+-- ============================================================================
+GRANT SELECT ON public.upload_ingestion_runs TO authenticated;
+GRANT SELECT ON public.upload_ingestion_files TO authenticated;
+GRANT ALL ON public.upload_ingestion_runs TO service_role;
+GRANT ALL ON public.upload_ingestion_files TO service_role;
+
+-- Only the job, through the service role, starts runs
+REVOKE EXECUTE ON FUNCTION start_upload_ingestion_run(text, text, uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION start_upload_ingestion_run(text, text, uuid, integer) TO service_role;
@@ -0,0 +1,126 @@
+-- Migration: Create Team Production RPC
+-- Description: Returns monthly or annual production rows for the caller's team subtree (the caller plus every active advisor
+--              below them in manpower), one page at a time, so the browser no longer filters the whole summary table
+-- Date: 2025-10-19
+
+-- ============================================================================
+-- 1. Get Team Production Data
+-- ============================================================================
+CREATE OR REPLACE FUNCTION get_team_production_data(
+    p_time_frame text,                 -- 'monthly' or 'annual'
+    p_period_type text,                -- 'calendar' or 'systems'
+    p_year integer,
+    p_month integer DEFAULT NULL,      -- Required for monthly, ignored for annual
+    p_limit integer DEFAULT 1000,
+    p_offset integer DEFAULT 0
+) RETURNS TABLE (
+    advisor_code text,
+    advisor_name text,
+    unit_code text,
+    manager_id text,
+    team_name text,
+    total_submitted_apps numeric,
+    total_settled_apps numeric,
+    total_agency_credits numeric,
+    total_net_sales_credits numeric,
+    total_count bigint
+) AS $$
+DECLARE
+    v_user_code text;
+BEGIN
+    IF p_time_frame NOT IN ('monthly', 'annual') THEN
+        RAISE EXCEPTION 'Invalid time frame: %', p_time_frame;
+    END IF;
+
+    IF p_time_frame = 'monthly' AND p_month IS NULL THEN
+        RAISE EXCEPTION 'A month is required for monthly team production';
+    END IF;
+
+    -- The team is always the caller's own subtree
+    SELECT m.code_number INTO v_user_code
+    FROM public.manpower m
+    WHERE m.profile_user_id = auth.uid()
+    LIMIT 1;
+
+    IF v_user_code IS NULL THEN
+        RAISE EXCEPTION 'Your user account is not linked to any advisor record. Please contact your administrator to link your account.'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN QUERY
+    WITH RECURSIVE team_codes AS (
+        SELECT v_user_code AS code
+        UNION
+        -- Walk active links only, so cancelled advisors and their subtrees drop out
+        SELECT m.code_number
+        FROM public.manpower m
+        JOIN team_codes tc ON m.manager_id = tc.code
+        WHERE m.status = 'active'
+    ),
+    team_rows AS (
+        SELECT
+            mps.advisor_code,
+            mps.advisor_name,
+            mps.unit_code,
+            mps.manager_id,
+            mps.total_submitted_apps,
+            mps.total_settled_apps,
+            mps.total_agency_credits,
+            mps.total_net_sales_credits
+        FROM public.monthly_production_summary mps
+        JOIN team_codes tc ON tc.code = mps.advisor_code
+        WHERE p_time_frame = 'monthly'
+          AND mps.period_type = p_period_type
+          AND mps.period_year = p_year
+          AND mps.period_month = p_month
+
+        UNION ALL
+
+        SELECT
+            aps.advisor_code,
+            aps.advisor_name,
+            aps.unit_code,
+            aps.manager_id,
+            aps.total_submitted_apps,
+            aps.total_settled_apps,
+            aps.total_agency_credits,
+            aps.total_net_sales_credits
+        FROM public.annual_production_summary aps
+        JOIN team_codes tc ON tc.code = aps.advisor_code
+        WHERE p_time_frame = 'annual'
+          AND aps.period_type = p_period_type
+          AND aps.period_year = p_year
+    )
+    SELECT
+        tr.advisor_code,
+        tr.advisor_name,
+        tr.unit_code,
+        tr.manager_id,
+        (
+            SELECT t.unit_name
+            FROM public.teams t
+            WHERE t.unit_code = tr.unit_code
+            LIMIT 1
+        ) AS team_name,
+        tr.total_submitted_apps,
+        tr.total_settled_apps,
+        tr.total_agency_credits,
+        tr.total_net_sales_credits,
+        COUNT(*) OVER () AS total_count
+    FROM team_rows tr
+    ORDER BY tr.advisor_code
+    LIMIT GREATEST(p_limit, 1)
+    OFFSET GREATEST(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 2. Grant Permissions
+-- ============================================================================
+GRANT EXECUTE ON FUNCTION get_team_production_data(text, text, integer, integer, integer, integer) TO authenticated;
+
+-- ============================================================================
+-- 3. Add Comments for Documentation
+-- ============================================================================
+COMMENT ON FUNCTION get_team_production_data(text, text, integer, integer, integer, integer) IS
+'Monthly or annual production rows for the calling user and their subordinates, paginated with p_limit/p_offset; total_count is the row count before pagination';
@@ -0,0 +1,224 @@
+-- Migration: Extend Contest Periods
+-- Description: Adds the qualifying metric, tier thresholds and eligible classes to cal_contest_periods, lets admins
+--              manage contests, and adds a leaderboard RPC computed from the app details within each contest's dates
+-- Date: 2025-10-19
+
+-- ============================================================================
+-- 1. Contest Rule Columns
+-- ============================================================================
+ALTER TABLE public.cal_contest_periods
+    ADD COLUMN qualifying_metric text NOT NULL DEFAULT 'net_sales_credits',
+    ADD COLUMN thresholds numeric[] NOT NULL DEFAULT '{}',
+    ADD COLUMN eligible_classes text[] NOT NULL DEFAULT '{}',
+    ADD COLUMN created_by uuid NULL REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.cal_contest_periods
+    ADD CONSTRAINT cal_contest_periods_metric_valid CHECK (
+        qualifying_metric IN ('agency_credits', 'net_sales_credits', 'settled_apps')
+    ),
+    ADD CONSTRAINT cal_contest_periods_thresholds_positive CHECK (
+        0 < ALL(thresholds)
+    );
+
+COMMENT ON COLUMN public.cal_contest_periods.qualifying_metric IS 'Metric advisors are ranked and qualify on: agency_credits, net_sales_credits or settled_apps (lives)';
+COMMENT ON COLUMN public.cal_contest_periods.thresholds IS 'Qualification tiers in ascending order; reaching a threshold qualifies for that tier';
+COMMENT ON COLUMN public.cal_contest_periods.eligible_classes IS 'Manpower classes that may compete; empty means every class';
+
+-- ============================================================================
+-- 2. Admin Management Policies
+-- ============================================================================
+CREATE POLICY "admins_can_insert_contest_periods"
+ON public.cal_contest_periods FOR INSERT
+TO authenticated
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+);
+
+CREATE POLICY "admins_can_update_contest_periods"
+ON public.cal_contest_periods FOR UPDATE
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+)
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+);
+
+CREATE POLICY "admins_can_delete_contest_periods"
+ON public.cal_contest_periods FOR DELETE
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+);
+
+GRANT INSERT, UPDATE, DELETE ON public.cal_contest_periods TO authenticated;
+
+-- ============================================================================
+-- 3. Contest Leaderboard
+-- ============================================================================
+-- Production is read live from the details tables, so the leaderboard reflects every upload immediately.
+-- Rows saved under an alias code count for the advisor the alias belongs to.
+CREATE OR REPLACE FUNCTION get_contest_leaderboard(
+    p_contest_id uuid,
+    p_team_only boolean DEFAULT false
+) RETURNS TABLE (
+    rank integer,
+    advisor_code text,
+    advisor_name text,
+    advisor_class text,
+    unit_code text,
+    manager_id text,
+    photo_url text,
+    submitted_apps numeric,
+    settled_apps numeric,
+    agency_credits numeric,
+    net_sales_credits numeric,
+    metric_value numeric,
+    tier_reached integer,
+    next_threshold numeric
+) AS $$
+DECLARE
+    v_contest public.cal_contest_periods%ROWTYPE;
+    v_user_code text;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role IS NOT NULL
+    ) THEN
+        RAISE EXCEPTION 'Access denied: An app role is required to view contest leaderboards';
+    END IF;
+
+    SELECT * INTO v_contest
+    FROM public.cal_contest_periods c
+    WHERE c.id = p_contest_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Contest % not found', p_contest_id;
+    END IF;
+
+    IF p_team_only THEN
+        SELECT m.code_number INTO v_user_code
+        FROM public.manpower m
+        WHERE m.profile_user_id = auth.uid()
+        LIMIT 1;
+
+        IF v_user_code IS NULL THEN
+            RAISE EXCEPTION 'Your user account is not linked to any advisor record. Please contact your administrator to link your account.'
+                USING ERRCODE = 'P0002';
+        END IF;
+    END IF;
+
+    RETURN QUERY
+    WITH settled AS (
+        SELECT
+            public.resolve_advisor_code(sad.advisor_code) AS code,
+            SUM(COALESCE(sad.settled_apps, 0)) AS settled_apps,
+            SUM(COALESCE(sad.agency_credits, 0)) AS agency_credits,
+            SUM(COALESCE(sad.net_sales_credits, 0)) AS net_sales_credits
+        FROM public.settled_apps_details sad
+        WHERE sad.process_date >= v_contest.start_date
+          AND sad.process_date <= v_contest.end_date
+        GROUP BY 1
+    ),
+    submitted AS (
+        SELECT
+            public.resolve_advisor_code(sub.advisor_code) AS code,
+            SUM(COALESCE(sub.submitted_apps, 0)) AS submitted_apps
+        FROM public.submitted_apps_details sub
+        WHERE sub.process_date >= v_contest.start_date
+          AND sub.process_date <= v_contest.end_date
+        GROUP BY 1
+    ),
+    team_codes AS (
+        SELECT v_user_code AS code
+        UNION
+        SELECT s.subordinate_code
+        FROM public.get_all_subordinates(v_user_code) s
+    ),
+    contestants AS (
+        SELECT
+            m.code_number,
+            m.advisor_name,
+            m.class,
+            m.unit_code,
+            m.manager_id,
+            m.photo_url,
+            COALESCE(sub.submitted_apps, 0) AS submitted_apps,
+            COALESCE(st.settled_apps, 0) AS settled_apps,
+            COALESCE(st.agency_credits, 0) AS agency_credits,
+            COALESCE(st.net_sales_credits, 0) AS net_sales_credits
+        FROM public.manpower m
+        LEFT JOIN settled st ON st.code = m.code_number
+        LEFT JOIN submitted sub ON sub.code = m.code_number
+        WHERE (st.code IS NOT NULL OR sub.code IS NOT NULL)
+          AND (
+              cardinality(v_contest.eligible_classes) = 0
+              OR m.class = ANY(v_contest.eligible_classes)
+          )
+          AND (
+              NOT p_team_only
+              OR m.code_number IN (SELECT tc.code FROM team_codes tc)
+          )
+    ),
+    scored AS (
+        SELECT
+            c.*,
+            CASE v_contest.qualifying_metric
+                WHEN 'agency_credits' THEN c.agency_credits
+                WHEN 'settled_apps' THEN c.settled_apps
+                ELSE c.net_sales_credits
+            END AS metric_value
+        FROM contestants c
+    )
+    SELECT
+        RANK() OVER (ORDER BY s.metric_value DESC)::integer AS rank,
+        s.code_number,
+        s.advisor_name,
+        s.class,
+        s.unit_code,
+        s.manager_id,
+        s.photo_url,
+        s.submitted_apps,
+        s.settled_apps,
+        s.agency_credits,
+        s.net_sales_credits,
+        s.metric_value,
+        (
+            SELECT COUNT(*)::integer
+            FROM unnest(v_contest.thresholds) AS t(threshold)
+            WHERE t.threshold <= s.metric_value
+        ) AS tier_reached,
+        (
+            SELECT MIN(t.threshold)
+            FROM unnest(v_contest.thresholds) AS t(threshold)
+            WHERE t.threshold > s.metric_value
+        ) AS next_threshold
+    FROM scored s
+    ORDER BY s.metric_value DESC, s.advisor_name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- 4. Grant Permissions
+-- ============================================================================
+GRANT EXECUTE ON FUNCTION get_contest_leaderboard(uuid, boolean) TO authenticated;
+
+COMMENT ON FUNCTION get_contest_leaderboard(uuid, boolean) IS
+'Ranks advisors on a contest''s qualifying metric using settled and submitted app details within the contest dates; p_team_only limits it to the caller and their subordinates';
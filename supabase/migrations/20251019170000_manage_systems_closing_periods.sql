@@ -0,0 +1,90 @@
+-- Migration: Manage Systems Closing Periods
+-- Description: Lets admins create, edit and delete cal_systems_closing_periods rows from the app, and rebuild the
+--              production summaries for the affected years afterwards
+-- Date: 2025-10-19
+
+-- ============================================================================
+-- 1. Admin Management Policies
+-- ============================================================================
+CREATE POLICY "admins_can_insert_systems_periods"
+ON public.cal_systems_closing_periods FOR INSERT
+TO authenticated
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+);
+
+CREATE POLICY "admins_can_update_systems_periods"
+ON public.cal_systems_closing_periods FOR UPDATE
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+)
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+);
+
+CREATE POLICY "admins_can_delete_systems_periods"
+ON public.cal_systems_closing_periods FOR DELETE
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+);
+
+GRANT INSERT, UPDATE, DELETE ON public.cal_systems_closing_periods TO authenticated;
+
+-- ============================================================================
+-- 2. Refresh Production Summaries for a Year Range
+-- ============================================================================
+-- populate_* are service-role maintenance functions; this wrapper lets admins run them after editing periods.
+-- Systems summaries for months whose period was deleted are removed by the monthly populate, which clears the
+-- year range before rebuilding it.
+CREATE OR REPLACE FUNCTION refresh_production_summaries(
+    p_start_year integer,
+    p_end_year integer
+) RETURNS text AS $$
+DECLARE
+    v_monthly_result text;
+    v_annual_result text;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'Access denied: Only admin users can refresh production summaries';
+    END IF;
+
+    IF p_end_year < p_start_year THEN
+        RAISE EXCEPTION 'End year % is before start year %', p_end_year, p_start_year;
+    END IF;
+
+    v_monthly_result := populate_monthly_production_summary(p_start_year, p_end_year);
+    v_annual_result := populate_annual_production_summary(p_start_year, p_end_year);
+
+    RETURN v_monthly_result || ' ' || v_annual_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 3. Grant Permissions
+-- ============================================================================
+GRANT EXECUTE ON FUNCTION refresh_production_summaries(integer, integer) TO authenticated;
+
+COMMENT ON FUNCTION refresh_production_summaries(integer, integer) IS
+'Admin-only: rebuilds monthly and annual production summaries for a year range, e.g. after systems closing periods change';
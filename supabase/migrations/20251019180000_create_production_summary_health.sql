@@ -0,0 +1,348 @@
+-- Migration: Create Production Summary Health Checks
+-- Description: Compares source-table totals with monthly_production_summary per advisor and period, reports how fresh
+--              each summary is, and lets admins recalculate an advisor, a period or a whole year
+-- Date: 2025-10-19
+
+-- ============================================================================
+-- 1. Periods of a Year
+-- ============================================================================
+-- Calendar months come from the date itself; systems months from cal_systems_closing_periods
+CREATE OR REPLACE FUNCTION get_summary_periods(
+    p_year integer,
+    p_period_type text
+) RETURNS TABLE (
+    period_month integer,
+    period_start date,
+    period_end date
+) AS $$
+BEGIN
+    IF p_period_type = 'calendar' THEN
+        RETURN QUERY
+        SELECT
+            m::integer,
+            make_date(p_year, m, 1),
+            (make_date(p_year, m, 1) + INTERVAL '1 month' - INTERVAL '1 day')::date
+        FROM generate_series(1, 12) m;
+    ELSE
+        RETURN QUERY
+        SELECT scp.period_month, scp.start_date, scp.end_date
+        FROM public.cal_systems_closing_periods scp
+        WHERE scp.period_year = p_year
+        ORDER BY scp.period_month;
+    END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================================================
+-- 2. Summary Health: Source Totals vs Monthly Summary
+-- ============================================================================
+-- Source rows are attributed the same way recalculate_monthly_summary does it:
+-- aliases resolve to their manpower code, codes without manpower are skipped.
+CREATE OR REPLACE FUNCTION get_production_summary_health(
+    p_year integer,
+    p_period_type text DEFAULT 'calendar',
+    p_month integer DEFAULT NULL,
+    p_drift_only boolean DEFAULT false
+) RETURNS TABLE (
+    advisor_code text,
+    advisor_name text,
+    period_month integer,
+    period_start date,
+    period_end date,
+    source_settled_apps numeric,
+    source_agency_credits numeric,
+    source_net_sales_credits numeric,
+    source_rn_commission_php numeric,
+    source_submitted_apps numeric,
+    summary_settled_apps numeric,
+    summary_agency_credits numeric,
+    summary_net_sales_credits numeric,
+    summary_rn_commission_php numeric,
+    summary_submitted_apps numeric,
+    has_summary boolean,
+    has_drift boolean,
+    last_updated timestamptz
+) AS $$
+BEGIN
+    -- Security check: only admin can inspect summary health
+    IF public.get_user_app_role(auth.uid()) != 'admin' THEN
+        RAISE EXCEPTION 'Access denied: Only admin users can view production summary health';
+    END IF;
+
+    IF p_period_type NOT IN ('calendar', 'systems') THEN
+        RAISE EXCEPTION 'Invalid period type: %', p_period_type;
+    END IF;
+
+    RETURN QUERY
+    WITH periods AS (
+        SELECT * FROM get_summary_periods(p_year, p_period_type) sp
+        WHERE p_month IS NULL OR sp.period_month = p_month
+    ),
+    source_rows AS (
+        SELECT
+            COALESCE(a.code_number, s.advisor_code) AS code,
+            s.process_date,
+            COALESCE(s.settled_apps, 0) AS settled_apps,
+            COALESCE(s.agency_credits, 0) AS agency_credits,
+            COALESCE(s.net_sales_credits, 0) AS net_sales_credits,
+            0::numeric AS rn_commission_php,
+            0::numeric AS submitted_apps
+        FROM public.settled_apps_details s
+        LEFT JOIN public.advisor_code_aliases a ON a.alias_code = s.advisor_code
+        UNION ALL
+        SELECT
+            COALESCE(a.code_number, r.code),
+            r.process_date,
+            0, 0, 0,
+            COALESCE(r.rn_commission_php, 0),
+            0
+        FROM public.rn_commission_details r
+        LEFT JOIN public.advisor_code_aliases a ON a.alias_code = r.code
+        UNION ALL
+        SELECT
+            COALESCE(a.code_number, sub.advisor_code),
+            sub.process_date,
+            0, 0, 0, 0,
+            COALESCE(sub.submitted_apps, 0)
+        FROM public.submitted_apps_details sub
+        LEFT JOIN public.advisor_code_aliases a ON a.alias_code = sub.advisor_code
+    ),
+    source_totals AS (
+        SELECT
+            sr.code,
+            p.period_month,
+            SUM(sr.settled_apps) AS settled_apps,
+            SUM(sr.agency_credits) AS agency_credits,
+            SUM(sr.net_sales_credits) AS net_sales_credits,
+            SUM(sr.rn_commission_php) AS rn_commission_php,
+            SUM(sr.submitted_apps) AS submitted_apps
+        FROM source_rows sr
+        JOIN periods p ON sr.process_date >= p.period_start AND sr.process_date <= p.period_end
+        WHERE EXISTS (SELECT 1 FROM public.manpower m WHERE m.code_number = sr.code)
+        GROUP BY sr.code, p.period_month
+    ),
+    summary_totals AS (
+        SELECT mps.*
+        FROM public.monthly_production_summary mps
+        JOIN periods p ON p.period_month = mps.period_month
+        WHERE mps.period_year = p_year
+            AND mps.period_type = p_period_type
+    ),
+    compared AS (
+        SELECT
+            COALESCE(st.code, sm.advisor_code) AS code,
+            COALESCE(st.period_month, sm.period_month) AS month,
+            COALESCE(st.settled_apps, 0) AS src_settled,
+            COALESCE(st.agency_credits, 0) AS src_ac,
+            COALESCE(st.net_sales_credits, 0) AS src_nsc,
+            COALESCE(st.rn_commission_php, 0) AS src_rn,
+            COALESCE(st.submitted_apps, 0) AS src_submitted,
+            COALESCE(sm.total_settled_apps, 0) AS sum_settled,
+            COALESCE(sm.total_agency_credits, 0) AS sum_ac,
+            COALESCE(sm.total_net_sales_credits, 0) AS sum_nsc,
+            COALESCE(sm.total_rn_commission_php, 0) AS sum_rn,
+            COALESCE(sm.total_submitted_apps, 0) AS sum_submitted,
+            sm.advisor_code IS NOT NULL AS summary_exists,
+            sm.last_updated AS updated_at
+        FROM source_totals st
+        FULL OUTER JOIN summary_totals sm
+            ON sm.advisor_code = st.code AND sm.period_month = st.period_month
+    ),
+    flagged AS (
+        SELECT
+            c.*,
+            -- Summaries are stored to 2 decimal places
+            (
+                abs(c.src_settled - c.sum_settled) >= 0.005
+                OR abs(c.src_ac - c.sum_ac) >= 0.005
+                OR abs(c.src_nsc - c.sum_nsc) >= 0.005
+                OR abs(c.src_rn - c.sum_rn) >= 0.005
+                OR abs(c.src_submitted - c.sum_submitted) >= 0.005
+                OR NOT c.summary_exists
+            ) AS drift
+        FROM compared c
+    )
+    SELECT
+        f.code,
+        m.advisor_name,
+        f.month,
+        p.period_start,
+        p.period_end,
+        f.src_settled,
+        f.src_ac,
+        f.src_nsc,
+        f.src_rn,
+        f.src_submitted,
+        f.sum_settled,
+        f.sum_ac,
+        f.sum_nsc,
+        f.sum_rn,
+        f.sum_submitted,
+        f.summary_exists,
+        f.drift,
+        f.updated_at
+    FROM flagged f
+    JOIN periods p ON p.period_month = f.month
+    LEFT JOIN public.manpower m ON m.code_number = f.code
+    WHERE NOT p_drift_only OR f.drift
+    ORDER BY f.drift DESC, f.month, f.code;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- 3. Summary Freshness
+-- ============================================================================
+-- One row per monthly period plus one for the annual summary (period_month NULL)
+CREATE OR REPLACE FUNCTION get_production_summary_freshness(
+    p_year integer,
+    p_period_type text DEFAULT 'calendar'
+) RETURNS TABLE (
+    summary_table text,
+    period_month integer,
+    row_count bigint,
+    oldest_update timestamptz,
+    newest_update timestamptz
+) AS $$
+BEGIN
+    -- Security check: only admin can inspect summary health
+    IF public.get_user_app_role(auth.uid()) != 'admin' THEN
+        RAISE EXCEPTION 'Access denied: Only admin users can view production summary health';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        'monthly'::text,
+        p.period_month,
+        COUNT(mps.id),
+        MIN(mps.last_updated),
+        MAX(mps.last_updated)
+    FROM get_summary_periods(p_year, p_period_type) p
+    LEFT JOIN public.monthly_production_summary mps
+        ON mps.period_year = p_year
+        AND mps.period_type = p_period_type
+        AND mps.period_month = p.period_month
+    GROUP BY p.period_month
+    UNION ALL
+    SELECT
+        'annual'::text,
+        NULL::integer,
+        COUNT(aps.id),
+        MIN(aps.last_updated),
+        MAX(aps.last_updated)
+    FROM public.annual_production_summary aps
+    WHERE aps.period_year = p_year
+        AND aps.period_type = p_period_type
+    ORDER BY 1 DESC, 2;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- 4. Recalculate an Advisor, a Period or a Whole Year
+-- ============================================================================
+-- Recalculates every monthly summary in scope, then the annual summary of each
+-- advisor touched. Without an advisor code, every advisor with source rows or
+-- an existing summary in the scope is recalculated.
+CREATE OR REPLACE FUNCTION recalculate_production_summaries(
+    p_year integer,
+    p_period_type text,
+    p_month integer DEFAULT NULL,
+    p_advisor_code text DEFAULT NULL
+) RETURNS jsonb AS $$
+DECLARE
+    period_record RECORD;
+    advisor_record RECORD;
+    monthly_recalculated integer := 0;
+    annual_recalculated integer := 0;
+    advisor_codes text[] := ARRAY[]::text[];
+BEGIN
+    -- Security check: only admin can trigger recalculation
+    IF public.get_user_app_role(auth.uid()) != 'admin' THEN
+        RAISE EXCEPTION 'Access denied: Only admin users can recalculate production summaries';
+    END IF;
+
+    IF p_period_type NOT IN ('calendar', 'systems') THEN
+        RAISE EXCEPTION 'Invalid period type: %', p_period_type;
+    END IF;
+
+    IF p_advisor_code IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM public.manpower WHERE code_number = p_advisor_code) THEN
+        RAISE EXCEPTION 'Advisor code % does not exist in manpower', p_advisor_code;
+    END IF;
+
+    FOR period_record IN
+        SELECT * FROM get_summary_periods(p_year, p_period_type) sp
+        WHERE p_month IS NULL OR sp.period_month = p_month
+    LOOP
+        FOR advisor_record IN
+            SELECT p_advisor_code AS code
+            WHERE p_advisor_code IS NOT NULL
+            UNION
+            SELECT DISTINCT resolve_advisor_code(s.advisor_code)
+            FROM public.settled_apps_details s
+            WHERE p_advisor_code IS NULL
+                AND s.process_date BETWEEN period_record.period_start AND period_record.period_end
+            UNION
+            SELECT DISTINCT resolve_advisor_code(r.code)
+            FROM public.rn_commission_details r
+            WHERE p_advisor_code IS NULL
+                AND r.process_date BETWEEN period_record.period_start AND period_record.period_end
+            UNION
+            SELECT DISTINCT resolve_advisor_code(sub.advisor_code)
+            FROM public.submitted_apps_details sub
+            WHERE p_advisor_code IS NULL
+                AND sub.process_date BETWEEN period_record.period_start AND period_record.period_end
+            UNION
+            SELECT mps.advisor_code
+            FROM public.monthly_production_summary mps
+            WHERE p_advisor_code IS NULL
+                AND mps.period_year = p_year
+                AND mps.period_month = period_record.period_month
+                AND mps.period_type = p_period_type
+        LOOP
+            CONTINUE WHEN advisor_record.code IS NULL
+                OR NOT EXISTS (SELECT 1 FROM public.manpower WHERE code_number = advisor_record.code);
+
+            PERFORM recalculate_monthly_summary(
+                advisor_record.code,
+                p_year,
+                period_record.period_month,
+                p_period_type,
+                period_record.period_start,
+                period_record.period_end
+            );
+            monthly_recalculated := monthly_recalculated + 1;
+
+            IF NOT advisor_record.code = ANY(advisor_codes) THEN
+                advisor_codes := advisor_codes || advisor_record.code;
+            END IF;
+        END LOOP;
+    END LOOP;
+
+    FOR advisor_record IN SELECT unnest(advisor_codes) AS code LOOP
+        PERFORM recalculate_annual_summary(advisor_record.code, p_year, p_period_type);
+        annual_recalculated := annual_recalculated + 1;
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'monthly_recalculated', monthly_recalculated,
+        'annual_recalculated', annual_recalculated
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 5. Grant Permissions
+-- ============================================================================
+GRANT EXECUTE ON FUNCTION get_summary_periods(integer, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_production_summary_health(integer, text, integer, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_production_summary_freshness(integer, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION recalculate_production_summaries(integer, text, integer, text) TO authenticated;
+
+COMMENT ON FUNCTION get_summary_periods(integer, text) IS 'The calendar or systems months of a year with their date ranges';
+COMMENT ON FUNCTION get_production_summary_health(integer, text, integer, boolean) IS
+'Admin-only: source-table totals vs monthly_production_summary per advisor and month, flagging drift and missing summaries';
+COMMENT ON FUNCTION get_production_summary_freshness(integer, text) IS
+'Admin-only: row counts and last_updated range of the monthly summaries per month and of the annual summary for a year';
+COMMENT ON FUNCTION recalculate_production_summaries(integer, text, integer, text) IS
+'Admin-only: recalculates monthly and annual summaries for one advisor, one month or a whole year';
@@ -0,0 +1,652 @@
+-- Migration: Configurable Production Summary Retention
+-- Description: Replaces the hard 3-year CHECK window on the production summaries with a configurable number of live
+--              years. Older years move to archive tables instead of being deleted, and the production query RPCs
+--              read live and archived years alike.
+-- Date: 2025-10-19
+
+-- ============================================================================
+-- 1. Drop the Rolling Window Constraints
+-- ============================================================================
+-- The window was evaluated against CURRENT_DATE, so on January 1st the oldest
+-- year could no longer be inserted or recalculated
+ALTER TABLE public.monthly_production_summary
+    DROP CONSTRAINT IF EXISTS monthly_production_summary_3year_window;
+
+ALTER TABLE public.annual_production_summary
+    DROP CONSTRAINT IF EXISTS annual_production_summary_3year_window;
+
+COMMENT ON TABLE public.monthly_production_summary IS 'Pre-aggregated monthly production data for fast dashboard queries; years past the retention setting move to monthly_production_summary_archive';
+COMMENT ON TABLE public.annual_production_summary IS 'Pre-aggregated annual production data for fast dashboard queries; years past the retention setting move to annual_production_summary_archive';
+
+-- ============================================================================
+-- 2. Retention Settings
+-- ============================================================================
+CREATE TABLE public.production_summary_settings (
+    id boolean DEFAULT true PRIMARY KEY,
+    live_years integer NOT NULL DEFAULT 3,
+    archive_retention_years integer,
+    updated_at timestamptz DEFAULT now() NOT NULL,
+    updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+
+    -- Constraints
+    CONSTRAINT production_summary_settings_singleton CHECK (id),
+    CONSTRAINT production_summary_settings_live_years_valid CHECK (live_years >= 1 AND live_years <= 20),
+    CONSTRAINT production_summary_settings_archive_years_valid CHECK (archive_retention_years IS NULL OR archive_retention_years >= 1)
+);
+
+COMMENT ON TABLE public.production_summary_settings IS 'Single-row retention settings for the production summary tables';
+COMMENT ON COLUMN public.production_summary_settings.live_years IS 'Number of years, including the current one, kept in the live summary tables';
+COMMENT ON COLUMN public.production_summary_settings.archive_retention_years IS 'Years kept in the archive beyond the live window; NULL keeps archived history forever';
+
+INSERT INTO public.production_summary_settings (id) VALUES (true);
+
+CREATE TRIGGER update_production_summary_settings_updated_at
+    BEFORE UPDATE ON public.production_summary_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.production_summary_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "authenticated_users_with_app_role_can_view_summary_settings"
+ON public.production_summary_settings FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role IS NOT NULL
+    )
+);
+
+CREATE POLICY "admins_can_update_summary_settings"
+ON public.production_summary_settings FOR UPDATE
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+)
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+);
+
+-- ============================================================================
+-- 3. Archive Tables
+-- ============================================================================
+-- Same columns as the live tables plus archived_at. No manpower foreign key,
+-- so history survives an advisor record being removed.
+CREATE TABLE public.monthly_production_summary_archive (
+    LIKE public.monthly_production_summary INCLUDING DEFAULTS INCLUDING CONSTRAINTS INCLUDING INDEXES,
+    archived_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE TABLE public.annual_production_summary_archive (
+    LIKE public.annual_production_summary INCLUDING DEFAULTS INCLUDING CONSTRAINTS INCLUDING INDEXES,
+    archived_at timestamptz DEFAULT now() NOT NULL
+);
+
+COMMENT ON TABLE public.monthly_production_summary_archive IS 'Monthly production summaries for years older than the live retention window';
+COMMENT ON TABLE public.annual_production_summary_archive IS 'Annual production summaries for years older than the live retention window';
+
+ALTER TABLE public.monthly_production_summary_archive ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.annual_production_summary_archive ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "authenticated_users_with_app_role_can_view_monthly_archive"
+ON public.monthly_production_summary_archive FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role IS NOT NULL
+    )
+);
+
+CREATE POLICY "authenticated_users_with_app_role_can_view_annual_archive"
+ON public.annual_production_summary_archive FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role IS NOT NULL
+    )
+);
+
+-- ============================================================================
+-- 4. Live + Archive Views
+-- ============================================================================
+-- A year recalculated after it was archived lands in the live table again;
+-- the live row wins until the next archive run moves it back.
+CREATE OR REPLACE VIEW public.monthly_production_summary_all
+WITH (security_invoker = true) AS
+SELECT
+    mps.advisor_code, mps.period_year, mps.period_month, mps.period_type, mps.period_start, mps.period_end,
+    mps.advisor_name, mps.unit_code, mps.unit_name, mps.manager_id, mps.photo_url,
+    mps.total_settled_apps, mps.total_agency_credits, mps.total_net_sales_credits,
+    mps.total_rn_commission_php, mps.total_submitted_apps,
+    mps.transaction_count, mps.last_updated,
+    false AS is_archived
+FROM public.monthly_production_summary mps
+UNION ALL
+SELECT
+    a.advisor_code, a.period_year, a.period_month, a.period_type, a.period_start, a.period_end,
+    a.advisor_name, a.unit_code, a.unit_name, a.manager_id, a.photo_url,
+    a.total_settled_apps, a.total_agency_credits, a.total_net_sales_credits,
+    a.total_rn_commission_php, a.total_submitted_apps,
+    a.transaction_count, a.last_updated,
+    true
+FROM public.monthly_production_summary_archive a
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.monthly_production_summary l
+    WHERE l.advisor_code = a.advisor_code
+        AND l.period_year = a.period_year
+        AND l.period_month = a.period_month
+        AND l.period_type = a.period_type
+);
+
+CREATE OR REPLACE VIEW public.annual_production_summary_all
+WITH (security_invoker = true) AS
+SELECT
+    aps.advisor_code, aps.period_year, aps.period_type, aps.period_start, aps.period_end,
+    aps.advisor_name, aps.unit_code, aps.unit_name, aps.manager_id, aps.photo_url,
+    aps.total_settled_apps, aps.total_agency_credits, aps.total_net_sales_credits,
+    aps.total_rn_commission_php, aps.total_submitted_apps,
+    aps.months_with_activity,
+    aps.avg_monthly_settled_apps, aps.avg_monthly_agency_credits, aps.avg_monthly_net_sales_credits,
+    aps.avg_monthly_rn_commission_php, aps.avg_monthly_submitted_apps,
+    aps.peak_month_settled_apps, aps.peak_month_agency_credits, aps.peak_month_net_sales_credits,
+    aps.peak_month_rn_commission_php, aps.peak_month_submitted_apps,
+    aps.transaction_count, aps.last_updated,
+    false AS is_archived
+FROM public.annual_production_summary aps
+UNION ALL
+SELECT
+    a.advisor_code, a.period_year, a.period_type, a.period_start, a.period_end,
+    a.advisor_name, a.unit_code, a.unit_name, a.manager_id, a.photo_url,
+    a.total_settled_apps, a.total_agency_credits, a.total_net_sales_credits,
+    a.total_rn_commission_php, a.total_submitted_apps,
+    a.months_with_activity,
+    a.avg_monthly_settled_apps, a.avg_monthly_agency_credits, a.avg_monthly_net_sales_credits,
+    a.avg_monthly_rn_commission_php, a.avg_monthly_submitted_apps,
+    a.peak_month_settled_apps, a.peak_month_agency_credits, a.peak_month_net_sales_credits,
+    a.peak_month_rn_commission_php, a.peak_month_submitted_apps,
+    a.transaction_count, a.last_updated,
+    true
+FROM public.annual_production_summary_archive a
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.annual_production_summary l
+    WHERE l.advisor_code = a.advisor_code
+        AND l.period_year = a.period_year
+        AND l.period_type = a.period_type
+);
+
+COMMENT ON VIEW public.monthly_production_summary_all IS 'Live and archived monthly production summaries';
+COMMENT ON VIEW public.annual_production_summary_all IS 'Live and archived annual production summaries';
+
+-- ============================================================================
+-- 5. Archive Function
+-- ============================================================================
+CREATE OR REPLACE FUNCTION archive_production_summaries()
+RETURNS jsonb AS $$
+DECLARE
+    settings RECORD;
+    cutoff_year integer;
+    purge_before_year integer;
+    monthly_archived integer := 0;
+    annual_archived integer := 0;
+    monthly_purged integer := 0;
+    annual_purged integer := 0;
+BEGIN
+    -- Scheduled runs have no user; signed-in callers must be admins
+    IF auth.uid() IS NOT NULL AND public.get_user_app_role(auth.uid()) != 'admin' THEN
+        RAISE EXCEPTION 'Access denied: Only admin users can archive production summaries';
+    END IF;
+
+    SELECT * INTO settings FROM public.production_summary_settings WHERE id;
+
+    -- Oldest year kept live
+    cutoff_year := EXTRACT(year FROM CURRENT_DATE)::integer - COALESCE(settings.live_years, 3) + 1;
+
+    -- Monthly: replace any earlier archived copy, then move the rows
+    DELETE FROM public.monthly_production_summary_archive a
+    USING public.monthly_production_summary l
+    WHERE l.period_year < cutoff_year
+        AND a.advisor_code = l.advisor_code
+        AND a.period_year = l.period_year
+        AND a.period_month = l.period_month
+        AND a.period_type = l.period_type;
+
+    WITH moved AS (
+        DELETE FROM public.monthly_production_summary
+        WHERE period_year < cutoff_year
+        RETURNING *
+    )
+    INSERT INTO public.monthly_production_summary_archive
+    SELECT moved.*, now() FROM moved;
+
+    GET DIAGNOSTICS monthly_archived = ROW_COUNT;
+
+    -- Annual
+    DELETE FROM public.annual_production_summary_archive a
+    USING public.annual_production_summary l
+    WHERE l.period_year < cutoff_year
+        AND a.advisor_code = l.advisor_code
+        AND a.period_year = l.period_year
+        AND a.period_type = l.period_type;
+
+    WITH moved AS (
+        DELETE FROM public.annual_production_summary
+        WHERE period_year < cutoff_year
+        RETURNING *
+    )
+    INSERT INTO public.annual_production_summary_archive
+    SELECT moved.*, now() FROM moved;
+
+    GET DIAGNOSTICS annual_archived = ROW_COUNT;
+
+    -- Purge archived years past the archive retention, if one is set
+    IF settings.archive_retention_years IS NOT NULL THEN
+        purge_before_year := cutoff_year - settings.archive_retention_years;
+
+        DELETE FROM public.monthly_production_summary_archive WHERE period_year < purge_before_year;
+        GET DIAGNOSTICS monthly_purged = ROW_COUNT;
+
+        DELETE FROM public.annual_production_summary_archive WHERE period_year < purge_before_year;
+        GET DIAGNOSTICS annual_purged = ROW_COUNT;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'cutoff_year', cutoff_year,
+        'monthly_archived', monthly_archived,
+        'annual_archived', annual_archived,
+        'monthly_purged', monthly_purged,
+        'annual_purged', annual_purged
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION archive_production_summaries() IS
+'Moves summary years older than the live retention window to the archive tables and purges archived years past the archive retention';
+
+-- ============================================================================
+-- 6. Cleanup Functions Archive Instead of Delete
+-- ============================================================================
+CREATE OR REPLACE FUNCTION cleanup_old_production_summaries()
+RETURNS text AS $$
+DECLARE
+    result jsonb;
+BEGIN
+    result := archive_production_summaries();
+
+    RETURN 'Archived ' || (result->>'monthly_archived') || ' monthly summary records before year ' ||
+           (result->>'cutoff_year');
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION cleanup_old_annual_summaries()
+RETURNS text AS $$
+DECLARE
+    result jsonb;
+BEGIN
+    result := archive_production_summaries();
+
+    RETURN 'Archived ' || (result->>'annual_archived') || ' annual summary records before year ' ||
+           (result->>'cutoff_year');
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 7. Years With Production Summaries
+-- ============================================================================
+CREATE OR REPLACE FUNCTION get_production_summary_years()
+RETURNS TABLE (
+    period_year integer,
+    is_archived boolean
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT aps.period_year, bool_and(aps.is_archived)
+    FROM public.annual_production_summary_all aps
+    GROUP BY aps.period_year
+    ORDER BY aps.period_year DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_production_summary_years() IS 'Every year with production summaries, live or archived, newest first';
+
+-- ============================================================================
+-- 8. Production Query RPCs Read Archived Years
+-- ============================================================================
+CREATE OR REPLACE FUNCTION get_monthly_production_data(
+    p_start_year integer DEFAULT EXTRACT(year FROM CURRENT_DATE) - 2,
+    p_end_year integer DEFAULT EXTRACT(year FROM CURRENT_DATE),
+    p_period_type text DEFAULT 'calendar',
+    p_advisor_codes text[] DEFAULT NULL,
+    p_manager_ids text[] DEFAULT NULL,
+    p_unit_codes text[] DEFAULT NULL,
+    p_start_month integer DEFAULT NULL,
+    p_end_month integer DEFAULT NULL
+) RETURNS TABLE (
+    advisor_code text,
+    advisor_name text,
+    unit_code text,
+    unit_name text,
+    manager_id text,
+    photo_url text,
+    period_year integer,
+    period_month integer,
+    period_type text,
+    period_start date,
+    period_end date,
+    total_settled_apps numeric,
+    total_agency_credits numeric,
+    total_net_sales_credits numeric,
+    total_rn_commission_php numeric,
+    total_submitted_apps numeric,
+    transaction_count integer,
+    last_updated timestamptz
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        mps.advisor_code,
+        mps.advisor_name,
+        mps.unit_code,
+        mps.unit_name,
+        mps.manager_id,
+        mps.photo_url,
+        mps.period_year,
+        mps.period_month,
+        mps.period_type,
+        mps.period_start,
+        mps.period_end,
+        mps.total_settled_apps,
+        mps.total_agency_credits,
+        mps.total_net_sales_credits,
+        mps.total_rn_commission_php,
+        mps.total_submitted_apps,
+        mps.transaction_count,
+        mps.last_updated
+    FROM public.monthly_production_summary_all mps
+    WHERE
+        -- Year filtering
+        mps.period_year >= p_start_year
+        AND mps.period_year <= p_end_year
+
+        -- Period type filtering
+        AND (
+            p_period_type = 'both'
+            OR mps.period_type = p_period_type
+        )
+
+        -- Month filtering (optional)
+        AND (
+            p_start_month IS NULL
+            OR mps.period_month >= p_start_month
+        )
+        AND (
+            p_end_month IS NULL
+            OR mps.period_month <= p_end_month
+        )
+
+        -- Advisor filtering (optional)
+        AND (
+            p_advisor_codes IS NULL
+            OR mps.advisor_code = ANY(p_advisor_codes)
+        )
+
+        -- Manager filtering (optional)
+        AND (
+            p_manager_ids IS NULL
+            OR mps.manager_id = ANY(p_manager_ids)
+        )
+
+        -- Unit filtering (optional)
+        AND (
+            p_unit_codes IS NULL
+            OR mps.unit_code = ANY(p_unit_codes)
+        )
+    ORDER BY
+        mps.advisor_code,
+        mps.period_year,
+        mps.period_month,
+        mps.period_type;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_annual_production_data(
+    p_start_year integer DEFAULT EXTRACT(year FROM CURRENT_DATE) - 2,
+    p_end_year integer DEFAULT EXTRACT(year FROM CURRENT_DATE),
+    p_period_type text DEFAULT 'calendar',
+    p_advisor_codes text[] DEFAULT NULL,
+    p_manager_ids text[] DEFAULT NULL,
+    p_unit_codes text[] DEFAULT NULL
+) RETURNS TABLE (
+    advisor_code text,
+    advisor_name text,
+    unit_code text,
+    unit_name text,
+    manager_id text,
+    photo_url text,
+    period_year integer,
+    period_type text,
+    period_start date,
+    period_end date,
+    total_settled_apps numeric,
+    total_agency_credits numeric,
+    total_net_sales_credits numeric,
+    total_rn_commission_php numeric,
+    total_submitted_apps numeric,
+    months_with_activity integer,
+    avg_monthly_settled_apps numeric,
+    avg_monthly_agency_credits numeric,
+    avg_monthly_net_sales_credits numeric,
+    avg_monthly_rn_commission_php numeric,
+    avg_monthly_submitted_apps numeric,
+    peak_month_settled_apps numeric,
+    peak_month_agency_credits numeric,
+    peak_month_net_sales_credits numeric,
+    peak_month_rn_commission_php numeric,
+    peak_month_submitted_apps numeric,
+    transaction_count integer,
+    last_updated timestamptz
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        aps.advisor_code,
+        aps.advisor_name,
+        aps.unit_code,
+        aps.unit_name,
+        aps.manager_id,
+        aps.photo_url,
+        aps.period_year,
+        aps.period_type,
+        aps.period_start,
+        aps.period_end,
+        aps.total_settled_apps,
+        aps.total_agency_credits,
+        aps.total_net_sales_credits,
+        aps.total_rn_commission_php,
+        aps.total_submitted_apps,
+        aps.months_with_activity,
+        aps.avg_monthly_settled_apps,
+        aps.avg_monthly_agency_credits,
+        aps.avg_monthly_net_sales_credits,
+        aps.avg_monthly_rn_commission_php,
+        aps.avg_monthly_submitted_apps,
+        aps.peak_month_settled_apps,
+        aps.peak_month_agency_credits,
+        aps.peak_month_net_sales_credits,
+        aps.peak_month_rn_commission_php,
+        aps.peak_month_submitted_apps,
+        aps.transaction_count,
+        aps.last_updated
+    FROM public.annual_production_summary_all aps
+    WHERE
+        -- Year filtering
+        aps.period_year >= p_start_year
+        AND aps.period_year <= p_end_year
+
+        -- Period type filtering
+        AND (
+            p_period_type = 'both'
+            OR aps.period_type = p_period_type
+        )
+
+        -- Advisor filtering (optional)
+        AND (
+            p_advisor_codes IS NULL
+            OR aps.advisor_code = ANY(p_advisor_codes)
+        )
+
+        -- Manager filtering (optional)
+        AND (
+            p_manager_ids IS NULL
+            OR aps.manager_id = ANY(p_manager_ids)
+        )
+
+        -- Unit filtering (optional)
+        AND (
+            p_unit_codes IS NULL
+            OR aps.unit_code = ANY(p_unit_codes)
+        )
+    ORDER BY
+        aps.advisor_code,
+        aps.period_year,
+        aps.period_type;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_team_production_data(
+    p_time_frame text,                 -- 'monthly' or 'annual'
+    p_period_type text,                -- 'calendar' or 'systems'
+    p_year integer,
+    p_month integer DEFAULT NULL,      -- Required for monthly, ignored for annual
+    p_limit integer DEFAULT 1000,
+    p_offset integer DEFAULT 0
+) RETURNS TABLE (
+    advisor_code text,
+    advisor_name text,
+    unit_code text,
+    manager_id text,
+    team_name text,
+    total_submitted_apps numeric,
+    total_settled_apps numeric,
+    total_agency_credits numeric,
+    total_net_sales_credits numeric,
+    total_count bigint
+) AS $$
+DECLARE
+    v_user_code text;
+BEGIN
+    IF p_time_frame NOT IN ('monthly', 'annual') THEN
+        RAISE EXCEPTION 'Invalid time frame: %', p_time_frame;
+    END IF;
+
+    IF p_time_frame = 'monthly' AND p_month IS NULL THEN
+        RAISE EXCEPTION 'A month is required for monthly team production';
+    END IF;
+
+    -- The team is always the caller's own subtree
+    SELECT m.code_number INTO v_user_code
+    FROM public.manpower m
+    WHERE m.profile_user_id = auth.uid()
+    LIMIT 1;
+
+    IF v_user_code IS NULL THEN
+        RAISE EXCEPTION 'Your user account is not linked to any advisor record. Please contact your administrator to link your account.'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN QUERY
+    WITH RECURSIVE team_codes AS (
+        SELECT v_user_code AS code
+        UNION
+        -- Walk active links only, so cancelled advisors and their subtrees drop out
+        SELECT m.code_number
+        FROM public.manpower m
+        JOIN team_codes tc ON m.manager_id = tc.code
+        WHERE m.status = 'active'
+    ),
+    team_rows AS (
+        SELECT
+            mps.advisor_code,
+            mps.advisor_name,
+            mps.unit_code,
+            mps.manager_id,
+            mps.total_submitted_apps,
+            mps.total_settled_apps,
+            mps.total_agency_credits,
+            mps.total_net_sales_credits
+        FROM public.monthly_production_summary_all mps
+        JOIN team_codes tc ON tc.code = mps.advisor_code
+        WHERE p_time_frame = 'monthly'
+          AND mps.period_type = p_period_type
+          AND mps.period_year = p_year
+          AND mps.period_month = p_month
+
+        UNION ALL
+
+        SELECT
+            aps.advisor_code,
+            aps.advisor_name,
+            aps.unit_code,
+            aps.manager_id,
+            aps.total_submitted_apps,
+            aps.total_settled_apps,
+            aps.total_agency_credits,
+            aps.total_net_sales_credits
+        FROM public.annual_production_summary_all aps
+        JOIN team_codes tc ON tc.code = aps.advisor_code
+        WHERE p_time_frame = 'annual'
+          AND aps.period_type = p_period_type
+          AND aps.period_year = p_year
+    )
+    SELECT
+        tr.advisor_code,
+        tr.advisor_name,
+        tr.unit_code,
+        tr.manager_id,
+        (
+            SELECT t.unit_name
+            FROM public.teams t
+            WHERE t.unit_code = tr.unit_code
+            LIMIT 1
+        ) AS team_name,
+        tr.total_submitted_apps,
+        tr.total_settled_apps,
+        tr.total_agency_credits,
+        tr.total_net_sales_credits,
+        COUNT(*) OVER () AS total_count
+    FROM team_rows tr
+    ORDER BY tr.advisor_code
+    LIMIT GREATEST(p_limit, 1)
+    OFFSET GREATEST(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 9. Grant Permissions
+-- ============================================================================
+GRANT SELECT, UPDATE ON public.production_summary_settings TO authenticated;
+GRANT ALL ON public.production_summary_settings TO service_role;
+
+GRANT SELECT ON public.monthly_production_summary_archive TO authenticated;
+GRANT SELECT ON public.annual_production_summary_archive TO authenticated;
+GRANT ALL ON public.monthly_production_summary_archive TO service_role;
+GRANT ALL ON public.annual_production_summary_archive TO service_role;
+
+GRANT SELECT ON public.monthly_production_summary_all TO authenticated, service_role;
+GRANT SELECT ON public.annual_production_summary_all TO authenticated, service_role;
+
+GRANT EXECUTE ON FUNCTION archive_production_summaries() TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION get_production_summary_years() TO authenticated;
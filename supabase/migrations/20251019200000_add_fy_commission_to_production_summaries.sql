@@ -0,0 +1,1362 @@
+-- Migration: Add FY Commission to Production Summaries
+-- Description: Adds FY premium and FY commission totals to the monthly and annual production summaries, keeps them
+--              current with a trigger on fy_commission_details and exposes them through the production RPCs
+-- Date: 2025-10-19
+
+-- ============================================================================
+-- 1. FY Columns on the Summary and Archive Tables
+-- ============================================================================
+ALTER TABLE public.monthly_production_summary
+    ADD COLUMN total_fy_premium_php numeric(12,2) DEFAULT 0,
+    ADD COLUMN total_fy_commission_php numeric(12,2) DEFAULT 0;
+
+ALTER TABLE public.monthly_production_summary_archive
+    ADD COLUMN total_fy_premium_php numeric(12,2) DEFAULT 0,
+    ADD COLUMN total_fy_commission_php numeric(12,2) DEFAULT 0;
+
+ALTER TABLE public.annual_production_summary
+    ADD COLUMN total_fy_premium_php numeric(12,2) DEFAULT 0,
+    ADD COLUMN total_fy_commission_php numeric(12,2) DEFAULT 0,
+    ADD COLUMN avg_monthly_fy_premium_php numeric(12,2) DEFAULT 0,
+    ADD COLUMN avg_monthly_fy_commission_php numeric(12,2) DEFAULT 0,
+    ADD COLUMN peak_month_fy_premium_php numeric(12,2) DEFAULT 0,
+    ADD COLUMN peak_month_fy_commission_php numeric(12,2) DEFAULT 0;
+
+ALTER TABLE public.annual_production_summary_archive
+    ADD COLUMN total_fy_premium_php numeric(12,2) DEFAULT 0,
+    ADD COLUMN total_fy_commission_php numeric(12,2) DEFAULT 0,
+    ADD COLUMN avg_monthly_fy_premium_php numeric(12,2) DEFAULT 0,
+    ADD COLUMN avg_monthly_fy_commission_php numeric(12,2) DEFAULT 0,
+    ADD COLUMN peak_month_fy_premium_php numeric(12,2) DEFAULT 0,
+    ADD COLUMN peak_month_fy_commission_php numeric(12,2) DEFAULT 0;
+
+COMMENT ON COLUMN public.monthly_production_summary.total_fy_premium_php IS 'Sum of fy_premium_php from fy_commission_details for the period';
+COMMENT ON COLUMN public.monthly_production_summary.total_fy_commission_php IS 'Sum of fy_commission_php from fy_commission_details for the period';
+COMMENT ON COLUMN public.annual_production_summary.total_fy_premium_php IS 'Sum of the monthly FY premium totals for the year';
+COMMENT ON COLUMN public.annual_production_summary.total_fy_commission_php IS 'Sum of the monthly FY commission totals for the year';
+
+-- ============================================================================
+-- 2. Monthly Summary Includes FY Commission
+-- ============================================================================
+CREATE OR REPLACE FUNCTION recalculate_monthly_summary(
+    p_advisor_code text,
+    p_period_year integer,
+    p_period_month integer,
+    p_period_type text,
+    p_period_start date,
+    p_period_end date
+) RETURNS void AS $$
+DECLARE
+    advisor_info RECORD;
+    summary_data RECORD;
+    source_codes text[];
+BEGIN
+    -- Get advisor information with team details
+    SELECT
+        m.advisor_name,
+        m.unit_code,
+        m.manager_id,
+        m.photo_url,
+        COALESCE(t.unit_name, m.unit_code) as unit_name
+    INTO advisor_info
+    FROM public.manpower m
+    LEFT JOIN public.teams t ON m.team_id = t.id
+    WHERE m.code_number = p_advisor_code;
+
+    -- If advisor doesn't exist, exit
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    -- Production saved under the advisor's aliases belongs to the advisor too
+    source_codes := ARRAY[p_advisor_code] || ARRAY(
+        SELECT alias_code FROM public.advisor_code_aliases WHERE code_number = p_advisor_code
+    );
+
+    -- Aggregate all production data for the period
+    WITH settled_data AS (
+        SELECT
+            COALESCE(SUM(settled_apps), 0) as total_settled_apps,
+            COALESCE(SUM(agency_credits), 0) as total_agency_credits,
+            COALESCE(SUM(net_sales_credits), 0) as total_net_sales_credits,
+            COUNT(*) as settled_count
+        FROM public.settled_apps_details
+        WHERE advisor_code = ANY(source_codes)
+            AND process_date >= p_period_start
+            AND process_date <= p_period_end
+    ),
+    commission_data AS (
+        SELECT
+            COALESCE(SUM(rn_commission_php), 0) as total_rn_commission_php,
+            COUNT(*) as commission_count
+        FROM public.rn_commission_details
+        WHERE code = ANY(source_codes)
+            AND process_date >= p_period_start
+            AND process_date <= p_period_end
+    ),
+    fy_data AS (
+        SELECT
+            COALESCE(SUM(fy_premium_php), 0) as total_fy_premium_php,
+            COALESCE(SUM(fy_commission_php), 0) as total_fy_commission_php,
+            COUNT(*) as fy_count
+        FROM public.fy_commission_details
+        WHERE code = ANY(source_codes)
+            AND process_date >= p_period_start
+            AND process_date <= p_period_end
+    ),
+    submitted_data AS (
+        SELECT
+            COALESCE(SUM(submitted_apps), 0) as total_submitted_apps,
+            COUNT(*) as submitted_count
+        FROM public.submitted_apps_details
+        WHERE advisor_code = ANY(source_codes)
+            AND process_date >= p_period_start
+            AND process_date <= p_period_end
+    )
+    SELECT
+        sd.total_settled_apps,
+        sd.total_agency_credits,
+        sd.total_net_sales_credits,
+        cd.total_rn_commission_php,
+        fy.total_fy_premium_php,
+        fy.total_fy_commission_php,
+        sub.total_submitted_apps,
+        (sd.settled_count + cd.commission_count + fy.fy_count + sub.submitted_count) as total_transactions
+    INTO summary_data
+    FROM settled_data sd, commission_data cd, fy_data fy, submitted_data sub;
+
+    -- Upsert the summary record
+    INSERT INTO public.monthly_production_summary (
+        advisor_code,
+        period_year,
+        period_month,
+        period_type,
+        period_start,
+        period_end,
+        advisor_name,
+        unit_code,
+        unit_name,
+        manager_id,
+        photo_url,
+        total_settled_apps,
+        total_agency_credits,
+        total_net_sales_credits,
+        total_rn_commission_php,
+        total_fy_premium_php,
+        total_fy_commission_php,
+        total_submitted_apps,
+        transaction_count,
+        last_updated
+    )
+    VALUES (
+        p_advisor_code,
+        p_period_year,
+        p_period_month,
+        p_period_type,
+        p_period_start,
+        p_period_end,
+        advisor_info.advisor_name,
+        advisor_info.unit_code,
+        advisor_info.unit_name,
+        advisor_info.manager_id,
+        advisor_info.photo_url,
+        summary_data.total_settled_apps,
+        summary_data.total_agency_credits,
+        summary_data.total_net_sales_credits,
+        summary_data.total_rn_commission_php,
+        summary_data.total_fy_premium_php,
+        summary_data.total_fy_commission_php,
+        summary_data.total_submitted_apps,
+        summary_data.total_transactions,
+        now()
+    )
+    ON CONFLICT (advisor_code, period_year, period_month, period_type)
+    DO UPDATE SET
+        period_start = EXCLUDED.period_start,
+        period_end = EXCLUDED.period_end,
+        advisor_name = EXCLUDED.advisor_name,
+        unit_code = EXCLUDED.unit_code,
+        unit_name = EXCLUDED.unit_name,
+        manager_id = EXCLUDED.manager_id,
+        photo_url = EXCLUDED.photo_url,
+        total_settled_apps = EXCLUDED.total_settled_apps,
+        total_agency_credits = EXCLUDED.total_agency_credits,
+        total_net_sales_credits = EXCLUDED.total_net_sales_credits,
+        total_rn_commission_php = EXCLUDED.total_rn_commission_php,
+        total_fy_premium_php = EXCLUDED.total_fy_premium_php,
+        total_fy_commission_php = EXCLUDED.total_fy_commission_php,
+        total_submitted_apps = EXCLUDED.total_submitted_apps,
+        transaction_count = EXCLUDED.transaction_count,
+        last_updated = EXCLUDED.last_updated;
+
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 3. Annual Summary Includes FY Commission
+-- ============================================================================
+CREATE OR REPLACE FUNCTION recalculate_annual_summary(
+    p_advisor_code text,
+    p_period_year integer,
+    p_period_type text
+) RETURNS void AS $$
+DECLARE
+    advisor_info RECORD;
+    period_info RECORD;
+    summary_data RECORD;
+BEGIN
+    -- Get advisor information with team details
+    SELECT
+        m.advisor_name,
+        m.unit_code,
+        m.manager_id,
+        m.photo_url,
+        COALESCE(t.unit_name, m.unit_code) as unit_name
+    INTO advisor_info
+    FROM public.manpower m
+    LEFT JOIN public.teams t ON m.team_id = t.id
+    WHERE m.code_number = p_advisor_code;
+
+    -- If advisor doesn't exist, exit
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    -- Get period boundaries based on type
+    IF p_period_type = 'calendar' THEN
+        SELECT * INTO period_info FROM get_calendar_year_period(p_period_year);
+    ELSE
+        SELECT * INTO period_info FROM get_systems_year_period(p_period_year);
+    END IF;
+
+    -- If no period found, exit
+    IF period_info.period_start IS NULL OR period_info.period_end IS NULL THEN
+        RETURN;
+    END IF;
+
+    -- Aggregate annual data from monthly summaries (preferred method for performance)
+    WITH annual_totals AS (
+        SELECT
+            COALESCE(SUM(total_settled_apps), 0) as total_settled_apps,
+            COALESCE(SUM(total_agency_credits), 0) as total_agency_credits,
+            COALESCE(SUM(total_net_sales_credits), 0) as total_net_sales_credits,
+            COALESCE(SUM(total_rn_commission_php), 0) as total_rn_commission_php,
+            COALESCE(SUM(total_fy_premium_php), 0) as total_fy_premium_php,
+            COALESCE(SUM(total_fy_commission_php), 0) as total_fy_commission_php,
+            COALESCE(SUM(total_submitted_apps), 0) as total_submitted_apps,
+            COALESCE(SUM(transaction_count), 0) as transaction_count
+        FROM public.monthly_production_summary
+        WHERE advisor_code = p_advisor_code
+            AND period_year = p_period_year
+            AND period_type = p_period_type
+    ),
+    monthly_activity AS (
+        SELECT
+            COUNT(*) as months_with_activity,
+            -- Average calculations
+            COALESCE(AVG(total_settled_apps), 0) as avg_monthly_settled_apps,
+            COALESCE(AVG(total_agency_credits), 0) as avg_monthly_agency_credits,
+            COALESCE(AVG(total_net_sales_credits), 0) as avg_monthly_net_sales_credits,
+            COALESCE(AVG(total_rn_commission_php), 0) as avg_monthly_rn_commission_php,
+            COALESCE(AVG(total_fy_premium_php), 0) as avg_monthly_fy_premium_php,
+            COALESCE(AVG(total_fy_commission_php), 0) as avg_monthly_fy_commission_php,
+            COALESCE(AVG(total_submitted_apps), 0) as avg_monthly_submitted_apps,
+            -- Peak calculations
+            COALESCE(MAX(total_settled_apps), 0) as peak_month_settled_apps,
+            COALESCE(MAX(total_agency_credits), 0) as peak_month_agency_credits,
+            COALESCE(MAX(total_net_sales_credits), 0) as peak_month_net_sales_credits,
+            COALESCE(MAX(total_rn_commission_php), 0) as peak_month_rn_commission_php,
+            COALESCE(MAX(total_fy_premium_php), 0) as peak_month_fy_premium_php,
+            COALESCE(MAX(total_fy_commission_php), 0) as peak_month_fy_commission_php,
+            COALESCE(MAX(total_submitted_apps), 0) as peak_month_submitted_apps
+        FROM public.monthly_production_summary
+        WHERE advisor_code = p_advisor_code
+            AND period_year = p_period_year
+            AND period_type = p_period_type
+            AND (total_settled_apps > 0 OR total_agency_credits > 0 OR total_net_sales_credits > 0
+                 OR total_rn_commission_php > 0 OR total_fy_premium_php > 0 OR total_fy_commission_php > 0
+                 OR total_submitted_apps > 0)
+    )
+    SELECT
+        at.total_settled_apps,
+        at.total_agency_credits,
+        at.total_net_sales_credits,
+        at.total_rn_commission_php,
+        at.total_fy_premium_php,
+        at.total_fy_commission_php,
+        at.total_submitted_apps,
+        at.transaction_count,
+        COALESCE(ma.months_with_activity, 0) as months_with_activity,
+        ma.avg_monthly_settled_apps,
+        ma.avg_monthly_agency_credits,
+        ma.avg_monthly_net_sales_credits,
+        ma.avg_monthly_rn_commission_php,
+        ma.avg_monthly_fy_premium_php,
+        ma.avg_monthly_fy_commission_php,
+        ma.avg_monthly_submitted_apps,
+        ma.peak_month_settled_apps,
+        ma.peak_month_agency_credits,
+        ma.peak_month_net_sales_credits,
+        ma.peak_month_rn_commission_php,
+        ma.peak_month_fy_premium_php,
+        ma.peak_month_fy_commission_php,
+        ma.peak_month_submitted_apps
+    INTO summary_data
+    FROM annual_totals at
+    FULL OUTER JOIN monthly_activity ma ON true;
+
+    -- Upsert the annual summary record
+    INSERT INTO public.annual_production_summary (
+        advisor_code,
+        period_year,
+        period_type,
+        period_start,
+        period_end,
+        advisor_name,
+        unit_code,
+        unit_name,
+        manager_id,
+        photo_url,
+        total_settled_apps,
+        total_agency_credits,
+        total_net_sales_credits,
+        total_rn_commission_php,
+        total_fy_premium_php,
+        total_fy_commission_php,
+        total_submitted_apps,
+        months_with_activity,
+        avg_monthly_settled_apps,
+        avg_monthly_agency_credits,
+        avg_monthly_net_sales_credits,
+        avg_monthly_rn_commission_php,
+        avg_monthly_fy_premium_php,
+        avg_monthly_fy_commission_php,
+        avg_monthly_submitted_apps,
+        peak_month_settled_apps,
+        peak_month_agency_credits,
+        peak_month_net_sales_credits,
+        peak_month_rn_commission_php,
+        peak_month_fy_premium_php,
+        peak_month_fy_commission_php,
+        peak_month_submitted_apps,
+        transaction_count,
+        last_updated
+    )
+    VALUES (
+        p_advisor_code,
+        p_period_year,
+        p_period_type,
+        period_info.period_start,
+        period_info.period_end,
+        advisor_info.advisor_name,
+        advisor_info.unit_code,
+        advisor_info.unit_name,
+        advisor_info.manager_id,
+        advisor_info.photo_url,
+        summary_data.total_settled_apps,
+        summary_data.total_agency_credits,
+        summary_data.total_net_sales_credits,
+        summary_data.total_rn_commission_php,
+        summary_data.total_fy_premium_php,
+        summary_data.total_fy_commission_php,
+        summary_data.total_submitted_apps,
+        summary_data.months_with_activity,
+        summary_data.avg_monthly_settled_apps,
+        summary_data.avg_monthly_agency_credits,
+        summary_data.avg_monthly_net_sales_credits,
+        summary_data.avg_monthly_rn_commission_php,
+        summary_data.avg_monthly_fy_premium_php,
+        summary_data.avg_monthly_fy_commission_php,
+        summary_data.avg_monthly_submitted_apps,
+        summary_data.peak_month_settled_apps,
+        summary_data.peak_month_agency_credits,
+        summary_data.peak_month_net_sales_credits,
+        summary_data.peak_month_rn_commission_php,
+        summary_data.peak_month_fy_premium_php,
+        summary_data.peak_month_fy_commission_php,
+        summary_data.peak_month_submitted_apps,
+        summary_data.transaction_count,
+        now()
+    )
+    ON CONFLICT (advisor_code, period_year, period_type)
+    DO UPDATE SET
+        period_start = EXCLUDED.period_start,
+        period_end = EXCLUDED.period_end,
+        advisor_name = EXCLUDED.advisor_name,
+        unit_code = EXCLUDED.unit_code,
+        unit_name = EXCLUDED.unit_name,
+        manager_id = EXCLUDED.manager_id,
+        photo_url = EXCLUDED.photo_url,
+        total_settled_apps = EXCLUDED.total_settled_apps,
+        total_agency_credits = EXCLUDED.total_agency_credits,
+        total_net_sales_credits = EXCLUDED.total_net_sales_credits,
+        total_rn_commission_php = EXCLUDED.total_rn_commission_php,
+        total_fy_premium_php = EXCLUDED.total_fy_premium_php,
+        total_fy_commission_php = EXCLUDED.total_fy_commission_php,
+        total_submitted_apps = EXCLUDED.total_submitted_apps,
+        months_with_activity = EXCLUDED.months_with_activity,
+        avg_monthly_settled_apps = EXCLUDED.avg_monthly_settled_apps,
+        avg_monthly_agency_credits = EXCLUDED.avg_monthly_agency_credits,
+        avg_monthly_net_sales_credits = EXCLUDED.avg_monthly_net_sales_credits,
+        avg_monthly_rn_commission_php = EXCLUDED.avg_monthly_rn_commission_php,
+        avg_monthly_fy_premium_php = EXCLUDED.avg_monthly_fy_premium_php,
+        avg_monthly_fy_commission_php = EXCLUDED.avg_monthly_fy_commission_php,
+        avg_monthly_submitted_apps = EXCLUDED.avg_monthly_submitted_apps,
+        peak_month_settled_apps = EXCLUDED.peak_month_settled_apps,
+        peak_month_agency_credits = EXCLUDED.peak_month_agency_credits,
+        peak_month_net_sales_credits = EXCLUDED.peak_month_net_sales_credits,
+        peak_month_rn_commission_php = EXCLUDED.peak_month_rn_commission_php,
+        peak_month_fy_premium_php = EXCLUDED.peak_month_fy_premium_php,
+        peak_month_fy_commission_php = EXCLUDED.peak_month_fy_commission_php,
+        peak_month_submitted_apps = EXCLUDED.peak_month_submitted_apps,
+        transaction_count = EXCLUDED.transaction_count,
+        last_updated = EXCLUDED.last_updated;
+
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 4. Trigger Function: Handle FY Commission Changes
+-- ============================================================================
+CREATE OR REPLACE FUNCTION trigger_update_summary_fy_commission()
+RETURNS TRIGGER AS $$
+DECLARE
+    cal_period RECORD;
+    sys_period RECORD;
+    affected_date date;
+BEGIN
+    affected_date := COALESCE(NEW.process_date, OLD.process_date);
+
+    -- Update calendar summary
+    SELECT * INTO cal_period FROM get_calendar_period(affected_date);
+    IF cal_period IS NOT NULL THEN
+        PERFORM recalculate_monthly_summary(
+            resolve_advisor_code(COALESCE(NEW.code, OLD.code)),
+            cal_period.period_year,
+            cal_period.period_month,
+            'calendar',
+            cal_period.period_start,
+            cal_period.period_end
+        );
+    END IF;
+
+    -- Update systems summary
+    SELECT * INTO sys_period FROM get_systems_period(affected_date);
+    IF sys_period IS NOT NULL THEN
+        PERFORM recalculate_monthly_summary(
+            resolve_advisor_code(COALESCE(NEW.code, OLD.code)),
+            sys_period.period_year,
+            sys_period.period_month,
+            'systems',
+            sys_period.period_start,
+            sys_period.period_end
+        );
+    END IF;
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS tr_update_summary_fy_commission ON public.fy_commission_details;
+CREATE TRIGGER tr_update_summary_fy_commission
+    AFTER INSERT OR UPDATE OR DELETE ON public.fy_commission_details
+    FOR EACH ROW
+    EXECUTE FUNCTION trigger_update_summary_fy_commission();
+
+-- ============================================================================
+-- 5. Advisor Code Periods Include FY Commission
+-- ============================================================================
+CREATE OR REPLACE FUNCTION recalculate_advisor_code_periods(
+  p_advisor_code text,
+  p_source_codes text[]
+) RETURNS integer AS $$
+DECLARE
+  period_record RECORD;
+  periods_recalculated integer := 0;
+BEGIN
+  FOR period_record IN
+    WITH code_dates AS (
+      SELECT DISTINCT process_date FROM public.submitted_apps_details WHERE advisor_code = ANY(p_source_codes)
+      UNION
+      SELECT DISTINCT process_date FROM public.settled_apps_details WHERE advisor_code = ANY(p_source_codes)
+      UNION
+      SELECT DISTINCT process_date FROM public.rn_commission_details WHERE code = ANY(p_source_codes)
+      UNION
+      SELECT DISTINCT process_date FROM public.fy_commission_details WHERE code = ANY(p_source_codes)
+    )
+    SELECT DISTINCT
+      'calendar' AS period_type,
+      cp.period_year,
+      cp.period_month,
+      cp.period_start,
+      cp.period_end
+    FROM code_dates d
+    CROSS JOIN LATERAL get_calendar_period(d.process_date) cp
+    WHERE d.process_date IS NOT NULL
+    UNION
+    SELECT DISTINCT
+      'systems',
+      scp.period_year,
+      scp.period_month,
+      scp.start_date,
+      scp.end_date
+    FROM code_dates d
+    JOIN public.cal_systems_closing_periods scp
+      ON d.process_date >= scp.start_date AND d.process_date <= scp.end_date
+  LOOP
+    PERFORM recalculate_monthly_summary(
+      p_advisor_code,
+      period_record.period_year,
+      period_record.period_month,
+      period_record.period_type,
+      period_record.period_start,
+      period_record.period_end
+    );
+    periods_recalculated := periods_recalculated + 1;
+  END LOOP;
+
+  RETURN periods_recalculated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 6. Summary Recalculation Finds Advisors with FY Commission
+-- ============================================================================
+CREATE OR REPLACE FUNCTION recalculate_production_summaries(
+    p_year integer,
+    p_period_type text,
+    p_month integer DEFAULT NULL,
+    p_advisor_code text DEFAULT NULL
+) RETURNS jsonb AS $$
+DECLARE
+    period_record RECORD;
+    advisor_record RECORD;
+    monthly_recalculated integer := 0;
+    annual_recalculated integer := 0;
+    advisor_codes text[] := ARRAY[]::text[];
+BEGIN
+    -- Security check: only admin can trigger recalculation
+    IF public.get_user_app_role(auth.uid()) != 'admin' THEN
+        RAISE EXCEPTION 'Access denied: Only admin users can recalculate production summaries';
+    END IF;
+
+    IF p_period_type NOT IN ('calendar', 'systems') THEN
+        RAISE EXCEPTION 'Invalid period type: %', p_period_type;
+    END IF;
+
+    IF p_advisor_code IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM public.manpower WHERE code_number = p_advisor_code) THEN
+        RAISE EXCEPTION 'Advisor code % does not exist in manpower', p_advisor_code;
+    END IF;
+
+    FOR period_record IN
+        SELECT * FROM get_summary_periods(p_year, p_period_type) sp
+        WHERE p_month IS NULL OR sp.period_month = p_month
+    LOOP
+        FOR advisor_record IN
+            SELECT p_advisor_code AS code
+            WHERE p_advisor_code IS NOT NULL
+            UNION
+            SELECT DISTINCT resolve_advisor_code(s.advisor_code)
+            FROM public.settled_apps_details s
+            WHERE p_advisor_code IS NULL
+                AND s.process_date BETWEEN period_record.period_start AND period_record.period_end
+            UNION
+            SELECT DISTINCT resolve_advisor_code(r.code)
+            FROM public.rn_commission_details r
+            WHERE p_advisor_code IS NULL
+                AND r.process_date BETWEEN period_record.period_start AND period_record.period_end
+            UNION
+            SELECT DISTINCT resolve_advisor_code(fy.code)
+            FROM public.fy_commission_details fy
+            WHERE p_advisor_code IS NULL
+                AND fy.process_date BETWEEN period_record.period_start AND period_record.period_end
+            UNION
+            SELECT DISTINCT resolve_advisor_code(sub.advisor_code)
+            FROM public.submitted_apps_details sub
+            WHERE p_advisor_code IS NULL
+                AND sub.process_date BETWEEN period_record.period_start AND period_record.period_end
+            UNION
+            SELECT mps.advisor_code
+            FROM public.monthly_production_summary mps
+            WHERE p_advisor_code IS NULL
+                AND mps.period_year = p_year
+                AND mps.period_month = period_record.period_month
+                AND mps.period_type = p_period_type
+        LOOP
+            CONTINUE WHEN advisor_record.code IS NULL
+                OR NOT EXISTS (SELECT 1 FROM public.manpower WHERE code_number = advisor_record.code);
+
+            PERFORM recalculate_monthly_summary(
+                advisor_record.code,
+                p_year,
+                period_record.period_month,
+                p_period_type,
+                period_record.period_start,
+                period_record.period_end
+            );
+            monthly_recalculated := monthly_recalculated + 1;
+
+            IF NOT advisor_record.code = ANY(advisor_codes) THEN
+                advisor_codes := advisor_codes || advisor_record.code;
+            END IF;
+        END LOOP;
+    END LOOP;
+
+    FOR advisor_record IN SELECT unnest(advisor_codes) AS code LOOP
+        PERFORM recalculate_annual_summary(advisor_record.code, p_year, p_period_type);
+        annual_recalculated := annual_recalculated + 1;
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'monthly_recalculated', monthly_recalculated,
+        'annual_recalculated', annual_recalculated
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 7. Summary Health Compares FY Commission
+-- ============================================================================
+-- The return type changes, so the function is dropped and recreated
+DROP FUNCTION IF EXISTS get_production_summary_health(integer, text, integer, boolean);
+
+CREATE FUNCTION get_production_summary_health(
+    p_year integer,
+    p_period_type text DEFAULT 'calendar',
+    p_month integer DEFAULT NULL,
+    p_drift_only boolean DEFAULT false
+) RETURNS TABLE (
+    advisor_code text,
+    advisor_name text,
+    period_month integer,
+    period_start date,
+    period_end date,
+    source_settled_apps numeric,
+    source_agency_credits numeric,
+    source_net_sales_credits numeric,
+    source_rn_commission_php numeric,
+    source_fy_premium_php numeric,
+    source_fy_commission_php numeric,
+    source_submitted_apps numeric,
+    summary_settled_apps numeric,
+    summary_agency_credits numeric,
+    summary_net_sales_credits numeric,
+    summary_rn_commission_php numeric,
+    summary_fy_premium_php numeric,
+    summary_fy_commission_php numeric,
+    summary_submitted_apps numeric,
+    has_summary boolean,
+    has_drift boolean,
+    last_updated timestamptz
+) AS $$
+BEGIN
+    -- Security check: only admin can inspect summary health
+    IF public.get_user_app_role(auth.uid()) != 'admin' THEN
+        RAISE EXCEPTION 'Access denied: Only admin users can view production summary health';
+    END IF;
+
+    IF p_period_type NOT IN ('calendar', 'systems') THEN
+        RAISE EXCEPTION 'Invalid period type: %', p_period_type;
+    END IF;
+
+    RETURN QUERY
+    WITH periods AS (
+        SELECT * FROM get_summary_periods(p_year, p_period_type) sp
+        WHERE p_month IS NULL OR sp.period_month = p_month
+    ),
+    source_rows AS (
+        SELECT
+            COALESCE(a.code_number, s.advisor_code) AS code,
+            s.process_date,
+            COALESCE(s.settled_apps, 0) AS settled_apps,
+            COALESCE(s.agency_credits, 0) AS agency_credits,
+            COALESCE(s.net_sales_credits, 0) AS net_sales_credits,
+            0::numeric AS rn_commission_php,
+            0::numeric AS fy_premium_php,
+            0::numeric AS fy_commission_php,
+            0::numeric AS submitted_apps
+        FROM public.settled_apps_details s
+        LEFT JOIN public.advisor_code_aliases a ON a.alias_code = s.advisor_code
+        UNION ALL
+        SELECT
+            COALESCE(a.code_number, r.code),
+            r.process_date,
+            0, 0, 0,
+            COALESCE(r.rn_commission_php, 0),
+            0, 0, 0
+        FROM public.rn_commission_details r
+        LEFT JOIN public.advisor_code_aliases a ON a.alias_code = r.code
+        UNION ALL
+        SELECT
+            COALESCE(a.code_number, fy.code),
+            fy.process_date,
+            0, 0, 0, 0,
+            COALESCE(fy.fy_premium_php, 0),
+            COALESCE(fy.fy_commission_php, 0),
+            0
+        FROM public.fy_commission_details fy
+        LEFT JOIN public.advisor_code_aliases a ON a.alias_code = fy.code
+        UNION ALL
+        SELECT
+            COALESCE(a.code_number, sub.advisor_code),
+            sub.process_date,
+            0, 0, 0, 0, 0, 0,
+            COALESCE(sub.submitted_apps, 0)
+        FROM public.submitted_apps_details sub
+        LEFT JOIN public.advisor_code_aliases a ON a.alias_code = sub.advisor_code
+    ),
+    source_totals AS (
+        SELECT
+            sr.code,
+            p.period_month,
+            SUM(sr.settled_apps) AS settled_apps,
+            SUM(sr.agency_credits) AS agency_credits,
+            SUM(sr.net_sales_credits) AS net_sales_credits,
+            SUM(sr.rn_commission_php) AS rn_commission_php,
+            SUM(sr.fy_premium_php) AS fy_premium_php,
+            SUM(sr.fy_commission_php) AS fy_commission_php,
+            SUM(sr.submitted_apps) AS submitted_apps
+        FROM source_rows sr
+        JOIN periods p ON sr.process_date >= p.period_start AND sr.process_date <= p.period_end
+        WHERE EXISTS (SELECT 1 FROM public.manpower m WHERE m.code_number = sr.code)
+        GROUP BY sr.code, p.period_month
+    ),
+    summary_totals AS (
+        SELECT mps.*
+        FROM public.monthly_production_summary mps
+        JOIN periods p ON p.period_month = mps.period_month
+        WHERE mps.period_year = p_year
+            AND mps.period_type = p_period_type
+    ),
+    compared AS (
+        SELECT
+            COALESCE(st.code, sm.advisor_code) AS code,
+            COALESCE(st.period_month, sm.period_month) AS month,
+            COALESCE(st.settled_apps, 0) AS src_settled,
+            COALESCE(st.agency_credits, 0) AS src_ac,
+            COALESCE(st.net_sales_credits, 0) AS src_nsc,
+            COALESCE(st.rn_commission_php, 0) AS src_rn,
+            COALESCE(st.fy_premium_php, 0) AS src_fy_premium,
+            COALESCE(st.fy_commission_php, 0) AS src_fy,
+            COALESCE(st.submitted_apps, 0) AS src_submitted,
+            COALESCE(sm.total_settled_apps, 0) AS sum_settled,
+            COALESCE(sm.total_agency_credits, 0) AS sum_ac,
+            COALESCE(sm.total_net_sales_credits, 0) AS sum_nsc,
+            COALESCE(sm.total_rn_commission_php, 0) AS sum_rn,
+            COALESCE(sm.total_fy_premium_php, 0) AS sum_fy_premium,
+            COALESCE(sm.total_fy_commission_php, 0) AS sum_fy,
+            COALESCE(sm.total_submitted_apps, 0) AS sum_submitted,
+            sm.advisor_code IS NOT NULL AS summary_exists,
+            sm.last_updated AS updated_at
+        FROM source_totals st
+        FULL OUTER JOIN summary_totals sm
+            ON sm.advisor_code = st.code AND sm.period_month = st.period_month
+    ),
+    flagged AS (
+        SELECT
+            c.*,
+            -- Summaries are stored to 2 decimal places
+            (
+                abs(c.src_settled - c.sum_settled) >= 0.005
+                OR abs(c.src_ac - c.sum_ac) >= 0.005
+                OR abs(c.src_nsc - c.sum_nsc) >= 0.005
+                OR abs(c.src_rn - c.sum_rn) >= 0.005
+                OR abs(c.src_fy_premium - c.sum_fy_premium) >= 0.005
+                OR abs(c.src_fy - c.sum_fy) >= 0.005
+                OR abs(c.src_submitted - c.sum_submitted) >= 0.005
+                OR NOT c.summary_exists
+            ) AS drift
+        FROM compared c
+    )
+    SELECT
+        f.code,
+        m.advisor_name,
+        f.month,
+        p.period_start,
+        p.period_end,
+        f.src_settled,
+        f.src_ac,
+        f.src_nsc,
+        f.src_rn,
+        f.src_fy_premium,
+        f.src_fy,
+        f.src_submitted,
+        f.sum_settled,
+        f.sum_ac,
+        f.sum_nsc,
+        f.sum_rn,
+        f.sum_fy_premium,
+        f.sum_fy,
+        f.sum_submitted,
+        f.summary_exists,
+        f.drift,
+        f.updated_at
+    FROM flagged f
+    JOIN periods p ON p.period_month = f.month
+    LEFT JOIN public.manpower m ON m.code_number = f.code
+    WHERE NOT p_drift_only OR f.drift
+    ORDER BY f.drift DESC, f.month, f.code;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- 8. Archive Rows by Column Name
+-- ============================================================================
+-- Columns added after the archive tables were created sit in a different
+-- position than in the live tables, so rows are copied by name.
+CREATE OR REPLACE FUNCTION archive_production_summaries()
+RETURNS jsonb AS $$
+DECLARE
+    settings RECORD;
+    cutoff_year integer;
+    purge_before_year integer;
+    monthly_archived integer := 0;
+    annual_archived integer := 0;
+    monthly_purged integer := 0;
+    annual_purged integer := 0;
+BEGIN
+    -- Scheduled runs have no user; signed-in callers must be admins
+    IF auth.uid() IS NOT NULL AND public.get_user_app_role(auth.uid()) != 'admin' THEN
+        RAISE EXCEPTION 'Access denied: Only admin users can archive production summaries';
+    END IF;
+
+    SELECT * INTO settings FROM public.production_summary_settings WHERE id;
+
+    -- Oldest year kept live
+    cutoff_year := EXTRACT(year FROM CURRENT_DATE)::integer - COALESCE(settings.live_years, 3) + 1;
+
+    -- Monthly: replace any earlier archived copy, then move the rows
+    DELETE FROM public.monthly_production_summary_archive a
+    USING public.monthly_production_summary l
+    WHERE l.period_year < cutoff_year
+        AND a.advisor_code = l.advisor_code
+        AND a.period_year = l.period_year
+        AND a.period_month = l.period_month
+        AND a.period_type = l.period_type;
+
+    WITH moved AS (
+        DELETE FROM public.monthly_production_summary
+        WHERE period_year < cutoff_year
+        RETURNING *
+    )
+    INSERT INTO public.monthly_production_summary_archive
+    SELECT (jsonb_populate_record(
+        NULL::public.monthly_production_summary_archive,
+        to_jsonb(moved) || jsonb_build_object('archived_at', now())
+    )).*
+    FROM moved;
+
+    GET DIAGNOSTICS monthly_archived = ROW_COUNT;
+
+    -- Annual
+    DELETE FROM public.annual_production_summary_archive a
+    USING public.annual_production_summary l
+    WHERE l.period_year < cutoff_year
+        AND a.advisor_code = l.advisor_code
+        AND a.period_year = l.period_year
+        AND a.period_type = l.period_type;
+
+    WITH moved AS (
+        DELETE FROM public.annual_production_summary
+        WHERE period_year < cutoff_year
+        RETURNING *
+    )
+    INSERT INTO public.annual_production_summary_archive
+    SELECT (jsonb_populate_record(
+        NULL::public.annual_production_summary_archive,
+        to_jsonb(moved) || jsonb_build_object('archived_at', now())
+    )).*
+    FROM moved;
+
+    GET DIAGNOSTICS annual_archived = ROW_COUNT;
+
+    -- Purge archived years past the archive retention, if one is set
+    IF settings.archive_retention_years IS NOT NULL THEN
+        purge_before_year := cutoff_year - settings.archive_retention_years;
+
+        DELETE FROM public.monthly_production_summary_archive WHERE period_year < purge_before_year;
+        GET DIAGNOSTICS monthly_purged = ROW_COUNT;
+
+        DELETE FROM public.annual_production_summary_archive WHERE period_year < purge_before_year;
+        GET DIAGNOSTICS annual_purged = ROW_COUNT;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'cutoff_year', cutoff_year,
+        'monthly_archived', monthly_archived,
+        'annual_archived', annual_archived,
+        'monthly_purged', monthly_purged,
+        'annual_purged', annual_purged
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 9. Live + Archive Views Include FY Commission
+-- ============================================================================
+DROP VIEW IF EXISTS public.monthly_production_summary_all;
+DROP VIEW IF EXISTS public.annual_production_summary_all;
+
+CREATE VIEW public.monthly_production_summary_all
+WITH (security_invoker = true) AS
+SELECT
+    mps.advisor_code, mps.period_year, mps.period_month, mps.period_type, mps.period_start, mps.period_end,
+    mps.advisor_name, mps.unit_code, mps.unit_name, mps.manager_id, mps.photo_url,
+    mps.total_settled_apps, mps.total_agency_credits, mps.total_net_sales_credits,
+    mps.total_rn_commission_php, mps.total_fy_premium_php, mps.total_fy_commission_php, mps.total_submitted_apps,
+    mps.transaction_count, mps.last_updated,
+    false AS is_archived
+FROM public.monthly_production_summary mps
+UNION ALL
+SELECT
+    a.advisor_code, a.period_year, a.period_month, a.period_type, a.period_start, a.period_end,
+    a.advisor_name, a.unit_code, a.unit_name, a.manager_id, a.photo_url,
+    a.total_settled_apps, a.total_agency_credits, a.total_net_sales_credits,
+    a.total_rn_commission_php, a.total_fy_premium_php, a.total_fy_commission_php, a.total_submitted_apps,
+    a.transaction_count, a.last_updated,
+    true
+FROM public.monthly_production_summary_archive a
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.monthly_production_summary l
+    WHERE l.advisor_code = a.advisor_code
+        AND l.period_year = a.period_year
+        AND l.period_month = a.period_month
+        AND l.period_type = a.period_type
+);
+
+CREATE VIEW public.annual_production_summary_all
+WITH (security_invoker = true) AS
+SELECT
+    aps.advisor_code, aps.period_year, aps.period_type, aps.period_start, aps.period_end,
+    aps.advisor_name, aps.unit_code, aps.unit_name, aps.manager_id, aps.photo_url,
+    aps.total_settled_apps, aps.total_agency_credits, aps.total_net_sales_credits,
+    aps.total_rn_commission_php, aps.total_fy_premium_php, aps.total_fy_commission_php, aps.total_submitted_apps,
+    aps.months_with_activity,
+    aps.avg_monthly_settled_apps, aps.avg_monthly_agency_credits, aps.avg_monthly_net_sales_credits,
+    aps.avg_monthly_rn_commission_php, aps.avg_monthly_fy_premium_php, aps.avg_monthly_fy_commission_php,
+    aps.avg_monthly_submitted_apps,
+    aps.peak_month_settled_apps, aps.peak_month_agency_credits, aps.peak_month_net_sales_credits,
+    aps.peak_month_rn_commission_php, aps.peak_month_fy_premium_php, aps.peak_month_fy_commission_php,
+    aps.peak_month_submitted_apps,
+    aps.transaction_count, aps.last_updated,
+    false AS is_archived
+FROM public.annual_production_summary aps
+UNION ALL
+SELECT
+    a.advisor_code, a.period_year, a.period_type, a.period_start, a.period_end,
+    a.advisor_name, a.unit_code, a.unit_name, a.manager_id, a.photo_url,
+    a.total_settled_apps, a.total_agency_credits, a.total_net_sales_credits,
+    a.total_rn_commission_php, a.total_fy_premium_php, a.total_fy_commission_php, a.total_submitted_apps,
+    a.months_with_activity,
+    a.avg_monthly_settled_apps, a.avg_monthly_agency_credits, a.avg_monthly_net_sales_credits,
+    a.avg_monthly_rn_commission_php, a.avg_monthly_fy_premium_php, a.avg_monthly_fy_commission_php,
+    a.avg_monthly_submitted_apps,
+    a.peak_month_settled_apps, a.peak_month_agency_credits, a.peak_month_net_sales_credits,
+    a.peak_month_rn_commission_php, a.peak_month_fy_premium_php, a.peak_month_fy_commission_php,
+    a.peak_month_submitted_apps,
+    a.transaction_count, a.last_updated,
+    true
+FROM public.annual_production_summary_archive a
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.annual_production_summary l
+    WHERE l.advisor_code = a.advisor_code
+        AND l.period_year = a.period_year
+        AND l.period_type = a.period_type
+);
+
+COMMENT ON VIEW public.monthly_production_summary_all IS 'Live and archived monthly production summaries';
+COMMENT ON VIEW public.annual_production_summary_all IS 'Live and archived annual production summaries';
+
+-- ============================================================================
+-- 10. Production Query RPCs Return FY Commission
+-- ============================================================================
+-- The return types change, so the functions are dropped and recreated
+DROP FUNCTION IF EXISTS get_monthly_production_data(integer, integer, text, text[], text[], text[], integer, integer);
+DROP FUNCTION IF EXISTS get_annual_production_data(integer, integer, text, text[], text[], text[]);
+DROP FUNCTION IF EXISTS get_team_production_data(text, text, integer, integer, integer, integer);
+
+CREATE FUNCTION get_monthly_production_data(
+    p_start_year integer DEFAULT EXTRACT(year FROM CURRENT_DATE) - 2,
+    p_end_year integer DEFAULT EXTRACT(year FROM CURRENT_DATE),
+    p_period_type text DEFAULT 'calendar',
+    p_advisor_codes text[] DEFAULT NULL,
+    p_manager_ids text[] DEFAULT NULL,
+    p_unit_codes text[] DEFAULT NULL,
+    p_start_month integer DEFAULT NULL,
+    p_end_month integer DEFAULT NULL
+) RETURNS TABLE (
+    advisor_code text,
+    advisor_name text,
+    unit_code text,
+    unit_name text,
+    manager_id text,
+    photo_url text,
+    period_year integer,
+    period_month integer,
+    period_type text,
+    period_start date,
+    period_end date,
+    total_settled_apps numeric,
+    total_agency_credits numeric,
+    total_net_sales_credits numeric,
+    total_rn_commission_php numeric,
+    total_fy_premium_php numeric,
+    total_fy_commission_php numeric,
+    total_submitted_apps numeric,
+    transaction_count integer,
+    last_updated timestamptz
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        mps.advisor_code,
+        mps.advisor_name,
+        mps.unit_code,
+        mps.unit_name,
+        mps.manager_id,
+        mps.photo_url,
+        mps.period_year,
+        mps.period_month,
+        mps.period_type,
+        mps.period_start,
+        mps.period_end,
+        mps.total_settled_apps,
+        mps.total_agency_credits,
+        mps.total_net_sales_credits,
+        mps.total_rn_commission_php,
+        mps.total_fy_premium_php,
+        mps.total_fy_commission_php,
+        mps.total_submitted_apps,
+        mps.transaction_count,
+        mps.last_updated
+    FROM public.monthly_production_summary_all mps
+    WHERE
+        -- Year filtering
+        mps.period_year >= p_start_year
+        AND mps.period_year <= p_end_year
+
+        -- Period type filtering
+        AND (
+            p_period_type = 'both'
+            OR mps.period_type = p_period_type
+        )
+
+        -- Month filtering (optional)
+        AND (
+            p_start_month IS NULL
+            OR mps.period_month >= p_start_month
+        )
+        AND (
+            p_end_month IS NULL
+            OR mps.period_month <= p_end_month
+        )
+
+        -- Advisor filtering (optional)
+        AND (
+            p_advisor_codes IS NULL
+            OR mps.advisor_code = ANY(p_advisor_codes)
+        )
+
+        -- Manager filtering (optional)
+        AND (
+            p_manager_ids IS NULL
+            OR mps.manager_id = ANY(p_manager_ids)
+        )
+
+        -- Unit filtering (optional)
+        AND (
+            p_unit_codes IS NULL
+            OR mps.unit_code = ANY(p_unit_codes)
+        )
+    ORDER BY
+        mps.advisor_code,
+        mps.period_year,
+        mps.period_month,
+        mps.period_type;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE FUNCTION get_annual_production_data(
+    p_start_year integer DEFAULT EXTRACT(year FROM CURRENT_DATE) - 2,
+    p_end_year integer DEFAULT EXTRACT(year FROM CURRENT_DATE),
+    p_period_type text DEFAULT 'calendar',
+    p_advisor_codes text[] DEFAULT NULL,
+    p_manager_ids text[] DEFAULT NULL,
+    p_unit_codes text[] DEFAULT NULL
+) RETURNS TABLE (
+    advisor_code text,
+    advisor_name text,
+    unit_code text,
+    unit_name text,
+    manager_id text,
+    photo_url text,
+    period_year integer,
+    period_type text,
+    period_start date,
+    period_end date,
+    total_settled_apps numeric,
+    total_agency_credits numeric,
+    total_net_sales_credits numeric,
+    total_rn_commission_php numeric,
+    total_fy_premium_php numeric,
+    total_fy_commission_php numeric,
+    total_submitted_apps numeric,
+    months_with_activity integer,
+    avg_monthly_settled_apps numeric,
+    avg_monthly_agency_credits numeric,
+    avg_monthly_net_sales_credits numeric,
+    avg_monthly_rn_commission_php numeric,
+    avg_monthly_fy_premium_php numeric,
+    avg_monthly_fy_commission_php numeric,
+    avg_monthly_submitted_apps numeric,
+    peak_month_settled_apps numeric,
+    peak_month_agency_credits numeric,
+    peak_month_net_sales_credits numeric,
+    peak_month_rn_commission_php numeric,
+    peak_month_fy_premium_php numeric,
+    peak_month_fy_commission_php numeric,
+    peak_month_submitted_apps numeric,
+    transaction_count integer,
+    last_updated timestamptz
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        aps.advisor_code,
+        aps.advisor_name,
+        aps.unit_code,
+        aps.unit_name,
+        aps.manager_id,
+        aps.photo_url,
+        aps.period_year,
+        aps.period_type,
+        aps.period_start,
+        aps.period_end,
+        aps.total_settled_apps,
+        aps.total_agency_credits,
+        aps.total_net_sales_credits,
+        aps.total_rn_commission_php,
+        aps.total_fy_premium_php,
+        aps.total_fy_commission_php,
+        aps.total_submitted_apps,
+        aps.months_with_activity,
+        aps.avg_monthly_settled_apps,
+        aps.avg_monthly_agency_credits,
+        aps.avg_monthly_net_sales_credits,
+        aps.avg_monthly_rn_commission_php,
+        aps.avg_monthly_fy_premium_php,
+        aps.avg_monthly_fy_commission_php,
+        aps.avg_monthly_submitted_apps,
+        aps.peak_month_settled_apps,
+        aps.peak_month_agency_credits,
+        aps.peak_month_net_sales_credits,
+        aps.peak_month_rn_commission_php,
+        aps.peak_month_fy_premium_php,
+        aps.peak_month_fy_commission_php,
+        aps.peak_month_submitted_apps,
+        aps.transaction_count,
+        aps.last_updated
+    FROM public.annual_production_summary_all aps
+    WHERE
+        -- Year filtering
+        aps.period_year >= p_start_year
+        AND aps.period_year <= p_end_year
+
+        -- Period type filtering
+        AND (
+            p_period_type = 'both'
+            OR aps.period_type = p_period_type
+        )
+
+        -- Advisor filtering (optional)
+        AND (
+            p_advisor_codes IS NULL
+            OR aps.advisor_code = ANY(p_advisor_codes)
+        )
+
+        -- Manager filtering (optional)
+        AND (
+            p_manager_ids IS NULL
+            OR aps.manager_id = ANY(p_manager_ids)
+        )
+
+        -- Unit filtering (optional)
+        AND (
+            p_unit_codes IS NULL
+            OR aps.unit_code = ANY(p_unit_codes)
+        )
+    ORDER BY
+        aps.advisor_code,
+        aps.period_year,
+        aps.period_type;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE FUNCTION get_team_production_data(
+    p_time_frame text,                 -- 'monthly' or 'annual'
+    p_period_type text,                -- 'calendar' or 'systems'
+    p_year integer,
+    p_month integer DEFAULT NULL,      -- Required for monthly, ignored for annual
+    p_limit integer DEFAULT 1000,
+    p_offset integer DEFAULT 0
+) RETURNS TABLE (
+    advisor_code text,
+    advisor_name text,
+    unit_code text,
+    manager_id text,
+    team_name text,
+    total_submitted_apps numeric,
+    total_settled_apps numeric,
+    total_agency_credits numeric,
+    total_net_sales_credits numeric,
+    total_fy_premium_php numeric,
+    total_fy_commission_php numeric,
+    total_count bigint
+) AS $$
+DECLARE
+    v_user_code text;
+BEGIN
+    IF p_time_frame NOT IN ('monthly', 'annual') THEN
+        RAISE EXCEPTION 'Invalid time frame: %', p_time_frame;
+    END IF;
+
+    IF p_time_frame = 'monthly' AND p_month IS NULL THEN
+        RAISE EXCEPTION 'A month is required for monthly team production';
+    END IF;
+
+    -- The team is always the caller's own subtree
+    SELECT m.code_number INTO v_user_code
+    FROM public.manpower m
+    WHERE m.profile_user_id = auth.uid()
+    LIMIT 1;
+
+    IF v_user_code IS NULL THEN
+        RAISE EXCEPTION 'Your user account is not linked to any advisor record. Please contact your administrator to link your account.'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN QUERY
+    WITH RECURSIVE team_codes AS (
+        SELECT v_user_code AS code
+        UNION
+        -- Walk active links only, so cancelled advisors and their subtrees drop out
+        SELECT m.code_number
+        FROM public.manpower m
+        JOIN team_codes tc ON m.manager_id = tc.code
+        WHERE m.status = 'active'
+    ),
+    team_rows AS (
+        SELECT
+            mps.advisor_code,
+            mps.advisor_name,
+            mps.unit_code,
+            mps.manager_id,
+            mps.total_submitted_apps,
+            mps.total_settled_apps,
+            mps.total_agency_credits,
+            mps.total_net_sales_credits,
+            mps.total_fy_premium_php,
+            mps.total_fy_commission_php
+        FROM public.monthly_production_summary_all mps
+        JOIN team_codes tc ON tc.code = mps.advisor_code
+        WHERE p_time_frame = 'monthly'
+          AND mps.period_type = p_period_type
+          AND mps.period_year = p_year
+          AND mps.period_month = p_month
+
+        UNION ALL
+
+        SELECT
+            aps.advisor_code,
+            aps.advisor_name,
+            aps.unit_code,
+            aps.manager_id,
+            aps.total_submitted_apps,
+            aps.total_settled_apps,
+            aps.total_agency_credits,
+            aps.total_net_sales_credits,
+            aps.total_fy_premium_php,
+            aps.total_fy_commission_php
+        FROM public.annual_production_summary_all aps
+        JOIN team_codes tc ON tc.code = aps.advisor_code
+        WHERE p_time_frame = 'annual'
+          AND aps.period_type = p_period_type
+          AND aps.period_year = p_year
+    )
+    SELECT
+        tr.advisor_code,
+        tr.advisor_name,
+        tr.unit_code,
+        tr.manager_id,
+        (
+            SELECT t.unit_name
+            FROM public.teams t
+            WHERE t.unit_code = tr.unit_code
+            LIMIT 1
+        ) AS team_name,
+        tr.total_submitted_apps,
+        tr.total_settled_apps,
+        tr.total_agency_credits,
+        tr.total_net_sales_credits,
+        tr.total_fy_premium_php,
+        tr.total_fy_commission_php,
+        COUNT(*) OVER () AS total_count
+    FROM team_rows tr
+    ORDER BY tr.advisor_code
+    LIMIT GREATEST(p_limit, 1)
+    OFFSET GREATEST(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 11. Backfill FY Totals
+-- ============================================================================
+-- Recalculates every period an advisor has FY commission in. Archived years
+-- land in the live tables again, so they are moved back afterwards.
+DO $$
+DECLARE
+    advisor_record RECORD;
+BEGIN
+    FOR advisor_record IN
+        SELECT DISTINCT resolve_advisor_code(fy.code) AS code
+        FROM public.fy_commission_details fy
+        WHERE fy.code IS NOT NULL
+    LOOP
+        CONTINUE WHEN NOT EXISTS (SELECT 1 FROM public.manpower WHERE code_number = advisor_record.code);
+
+        PERFORM recalculate_advisor_code_periods(
+            advisor_record.code,
+            ARRAY[advisor_record.code] || ARRAY(
+                SELECT alias_code FROM public.advisor_code_aliases WHERE code_number = advisor_record.code
+            )
+        );
+    END LOOP;
+
+    PERFORM archive_production_summaries();
+END;
+$$;
+
+-- ============================================================================
+-- 12. Grant Permissions
+-- ============================================================================
+GRANT SELECT ON public.monthly_production_summary_all TO authenticated, service_role;
+GRANT SELECT ON public.annual_production_summary_all TO authenticated, service_role;
+
+GRANT EXECUTE ON FUNCTION get_monthly_production_data(integer, integer, text, text[], text[], text[], integer, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_annual_production_data(integer, integer, text, text[], text[], text[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_team_production_data(text, text, integer, integer, integer, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_production_summary_health(integer, text, integer, boolean) TO authenticated;
+
+COMMENT ON FUNCTION trigger_update_summary_fy_commission() IS
+'Recalculates the calendar and systems monthly summaries affected by an fy_commission_details change';
+COMMENT ON FUNCTION get_production_summary_health(integer, text, integer, boolean) IS
+'Admin-only: source-table totals vs monthly_production_summary per advisor and month, flagging drift and missing summaries';
+COMMENT ON FUNCTION get_monthly_production_data(integer, integer, text, text[], text[], text[], integer, integer) IS
+'Main RPC function for querying monthly production data with flexible filtering options';
+COMMENT ON FUNCTION get_annual_production_data(integer, integer, text, text[], text[], text[]) IS
+'Main RPC function for querying annual production data with flexible filtering options';
+COMMENT ON FUNCTION get_team_production_data(text, text, integer, integer, integer, integer) IS
+'Monthly or annual production rows for the calling user and their subordinates, paginated with p_limit/p_offset; total_count is the row count before pagination';
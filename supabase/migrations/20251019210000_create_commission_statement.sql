@@ -0,0 +1,85 @@
+-- Migration: Create Commission Statement
+-- Description: Returns an advisor's FY and RN commission lines for a date range, restricted to the advisor, their
+--              managers and assigned staff (and admins)
+-- Date: 2025-10-19
+
+-- ============================================================================
+-- 1. Commission Statement Lines
+-- ============================================================================
+-- The commission tables are readable by every signed-in user, so access to a
+-- statement is checked here with the same rule as manpower records.
+CREATE OR REPLACE FUNCTION get_commission_statement(
+    p_advisor_code text,
+    p_period_start date,
+    p_period_end date
+) RETURNS TABLE (
+    commission_type text,
+    process_date date,
+    policy_number text,
+    insured_name text,
+    transaction_type text,
+    due_date date,
+    commission_year integer,
+    premium_php numeric,
+    rate numeric,
+    commission_php numeric
+) AS $$
+DECLARE
+    source_codes text[];
+BEGIN
+    IF NOT public.can_read_manpower(p_advisor_code, auth.uid()) THEN
+        RAISE EXCEPTION 'Access denied: You cannot view the commission statement of advisor %', p_advisor_code;
+    END IF;
+
+    IF p_period_start IS NULL OR p_period_end IS NULL OR p_period_end < p_period_start THEN
+        RAISE EXCEPTION 'Invalid statement period: % to %', p_period_start, p_period_end;
+    END IF;
+
+    -- Commission saved under the advisor's aliases belongs to the advisor too
+    source_codes := ARRAY[p_advisor_code] || ARRAY(
+        SELECT alias_code FROM public.advisor_code_aliases WHERE code_number = p_advisor_code
+    );
+
+    RETURN QUERY
+    SELECT
+        'FY'::text,
+        fy.process_date,
+        fy.policy_number,
+        fy.insured_name,
+        fy.transaction_type,
+        fy.due_date,
+        NULL::integer,
+        COALESCE(fy.fy_premium_php, 0),
+        fy.rate,
+        COALESCE(fy.fy_commission_php, 0)
+    FROM public.fy_commission_details fy
+    WHERE fy.code = ANY(source_codes)
+        AND fy.process_date >= p_period_start
+        AND fy.process_date <= p_period_end
+    UNION ALL
+    SELECT
+        'RN'::text,
+        rn.process_date,
+        rn.policy_number,
+        rn.insured_name,
+        rn.transaction_type,
+        rn.due_date,
+        rn.year,
+        COALESCE(rn.rn_premium_php, 0),
+        rn.rate,
+        COALESCE(rn.rn_commission_php, 0)
+    FROM public.rn_commission_details rn
+    WHERE rn.code = ANY(source_codes)
+        AND rn.process_date >= p_period_start
+        AND rn.process_date <= p_period_end
+    ORDER BY 1, 5 NULLS LAST, 2, 3;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- 2. Grant Permissions
+-- ============================================================================
+GRANT EXECUTE ON FUNCTION get_commission_statement(text, date, date) TO authenticated;
+
+COMMENT ON FUNCTION get_commission_statement(text, date, date) IS
+'FY and RN commission lines of an advisor and their aliases for a date range; readable by the advisor, their managers, assigned staff and admins';
@@ -0,0 +1,117 @@
+-- Migration: Create Commission Aggregate RPCs
+-- Description: Adds keyset pagination indexes to the commission and sales detail tables and an RPC that totals them
+--              in SQL for the same filters the data fetchers accept
+-- Date: 2025-10-19
+
+-- ============================================================================
+-- 1. Keyset Pagination Indexes
+-- ============================================================================
+-- The fetchers page by (process_date DESC, id DESC)
+CREATE INDEX IF NOT EXISTS idx_fy_commission_details_process_date_id
+    ON public.fy_commission_details(process_date DESC NULLS LAST, id DESC);
+CREATE INDEX IF NOT EXISTS idx_rn_commission_details_process_date_id
+    ON public.rn_commission_details(process_date DESC NULLS LAST, id DESC);
+CREATE INDEX IF NOT EXISTS idx_submitted_apps_details_process_date_id
+    ON public.submitted_apps_details(process_date DESC NULLS LAST, id DESC);
+CREATE INDEX IF NOT EXISTS idx_settled_apps_details_process_date_id
+    ON public.settled_apps_details(process_date DESC NULLS LAST, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_submitted_apps_details_policy_number ON public.submitted_apps_details(policy_number);
+CREATE INDEX IF NOT EXISTS idx_fy_commission_details_transaction_type ON public.fy_commission_details(transaction_type);
+CREATE INDEX IF NOT EXISTS idx_rn_commission_details_transaction_type ON public.rn_commission_details(transaction_type);
+
+-- ============================================================================
+-- 2. Commission and Sales Totals
+-- ============================================================================
+-- Runs as the caller, so the detail tables' RLS applies exactly as it does to
+-- the fetchers. NULL filters match everything; the transaction type filter
+-- only applies to the FY and RN tables, which are the only ones that have it.
+CREATE OR REPLACE FUNCTION get_commission_totals(
+    p_start_date date DEFAULT NULL,
+    p_end_date date DEFAULT NULL,
+    p_advisor_codes text[] DEFAULT NULL,
+    p_policy_number text DEFAULT NULL,
+    p_transaction_type text DEFAULT NULL
+) RETURNS TABLE (
+    fy_premium_total numeric,
+    fy_commission_total numeric,
+    fy_records bigint,
+    rn_premium_total numeric,
+    rn_commission_total numeric,
+    rn_records bigint,
+    submitted_apps_total numeric,
+    submitted_records bigint,
+    settled_apps_total numeric,
+    agency_credits_total numeric,
+    net_sales_credits_total numeric,
+    settled_records bigint
+) AS $$
+    WITH fy AS (
+        SELECT
+            COALESCE(SUM(fy_premium_php), 0) AS premium,
+            COALESCE(SUM(fy_commission_php), 0) AS commission,
+            COUNT(*) AS records
+        FROM public.fy_commission_details
+        WHERE (p_start_date IS NULL OR process_date >= p_start_date)
+            AND (p_end_date IS NULL OR process_date <= p_end_date)
+            AND (p_advisor_codes IS NULL OR code = ANY(p_advisor_codes))
+            AND (p_policy_number IS NULL OR policy_number = p_policy_number)
+            AND (p_transaction_type IS NULL OR transaction_type = p_transaction_type)
+    ),
+    rn AS (
+        SELECT
+            COALESCE(SUM(rn_premium_php), 0) AS premium,
+            COALESCE(SUM(rn_commission_php), 0) AS commission,
+            COUNT(*) AS records
+        FROM public.rn_commission_details
+        WHERE (p_start_date IS NULL OR process_date >= p_start_date)
+            AND (p_end_date IS NULL OR process_date <= p_end_date)
+            AND (p_advisor_codes IS NULL OR code = ANY(p_advisor_codes))
+            AND (p_policy_number IS NULL OR policy_number = p_policy_number)
+            AND (p_transaction_type IS NULL OR transaction_type = p_transaction_type)
+    ),
+    submitted AS (
+        SELECT
+            COALESCE(SUM(submitted_apps), 0) AS apps,
+            COUNT(*) AS records
+        FROM public.submitted_apps_details
+        WHERE (p_start_date IS NULL OR process_date >= p_start_date)
+            AND (p_end_date IS NULL OR process_date <= p_end_date)
+            AND (p_advisor_codes IS NULL OR advisor_code = ANY(p_advisor_codes))
+            AND (p_policy_number IS NULL OR policy_number = p_policy_number)
+    ),
+    settled AS (
+        SELECT
+            COALESCE(SUM(settled_apps), 0) AS apps,
+            COALESCE(SUM(agency_credits), 0) AS agency_credits,
+            COALESCE(SUM(net_sales_credits), 0) AS net_sales_credits,
+            COUNT(*) AS records
+        FROM public.settled_apps_details
+        WHERE (p_start_date IS NULL OR process_date >= p_start_date)
+            AND (p_end_date IS NULL OR process_date <= p_end_date)
+            AND (p_advisor_codes IS NULL OR advisor_code = ANY(p_advisor_codes))
+            AND (p_policy_number IS NULL OR policy_number = p_policy_number)
+    )
+    SELECT
+        fy.premium,
+        fy.commission,
+        fy.records,
+        rn.premium,
+        rn.commission,
+        rn.records,
+        submitted.apps,
+        submitted.records,
+        settled.apps,
+        settled.agency_credits,
+        settled.net_sales_credits,
+        settled.records
+    FROM fy, rn, submitted, settled;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- ============================================================================
+-- 3. Grant Permissions
+-- ============================================================================
+GRANT EXECUTE ON FUNCTION get_commission_totals(date, date, text[], text, text) TO authenticated;
+
+COMMENT ON FUNCTION get_commission_totals(date, date, text[], text, text) IS
+'FY, RN, submitted and settled totals and record counts for a date range, advisor codes, policy number and transaction type; respects the detail tables'' RLS';
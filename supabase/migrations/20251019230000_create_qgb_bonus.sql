@@ -0,0 +1,214 @@
+-- Migration: Create QGB Bonus Rules
+-- Description: Adds admin-editable bonus rule sets (starting with the Quarterly Growth Bonus), admin-recorded
+--              advisor persistency, and an RPC that returns the monthly production summaries of the advisors the
+--              caller may see, which the bonus calculators evaluate
+-- Date: 2025-10-19
+
+-- ============================================================================
+-- 1. Bonus Rule Sets
+-- ============================================================================
+-- One rule set per program and plan year. Tiers and qualifiers are JSON so a
+-- year's rules can be reshaped without a migration:
+--   tiers      [{"min_production": 50000, "rate": 0.05}, ...]  rate is a fraction
+--   qualifiers {"min_cases": 3, "min_persistency": 0.75}       null/absent means not required
+CREATE TABLE public.bonus_rule_sets (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    program text NOT NULL,
+    plan_year integer NOT NULL,
+    metric text NOT NULL,
+    period_type text NOT NULL DEFAULT 'calendar',
+    tiers jsonb NOT NULL DEFAULT '[]',
+    qualifiers jsonb NOT NULL DEFAULT '{}',
+    description text,
+    updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL,
+
+    -- Constraints
+    CONSTRAINT bonus_rule_sets_program_valid CHECK (program IN ('qgb')),
+    CONSTRAINT bonus_rule_sets_year_valid CHECK (plan_year >= 2000 AND plan_year <= 2100),
+    CONSTRAINT bonus_rule_sets_metric_valid CHECK (metric IN ('agency_credits', 'net_sales_credits')),
+    CONSTRAINT bonus_rule_sets_period_type_valid CHECK (period_type IN ('calendar', 'systems')),
+    CONSTRAINT bonus_rule_sets_tiers_array CHECK (jsonb_typeof(tiers) = 'array'),
+    CONSTRAINT bonus_rule_sets_qualifiers_object CHECK (jsonb_typeof(qualifiers) = 'object'),
+    CONSTRAINT bonus_rule_sets_unique_year UNIQUE (program, plan_year)
+);
+
+CREATE TRIGGER update_bonus_rule_sets_updated_at
+    BEFORE UPDATE ON public.bonus_rule_sets
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.bonus_rule_sets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "authenticated_users_with_app_role_can_view_bonus_rule_sets"
+ON public.bonus_rule_sets FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role IS NOT NULL
+    )
+);
+
+CREATE POLICY "admins_can_manage_bonus_rule_sets"
+ON public.bonus_rule_sets FOR ALL
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+)
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+);
+
+-- ============================================================================
+-- 2. Advisor Persistency
+-- ============================================================================
+-- Persistency is not part of any upload, so admins record it from the
+-- insurer's reports. Bonus qualifiers use the latest rate on or before the
+-- end of the bonus period.
+CREATE TABLE public.advisor_persistency (
+    advisor_code text NOT NULL REFERENCES public.manpower(code_number) ON UPDATE CASCADE ON DELETE CASCADE,
+    as_of_date date NOT NULL,
+    persistency_rate numeric(5,4) NOT NULL,
+    updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL,
+
+    PRIMARY KEY (advisor_code, as_of_date),
+
+    -- Constraints
+    CONSTRAINT advisor_persistency_rate_valid CHECK (persistency_rate >= 0 AND persistency_rate <= 1)
+);
+
+CREATE TRIGGER update_advisor_persistency_updated_at
+    BEFORE UPDATE ON public.advisor_persistency
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.advisor_persistency ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "users_can_view_readable_advisor_persistency"
+ON public.advisor_persistency FOR SELECT
+TO authenticated
+USING (public.can_read_manpower(advisor_code, auth.uid()));
+
+CREATE POLICY "admins_can_manage_advisor_persistency"
+ON public.advisor_persistency FOR ALL
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+)
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+);
+
+-- ============================================================================
+-- 3. Bonus Production Data
+-- ============================================================================
+-- The summary tables are readable by every signed-in user, so the scope is
+-- applied here: admins see everyone, managers their own row and subordinates,
+-- staff their assigned advisors and advisors only themselves.
+CREATE OR REPLACE FUNCTION get_bonus_production_data(
+    p_period_type text,
+    p_year integer,
+    p_month_from integer DEFAULT 1,
+    p_month_to integer DEFAULT 12
+) RETURNS TABLE (
+    advisor_code text,
+    advisor_name text,
+    advisor_class text,
+    date_hired date,
+    unit_code text,
+    manager_id text,
+    period_month integer,
+    period_start date,
+    period_end date,
+    settled_apps numeric,
+    agency_credits numeric,
+    net_sales_credits numeric,
+    fy_premium_php numeric,
+    fy_commission_php numeric,
+    rn_commission_php numeric,
+    submitted_apps numeric
+) AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role IS NOT NULL
+    ) THEN
+        RAISE EXCEPTION 'Access denied: An app role is required to view bonus production';
+    END IF;
+
+    IF p_period_type NOT IN ('calendar', 'systems') THEN
+        RAISE EXCEPTION 'Invalid period type: %', p_period_type;
+    END IF;
+
+    RETURN QUERY
+    WITH period_rows AS (
+        SELECT s.*
+        FROM public.monthly_production_summary_all s
+        WHERE s.period_type = p_period_type
+            AND s.period_year = p_year
+            AND s.period_month BETWEEN p_month_from AND p_month_to
+    ),
+    -- Check each advisor once rather than once per month
+    visible AS (
+        SELECT codes.advisor_code
+        FROM (SELECT DISTINCT pr.advisor_code FROM period_rows pr) codes
+        WHERE public.can_read_manpower(codes.advisor_code, auth.uid())
+    )
+    SELECT
+        pr.advisor_code,
+        COALESCE(m.advisor_name, pr.advisor_name),
+        m.class,
+        m.date_hired,
+        COALESCE(m.unit_code, pr.unit_code),
+        COALESCE(m.manager_id, pr.manager_id),
+        pr.period_month,
+        pr.period_start,
+        pr.period_end,
+        COALESCE(pr.total_settled_apps, 0),
+        COALESCE(pr.total_agency_credits, 0),
+        COALESCE(pr.total_net_sales_credits, 0),
+        COALESCE(pr.total_fy_premium_php, 0),
+        COALESCE(pr.total_fy_commission_php, 0),
+        COALESCE(pr.total_rn_commission_php, 0),
+        COALESCE(pr.total_submitted_apps, 0)
+    FROM period_rows pr
+    JOIN visible v ON v.advisor_code = pr.advisor_code
+    LEFT JOIN public.manpower m ON m.code_number = pr.advisor_code
+    ORDER BY pr.advisor_code, pr.period_month;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- 4. Grant Permissions
+-- ============================================================================
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.bonus_rule_sets TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.advisor_persistency TO authenticated;
+GRANT EXECUTE ON FUNCTION get_bonus_production_data(text, integer, integer, integer) TO authenticated;
+
+COMMENT ON TABLE public.bonus_rule_sets IS 'Admin-editable bonus rules per program and plan year: qualifying metric, period type, rate tiers and qualifiers';
+COMMENT ON COLUMN public.bonus_rule_sets.tiers IS 'Array of {min_production, rate}; the highest tier reached pays its rate on the whole period production';
+COMMENT ON COLUMN public.bonus_rule_sets.qualifiers IS 'Object of {min_cases, min_persistency}; a null or missing key is not required';
+COMMENT ON TABLE public.advisor_persistency IS 'Advisor persistency rates recorded by admins from insurer reports, as fractions';
+COMMENT ON FUNCTION get_bonus_production_data(text, integer, integer, integer) IS
+'Monthly production summaries (live and archived) with class and hire date for the advisors the caller may see';
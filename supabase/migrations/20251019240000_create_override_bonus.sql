@@ -0,0 +1,35 @@
+-- Migration: Create Override Bonus Rules
+-- Description: Lets bonus_rule_sets hold the manager override program: override rates per manager class and
+--              generation, applied to subordinate AC, NSC or FY commission
+-- Date: 2025-10-19
+
+-- ============================================================================
+-- 1. Override Program and Metric
+-- ============================================================================
+ALTER TABLE public.bonus_rule_sets
+    DROP CONSTRAINT bonus_rule_sets_program_valid,
+    DROP CONSTRAINT bonus_rule_sets_metric_valid;
+
+ALTER TABLE public.bonus_rule_sets
+    ADD CONSTRAINT bonus_rule_sets_program_valid CHECK (program IN ('qgb', 'override')),
+    ADD CONSTRAINT bonus_rule_sets_metric_valid CHECK (
+        metric IN ('agency_credits', 'net_sales_credits', 'fy_commission_php')
+    );
+
+-- ============================================================================
+-- 2. Rates per Manager Class and Generation
+-- ============================================================================
+-- {"UM": [0.05], "SM": [0.05, 0.02], "NBM": [0.05, 0.02, 0.01]}
+-- Element n is the rate on production of subordinates n + 1 levels below the
+-- manager (level_depth in get_all_subordinates); deeper levels earn nothing.
+ALTER TABLE public.bonus_rule_sets
+    ADD COLUMN class_rates jsonb NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.bonus_rule_sets
+    ADD CONSTRAINT bonus_rule_sets_class_rates_object CHECK (jsonb_typeof(class_rates) = 'object');
+
+-- ============================================================================
+-- 3. Comments
+-- ============================================================================
+COMMENT ON COLUMN public.bonus_rule_sets.metric IS 'Production the program is computed on: agency_credits, net_sales_credits or fy_commission_php (override only)';
+COMMENT ON COLUMN public.bonus_rule_sets.class_rates IS 'Override rates keyed by manager class, one rate per generation below the manager; unused by other programs';
@@ -0,0 +1,35 @@
+-- Migration: Create Plan B Bonus Rules
+-- Description: Lets bonus_rule_sets hold the Plan B program: eligibility windows within the plan year, each with its
+--              payout schedule, and the production the payout is computed on
+-- Date: 2025-10-19
+
+-- ============================================================================
+-- 1. Plan B Program
+-- ============================================================================
+ALTER TABLE public.bonus_rule_sets
+    DROP CONSTRAINT bonus_rule_sets_program_valid;
+
+ALTER TABLE public.bonus_rule_sets
+    ADD CONSTRAINT bonus_rule_sets_program_valid CHECK (program IN ('qgb', 'override', 'plan_b'));
+
+-- ============================================================================
+-- 2. Eligibility Windows and Payout Basis
+-- ============================================================================
+-- [{"label": "H1", "start_month": 1, "end_month": 6, "payout_after_months": 2}, ...]
+-- Months are period months of the rule set's period type. A window pays out at
+-- the end of the month payout_after_months after its last month.
+ALTER TABLE public.bonus_rule_sets
+    ADD COLUMN windows jsonb NOT NULL DEFAULT '[]',
+    ADD COLUMN payout_metric text;
+
+ALTER TABLE public.bonus_rule_sets
+    ADD CONSTRAINT bonus_rule_sets_windows_array CHECK (jsonb_typeof(windows) = 'array'),
+    ADD CONSTRAINT bonus_rule_sets_payout_metric_valid CHECK (
+        payout_metric IS NULL OR payout_metric IN ('agency_credits', 'net_sales_credits', 'fy_commission_php')
+    );
+
+-- ============================================================================
+-- 3. Comments
+-- ============================================================================
+COMMENT ON COLUMN public.bonus_rule_sets.windows IS 'Plan B eligibility windows: {label, start_month, end_month, payout_after_months}; unused by other programs';
+COMMENT ON COLUMN public.bonus_rule_sets.payout_metric IS 'Production a tier''s rate is paid on when it differs from the qualifying metric; NULL pays on the qualifying metric';
@@ -0,0 +1,29 @@
+-- Migration: Create EAMB Bonus Rules
+-- Description: Lets bonus_rule_sets hold the EAMB program: a monthly bonus on AC and lives for advisors within a
+--              tenure range and of the eligible classes
+-- Date: 2025-10-19
+
+-- ============================================================================
+-- 1. EAMB Program
+-- ============================================================================
+ALTER TABLE public.bonus_rule_sets
+    DROP CONSTRAINT bonus_rule_sets_program_valid;
+
+ALTER TABLE public.bonus_rule_sets
+    ADD CONSTRAINT bonus_rule_sets_program_valid CHECK (program IN ('qgb', 'override', 'plan_b', 'eamb'));
+
+-- ============================================================================
+-- 2. Eligibility
+-- ============================================================================
+-- {"classes": ["A", "B"], "min_tenure_months": 1, "max_tenure_months": 12}
+-- Tenure month 1 is the month of date_hired. Omitted keys do not restrict.
+ALTER TABLE public.bonus_rule_sets
+    ADD COLUMN eligibility jsonb NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.bonus_rule_sets
+    ADD CONSTRAINT bonus_rule_sets_eligibility_object CHECK (jsonb_typeof(eligibility) = 'object');
+
+-- ============================================================================
+-- 3. Comments
+-- ============================================================================
+COMMENT ON COLUMN public.bonus_rule_sets.eligibility IS 'Who a program applies to: {classes, min_tenure_months, max_tenure_months}; empty applies to everyone';
@@ -0,0 +1,187 @@
+-- Migration: Create Bonus Snapshots
+-- Description: Freezes a bonus program's computed results for a closed period so late uploads no longer change
+--              them, and lets any bonus program be limited by the app role of the advisor's linked account
+-- Date: 2025-10-19
+
+-- ============================================================================
+-- 1. Bonus Snapshots
+-- ============================================================================
+-- One snapshot per program, plan year and period. period_key follows the
+-- program's periods: "Q1".."Q4" (QGB), the window label (Plan B), "01".."12"
+-- (EAMB and override months) and "FY" (override whole year). The rule set is
+-- copied in so later rule edits do not change frozen figures either.
+CREATE TABLE public.bonus_snapshots (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    program text NOT NULL,
+    plan_year integer NOT NULL,
+    period_key text NOT NULL,
+    rule_set jsonb NOT NULL,
+    period_info jsonb NOT NULL DEFAULT '{}',
+    taken_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    taken_at timestamptz DEFAULT now() NOT NULL,
+
+    -- Constraints
+    CONSTRAINT bonus_snapshots_program_valid CHECK (program IN ('qgb', 'override', 'plan_b', 'eamb')),
+    CONSTRAINT bonus_snapshots_year_valid CHECK (plan_year >= 2000 AND plan_year <= 2100),
+    CONSTRAINT bonus_snapshots_period_info_object CHECK (jsonb_typeof(period_info) = 'object'),
+    CONSTRAINT bonus_snapshots_unique_period UNIQUE (program, plan_year, period_key)
+);
+
+-- Results are kept per advisor so each user only reads the advisors they may see
+CREATE TABLE public.bonus_snapshot_results (
+    snapshot_id uuid NOT NULL REFERENCES public.bonus_snapshots(id) ON DELETE CASCADE,
+    advisor_code text NOT NULL,
+    result jsonb NOT NULL,
+
+    PRIMARY KEY (snapshot_id, advisor_code)
+);
+
+CREATE INDEX idx_bonus_snapshot_results_advisor ON public.bonus_snapshot_results(advisor_code);
+
+ALTER TABLE public.bonus_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bonus_snapshot_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "authenticated_users_with_app_role_can_view_bonus_snapshots"
+ON public.bonus_snapshots FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role IS NOT NULL
+    )
+);
+
+CREATE POLICY "admins_can_manage_bonus_snapshots"
+ON public.bonus_snapshots FOR ALL
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+)
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+);
+
+CREATE POLICY "users_can_view_readable_bonus_snapshot_results"
+ON public.bonus_snapshot_results FOR SELECT
+TO authenticated
+USING (public.can_read_manpower(advisor_code, auth.uid()));
+
+CREATE POLICY "admins_can_manage_bonus_snapshot_results"
+ON public.bonus_snapshot_results FOR ALL
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+)
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    )
+);
+
+-- ============================================================================
+-- 2. Save Snapshot
+-- ============================================================================
+-- Replaces a period's snapshot in one transaction so a failed write never
+-- leaves a half-frozen period. p_results is [{"advisor_code": ..., "result": {...}}, ...].
+CREATE OR REPLACE FUNCTION save_bonus_snapshot(
+    p_program text,
+    p_plan_year integer,
+    p_period_key text,
+    p_rule_set jsonb,
+    p_period_info jsonb,
+    p_results jsonb
+) RETURNS uuid AS $$
+DECLARE
+    v_snapshot_id uuid;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'Access denied: Only admins can freeze bonus results';
+    END IF;
+
+    IF jsonb_typeof(p_results) <> 'array' THEN
+        RAISE EXCEPTION 'Snapshot results must be an array';
+    END IF;
+
+    INSERT INTO public.bonus_snapshots (program, plan_year, period_key, rule_set, period_info, taken_by, taken_at)
+    VALUES (p_program, p_plan_year, p_period_key, p_rule_set, COALESCE(p_period_info, '{}'), auth.uid(), now())
+    ON CONFLICT (program, plan_year, period_key) DO UPDATE
+    SET rule_set = EXCLUDED.rule_set,
+        period_info = EXCLUDED.period_info,
+        taken_by = EXCLUDED.taken_by,
+        taken_at = EXCLUDED.taken_at
+    RETURNING id INTO v_snapshot_id;
+
+    DELETE FROM public.bonus_snapshot_results WHERE snapshot_id = v_snapshot_id;
+
+    INSERT INTO public.bonus_snapshot_results (snapshot_id, advisor_code, result)
+    SELECT v_snapshot_id, entry->>'advisor_code', entry->'result'
+    FROM jsonb_array_elements(p_results) AS entry;
+
+    RETURN v_snapshot_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- ============================================================================
+-- 3. Advisor App Roles
+-- ============================================================================
+-- The roles app_roles eligibility is checked against, for every advisor a
+-- calculator evaluates in one call rather than a manpower and a profiles
+-- lookup per advisor. Limited to advisors the caller may see; advisors without
+-- a linked account are not returned.
+CREATE OR REPLACE FUNCTION get_bonus_app_roles(p_codes text[])
+RETURNS TABLE (
+    advisor_code text,
+    app_role text
+) AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.user_id = auth.uid()
+        AND profiles.app_role IS NOT NULL
+    ) THEN
+        RAISE EXCEPTION 'Access denied: An app role is required to view bonus eligibility';
+    END IF;
+
+    RETURN QUERY
+    SELECT m.code_number, p.app_role::text
+    FROM public.manpower m
+    JOIN public.profiles p ON p.user_id = m.profile_user_id
+    WHERE m.code_number = ANY(p_codes)
+        AND public.can_read_manpower(m.code_number, auth.uid());
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- 4. Grant Permissions
+-- ============================================================================
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.bonus_snapshots TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.bonus_snapshot_results TO authenticated;
+GRANT EXECUTE ON FUNCTION save_bonus_snapshot(text, integer, text, jsonb, jsonb, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_bonus_app_roles(text[]) TO authenticated;
+
+COMMENT ON TABLE public.bonus_snapshots IS 'Frozen bonus results per program, plan year and period, with the rule set they were computed under';
+COMMENT ON TABLE public.bonus_snapshot_results IS 'One advisor''s frozen result in a bonus snapshot, shaped like the program''s live result';
+COMMENT ON COLUMN public.bonus_rule_sets.eligibility IS 'Who a program applies to: {classes, app_roles, min_tenure_months, max_tenure_months}; empty applies to everyone';
+COMMENT ON FUNCTION save_bonus_snapshot(text, integer, text, jsonb, jsonb, jsonb) IS
+'Create or replace the snapshot of a bonus period with its per-advisor results (admins only)';
+COMMENT ON FUNCTION get_bonus_app_roles(text[]) IS
+'App role of the linked account of each given advisor the caller may see';